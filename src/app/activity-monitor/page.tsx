@@ -1,10 +1,12 @@
 import { AgentActivityMonitor } from '@/components/agent-activity-monitor';
 import { AgentChatAnnouncements } from '@/components/agent-chat-announcements';
+import { WorkflowRunList } from '@/components/workflow-run-list';
 
 export default function ActivityMonitorPage() {
   return (
     <div className="container mx-auto py-8">
       <AgentActivityMonitor />
+      <WorkflowRunList />
       <AgentChatAnnouncements />
     </div>
   );
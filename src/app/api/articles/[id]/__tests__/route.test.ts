@@ -0,0 +1,80 @@
+import { GET, PUT } from '../route';
+import { saveAnalysisSnapshot } from '@/lib/analysis-history';
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest } from 'next/server';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+// Articles in the database, queried with the subset of MongoDB filters the routes use
+const store = vi.hoisted(() => ({ articles: [] as Record<string, any>[] }));
+
+vi.mock('@clerk/nextjs/server', () => ({ auth: vi.fn() }));
+vi.mock('@/lib/mongodb', () => ({ default: vi.fn() }));
+vi.mock('@/lib/analysis-history', () => ({ saveAnalysisSnapshot: vi.fn() }));
+vi.mock('@/config/site', () => ({
+  SITE_CONFIG: { domains: ['tasc.com'], includeSubdomains: true, pathPrefixes: [], competitorDomains: [], stylePhrases: [] }
+}));
+vi.mock('@/lib/db-models', () => {
+  const matches = (doc: Record<string, any>, query: Record<string, any>): boolean => Object.entries(query).every(([field, condition]) => {
+    if (field === '$or') return condition.some((alternative: Record<string, any>) => matches(doc, alternative));
+    if (condition && typeof condition === 'object' && '$ne' in condition) return doc[field] !== condition.$ne;
+    return (doc[field] ?? null) === condition;
+  });
+  const Article = {
+    find: (query: Record<string, any>) => ({
+      select: () => ({ lean: async () => store.articles.filter(article => matches(article, query)) })
+    }),
+    findOne: (query: Record<string, any>) => {
+      const found = store.articles.find(article => matches(article, query)) ?? null;
+      return Object.assign(Promise.resolve(found), { lean: async () => found });
+    }
+  };
+  return { getArticleModel: async () => Article };
+});
+
+describe('/api/articles/[id]', () => {
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+  const put = (id: string, body: object) =>
+    PUT(new NextRequest(`http://localhost/api/articles/${id}`, { method: 'PUT', body: JSON.stringify(body) }), params(id));
+
+  beforeEach(() => {
+    vi.mocked(saveAnalysisSnapshot).mockClear();
+    vi.mocked(auth).mockResolvedValue({ userId: 'user-1', orgId: 'org-1' } as any);
+    store.articles = [
+      { _id: 'article-1', userId: 'user-1', orgId: 'org-1', slug: 'payroll-outsourcing', title: 'Payroll outsourcing', articleType: 'informational', save: vi.fn() },
+      { _id: 'article-2', userId: 'user-2', orgId: 'org-1', slug: 'outsourced-payroll', title: 'Outsourced payroll guide', focusKeyword: 'payroll outsourcing', semanticKeywords: [] }
+    ];
+  });
+
+  it('should score the article against our own site, counting absolute links to it as internal', async () => {
+    const response = await put('article-1', {
+      title: 'Payroll outsourcing',
+      content: '# Payroll outsourcing\n\nRead our [payroll guide](https://www.tasc.com/payroll) before you choose a provider.',
+      focusKeyword: 'leave policy'
+    });
+
+    expect(response.status).toBe(200);
+    const { analysis } = vi.mocked(saveAnalysisSnapshot).mock.calls[0][0];
+    expect(analysis.links).toEqual([expect.objectContaining({ url: 'https://www.tasc.com/payroll', type: 'internal' })]);
+    expect(store.articles[0].seoScore).toBe(analysis.seoScore);
+  });
+
+  it('should link a conflict with a teammate\'s article to a page the user can open', async () => {
+    const response = await put('article-1', {
+      title: 'Payroll outsourcing',
+      content: '# Payroll outsourcing\n\nPayroll outsourcing moves salary runs to a provider.',
+      focusKeyword: 'payroll outsourcing'
+    });
+
+    const { warnings } = await response.json();
+    expect(warnings[0].references).toEqual([{ title: 'Outsourced payroll guide', url: '/articles/article-2/edit' }]);
+
+    const teammateArticle = await GET(new NextRequest('http://localhost/api/articles/article-2'), params('article-2'));
+    expect(teammateArticle.status).toBe(200);
+    expect((await teammateArticle.json()).article).toMatchObject({ _id: 'article-2', userId: 'user-2' });
+
+    // Only the owner may change it, and other teams cannot read it
+    expect((await put('article-2', { title: 'Changed' })).status).toBe(404);
+    vi.mocked(auth).mockResolvedValue({ userId: 'user-1', orgId: 'org-2' } as any);
+    expect((await GET(new NextRequest('http://localhost/api/articles/article-2'), params('article-2'))).status).toBe(404);
+  });
+});
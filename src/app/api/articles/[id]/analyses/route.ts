@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import connectDB from '@/lib/mongodb'
+import { getArticleModel } from '@/lib/db-models'
+import { findAnalysisSnapshots } from '@/lib/analysis-history'
+import { readableArticleQuery } from '@/lib/article-library'
+
+/**
+ * The analysis history of an article, oldest first
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId, orgId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const params = await context.params
+    await connectDB()
+
+    const Article = await getArticleModel()
+    const article = await Article.exists(readableArticleQuery({ userId, orgId }, params.id))
+
+    if (!article) {
+      return NextResponse.json({ error: 'Article not found' }, { status: 404 })
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get('limit'))
+    const analyses = await findAnalysisSnapshots(params.id, Number.isInteger(limit) && limit > 0 ? Math.min(limit, 200) : undefined)
+
+    return NextResponse.json({ analyses })
+  } catch (error) {
+    console.error('Error fetching article analyses:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
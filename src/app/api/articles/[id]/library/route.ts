@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import connectDB from '@/lib/mongodb'
+import { findLibraryArticles } from '@/lib/article-library'
+
+/**
+ * The user's or team's other articles, for the SEO panel's cannibalization check
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId, orgId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const params = await context.params
+    await connectDB()
+
+    const articles = await findLibraryArticles({ userId, orgId }, params.id)
+
+    return NextResponse.json({ articles })
+  } catch (error) {
+    console.error('Error fetching article library:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import connectDB from '@/lib/mongodb'
 import { getArticleModel } from '@/lib/db-models'
-import { SEOAnalyzer, SEOData } from '@/lib/seo-analyzer'
+import { AnalysisResult, ARTICLE_TYPES, SEOAnalyzer, SEOData } from '@/lib/seo-analyzer'
+import { findLibraryArticles, readableArticleQuery } from '@/lib/article-library'
+import { saveAnalysisSnapshot } from '@/lib/analysis-history'
+import { SITE_CONFIG } from '@/config/site'
 
 export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
   try {
-    const { userId } = await auth()
+    const { userId, orgId } = await auth()
     
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
@@ -16,7 +19,8 @@ export async function GET(request: NextRequest, context: { params: Promise<{ id:
     await connectDB()
 
     const Article = await getArticleModel()
-    const article = await Article.findOne({ _id: params.id, userId }).lean()
+    // Teammates open the article from the conflicts of their own articles
+    const article = await Article.findOne(readableArticleQuery({ userId, orgId }, params.id)).lean()
     
     if (!article) {
       return NextResponse.json({ error: 'Article not found' }, { status: 404 })
@@ -31,14 +35,18 @@ export async function GET(request: NextRequest, context: { params: Promise<{ id:
 
 export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
   try {
-    const { userId } = await auth()
+    const { userId, orgId } = await auth()
     
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     const body = await request.json()
-    const { title, content, metaDescription, focusKeyword, semanticKeywords } = body
+    const { title, content, metaDescription, focusKeyword, semanticKeywords, articleType } = body
+
+    if (articleType && !ARTICLE_TYPES.includes(articleType)) {
+      return NextResponse.json({ error: 'Invalid article type' }, { status: 400 })
+    }
 
     const params = await context.params
     await connectDB()
@@ -56,24 +64,43 @@ export async function PUT(request: NextRequest, context: { params: Promise<{ id:
     article.metaDescription = metaDescription
     article.focusKeyword = focusKeyword
     article.semanticKeywords = semanticKeywords || []
+    if (articleType) {
+      article.articleType = articleType
+    }
 
-    // Recalculate SEO scores if content was updated
+    // Recalculate SEO scores if content was updated, checking the other
+    // articles of the user or team for competing focus keywords
+    let analysis: AnalysisResult | undefined
+    let cannibalization
     if (content) {
       const seoData: SEOData = {
         content,
         title,
         metaDescription,
-        keyword: focusKeyword
+        keyword: focusKeyword,
+        semanticKeywords: article.semanticKeywords,
+        url: article.slug,
+        articleType: article.articleType,
+        otherArticles: await findLibraryArticles({ userId, orgId }, params.id)
       }
 
-      const analysis = SEOAnalyzer.analyze(seoData)
+      // Scored like the SEO panel, so links to our own site count as internal
+      analysis = SEOAnalyzer.analyze(seoData, false, { siteConfig: SITE_CONFIG })
       article.seoScore = analysis.seoScore
       article.readabilityScore = analysis.readabilityScore
+      cannibalization = analysis.seoAssessments.find(a => a.id === 'keyphrase-cannibalization')
     }
 
     await article.save()
 
-    return NextResponse.json({ article })
+    if (analysis) {
+      await saveAnalysisSnapshot({ articleId: params.id, userId, content, analysis })
+    }
+
+    return NextResponse.json({
+      article,
+      warnings: cannibalization && cannibalization.rating !== 'good' ? [cannibalization] : []
+    })
   } catch (error) {
     console.error('Error updating article:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -3,6 +3,7 @@ import { auth } from '@clerk/nextjs/server'
 import connectDB from '@/lib/mongodb'
 import { getArticleModel } from '@/lib/db-models'
 import { z } from 'zod'
+import { ARTICLE_TYPES } from '@/lib/seo-analyzer'
 import { inputSchemas, auditLogger, securityHeaders } from '@/lib/security'
 
 export async function GET(request: NextRequest) {
@@ -49,12 +50,13 @@ const createArticleSchema = z.object({
   content: z.string().optional(),
   metaDescription: z.string().max(160).optional(),
   focusKeyword: z.string().min(1).max(100),
-  semanticKeywords: z.array(z.string()).max(10).optional()
+  semanticKeywords: z.array(z.string()).max(10).optional(),
+  articleType: z.enum(ARTICLE_TYPES).optional()
 })
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await auth()
+    const { userId, orgId } = await auth()
     
     if (!userId) {
       auditLogger.log({
@@ -84,7 +86,7 @@ export async function POST(request: NextRequest) {
       }, { status: 400, headers: securityHeaders })
     }
     
-    const { title, slug, content, metaDescription, focusKeyword, semanticKeywords } = validationResult.data
+    const { title, slug, content, metaDescription, focusKeyword, semanticKeywords, articleType } = validationResult.data
 
     // Handle MongoDB connection errors gracefully
     try {
@@ -111,7 +113,9 @@ export async function POST(request: NextRequest) {
       metaDescription,
       focusKeyword,
       semanticKeywords: semanticKeywords || [],
+      articleType,
       userId,
+      orgId: orgId ?? undefined,
       userEmail: 'user@example.com', // Default email since user object not available
       status: 'draft'
     })
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import { securityHeaders, auditLogger } from '@/lib/security'
+import { usageLedger } from '@/lib/usage-ledger'
+
+const usageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+  months: z.coerce.number().int().min(1).max(24).default(12),
+  runId: z.string().min(1).optional()
+})
+
+/**
+ * The user's agent token usage and estimated cost: daily and monthly
+ * rollups, this month's totals per agent and model, and their budget.
+ * With `runId`, also the totals per agent of that run.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'usage' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const validationResult = usageQuerySchema.safeParse({
+      days: searchParams.get('days') ?? undefined,
+      months: searchParams.get('months') ?? undefined,
+      runId: searchParams.get('runId') ?? undefined
+    })
+    if (!validationResult.success) {
+      return NextResponse.json({
+        error: 'Invalid query',
+        details: validationResult.error.flatten()
+      }, { status: 400, headers: securityHeaders })
+    }
+    const { days, months, runId } = validationResult.data
+
+    // Periods are UTC days and months, counting the current one
+    const now = new Date()
+    const dailySince = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - days + 1))
+    const monthlySince = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months + 1, 1))
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+
+    const [budget, daily, monthly, agents, models, run] = await Promise.all([
+      usageLedger.getBudgetStatus(userId, now),
+      usageLedger.rollup({ userId, period: 'day', since: dailySince }),
+      usageLedger.rollup({ userId, period: 'month', since: monthlySince }),
+      usageLedger.breakdown({ by: 'agent', userId, since: monthStart }),
+      usageLedger.breakdown({ by: 'model', userId, since: monthStart }),
+      runId ? usageLedger.breakdown({ by: 'agent', userId, runId }) : undefined
+    ])
+
+    return NextResponse.json({
+      budget,
+      daily,
+      monthly,
+      thisMonth: { agents, models },
+      ...(runId && { run: { runId, agents: run } })
+    }, { headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Usage error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
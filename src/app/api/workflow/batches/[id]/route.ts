@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { securityHeaders, auditLogger } from '@/lib/security'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+
+/**
+ * A batch with the status, run and saved article of each row
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'workflow-batch' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const { id } = await context.params
+    const batch = await workflowRunRegistry.getBatch(id)
+    if (!batch || batch.userId !== userId) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404, headers: securityHeaders })
+    }
+
+    return NextResponse.json({ batch }, { headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Workflow batch error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
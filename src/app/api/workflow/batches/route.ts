@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth, currentUser } from '@clerk/nextjs/server'
+import { mastra } from '@/mastra'
+import { z } from 'zod'
+import { securityHeaders, auditLogger } from '@/lib/security'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+import { usageLedger } from '@/lib/usage-ledger'
+import { MAX_BATCH_CONCURRENCY, parseBatchCsv } from '@/lib/workflow-batches'
+import { runBatch } from '@/mastra/workflows/batch'
+
+const batchSchema = z.object({
+  csv: z.string().min(1).max(200000),
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).default(3)
+})
+
+/**
+ * Queues an SEO article run for each row of a content calendar CSV (keyword,
+ * article type, audience, priority). The runs execute in the background, at
+ * most `concurrency` at once; finished articles are saved to the library.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, orgId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'workflow-batches' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const validationResult = batchSchema.safeParse(await request.json())
+    if (!validationResult.success) {
+      return NextResponse.json({
+        error: 'Invalid input',
+        details: validationResult.error.flatten()
+      }, { status: 400, headers: securityHeaders })
+    }
+    const { csv, concurrency } = validationResult.data
+
+    const { rows, errors } = parseBatchCsv(csv)
+    if (errors.length > 0) {
+      auditLogger.log({ type: 'invalid_input', userId, details: { route: 'workflow-batches', errors } })
+      return NextResponse.json({ error: 'Invalid CSV', details: errors }, { status: 400, headers: securityHeaders })
+    }
+
+    // Runs are refused while the user is over their usage budget; each row checks again before it starts
+    const budget = await usageLedger.getBudgetStatus(userId)
+    if (budget.exceeded) {
+      return NextResponse.json({ error: 'Usage budget exceeded', budget }, { status: 429, headers: securityHeaders })
+    }
+
+    const user = await currentUser()
+    const batch = await workflowRunRegistry.createBatch({
+      userId,
+      orgId: orgId ?? undefined,
+      userEmail: user?.primaryEmailAddress?.emailAddress ?? 'user@example.com',
+      concurrency,
+      rows
+    })
+
+    void runBatch(mastra.getWorkflow('seoArticleWorkflow'), workflowRunRegistry, batch.batchId)
+      .catch(error => console.error(`❌ Batch ${batch.batchId} failed:`, error))
+
+    return NextResponse.json({ success: true, batch }, { status: 202, headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Workflow batch error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
+
+/**
+ * Lists the user's batches with the status of each row, newest first
+ */
+export async function GET() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'workflow-batches' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const batches = await workflowRunRegistry.listBatches({ userId })
+    return NextResponse.json({ batches }, { headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Workflow batch list error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
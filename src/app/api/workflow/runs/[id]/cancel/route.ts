@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { mastra } from '@/mastra'
+import { securityHeaders, auditLogger } from '@/lib/security'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+
+/**
+ * Cancels a running or suspended run. A running run stops at its next step
+ * boundary; a run another process executes is canceled there at its next
+ * lease heartbeat.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'workflow-run-cancel' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const { id } = await context.params
+    const record = await workflowRunRegistry.get(id)
+    if (!record || record.userId !== userId) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404, headers: securityHeaders })
+    }
+    if (record.status !== 'running' && record.status !== 'suspended') {
+      return NextResponse.json({ error: 'Workflow run has already finished', status: record.status }, { status: 409, headers: securityHeaders })
+    }
+
+    const run = await mastra.getWorkflow('seoArticleWorkflow').createRunAsync({ runId: id })
+    run.cancel()
+    await workflowRunRegistry.cancel(id)
+
+    return NextResponse.json({ success: true, runId: id, status: 'canceled' }, { headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Workflow cancel error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { mastra } from '@/mastra'
+import { securityHeaders, auditLogger } from '@/lib/security'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+import { usageLedger } from '@/lib/usage-ledger'
+import { getReplaySteps } from '@/mastra/workflows/seo-article-workflow'
+import { completeBatchRow } from '@/mastra/workflows/batch'
+import { executeWithEvents } from '@/mastra/workflows/run-events'
+
+/**
+ * Starts a new run of a failed or canceled run that reuses the outputs of the
+ * steps before `stepId`. The new run continues in the background; its progress
+ * is read from the run registry or followed from the stream route.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string; stepId: string }> }) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'workflow-run-retry' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const { id, stepId } = await context.params
+    const record = await workflowRunRegistry.get(id)
+    if (!record || record.userId !== userId || record.workflowId !== 'seoArticleWorkflow') {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404, headers: securityHeaders })
+    }
+    if (record.status !== 'failed' && record.status !== 'canceled') {
+      return NextResponse.json({ error: 'Only failed or canceled runs can be retried', status: record.status }, { status: 409, headers: securityHeaders })
+    }
+
+    // Runs are refused while the user is over their usage budget
+    const budget = await usageLedger.getBudgetStatus(userId)
+    if (budget.exceeded) {
+      return NextResponse.json({ error: 'Usage budget exceeded', budget }, { status: 429, headers: securityHeaders })
+    }
+
+    const workflow = mastra.getWorkflow('seoArticleWorkflow')
+    const execution = await workflow.getWorkflowRunExecutionResult(id)
+    const replay = execution ? getReplaySteps(execution.steps, stepId) : undefined
+    if (!replay) {
+      return NextResponse.json({ error: `Cannot retry from ${stepId}: the steps before it did not all succeed` }, { status: 409, headers: securityHeaders })
+    }
+
+    const input = { ...record.input, userId, replay }
+    const run = await workflow.createRunAsync()
+    await workflowRunRegistry.register({
+      runId: run.runId,
+      workflowId: record.workflowId,
+      userId,
+      // The replayed outputs let a retry interrupted by a restart resume as well
+      input,
+      retryOf: id,
+      retryFrom: stepId
+    })
+
+    // A retried batch row follows the new run
+    const batchRow = await workflowRunRegistry.findBatchRow(id)
+    if (batchRow) {
+      await workflowRunRegistry.updateBatchRow(batchRow.batch.batchId, batchRow.row.index, { runId: run.runId, error: null })
+    }
+
+    void executeWithEvents(workflowRunRegistry, run, writableStream =>
+      run.start({ inputData: input as Parameters<typeof run.start>[0]['inputData'], writableStream }))
+      .then(result => result.status === 'success' ? completeBatchRow(workflowRunRegistry, run.runId, result.result) : undefined)
+      .catch(error => console.error(`❌ Retry of workflow run ${id} failed:`, error))
+
+    return NextResponse.json({ success: true, runId: run.runId, retryOf: id, retryFrom: stepId, status: 'running' }, { status: 202, headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Workflow retry error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
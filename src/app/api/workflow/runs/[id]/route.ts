@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { mastra } from '@/mastra'
+import { securityHeaders, auditLogger } from '@/lib/security'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+import { getPendingReview } from '@/mastra/workflows/seo-article-workflow'
+
+/**
+ * A run with its step statuses and timings, and the review it waits for when suspended
+ */
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'workflow-run' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const { id } = await context.params
+    const run = await workflowRunRegistry.get(id)
+    if (!run || run.userId !== userId) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404, headers: securityHeaders })
+    }
+
+    let review
+    if (run.status === 'suspended') {
+      const execution = await mastra.getWorkflow('seoArticleWorkflow').getWorkflowRunExecutionResult(id)
+      review = execution ? getPendingReview(execution.steps)?.review : undefined
+    }
+
+    return NextResponse.json({ run, review }, { headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Workflow run error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import { securityHeaders, auditLogger } from '@/lib/security'
+import { WORKFLOW_RUN_STATUSES, workflowRunRegistry } from '@/lib/workflow-runs'
+
+const listQuerySchema = z.object({
+  status: z.enum(WORKFLOW_RUN_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+/**
+ * Lists the user's workflow runs, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'workflow-runs' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const validationResult = listQuerySchema.safeParse({
+      status: searchParams.get('status') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined
+    })
+    if (!validationResult.success) {
+      return NextResponse.json({
+        error: 'Invalid query',
+        details: validationResult.error.flatten()
+      }, { status: 400, headers: securityHeaders })
+    }
+
+    const runs = await workflowRunRegistry.list({ userId, ...validationResult.data })
+    return NextResponse.json({ runs }, { headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Workflow run list error:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { mastra } from '@/mastra'
+import { REVIEW_ARTIFACT_SCHEMAS, getPendingReview, reviewDecisionSchema } from '@/mastra/workflows/seo-article-workflow'
+import { sanitizeInput, securityHeaders, auditLogger } from '@/lib/security'
+import { agentActivityLogger } from '@/lib/agent-activity-logger'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+import { usageLedger } from '@/lib/usage-ledger'
+import { completeBatchRow } from '@/mastra/workflows/batch'
+import { executeWithEvents } from '@/mastra/workflows/run-events'
+
+export const maxDuration = 300 // 5 minutes for the rest of the workflow
+
+/**
+ * Resumes a run suspended at a review checkpoint with the reviewer's decision:
+ * approve the pending artifact, replace it with an edited one, or reject it
+ * with feedback so the step runs again.
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ runId: string }> }) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'seo-article-workflow-resume' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: securityHeaders })
+    }
+
+    const { runId } = await context.params
+    const validationResult = reviewDecisionSchema.safeParse(await request.json())
+    if (!validationResult.success) {
+      return NextResponse.json({
+        error: 'Invalid input',
+        details: validationResult.error.flatten()
+      }, { status: 400, headers: securityHeaders })
+    }
+    const decision = validationResult.data
+
+    // Runs of other users are reported as missing
+    const record = await workflowRunRegistry.get(runId)
+    if (!record || record.userId !== userId) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404, headers: securityHeaders })
+    }
+    if (record.status === 'canceled') {
+      return NextResponse.json({ error: 'Workflow run was canceled', status: record.status }, { status: 409, headers: securityHeaders })
+    }
+
+    // Resuming runs the rest of the workflow's agents, so it is refused over budget too
+    const budget = await usageLedger.getBudgetStatus(userId)
+    if (budget.exceeded) {
+      return NextResponse.json({ error: 'Usage budget exceeded', budget }, { status: 429, headers: securityHeaders })
+    }
+
+    const workflow = mastra.getWorkflow('seoArticleWorkflow')
+    const execution = await workflow.getWorkflowRunExecutionResult(runId)
+
+    if (!execution) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404, headers: securityHeaders })
+    }
+
+    const pending = execution.status === 'suspended' ? getPendingReview(execution.steps) : undefined
+    if (!pending) {
+      return NextResponse.json({ error: 'Workflow run is not waiting for review', status: execution.status }, { status: 409, headers: securityHeaders })
+    }
+
+    if (decision.action === 'edit') {
+      const artifact = REVIEW_ARTIFACT_SCHEMAS[pending.review.checkpoint].safeParse(decision.artifact)
+      if (!artifact.success) {
+        return NextResponse.json({
+          error: `Invalid ${pending.review.checkpoint} artifact`,
+          details: artifact.error.flatten()
+        }, { status: 400, headers: securityHeaders })
+      }
+    }
+
+    // Of concurrent resumes of the checkpoint, e.g. a double submit, only one runs it
+    if (!(await workflowRunRegistry.claim(record))) {
+      return NextResponse.json({ error: 'Workflow run is already being resumed' }, { status: 409, headers: securityHeaders })
+    }
+
+    const activityId = await agentActivityLogger.startActivity(
+      'SEOArticleWorkflow',
+      `Resuming ${pending.review.checkpoint} review with ${decision.action}`,
+      { route: '/api/workflow/seo-article/[runId]/resume', runId }
+    )
+
+    // Approvals and rejections refer to the artifact the step suspended with. The
+    // run's events are stored for clients following it from the stream route.
+    const run = await workflow.createRunAsync({ runId })
+    const result = await executeWithEvents(workflowRunRegistry, run, () => run.resume({
+      step: pending.stepId,
+      resumeData: {
+        action: decision.action,
+        artifact: decision.action === 'edit' ? decision.artifact : pending.review.artifact,
+        feedback: decision.feedback ? sanitizeInput(decision.feedback) : undefined,
+        revision: pending.review.revision
+      }
+    }))
+
+    if (result.status === 'success') {
+      // Runs started from a batch land in the article library
+      const articleId = await completeBatchRow(workflowRunRegistry, runId, result.result)
+        .catch(error => console.error(`❌ Could not complete the batch row of workflow run ${runId}:`, error))
+      await agentActivityLogger.completeActivity(activityId, { status: 'success', runId })
+      return NextResponse.json({
+        success: true,
+        status: result.status,
+        runId,
+        result: result.result,
+        articleId,
+        workflowId: 'seoArticleWorkflow'
+      }, { headers: securityHeaders })
+    }
+
+    if (result.status === 'suspended') {
+      const next = getPendingReview(result.steps)
+      await agentActivityLogger.completeActivity(activityId, { status: 'suspended', runId, checkpoint: next?.review.checkpoint })
+      return NextResponse.json({
+        success: true,
+        status: result.status,
+        runId,
+        review: next?.review,
+        workflowId: 'seoArticleWorkflow'
+      }, { headers: securityHeaders })
+    }
+
+    const error = result.error instanceof Error ? result.error.message : result.error
+    await agentActivityLogger.completeActivity(activityId, undefined, error || 'Workflow failed')
+    return NextResponse.json({
+      success: false,
+      status: result.status,
+      runId,
+      error: 'Workflow execution failed',
+      details: error || 'Unknown workflow error'
+    }, { status: 500, headers: securityHeaders })
+  } catch (error) {
+    console.error('❌ Workflow resume error:', error)
+    auditLogger.log({
+      type: 'api_error',
+      details: { route: 'seo-article-workflow-resume', error: error instanceof Error ? error.message : 'Unknown error' }
+    })
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500, headers: securityHeaders })
+  }
+}
@@ -2,14 +2,18 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { mastra } from '@/mastra'
 import { z } from 'zod'
+import { ARTICLE_TYPES } from '@/lib/seo-analyzer'
 import { sanitizeInput, auditLogger, securityHeaders } from '@/lib/security'
+import { getPendingReview } from '@/mastra/workflows/seo-article-workflow'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+import { usageLedger } from '@/lib/usage-ledger'
 
 export const maxDuration = 300 // 5 minutes for workflow execution
 
 // Workflow input validation schema
 const workflowInputSchema = z.object({
   topic: z.string().min(1).max(500).transform(sanitizeInput),
-  articleType: z.enum(['informational', 'commercial', 'transactional', 'hybrid']).optional(),
+  articleType: z.enum(ARTICLE_TYPES).optional(),
   targetAudience: z.string().max(200).optional().transform(val => val ? sanitizeInput(val) : undefined),
   researchOption: z.enum(['new', 'existing']).optional(),
   existingResearch: z.string().max(10000).optional().transform(val => val ? sanitizeInput(val) : undefined)
@@ -52,6 +56,12 @@ export async function POST(request: NextRequest) {
     
     const { topic, articleType, targetAudience, researchOption, existingResearch } = validationResult.data
 
+    // Runs are refused while the user is over their usage budget
+    const budget = await usageLedger.getBudgetStatus(userId)
+    if (budget.exceeded) {
+      return NextResponse.json({ error: 'Usage budget exceeded', budget }, { status: 429, headers: securityHeaders })
+    }
+
     // Get the SEO article workflow
     const workflow = mastra.getWorkflow('seoArticleWorkflow')
     
@@ -73,6 +83,7 @@ export async function POST(request: NextRequest) {
       articleType: articleType || 'informational',
       targetAudience: targetAudience || 'technical professionals',
       urgency: 'standard' as const,
+      userId,
       // Add research data if provided
       ...(researchOption === 'existing' && existingResearch && {
         existingResearch
@@ -84,9 +95,10 @@ export async function POST(request: NextRequest) {
       console.log(`[Workflow] User ${userId} starting SEO article workflow for topic: "${topic}"`)
       
       const run = await workflow.createRunAsync()
-      const result = await run.start({
+      await workflowRunRegistry.register({ runId: run.runId, workflowId: 'seoArticleWorkflow', userId, input: workflowInput })
+      const result = await workflowRunRegistry.monitor(run, () => run.start({
         inputData: workflowInput
-      })
+      }))
       
       console.log(`[Workflow] Execution result for user ${userId}: ${result.status}`)
       
@@ -100,8 +112,10 @@ export async function POST(request: NextRequest) {
         }, { headers: securityHeaders })
       } else if (result.status === 'suspended') {
         return NextResponse.json({
-          success: false,
-          error: 'Workflow suspended - requires human interaction',
+          success: true,
+          status: result.status,
+          runId: run.runId,
+          review: getPendingReview(result.steps)?.review,
           suspendedSteps: result.suspended,
           workflowId: 'seoArticleWorkflow'
         }, { status: 202, headers: securityHeaders })
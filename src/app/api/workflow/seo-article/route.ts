@@ -2,11 +2,15 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { mastra } from '@/mastra'
 import { z } from 'zod'
+import { ARTICLE_TYPES } from '@/lib/seo-analyzer'
 import { sanitizeInput, securityHeaders, auditLogger } from '@/lib/security'
 import { apiOptimizer } from '@/lib/api-optimizer'
 import { performanceMonitor } from '@/lib/performance-monitor'
 import { agentActivityLogger } from '@/lib/agent-activity-logger'
 import { createCacheKey } from '@/lib/performance-cache'
+import { getPendingReview } from '@/mastra/workflows/seo-article-workflow'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+import { usageLedger } from '@/lib/usage-ledger'
 
 export const maxDuration = 300 // 5 minutes for workflow execution
 
@@ -29,7 +33,7 @@ export async function POST(request: NextRequest) {
     // Define validation schema
     const workflowSchema = z.object({
       topic: z.string().min(1).max(500).transform(sanitizeInput),
-      articleType: z.enum(['informational', 'how-to', 'comparison', 'listicle']).optional(),
+      articleType: z.enum(ARTICLE_TYPES).optional(),
       targetAudience: z.string().max(200).optional().transform(val => val ? sanitizeInput(val) : undefined),
       researchOption: z.enum(['new', 'existing']).optional(),
       existingResearch: z.string().max(10000).optional().transform(val => val ? sanitizeInput(val) : undefined)
@@ -48,6 +52,13 @@ export async function POST(request: NextRequest) {
     
     const { topic, articleType, targetAudience, researchOption, existingResearch } = validationResult.data
 
+    // Runs are refused while the user is over their usage budget
+    const budget = await usageLedger.getBudgetStatus(userId)
+    if (budget.exceeded) {
+      await agentActivityLogger.completeActivity(activityId, undefined, 'Usage budget exceeded')
+      return NextResponse.json({ error: 'Usage budget exceeded', budget }, { status: 429, headers: securityHeaders })
+    }
+
     // Get the SEO article workflow
     const workflow = mastra.getWorkflow('seoArticleWorkflow')
     
@@ -61,6 +72,7 @@ export async function POST(request: NextRequest) {
       articleType: articleType || 'informational',
       targetAudience: targetAudience || 'technical professionals',
       urgency: 'standard' as const,
+      userId,
       // Add research data if provided
       ...(researchOption === 'existing' && existingResearch && {
         existingResearch
@@ -75,9 +87,10 @@ export async function POST(request: NextRequest) {
       console.log('🚀 Creating workflow run for:', workflowInput)
       
       const run = await workflow.createRunAsync()
-      const result = await run.start({
+      await workflowRunRegistry.register({ runId: run.runId, workflowId: 'seoArticleWorkflow', userId, input: workflowInput })
+      const result = await workflowRunRegistry.monitor(run, () => run.start({
         inputData: workflowInput
-      })
+      }))
       
       console.log('✅ Workflow execution result:', result.status)
       
@@ -103,16 +116,21 @@ export async function POST(request: NextRequest) {
           enableCompression: true
         })
       } else if (result.status === 'suspended') {
+        // Waiting at a review checkpoint; resume through /api/workflow/seo-article/[runId]/resume
+        const pending = getPendingReview(result.steps)
         const responseData = {
-          success: false,
-          error: 'Workflow suspended - requires human interaction',
+          success: true,
+          status: result.status,
+          runId: run.runId,
+          review: pending?.review,
           suspendedSteps: result.suspended,
           workflowId: 'seoArticleWorkflow'
         }
 
         await agentActivityLogger.completeActivity(activityId, {
           status: 'suspended',
-          suspendedSteps: result.suspended?.length || 0
+          runId: run.runId,
+          checkpoint: pending?.review.checkpoint
         })
 
         return await apiOptimizer.optimizeResponse(responseData, request, {
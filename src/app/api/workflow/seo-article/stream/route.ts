@@ -2,10 +2,28 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 import { mastra } from '@/mastra'
 import { z } from 'zod'
+import { ARTICLE_TYPES } from '@/lib/seo-analyzer'
 import { sanitizeInput, auditLogger } from '@/lib/security'
+import type { seoArticleWorkflow } from '@/mastra/workflows/seo-article-workflow'
+import { executeWithEvents } from '@/mastra/workflows/run-events'
+import { workflowRunRegistry } from '@/lib/workflow-runs'
+import { usageLedger } from '@/lib/usage-ledger'
+import { formatSSE, isTerminalEvent, type WorkflowEvent } from '@/lib/workflow-events'
 
 export const maxDuration = 300 // 5 minutes for workflow execution
 
+// How often a reconnected client's stream looks for new events of the run
+const REPLAY_POLL_INTERVAL_MS = 1000
+
+type SeoArticleRun = Awaited<ReturnType<typeof seoArticleWorkflow.createRunAsync>>
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+  'X-Content-Type-Options': 'nosniff',
+}
+
 export async function POST(request: NextRequest) {
   try {
     const { userId } = await auth()
@@ -18,7 +36,7 @@ export async function POST(request: NextRequest) {
     // Define validation schema
     const workflowSchema = z.object({
       topic: z.string().min(1).max(500).transform(sanitizeInput),
-      articleType: z.enum(['informational', 'how-to', 'comparison', 'listicle']).optional(),
+      articleType: z.enum(ARTICLE_TYPES).optional(),
       targetAudience: z.string().max(200).optional().transform(val => val ? sanitizeInput(val) : undefined),
       researchOption: z.enum(['new', 'existing']).optional(),
       existingResearch: z.string().max(10000).optional().transform(val => val ? sanitizeInput(val) : undefined)
@@ -37,34 +55,54 @@ export async function POST(request: NextRequest) {
     
     const { topic, articleType, targetAudience, researchOption, existingResearch } = validationResult.data
 
+    // Runs are refused while the user is over their usage budget
+    const budget = await usageLedger.getBudgetStatus(userId)
+    if (budget.exceeded) {
+      return NextResponse.json({ error: 'Usage budget exceeded', budget }, { status: 429 })
+    }
+
+    // Prepare workflow input
+    const workflowInput = {
+      userInput: topic,
+      articleType: articleType || 'informational',
+      targetAudience: targetAudience || 'technical professionals',
+      urgency: 'standard' as const,
+      userId,
+      // Add research data if provided
+      ...(researchOption === 'existing' && existingResearch && {
+        existingResearch
+      })
+    }
+
+    // Get the SEO article workflow
+    const workflow = mastra.getWorkflow('seoArticleWorkflow')
+
+    if (!workflow) {
+      return NextResponse.json({ error: 'SEO article workflow not found' }, { status: 500 })
+    }
+
+    console.log('Creating workflow run for streaming:', workflowInput)
+    const run = await workflow.createRunAsync()
+    await workflowRunRegistry.register({ runId: run.runId, workflowId: 'seoArticleWorkflow', userId, input: workflowInput })
+
     // Create a readable stream for Server-Sent Events
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
       start(controller) {
-        // Helper function to send SSE data
-        const sendSSE = (data: any) => {
-          const sseData = `data: ${JSON.stringify(data)}\n\n`
-          controller.enqueue(encoder.encode(sseData))
+        const sendSSE = (event: WorkflowEvent) => {
+          try {
+            controller.enqueue(encoder.encode(formatSSE(event)))
+          } catch {
+            // The client disconnected; it replays the events it missed when it reconnects
+          }
         }
 
         // Start the workflow execution
-        executeWorkflowWithProgress(
-          { topic, articleType, targetAudience, researchOption, existingResearch },
-          sendSSE,
-          controller,
-          mastra
-        )
+        executeWorkflowWithProgress(run, workflowInput, sendSSE, controller)
       }
     })
 
-    return new NextResponse(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'X-Content-Type-Options': 'nosniff',
-      }
-    })
+    return new NextResponse(stream, { headers: SSE_HEADERS })
 
   } catch (error) {
     console.error('Stream API error:', error)
@@ -76,101 +114,87 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function executeWorkflowWithProgress(
-  input: any,
-  sendSSE: (data: any) => void,
-  controller: ReadableStreamDefaultController,
-  mastra: any
-) {
+/**
+ * Reconnects to the event stream of a run. Replays the events after the one
+ * named by the `Last-Event-ID` header (or `lastEventId` query parameter), then
+ * follows the run until its terminal event.
+ */
+export async function GET(request: NextRequest) {
   try {
-    const { topic, articleType, targetAudience, researchOption, existingResearch } = input
-
-    // Send initial status
-    sendSSE({
-      type: 'status',
-      step: 'initializing',
-      message: 'Starting SEO article workflow...',
-      progress: 0
-    })
+    const { userId } = await auth()
 
-    // Prepare workflow input
-    const workflowInput = {
-      userInput: topic,
-      articleType: articleType || 'informational',
-      targetAudience: targetAudience || 'technical professionals',
-      urgency: 'standard' as const,
-      // Add research data if provided
-      ...(researchOption === 'existing' && existingResearch && {
-        existingResearch
-      })
+    if (!userId) {
+      auditLogger.log({ type: 'auth_failure', details: { route: 'seo-article-workflow-stream' } })
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Get the SEO article workflow
-    const workflow = mastra.getWorkflow('seoArticleWorkflow')
-    
-    if (!workflow) {
-      throw new Error('SEO article workflow not found')
+    const { searchParams } = new URL(request.url)
+    const runId = searchParams.get('runId')
+    const lastEventId = Number(request.headers.get('last-event-id') ?? searchParams.get('lastEventId') ?? 0)
+    if (!runId || !Number.isInteger(lastEventId) || lastEventId < 0) {
+      return NextResponse.json({ error: 'runId and a numeric Last-Event-ID are required' }, { status: 400 })
     }
 
-    sendSSE({
-      type: 'status',
-      step: 'starting',
-      message: 'Executing SEO article workflow...',
-      progress: 10
-    })
+    const record = await workflowRunRegistry.get(runId)
+    if (!record || record.userId !== userId) {
+      return NextResponse.json({ error: 'Workflow run not found' }, { status: 404 })
+    }
 
-    // Execute the workflow with streaming
-    console.log('Creating workflow run for streaming:', workflowInput)
-    
-    const run = await workflow.createRunAsync()
-    const result = await run.stream({
-      inputData: workflowInput
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        let after = lastEventId
+        try {
+          while (!request.signal.aborted) {
+            const events = await workflowRunRegistry.listEvents(runId, after)
+            for (const event of events) {
+              controller.enqueue(encoder.encode(formatSSE(event)))
+              after = event.id
+            }
+            if (events.some(isTerminalEvent)) break
+
+            // A run that is no longer running publishes no more events
+            const current = await workflowRunRegistry.get(runId)
+            if (current?.status !== 'running' && events.length === 0) break
+            await new Promise(resolve => setTimeout(resolve, REPLAY_POLL_INTERVAL_MS))
+          }
+        } catch (error) {
+          console.error(`Workflow event replay error for ${runId}:`, error)
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // The client disconnected
+          }
+        }
+      }
     })
 
-    // Stream the workflow execution
-    let stepCount = 0
-    const totalSteps = 5 // Research, Structure, Content, Optimization, Review
-    
-    for await (const chunk of result.stream) {
-      stepCount++
-      const progress = Math.min((stepCount / totalSteps) * 90, 90) // Leave 10% for final processing
-      
-      sendSSE({
-        type: 'step_progress',
-        step: `step_${stepCount}`,
-        message: `Processing step ${stepCount} of ${totalSteps}...`,
-        progress: progress,
-        data: chunk
-      })
-    }
-
-    // Get the final result
-    const finalResult = await result.result
-    
-    if (finalResult.status === 'success') {
-      sendSSE({
-        type: 'workflow_complete',
-        result: finalResult.result,
-        message: 'SEO article workflow completed successfully!',
-        progress: 100
-      })
-    } else if (finalResult.status === 'suspended') {
-      sendSSE({
-        type: 'workflow_suspended',
-        message: 'Workflow suspended - requires human interaction',
-        suspendedSteps: finalResult.suspended
-      })
-    } else {
-      throw new Error(finalResult.error || 'Workflow execution failed')
-    }
+    return new NextResponse(stream, { headers: SSE_HEADERS })
+  } catch (error) {
+    console.error('Stream replay API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
 
+/**
+ * Runs the workflow and streams its events to the client as they are published
+ */
+async function executeWorkflowWithProgress(
+  run: SeoArticleRun,
+  workflowInput: Parameters<SeoArticleRun['start']>[0]['inputData'],
+  sendSSE: (event: WorkflowEvent) => void,
+  controller: ReadableStreamDefaultController
+) {
+  try {
+    await executeWithEvents(workflowRunRegistry, run, writableStream => run.start({ inputData: workflowInput, writableStream }), sendSSE)
   } catch (error) {
     console.error('Workflow execution error:', error)
-    sendSSE({
-      type: 'error',
-      message: error instanceof Error ? error.message : 'Unknown error occurred'
-    })
   } finally {
-    controller.close()
+    try {
+      controller.close()
+    } catch {
+      // The client disconnected
+    }
   }
-}
\ No newline at end of file
+}
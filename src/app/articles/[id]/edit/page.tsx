@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Progress } from '@/components/ui/progress'
@@ -16,6 +17,11 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from '@/components/ui/breadcrumb'
 import { toast } from 'sonner'
 import TiptapEditor from '@/components/TiptapEditor'
+import { SEOPanel } from '@/components/seo/seo-panel'
+import { ScoreTrend } from '@/components/seo/score-trend'
+import type { AnalysisSnapshot, AnalysisWorkerClient, ArticleType, AssessmentMark, AssessmentResult, ImageAudit, LibraryArticle } from '@/lib/seo-analyzer'
+import { createAnalysisWorker } from '@/lib/seo-analyzer/worker'
+import { ARTICLE_TYPES, SCORING_PROFILES } from '@/lib/seo-analyzer'
 import { Save, ExternalLink, FileText, Target, BarChart3, ArrowLeft, CheckCircle, Clock, AlertCircle } from 'lucide-react'
 
 interface Article {
@@ -26,9 +32,12 @@ interface Article {
   metaDescription?: string
   focusKeyword?: string
   semanticKeywords: string[]
+  articleType?: ArticleType
   seoScore: number
   readabilityScore: number
   status: 'draft' | 'in-progress' | 'review' | 'published'
+  // Owner; teammates may open the article but not change it
+  userId: string
   googleDocId?: string
   phases: {
     research: boolean
@@ -48,10 +57,24 @@ export default function EditArticlePage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [exporting, setExporting] = useState(false)
+  const [highlights, setHighlights] = useState<AssessmentMark[]>([])
+  const [imageAudits, setImageAudits] = useState<ImageAudit[]>([])
+  const [otherArticles, setOtherArticles] = useState<LibraryArticle[]>()
+  const [analyses, setAnalyses] = useState<AnalysisSnapshot[]>([])
+  const [analysisWorker, setAnalysisWorker] = useState<AnalysisWorkerClient>()
+
+  // Long articles are analyzed off the main thread so typing stays responsive
+  useEffect(() => {
+    const worker = createAnalysisWorker()
+    setAnalysisWorker(worker)
+    return () => worker.terminate()
+  }, [])
 
   useEffect(() => {
     if (user && id) {
       fetchArticle()
+      fetchOtherArticles()
+      fetchAnalyses()
     }
   }, [user, id])
 
@@ -73,6 +96,32 @@ export default function EditArticlePage() {
     }
   }
 
+  // Other articles of the user or team, for the cannibalization check in the SEO panel
+  const fetchOtherArticles = async () => {
+    try {
+      const response = await fetch(`/api/articles/${id}/library`)
+      if (response.ok) {
+        const data = await response.json()
+        setOtherArticles(data.articles)
+      }
+    } catch (error) {
+      console.error('Error loading article library:', error)
+    }
+  }
+
+  // Stored analyses of the article, for the score trend
+  const fetchAnalyses = async () => {
+    try {
+      const response = await fetch(`/api/articles/${id}/analyses`)
+      if (response.ok) {
+        const data = await response.json()
+        setAnalyses(data.analyses)
+      }
+    } catch (error) {
+      console.error('Error loading analysis history:', error)
+    }
+  }
+
   const handleSave = async () => {
     if (!article) return
 
@@ -86,13 +135,18 @@ export default function EditArticlePage() {
           content: article.content,
           metaDescription: article.metaDescription,
           focusKeyword: article.focusKeyword,
-          semanticKeywords: article.semanticKeywords
+          semanticKeywords: article.semanticKeywords,
+          articleType: article.articleType
         })
       })
 
       if (response.ok) {
+        const data = await response.json()
         toast.success('Article saved successfully')
+        data.warnings?.forEach((warning: AssessmentResult) => toast.warning(warning.text))
         fetchArticle() // Refresh to get updated scores
+        fetchOtherArticles()
+        fetchAnalyses()
       } else {
         toast.error('Failed to save article')
       }
@@ -231,6 +285,8 @@ export default function EditArticlePage() {
     )
   }
 
+  const readOnly = article.userId !== user?.id
+
   return (
     <div className="container mx-auto py-8 space-y-6">
       {/* Breadcrumb Navigation */}
@@ -257,8 +313,10 @@ export default function EditArticlePage() {
             Back
           </Button>
           <div>
-            <h1 className="text-3xl font-bold">Edit Article</h1>
-            <p className="text-muted-foreground">Make changes and save your article</p>
+            <h1 className="text-3xl font-bold">{readOnly ? 'Team Article' : 'Edit Article'}</h1>
+            <p className="text-muted-foreground">
+              {readOnly ? 'A teammate owns this article; only they can save changes' : 'Make changes and save your article'}
+            </p>
           </div>
         </div>
         <div className="flex space-x-2">
@@ -274,12 +332,12 @@ export default function EditArticlePage() {
           <Button
             variant="outline"
             onClick={handleExportToGoogleDocs}
-            disabled={exporting}
+            disabled={exporting || readOnly}
           >
             <FileText className="mr-2 h-4 w-4" />
             {exporting ? 'Exporting...' : article.googleDocId ? 'Update Google Doc' : 'Export to Google Docs'}
           </Button>
-          <Button onClick={handleSave} disabled={saving}>
+          <Button onClick={handleSave} disabled={saving || readOnly}>
             <Save className="mr-2 h-4 w-4" />
             {saving ? 'Saving...' : 'Save Article'}
           </Button>
@@ -348,6 +406,8 @@ export default function EditArticlePage() {
               </Badge>
             </div>
           </div>
+          <Separator className="my-6" />
+          <ScoreTrend analyses={analyses} />
         </CardContent>
       </Card>
 
@@ -419,6 +479,28 @@ export default function EditArticlePage() {
               />
             </div>
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="articleType">Article Type</Label>
+              <Select
+                value={article.articleType ?? 'informational'}
+                onValueChange={(value) => setArticle(prev => prev ? { ...prev, articleType: value as ArticleType } : null)}
+              >
+                <SelectTrigger id="articleType">
+                  <SelectValue placeholder="Select article type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ARTICLE_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{SCORING_PROFILES[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground mt-1">
+                Selects the scoring profile the article is analyzed with
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -432,9 +514,28 @@ export default function EditArticlePage() {
           <TiptapEditor
             content={article.content}
             onChange={(content) => setArticle(prev => prev ? { ...prev, content } : null)}
+            highlights={highlights}
+            imageAudits={imageAudits}
           />
         </CardContent>
       </Card>
+
+      {/* Live SEO Analysis */}
+      <SEOPanel
+        content={article.content}
+        initialData={{
+          title: article.title,
+          metaDescription: article.metaDescription,
+          url: article.slug,
+          keyword: article.focusKeyword,
+          semanticKeywords: article.semanticKeywords
+        }}
+        onMarksChange={setHighlights}
+        onImagesChange={setImageAudits}
+        articleType={article.articleType}
+        otherArticles={otherArticles}
+        analysisWorker={analysisWorker}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+"use client"
+
+import { TopNav } from "@/components/top-nav"
+import { WorkflowBatchDashboard } from "@/components/workflow-batch-dashboard"
+import { useUser } from "@clerk/nextjs"
+import { redirect } from "next/navigation"
+import { Layers } from "lucide-react"
+
+export default function BatchesPage() {
+  const { isSignedIn, isLoaded } = useUser()
+
+  // Redirect to sign-in if not authenticated
+  if (isLoaded && !isSignedIn) {
+    redirect("/sign-in")
+  }
+
+  // Show loading state while Clerk is loading
+  if (!isLoaded) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex h-dvh flex-col bg-background">
+      <TopNav />
+      <div className="flex-1 overflow-auto">
+        <div className="container mx-auto p-6">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+              <Layers className="w-8 h-8" />
+              Article Batches
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              Queue a content calendar CSV and follow each article from research to the library. Batch runs skip the review checkpoints; their articles are saved as drafts.
+            </p>
+          </div>
+          <WorkflowBatchDashboard />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -15,7 +15,36 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { useUser } from "@clerk/nextjs"
 import { redirect } from "next/navigation"
-import { PenTool, Lightbulb, Clock, CheckCircle, FileText, Loader2, Rocket, Target, Users, BarChart3, Search, Upload, Edit3, Eye, Save, TrendingUp, BarChart2, Zap } from "lucide-react"
+import { PenTool, Lightbulb, Clock, CheckCircle, FileText, Loader2, Rocket, Target, Users, BarChart3, Search, Upload, Edit3, Eye, Save, TrendingUp, BarChart2, Zap, ListOrdered, Scale, List } from "lucide-react"
+import type { ArticleType } from "@/lib/seo-analyzer"
+import type { ReviewRequest, SeoArticleResult } from "@/mastra/workflows/seo-article-workflow"
+import { ReviewCheckpoint, type ReviewResumeResponse } from "@/components/seo/review-checkpoint"
+import { followWorkflowEvents, type WorkflowEvent } from "@/lib/workflow-events"
+
+// Workflow steps that wait at each review checkpoint
+const REVIEW_STEP_IDS: Record<ReviewRequest['checkpoint'], string> = {
+  research: 'research',
+  outline: 'structure',
+  publication: 'review'
+}
+
+// Progress steps the workflow's steps report to
+const WORKFLOW_STEP_IDS: Record<string, string> = {
+  research_phase: 'research',
+  structure_phase: 'structure',
+  content_phase: 'content',
+  optimization_phase: 'optimization',
+  quality_loop: 'optimization',
+  human_review: 'review'
+}
+
+interface StepActivity {
+  toolCalls: number
+  tokens: number
+  lastTool?: string
+}
+
+type ArticleResults = Pick<SeoArticleResult, 'articleSlug' | 'articlePath' | 'focusKeyword' | 'wordCount' | 'seoScore' | 'readabilityScore'>
 
 interface WorkflowStep {
   id: string
@@ -29,7 +58,7 @@ export default function SEOArticleCreatorPage() {
   const [topic, setTopic] = useState('')
   const [researchOption, setResearchOption] = useState<'new' | 'existing'>('new')
   const [existingResearch, setExistingResearch] = useState('')
-  const [articleType, setArticleType] = useState<'informational' | 'commercial' | 'transactional' | 'hybrid'>('informational')
+  const [articleType, setArticleType] = useState<ArticleType>('informational')
   const [targetAudience, setTargetAudience] = useState('')
   const [isProcessing, setIsProcessing] = useState(false)
   const [workflowSteps, setWorkflowSteps] = useState<WorkflowStep[]>([])
@@ -38,12 +67,11 @@ export default function SEOArticleCreatorPage() {
   const [generatedContent, setGeneratedContent] = useState('')
   const [seoScores, setSeoScores] = useState({
     overall: 0,
-    keyword: 0,
-    readability: 0,
-    structure: 0,
-    meta: 0
+    readability: 0
   })
-  const [results, setResults] = useState<any>(null)
+  const [results, setResults] = useState<ArticleResults | null>(null)
+  const [pendingReview, setPendingReview] = useState<{ runId: string, review: ReviewRequest } | null>(null)
+  const [stepActivity, setStepActivity] = useState<Record<string, StepActivity>>({})
 
   // Redirect to sign-in if not authenticated
   if (isLoaded && !isSignedIn) {
@@ -107,57 +135,34 @@ export default function SEOArticleCreatorPage() {
     }
 
     setIsProcessing(true)
+    setPendingReview(null)
     initializeWorkflow()
     setCurrentStep(0)
     setActiveTab('progress')
+    setStepActivity({})
 
     try {
-      // Connect to the streaming workflow API
-      const response = await fetch('/api/workflow/seo-article/stream', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          topic,
-          articleType,
-          targetAudience,
-          researchOption,
-          existingResearch
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to start workflow')
-      }
-
-      // Handle Server-Sent Events
-      const reader = response.body?.getReader()
-      const decoder = new TextDecoder()
-
-      if (!reader) {
-        throw new Error('No response stream available')
-      }
-
-      while (true) {
-        const { done, value } = await reader.read()
-        
-        if (done) break
-
-        const chunk = decoder.decode(value)
-        const lines = chunk.split('\n')
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6))
-              handleStreamEvent(data)
-            } catch (e) {
-              console.error('Error parsing SSE data:', e)
-            }
-          }
-        }
-      }
+      // Connect to the streaming workflow API; after a dropped connection,
+      // reconnect and replay the events missed since the last one received
+      await followWorkflowEvents(resumeFrom => resumeFrom
+        ? fetch(`/api/workflow/seo-article/stream?runId=${encodeURIComponent(resumeFrom.runId)}`, {
+            headers: { 'Last-Event-ID': String(resumeFrom.lastEventId) }
+          })
+        : fetch('/api/workflow/seo-article/stream', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              topic,
+              articleType,
+              targetAudience,
+              researchOption,
+              existingResearch
+            })
+          }),
+        handleStreamEvent
+      )
 
     } catch (error) {
       console.error('Workflow error:', error)
@@ -170,70 +175,118 @@ export default function SEOArticleCreatorPage() {
     }
   }
 
-  const handleStreamEvent = (data: any) => {
-    console.log('Stream event:', data)
-    
-    switch (data.type) {
-      case 'status':
-        // Update general status
+  const setStepStatus = (stepId: string, status: WorkflowStep['status']) => {
+    const stepIndex = getStepIndex(stepId)
+    // A step that starts ends the one before it, e.g. the quality loop's optimization step
+    setWorkflowSteps(prev => prev.map((step, index) => 
+      index === stepIndex ? { ...step, status } :
+      status === 'in-progress' && index < stepIndex && step.status === 'in-progress' ? { ...step, status: 'completed' } : step
+    ))
+    if (status === 'in-progress') {
+      setCurrentStep(stepIndex)
+    }
+  }
+
+  const addStepActivity = (stepId: string, update: (activity: StepActivity) => StepActivity) => {
+    setStepActivity(prev => ({ ...prev, [stepId]: update(prev[stepId] ?? { toolCalls: 0, tokens: 0 }) }))
+  }
+
+  const handleStreamEvent = (event: WorkflowEvent) => {
+    const stepId = 'stepId' in event ? WORKFLOW_STEP_IDS[event.stepId] ?? event.stepId : ''
+
+    switch (event.type) {
+      case 'step_started':
+        setStepStatus(stepId, 'in-progress')
+        break
+
+      case 'step_completed':
+        // The quality loop reports to the optimization step, which stays in progress while it revises
+        if (event.stepId !== 'optimization_phase') {
+          setStepStatus(stepId, 'completed')
+        }
+        break
+
+      case 'step_failed':
+        setStepStatus(stepId, 'error')
         break
-        
-      case 'step_start':
-        // Mark step as in progress
-        const stepIndex = getStepIndex(data.step)
-        setWorkflowSteps(prev => prev.map((step, index) => 
-          index === stepIndex ? { ...step, status: 'in-progress' } : step
-        ))
-        setCurrentStep(stepIndex)
+
+      case 'tool_call':
+        addStepActivity(stepId, activity => ({ ...activity, toolCalls: activity.toolCalls + 1, lastTool: event.toolName }))
         break
-        
-      case 'step_complete':
-        // Mark step as completed
-        const completedStepIndex = getStepIndex(data.step)
-        setWorkflowSteps(prev => prev.map((step, index) => 
-          index === completedStepIndex ? { ...step, status: 'completed' } : step
-        ))
+
+      case 'token_usage':
+        addStepActivity(stepId, activity => ({ ...activity, tokens: activity.tokens + event.totalTokens }))
         break
-        
+
       case 'workflow_complete':
-        // Handle final results
-        const result = data.result
-        setResults({
-          articleSlug: result.articleSlug,
-          articlePath: `generated-articles/${result.articleSlug}`,
-          focusKeyword: result.focusKeyword || topic,
-          wordCount: result.wordCount || 1850,
-          seoScore: result.seoScore || 94,
-          readabilityScore: result.readabilityScore || 87
-        })
-        
-        // Set generated content
-        if (result.content) {
-          setGeneratedContent(result.content)
+        applyWorkflowResult(event.result as SeoArticleResult)
+        break
+
+      case 'workflow_suspended':
+        // Waiting at a review checkpoint
+        if (event.review) {
+          handleReviewRequest(event.runId, event.review as ReviewRequest)
         }
-        
-        // Update SEO scores
-        setSeoScores({
-          overall: result.seoScore || 94,
-          keyword: 88,
-          readability: result.readabilityScore || 92,
-          structure: 96,
-          meta: 90
-        })
-        
-        // Switch to content tab
-        setActiveTab('content')
         break
-        
-      case 'error':
-        console.error('Workflow error:', data.message)
-        setWorkflowSteps(prev => prev.map((step, index) => 
-          index === currentStep ? { ...step, status: 'error' } : step
-        ))
+
+      case 'workflow_failed':
+        console.error('Workflow error:', event.error)
+        alert('Workflow failed: ' + event.error)
         break
     }
   }
 
+  const applyWorkflowResult = (result: SeoArticleResult) => {
+    // Handle final results
+    setPendingReview(null)
+    setWorkflowSteps(prev => prev.map(step => ({ ...step, status: 'completed' })))
+    setResults({
+      articleSlug: result.articleSlug,
+      articlePath: result.articlePath,
+      focusKeyword: result.focusKeyword || topic,
+      wordCount: result.wordCount,
+      seoScore: result.seoScore,
+      readabilityScore: result.readabilityScore
+    })
+    
+    // Set generated content
+    if (result.content) {
+      setGeneratedContent(result.content)
+    }
+    
+    // The analyzer's scores of the final article
+    setSeoScores({
+      overall: result.seoScore,
+      readability: result.readabilityScore
+    })
+    
+    // Switch to content tab
+    setActiveTab('content')
+  }
+
+  const handleReviewRequest = (runId: string, review: ReviewRequest) => {
+    // Steps before the checkpoint are done; the checkpoint's own step waits for the reviewer
+    const reviewStepIndex = getStepIndex(REVIEW_STEP_IDS[review.checkpoint])
+    setWorkflowSteps(prev => prev.map((step, index) => 
+      index < reviewStepIndex ? { ...step, status: 'completed' } : index === reviewStepIndex ? { ...step, status: 'in-progress' } : step
+    ))
+    setCurrentStep(reviewStepIndex)
+    setPendingReview({ runId, review })
+    setActiveTab('progress')
+  }
+
+  const handleReviewResumed = (response: ReviewResumeResponse) => {
+    if (response.status === 'success') {
+      applyWorkflowResult(response.result)
+    } else if (response.status === 'suspended') {
+      if (response.review) handleReviewRequest(response.runId, response.review)
+    } else {
+      setPendingReview(null)
+      console.error('Workflow error:', response.details)
+      alert('Workflow failed: ' + response.details)
+    }
+  }
+
   const getStepIndex = (stepId: string): number => {
     const stepMap: { [key: string]: number } = {
       'research': 0,
@@ -368,7 +421,7 @@ export default function SEOArticleCreatorPage() {
                       <Label htmlFor="articleType">Article Type</Label>
                       <Select
                         value={articleType}
-                        onValueChange={(value) => setArticleType(value as any)}
+                        onValueChange={(value) => setArticleType(value as ArticleType)}
                         disabled={isProcessing}
                       >
                         <SelectTrigger>
@@ -399,6 +452,24 @@ export default function SEOArticleCreatorPage() {
                               Hybrid
                             </div>
                           </SelectItem>
+                          <SelectItem value="how-to">
+                            <div className="flex items-center">
+                              <ListOrdered className="mr-2 h-4 w-4" />
+                              How-to
+                            </div>
+                          </SelectItem>
+                          <SelectItem value="comparison">
+                            <div className="flex items-center">
+                              <Scale className="mr-2 h-4 w-4" />
+                              Comparison
+                            </div>
+                          </SelectItem>
+                          <SelectItem value="listicle">
+                            <div className="flex items-center">
+                              <List className="mr-2 h-4 w-4" />
+                              Listicle
+                            </div>
+                          </SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -482,6 +553,13 @@ export default function SEOArticleCreatorPage() {
                               </Badge>
                             </div>
                             <p className="text-sm text-gray-600">{step.description}</p>
+                            {stepActivity[step.id] && (
+                              <p className="text-xs text-gray-500 mt-1">
+                                {stepActivity[step.id].toolCalls} tool calls
+                                {stepActivity[step.id].lastTool && ` (last: ${stepActivity[step.id].lastTool})`}
+                                {' · '}{stepActivity[step.id].tokens.toLocaleString()} tokens
+                              </p>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -489,6 +567,15 @@ export default function SEOArticleCreatorPage() {
                   )}
                 </CardContent>
               </Card>
+
+              {pendingReview && (
+                <ReviewCheckpoint
+                  key={`${pendingReview.runId}-${pendingReview.review.checkpoint}-${pendingReview.review.revision}`}
+                  runId={pendingReview.runId}
+                  review={pendingReview.review}
+                  onResumed={handleReviewResumed}
+                />
+              )}
             </TabsContent>
 
             {/* Content Tab */}
@@ -559,13 +646,6 @@ export default function SEOArticleCreatorPage() {
                         </div>
                         <Progress value={seoScores.overall} className="h-2" />
                       </div>
-                      <div>
-                        <div className="flex justify-between text-sm mb-1">
-                          <span>Keyword Optimization</span>
-                          <span className="font-medium">{seoScores.keyword}%</span>
-                        </div>
-                        <Progress value={seoScores.keyword} className="h-2" />
-                      </div>
                       <div>
                         <div className="flex justify-between text-sm mb-1">
                           <span>Readability</span>
@@ -573,20 +653,6 @@ export default function SEOArticleCreatorPage() {
                         </div>
                         <Progress value={seoScores.readability} className="h-2" />
                       </div>
-                      <div>
-                        <div className="flex justify-between text-sm mb-1">
-                          <span>Structure</span>
-                          <span className="font-medium">{seoScores.structure}%</span>
-                        </div>
-                        <Progress value={seoScores.structure} className="h-2" />
-                      </div>
-                      <div>
-                        <div className="flex justify-between text-sm mb-1">
-                          <span>Meta Data</span>
-                          <span className="font-medium">{seoScores.meta}%</span>
-                        </div>
-                        <Progress value={seoScores.meta} className="h-2" />
-                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEditor, EditorContent } from '@tiptap/react'
+import { useEditor, useEditorState, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Link from '@tiptap/extension-link'
 import Image from '@tiptap/extension-image'
@@ -12,6 +12,8 @@ import { TextStyle } from '@tiptap/extension-text-style'
 import { Color } from '@tiptap/extension-color'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
+import { AssessmentHighlight, assessmentHighlightKey } from '@/components/assessment-highlight'
+import type { AssessmentMark, ImageAudit } from '@/lib/seo-analyzer'
 import { 
   Bold, 
   Italic, 
@@ -31,17 +33,21 @@ import {
   Table as TableIcon,
   AlignLeft,
   AlignCenter,
-  AlignRight
+  AlignRight,
+  AlertCircle
 } from 'lucide-react'
-import { useCallback } from 'react'
+import { useCallback, useEffect } from 'react'
 
 interface TiptapEditorProps {
   content: string
   onChange: (content: string) => void
   editable?: boolean
+  highlights?: AssessmentMark[]
+  // Per-image findings from the SEO analysis, in document order
+  imageAudits?: ImageAudit[]
 }
 
-export default function TiptapEditor({ content, onChange, editable = true }: TiptapEditorProps) {
+export default function TiptapEditor({ content, onChange, editable = true, highlights, imageAudits }: TiptapEditorProps) {
   const editor = useEditor({
     extensions: [
       StarterKit,
@@ -63,7 +69,8 @@ export default function TiptapEditor({ content, onChange, editable = true }: Tip
       TableHeader,
       TableCell,
       TextStyle,
-      Color
+      Color,
+      AssessmentHighlight
     ],
     content,
     editable,
@@ -77,6 +84,54 @@ export default function TiptapEditor({ content, onChange, editable = true }: Tip
     }
   })
 
+  // Show the marks of the assessment toggled in the SEO panel
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return
+    editor.view.dispatch(editor.state.tr.setMeta(assessmentHighlightKey, highlights ?? []))
+  }, [editor, highlights])
+
+  // Index of the selected image among all images, matching the order of the image audits
+  const selectedImageIndex = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      if (!editor || !editor.isActive('image')) return -1
+      const { from } = editor.state.selection
+      let index = -1
+      let count = 0
+      editor.state.doc.descendants((node, pos) => {
+        if (node.type.name !== 'image') return
+        if (pos === from) index = count
+        count++
+      })
+      return index
+    }
+  }) ?? -1
+
+  const selectedImageAudit = imageAudits?.find(audit => audit.index === selectedImageIndex)
+
+  const setImageAlt = useCallback(() => {
+    const alt = window.prompt('Describe the image (alt text)', editor?.getAttributes('image').alt ?? '')
+    if (alt !== null) {
+      editor?.chain().focus().updateAttributes('image', { alt }).run()
+    }
+  }, [editor])
+
+  const setImageSize = useCallback(() => {
+    const { width, height } = editor?.getAttributes('image') ?? {}
+    const size = window.prompt('Enter the image size as width x height (pixels)', width && height ? `${width}x${height}` : '')
+    const match = size?.match(/^\s*(\d+)\s*[x×]\s*(\d+)\s*$/i)
+    if (match) {
+      editor?.chain().focus().updateAttributes('image', { width: Number(match[1]), height: Number(match[2]) }).run()
+    }
+  }, [editor])
+
+  const replaceImageSource = useCallback(() => {
+    const src = window.prompt('Enter the URL of the renamed or uploaded image', editor?.getAttributes('image').src ?? '')
+    if (src) {
+      editor?.chain().focus().updateAttributes('image', { src }).run()
+    }
+  }, [editor])
+
   const addImage = useCallback(() => {
     const url = window.prompt('Enter image URL')
     if (url && editor) {
@@ -238,6 +293,25 @@ export default function TiptapEditor({ content, onChange, editable = true }: Tip
           </Button>
         </div>
       )}
+
+      {/* Findings for the selected image */}
+      {editable && selectedImageAudit && selectedImageAudit.issues.length > 0 && (
+        <div className="border-b p-2 bg-orange-50 flex flex-wrap items-center gap-2 text-sm">
+          <AlertCircle className="h-4 w-4 text-orange-600" />
+          <span className="text-orange-800">
+            {selectedImageAudit.issues.map(issue => issue.message).join('. ')}
+          </span>
+          {selectedImageAudit.issues.some(issue => issue.type === 'missing-alt' || issue.type === 'empty-alt') && (
+            <Button variant="outline" size="sm" onClick={setImageAlt}>Add alt text</Button>
+          )}
+          {selectedImageAudit.issues.some(issue => issue.type === 'missing-dimensions') && (
+            <Button variant="outline" size="sm" onClick={setImageSize}>Set size</Button>
+          )}
+          {selectedImageAudit.issues.some(issue => issue.type === 'non-descriptive-filename' || issue.type === 'oversized-data-uri') && (
+            <Button variant="outline" size="sm" onClick={replaceImageSource}>Replace image URL</Button>
+          )}
+        </div>
+      )}
       
       <EditorContent 
         editor={editor} 
@@ -0,0 +1,101 @@
+import { Extension } from '@tiptap/react'
+import { Plugin, PluginKey } from '@tiptap/pm/state'
+import { Decoration, DecorationSet } from '@tiptap/pm/view'
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model'
+import type { AssessmentMark } from '@/lib/seo-analyzer'
+
+export const assessmentHighlightKey = new PluginKey<DecorationSet>('assessmentHighlight')
+
+/**
+ * Flattens the document the same way the analyzer strips HTML:
+ * blocks are separated by a single space and whitespace runs collapse.
+ */
+function flattenDocument(doc: ProseMirrorNode): { text: string; positions: number[] } {
+  let text = ''
+  const positions: number[] = []
+
+  const pushSpace = (pos: number) => {
+    if (text.length > 0 && !text.endsWith(' ')) {
+      text += ' '
+      positions.push(pos)
+    }
+  }
+
+  doc.descendants((node, pos) => {
+    if (node.isText && node.text) {
+      for (let i = 0; i < node.text.length; i++) {
+        if (/\s/.test(node.text[i])) {
+          pushSpace(pos + i)
+        } else {
+          text += node.text[i]
+          positions.push(pos + i)
+        }
+      }
+    } else if (node.isBlock || node.isLeaf) {
+      pushSpace(pos)
+    }
+  })
+
+  return { text, positions }
+}
+
+function buildDecorations(doc: ProseMirrorNode, marks: AssessmentMark[]): DecorationSet {
+  if (marks.length === 0) return DecorationSet.empty
+
+  const { text, positions } = flattenDocument(doc)
+  const decorations: Decoration[] = []
+
+  marks.forEach(mark => {
+    const needle = mark.original.replace(/\s+/g, ' ').trim()
+    if (!needle) return
+
+    // Offsets drift slightly between the editor and serialized HTML (entities, leaf nodes),
+    // so pick the occurrence closest to where the analyzer found it
+    let best = -1
+    for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + 1)) {
+      if (best === -1 || Math.abs(index - mark.text.start) < Math.abs(best - mark.text.start)) {
+        best = index
+      }
+    }
+    if (best === -1) return
+
+    const from = positions[best]
+    const to = positions[best + needle.length - 1] + 1
+    // Rewrite hints show on hover
+    const attributes = { class: 'assessment-highlight bg-yellow-200 rounded-sm', ...(mark.suggestion && { title: mark.suggestion }) }
+    decorations.push(Decoration.inline(from, to, attributes))
+  })
+
+  return DecorationSet.create(doc, decorations)
+}
+
+/**
+ * Highlights analyzer marks in the editor. Dispatch a transaction with
+ * `setMeta(assessmentHighlightKey, marks)` to replace them; an empty array clears them.
+ */
+export const AssessmentHighlight = Extension.create({
+  name: 'assessmentHighlight',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DecorationSet>({
+        key: assessmentHighlightKey,
+        state: {
+          init: () => DecorationSet.empty,
+          apply(tr, decorationSet) {
+            const marks = tr.getMeta(assessmentHighlightKey) as AssessmentMark[] | undefined
+            if (marks) {
+              return buildDecorations(tr.doc, marks)
+            }
+            return decorationSet.map(tr.mapping, tr.doc)
+          }
+        },
+        props: {
+          decorations(state) {
+            return assessmentHighlightKey.getState(state)
+          }
+        }
+      })
+    ]
+  }
+})
@@ -1,13 +1,18 @@
 import { AssessmentResult } from "@/lib/seo-analyzer"
 import { cn } from "@/lib/utils"
-import { CheckCircle, AlertCircle, XCircle, Info } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { CheckCircle, AlertCircle, XCircle, Info, Eye, EyeOff } from "lucide-react"
 
 interface AssessmentItemProps {
   assessment: AssessmentResult
   className?: string
+  isMarked?: boolean
+  onToggleMarks?: (assessment: AssessmentResult) => void
 }
 
-export function AssessmentItem({ assessment, className }: AssessmentItemProps) {
+export function AssessmentItem({ assessment, className, isMarked = false, onToggleMarks }: AssessmentItemProps) {
+  const canMark = !!onToggleMarks && (assessment.marks?.length ?? 0) > 0
+
   const getIcon = (rating: string) => {
     switch (rating) {
       case 'good':
@@ -54,7 +59,30 @@ export function AssessmentItem({ assessment, className }: AssessmentItemProps) {
         <p className={cn("text-sm", getTextColor(assessment.rating))}>
           {assessment.text}
         </p>
+        {assessment.references && assessment.references.length > 0 && (
+          <ul className="mt-1 space-y-0.5">
+            {assessment.references.map(reference => (
+              <li key={reference.url} className="text-sm">
+                <a href={reference.url} className="text-blue-600 underline">
+                  {reference.title}
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
+      {canMark && (
+        <Button
+          variant={isMarked ? 'default' : 'ghost'}
+          size="sm"
+          className="flex-shrink-0"
+          onClick={() => onToggleMarks?.(assessment)}
+          aria-pressed={isMarked}
+          title={isMarked ? 'Remove highlights' : 'Highlight this result in the text'}
+        >
+          {isMarked ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+        </Button>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import type { ReviewCheckpoint as Checkpoint, ReviewRequest, SeoArticleResult } from "@/mastra/workflows/seo-article-workflow"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { CheckCircle, Edit3, Loader2, RotateCcw, UserCheck } from "lucide-react"
+
+// What the resume route answers once the run stops again, by the status it stopped in
+export type ReviewResumeResponse =
+  | { success: true, status: 'success', runId: string, result: SeoArticleResult, articleId?: string, workflowId: string }
+  | { success: true, status: 'suspended', runId: string, review?: ReviewRequest, workflowId: string }
+  | { success: false, status: 'failed', runId: string, error: string, details: string }
+
+interface ReviewCheckpointProps {
+  runId: string
+  review: ReviewRequest
+  onResumed: (response: ReviewResumeResponse) => void
+}
+
+type ReviewAction = 'approve' | 'edit' | 'reject'
+
+const CHECKPOINT_TITLES: Record<Checkpoint, string> = {
+  research: 'Review research',
+  outline: 'Review outline',
+  publication: 'Review before publication'
+}
+
+function parseArtifact(text: string): { artifact?: unknown, error?: string } {
+  try {
+    return { artifact: JSON.parse(text) }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid JSON' }
+  }
+}
+
+export function ReviewCheckpoint({ runId, review, onResumed }: ReviewCheckpointProps) {
+  const original = useMemo(() => JSON.stringify(review.artifact, null, 2), [review.artifact])
+  const [artifactText, setArtifactText] = useState(original)
+  const [feedback, setFeedback] = useState('')
+  const [submitting, setSubmitting] = useState<ReviewAction | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const edited = artifactText !== original
+  const parsed = useMemo(() => parseArtifact(artifactText), [artifactText])
+
+  const submit = async (action: ReviewAction) => {
+    setSubmitting(action)
+    setError(null)
+    try {
+      const response = await fetch(`/api/workflow/seo-article/${runId}/resume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          ...(action === 'edit' && { artifact: parsed.artifact }),
+          ...(action === 'reject' && { feedback })
+        })
+      })
+      const data = await response.json()
+      // Requests the route refused carry no run outcome
+      if (!('success' in data)) {
+        throw new Error(data.error || 'Failed to resume workflow')
+      }
+      onResumed(data as ReviewResumeResponse)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to resume workflow')
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="w-5 h-5" />
+          {CHECKPOINT_TITLES[review.checkpoint]}
+          <Badge variant="outline" className="text-xs">Revision {review.revision}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">{review.message}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="review-artifact">Artifact</Label>
+          <Textarea
+            id="review-artifact"
+            value={artifactText}
+            onChange={(e) => setArtifactText(e.target.value)}
+            rows={16}
+            disabled={submitting !== null}
+            className="font-mono text-xs"
+          />
+          {edited && parsed.error && (
+            <p className="text-sm text-red-600">{parsed.error}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="review-feedback">Feedback for a rerun</Label>
+          <Textarea
+            id="review-feedback"
+            placeholder="What should change when this step runs again?"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            rows={3}
+            disabled={submitting !== null}
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => submit('approve')} disabled={submitting !== null || edited}>
+            {submitting === 'approve' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+            Approve
+          </Button>
+          <Button variant="secondary" onClick={() => submit('edit')} disabled={submitting !== null || !edited || Boolean(parsed.error)}>
+            {submitting === 'edit' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Edit3 className="w-4 h-4 mr-2" />}
+            Approve with edits
+          </Button>
+          <Button variant="outline" onClick={() => submit('reject')} disabled={submitting !== null || !feedback.trim()}>
+            {submitting === 'reject' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+            Reject and rerun
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import { AnalysisSnapshot, AssessmentFlip, compareSnapshots } from "@/lib/seo-analyzer"
+import { cn } from "@/lib/utils"
+import { ArrowDownRight, ArrowRight, ArrowUpRight } from "lucide-react"
+
+interface ScoreTrendProps {
+  analyses: AnalysisSnapshot[]
+  className?: string
+}
+
+const WIDTH = 600
+const HEIGHT = 160
+const PADDING = 24
+
+const SERIES = [
+  { key: 'seoScore', label: 'SEO', color: '#2563eb' },
+  { key: 'readabilityScore', label: 'Readability', color: '#16a34a' }
+] as const
+
+const FLIP_STYLES: Record<AssessmentFlip['direction'], { icon: typeof ArrowRight, className: string }> = {
+  improved: { icon: ArrowUpRight, className: 'text-green-600' },
+  regressed: { icon: ArrowDownRight, className: 'text-red-600' },
+  changed: { icon: ArrowRight, className: 'text-gray-500' }
+}
+
+function scoreY(score: number) {
+  return HEIGHT - PADDING - (score / 100) * (HEIGHT - PADDING * 2)
+}
+
+function formatAssessmentId(id: string) {
+  return id.replace(/-/g, ' ')
+}
+
+function FlipItem({ flip }: { flip: AssessmentFlip }) {
+  const { icon: Icon, className } = FLIP_STYLES[flip.direction]
+  return (
+    <li className="flex items-center gap-2 text-sm">
+      <Icon className={cn("w-4 h-4 shrink-0", className)} />
+      <span className="capitalize text-gray-900">{formatAssessmentId(flip.id)}</span>
+      <span className="text-gray-500">
+        {flip.from ?? 'new'} → {flip.to ?? 'no longer applies'}
+      </span>
+    </li>
+  )
+}
+
+/**
+ * SEO and readability scores of every stored analysis, with the assessments
+ * that changed rating in the selected analysis
+ */
+export function ScoreTrend({ analyses, className }: ScoreTrendProps) {
+  const [selected, setSelected] = useState<number>()
+  const selectedIndex = selected !== undefined && selected < analyses.length ? selected : analyses.length - 1
+
+  const points = useMemo(() => {
+    const step = analyses.length > 1 ? (WIDTH - PADDING * 2) / (analyses.length - 1) : 0
+    return analyses.map((analysis, index) => ({
+      x: analyses.length > 1 ? PADDING + index * step : WIDTH / 2,
+      analysis
+    }))
+  }, [analyses])
+
+  const flips = useMemo(
+    () => selectedIndex > 0 ? compareSnapshots(analyses[selectedIndex - 1], analyses[selectedIndex]) : [],
+    [analyses, selectedIndex]
+  )
+
+  if (analyses.length === 0) {
+    return <p className={cn("text-sm text-gray-500", className)}>No analyses yet. Save the article to record its scores.</p>
+  }
+
+  const current = analyses[selectedIndex]
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900">Score history</span>
+        <div className="flex gap-3 text-xs text-gray-500">
+          {SERIES.map(series => (
+            <span key={series.key} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: series.color }} />
+              {series.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40" role="img" aria-label="Score history">
+        {[0, 50, 100].map(score => (
+          <g key={score}>
+            <line
+              x1={PADDING}
+              x2={WIDTH - PADDING}
+              y1={scoreY(score)}
+              y2={scoreY(score)}
+              stroke="#e5e7eb"
+            />
+            <text x={0} y={scoreY(score) + 4} fontSize={10} fill="#9ca3af">{score}</text>
+          </g>
+        ))}
+        {SERIES.map(series => (
+          <polyline
+            key={series.key}
+            fill="none"
+            stroke={series.color}
+            strokeWidth={2}
+            points={points.map(point => `${point.x},${scoreY(point.analysis[series.key])}`).join(' ')}
+          />
+        ))}
+        {points.map((point, index) => SERIES.map(series => (
+          <circle
+            key={`${point.analysis.id}-${series.key}`}
+            cx={point.x}
+            cy={scoreY(point.analysis[series.key])}
+            r={index === selectedIndex ? 5 : 3}
+            fill={series.color}
+            className="cursor-pointer"
+            onClick={() => setSelected(index)}
+          >
+            <title>{`${series.label}: ${point.analysis[series.key]}% (${new Date(point.analysis.createdAt).toLocaleString()})`}</title>
+          </circle>
+        )))}
+      </svg>
+
+      <div className="text-xs text-gray-500">
+        {new Date(current.createdAt).toLocaleString()} · SEO {current.seoScore}% · Readability {current.readabilityScore}%
+      </div>
+
+      {selectedIndex === 0 ? (
+        <p className="text-sm text-gray-500">First recorded analysis.</p>
+      ) : flips.length === 0 ? (
+        <p className="text-sm text-gray-500">No assessment changed rating since the previous analysis.</p>
+      ) : (
+        <ul className="space-y-1">
+          {flips.map(flip => <FlipItem key={flip.id} flip={flip} />)}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -9,44 +9,158 @@ import { Label } from "@/components/ui/label"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ScoreIndicator } from "@/components/ui/score-indicator"
 import { AssessmentItem } from "./assessment-item"
-import { SEOAnalyzer, SEOData } from "@/lib/seo-analyzer"
-import { Search, BookOpen, BarChart3 } from "lucide-react"
+import { SnippetPreview } from "./snippet-preview"
+import {
+  SEOAnalyzer,
+  SEOData,
+  AssessmentMark,
+  AssessmentResult,
+  ClassifiedLink,
+  ImageAudit,
+  AnalysisResult,
+  AnalysisWorkerClient,
+  ArticleType,
+  LibraryArticle,
+  SiteConfig,
+  DEFAULT_SEO_CONFIG,
+  SERP_LAYOUTS,
+  measureTextWidth
+} from "@/lib/seo-analyzer"
+import { SITE_CONFIG } from "@/config/site"
+import { Search, BookOpen, BarChart3, Link2 } from "lucide-react"
 
 interface SEOPanelProps {
   content: string
+  // The page's SEO fields; the panel picks up the ones the page changes
+  initialData?: Partial<Omit<SEOData, 'content'>>
   onAnalyze?: (results: any) => void
+  onMarksChange?: (marks: AssessmentMark[]) => void
+  onImagesChange?: (images: ImageAudit[]) => void
+  siteConfig?: SiteConfig
+  // Selects the scoring profile
+  articleType?: ArticleType
+  // The user's or team's other articles, checked for competing focus keywords
+  otherArticles?: LibraryArticle[]
+  // Runs the analysis off the main thread; without it the panel analyzes on every render
+  analysisWorker?: AnalysisWorkerClient
 }
 
-export function SEOPanel({ content, onAnalyze }: SEOPanelProps) {
+const LINK_TYPE_LABELS: Record<ClassifiedLink['type'], string> = {
+  internal: 'Internal',
+  external: 'External',
+  anchor: 'Same page',
+  other: 'Other'
+}
+
+export function SEOPanel({
+  content,
+  initialData,
+  onAnalyze,
+  onMarksChange,
+  onImagesChange,
+  siteConfig = SITE_CONFIG,
+  articleType,
+  otherArticles,
+  analysisWorker
+}: SEOPanelProps) {
   const [seoData, setSeoData] = useState<SEOData>({
     title: '',
     metaDescription: '',
     url: '',
-    content: content || '',
     keyword: '',
     synonyms: [],
-    relatedKeywords: []
+    relatedKeywords: [],
+    ...initialData,
+    content: content || ''
   })
 
   const [isCornerstone, setIsCornerstone] = useState(false)
+  const [synonymsInput, setSynonymsInput] = useState(initialData?.synonyms?.join(', ') ?? '')
+  const [markedAssessmentId, setMarkedAssessmentId] = useState<string | null>(null)
 
   // Update content when prop changes
   useMemo(() => {
     setSeoData(prev => ({ ...prev, content: content || '' }))
   }, [content])
 
+  // Fields the page changes replace what was typed here; compared by value
+  // because the page passes a new object on every render
+  const initialDataKey = JSON.stringify(initialData ?? {})
+  const syncedInitialData = useRef(initialDataKey)
+  useEffect(() => {
+    if (initialDataKey === syncedInitialData.current) return
+    const previous: Partial<SEOData> = JSON.parse(syncedInitialData.current)
+    const next: Partial<SEOData> = JSON.parse(initialDataKey)
+    syncedInitialData.current = initialDataKey
+
+    const changed: Partial<SEOData> = Object.fromEntries(Object.entries(next).filter(([field, value]) =>
+      JSON.stringify(value) !== JSON.stringify(previous[field as keyof SEOData])
+    ))
+    setSeoData(prev => ({ ...prev, ...changed }))
+    if (changed.synonyms) setSynonymsInput(changed.synonyms.join(', '))
+  }, [initialDataKey])
+
+  // Google truncates by rendered width on the desktop results page
+  const titleWidth = Math.round(measureTextWidth(seoData.title ?? '', SERP_LAYOUTS.desktop.title.fontSize))
+  const descriptionWidth = Math.round(measureTextWidth(seoData.metaDescription ?? '', SERP_LAYOUTS.desktop.description.fontSize))
+
   // Analyze content in real-time
-  const analysis = useMemo(() => {
-    if (!seoData.content.trim()) {
+  const inlineAnalysis = useMemo(() => {
+    if (analysisWorker || !seoData.content.trim()) {
       return null
     }
-    return SEOAnalyzer.analyze(seoData, isCornerstone)
-  }, [seoData, isCornerstone])
+    return SEOAnalyzer.analyze({ ...seoData, articleType, otherArticles }, isCornerstone, { siteConfig })
+  }, [seoData, isCornerstone, siteConfig, articleType, otherArticles, analysisWorker])
+
+  const [workerAnalysis, setWorkerAnalysis] = useState<AnalysisResult | null>(null)
+  useEffect(() => {
+    if (!analysisWorker) return
+    if (!seoData.content.trim()) {
+      setWorkerAnalysis(null)
+      return
+    }
+    let current = true
+    analysisWorker
+      .analyze({ ...seoData, articleType, otherArticles }, isCornerstone, siteConfig)
+      .then(result => {
+        // Superseded requests resolve to null; keep showing the last result
+        if (current && result) setWorkerAnalysis(result)
+      })
+      .catch(error => console.error('SEO analysis failed:', error))
+    return () => {
+      current = false
+    }
+  }, [analysisWorker, seoData, isCornerstone, siteConfig, articleType, otherArticles])
+
+  const analysis = analysisWorker ? workerAnalysis : inlineAnalysis
+
+  // Keep editor highlights in sync with the latest marks of the toggled assessment
+  useEffect(() => {
+    if (!onMarksChange) return
+    const marked = analysis && markedAssessmentId
+      ? [...analysis.seoAssessments, ...analysis.readabilityAssessments].find(a => a.id === markedAssessmentId)
+      : undefined
+    onMarksChange(marked?.marks ?? [])
+  }, [analysis, markedAssessmentId, onMarksChange])
+
+  // Let the editor prompt for fixes on the selected image
+  useEffect(() => {
+    onImagesChange?.(analysis?.images ?? [])
+  }, [analysis, onImagesChange])
+
+  const handleToggleMarks = (assessment: AssessmentResult) => {
+    setMarkedAssessmentId(prev => prev === assessment.id ? null : assessment.id)
+  }
 
   const handleFieldChange = (field: keyof SEOData, value: string) => {
     setSeoData(prev => ({ ...prev, [field]: value }))
   }
 
+  const handleSynonymsChange = (value: string) => {
+    setSynonymsInput(value)
+    setSeoData(prev => ({ ...prev, synonyms: value.split(',').map(s => s.trim()).filter(Boolean) }))
+  }
+
   const handleAnalyze = () => {
     if (analysis && onAnalyze) {
       onAnalyze(analysis)
@@ -84,18 +198,28 @@ export function SEOPanel({ content, onAnalyze }: SEOPanelProps) {
               />
             </div>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="synonyms">Synonyms</Label>
+            <Input
+              id="synonyms"
+              placeholder="Comma-separated, e.g. staffing services, payroll outsourcing"
+              value={synonymsInput}
+              onChange={(e) => handleSynonymsChange(e.target.value)}
+            />
+          </div>
           
           <div className="space-y-2">
             <Label htmlFor="title">SEO Title</Label>
             <Input
               id="title"
-              placeholder="Enter your SEO title (30-60 characters)"
+              placeholder="Enter your SEO title"
               value={seoData.title}
               onChange={(e) => handleFieldChange('title', e.target.value)}
-              className={(seoData.title?.length || 0) > 60 ? 'border-red-300' : ''}
+              className={titleWidth > DEFAULT_SEO_CONFIG.title.maxWidth ? 'border-red-300' : ''}
             />
             <div className="text-xs text-gray-500">
-              {seoData.title?.length || 0}/60 characters
+              {titleWidth}/{DEFAULT_SEO_CONFIG.title.maxWidth} pixels
             </div>
           </div>
 
@@ -103,17 +227,19 @@ export function SEOPanel({ content, onAnalyze }: SEOPanelProps) {
             <Label htmlFor="metaDescription">Meta Description</Label>
             <Textarea
               id="metaDescription"
-              placeholder="Enter your meta description (120-156 characters)"
+              placeholder="Enter your meta description"
               value={seoData.metaDescription}
               onChange={(e) => handleFieldChange('metaDescription', e.target.value)}
               rows={3}
-              className={(seoData.metaDescription?.length || 0) > 156 ? 'border-red-300' : ''}
+              className={descriptionWidth > DEFAULT_SEO_CONFIG.metaDescription.maxWidth ? 'border-red-300' : ''}
             />
             <div className="text-xs text-gray-500">
-              {seoData.metaDescription?.length || 0}/156 characters
+              {descriptionWidth}/{DEFAULT_SEO_CONFIG.metaDescription.maxWidth} pixels
             </div>
           </div>
 
+          <SnippetPreview seoData={seoData} siteConfig={siteConfig} />
+
           <div className="flex items-center space-x-2">
             <input
               type="checkbox"
@@ -170,7 +296,7 @@ export function SEOPanel({ content, onAnalyze }: SEOPanelProps) {
 
             {/* Detailed Assessments */}
             <Tabs defaultValue="seo" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="seo" className="flex items-center gap-2">
                   <Search className="w-4 h-4" />
                   SEO Analysis
@@ -179,12 +305,21 @@ export function SEOPanel({ content, onAnalyze }: SEOPanelProps) {
                   <BookOpen className="w-4 h-4" />
                   Readability
                 </TabsTrigger>
+                <TabsTrigger value="links" className="flex items-center gap-2">
+                  <Link2 className="w-4 h-4" />
+                  Links
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="seo" className="mt-4">
                 <div className="space-y-3">
                   {analysis.seoAssessments.map((assessment, index) => (
-                    <AssessmentItem key={index} assessment={assessment} />
+                    <AssessmentItem
+                      key={index}
+                      assessment={assessment}
+                      isMarked={markedAssessmentId === assessment.id}
+                      onToggleMarks={onMarksChange ? handleToggleMarks : undefined}
+                    />
                   ))}
                 </div>
               </TabsContent>
@@ -192,10 +327,37 @@ export function SEOPanel({ content, onAnalyze }: SEOPanelProps) {
               <TabsContent value="readability" className="mt-4">
                 <div className="space-y-3">
                   {analysis.readabilityAssessments.map((assessment, index) => (
-                    <AssessmentItem key={index} assessment={assessment} />
+                    <AssessmentItem
+                      key={index}
+                      assessment={assessment}
+                      isMarked={markedAssessmentId === assessment.id}
+                      onToggleMarks={onMarksChange ? handleToggleMarks : undefined}
+                    />
                   ))}
                 </div>
               </TabsContent>
+
+              <TabsContent value="links" className="mt-4">
+                {analysis.links && analysis.links.length > 0 ? (
+                  <div className="space-y-2">
+                    {analysis.links.map((link, index) => (
+                      <div
+                        key={index}
+                        className={`p-3 rounded-lg border bg-white text-sm ${link.issue ? 'border-red-300' : ''}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-900 truncate">{link.text || link.href}</span>
+                          <span className="text-xs text-gray-600 flex-shrink-0">{LINK_TYPE_LABELS[link.type]}</span>
+                        </div>
+                        <div className="text-xs text-gray-500 truncate">{link.url ?? link.href}</div>
+                        {link.issue && <div className="text-xs text-red-700 mt-1">{link.issue}</div>}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-600">No links found in the content.</div>
+                )}
+              </TabsContent>
             </Tabs>
 
             {onAnalyze && (
@@ -0,0 +1,79 @@
+import { useMemo, useState } from 'react'
+import { createSnippetPreview, SERP_LAYOUTS, SEOData, SerpDevice, SiteConfig, SnippetText } from "@/lib/seo-analyzer"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Monitor, Smartphone } from "lucide-react"
+
+interface SnippetPreviewProps {
+  seoData: SEOData
+  siteConfig?: SiteConfig
+  className?: string
+}
+
+function WidthReadout({ label, snippet }: { label: string, snippet: SnippetText }) {
+  return (
+    <span className={cn(snippet.truncated ? 'text-red-600' : 'text-gray-500')}>
+      {label}: {Math.round(snippet.width)}/{snippet.maxWidth}px{snippet.truncated ? ' (truncated)' : ''}
+    </span>
+  )
+}
+
+export function SnippetPreview({ seoData, siteConfig, className }: SnippetPreviewProps) {
+  const [device, setDevice] = useState<SerpDevice>('desktop')
+
+  const preview = useMemo(
+    () => createSnippetPreview(seoData, device, siteConfig),
+    [seoData, device, siteConfig]
+  )
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900">Google preview</span>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            size="sm"
+            variant={device === 'desktop' ? 'secondary' : 'ghost'}
+            onClick={() => setDevice('desktop')}
+          >
+            <Monitor className="w-4 h-4 mr-1" />
+            Desktop
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={device === 'mobile' ? 'secondary' : 'ghost'}
+            onClick={() => setDevice('mobile')}
+          >
+            <Smartphone className="w-4 h-4 mr-1" />
+            Mobile
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className="rounded-lg border bg-white p-4 font-[Arial,sans-serif]"
+        style={{ maxWidth: Math.max(preview.title.maxWidth, preview.description.maxWidth) + 34 }}
+      >
+        <div className="text-sm text-gray-700 truncate">{preview.breadcrumb || 'example.com'}</div>
+        <div
+          className="text-[#1a0dab] leading-snug truncate"
+          style={{ fontSize: SERP_LAYOUTS[device].title.fontSize }}
+        >
+          {preview.title.text || 'Add an SEO title'}
+        </div>
+        <p className="text-sm text-[#4d5156] leading-snug mt-1">
+          {preview.description.segments.map((segment, index) => (
+            segment.bold ? <strong key={index}>{segment.text}</strong> : <span key={index}>{segment.text}</span>
+          ))}
+        </p>
+      </div>
+
+      <div className="flex gap-4 text-xs">
+        <WidthReadout label="Title" snippet={preview.title} />
+        <WidthReadout label="Description" snippet={preview.description} />
+      </div>
+    </div>
+  )
+}
@@ -4,7 +4,7 @@ import { UserButton, SignInButton, SignUpButton, useUser } from "@clerk/nextjs"
 import { Button } from "@/components/ui/button"
 import { ThemeToggle } from "@/components/ui/theme-toggle"
 import Link from "next/link"
-import { BarChart3, MessageSquare, PenTool, FileText } from "lucide-react"
+import { BarChart3, MessageSquare, PenTool, FileText, Layers } from "lucide-react"
 
 export function TopNav() {
 	const { isSignedIn, isLoaded } = useUser()
@@ -37,6 +37,12 @@ export function TopNav() {
 									Article Creator
 								</Button>
 							</Link>
+							<Link href="/batches">
+								<Button variant="ghost" size="sm" className="flex items-center gap-2">
+									<Layers className="w-4 h-4" />
+									Batches
+								</Button>
+							</Link>
 							<Link href="/seo-analyzer">
 								<Button variant="ghost" size="sm" className="flex items-center gap-2">
 									<BarChart3 className="w-4 h-4" />
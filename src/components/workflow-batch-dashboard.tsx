@@ -0,0 +1,256 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { BatchCsvError, WorkflowBatch, WorkflowBatchRowStatus } from '@/lib/workflow-batches';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  CheckCircle,
+  XCircle,
+  PauseCircle,
+  RefreshCw,
+  Clock,
+  Ban,
+  Layers,
+  Upload,
+  ExternalLink
+} from 'lucide-react';
+
+const CSV_TEMPLATE = 'keyword,article type,audience,priority\npayroll outsourcing,commercial,HR directors,high\n';
+
+// Rows that no longer change without someone acting on them
+const SETTLED_STATUSES: WorkflowBatchRowStatus[] = ['success', 'failed', 'canceled'];
+
+export function WorkflowBatchDashboard() {
+  const [batches, setBatches] = useState<WorkflowBatch[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [csv, setCsv] = useState(CSV_TEMPLATE);
+  const [concurrency, setConcurrency] = useState(3);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [csvErrors, setCsvErrors] = useState<BatchCsvError[]>([]);
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/workflow/batches');
+      if (response.ok) {
+        const data = await response.json();
+        setBatches(data.batches || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch workflow batches:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBatches();
+    const interval = setInterval(fetchBatches, 5000); // Update every 5 seconds
+    return () => clearInterval(interval);
+  }, [fetchBatches]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setCsv(await file.text());
+  };
+
+  const submitBatch = async () => {
+    setSubmitting(true);
+    setError(null);
+    setCsvErrors([]);
+    try {
+      const response = await fetch('/api/workflow/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, concurrency })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        if (Array.isArray(data.details)) setCsvErrors(data.details);
+        throw new Error(data.error || 'Failed to queue the batch');
+      }
+      setSelectedId(data.batch.batchId);
+      await fetchBatches();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to queue the batch');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const getStatusIcon = (status: WorkflowBatchRowStatus) => {
+    switch (status) {
+      case 'queued':
+        return <Clock className="h-4 w-4 text-gray-500" />;
+      case 'running':
+        return <RefreshCw className="h-4 w-4 text-yellow-500 animate-spin" />;
+      case 'suspended':
+        return <PauseCircle className="h-4 w-4 text-blue-500" />;
+      case 'success':
+        return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'canceled':
+        return <Ban className="h-4 w-4 text-gray-500" />;
+      default:
+        return <XCircle className="h-4 w-4 text-red-500" />;
+    }
+  };
+
+  const getStatusLabel = (status: WorkflowBatchRowStatus) =>
+    status === 'suspended' ? 'awaiting review' : status;
+
+  const countSettled = (batch: WorkflowBatch) =>
+    batch.rows.filter(row => SETTLED_STATUSES.includes(row.status)).length;
+
+  const selected = batches.find(batch => batch.batchId === selectedId) ?? batches[0];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            New Batch
+          </CardTitle>
+          <CardDescription>
+            One article per row. Columns: keyword (required), article type, audience and priority (high, medium, low or a number).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="batch-file">CSV file</Label>
+            <Input id="batch-file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="batch-csv">CSV</Label>
+            <Textarea
+              id="batch-csv"
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+              rows={8}
+              className="font-mono text-sm"
+            />
+          </div>
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="batch-concurrency">Articles at once</Label>
+              <Input
+                id="batch-concurrency"
+                type="number"
+                min={1}
+                max={10}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value) || 1)}
+                className="w-24"
+              />
+            </div>
+            <Button onClick={submitBatch} disabled={submitting || !csv.trim()}>
+              <Layers className="h-4 w-4 mr-2" />
+              {submitting ? 'Queuing...' : 'Queue Articles'}
+            </Button>
+          </div>
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-2 rounded">
+              <p>{error}</p>
+              {csvErrors.length > 0 && (
+                <ul className="list-disc ml-5 mt-1">
+                  {csvErrors.map((csvError, index) => (
+                    <li key={index}>Line {csvError.line}: {csvError.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Batches
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {batches.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No batches yet. Queue a CSV of keywords to create articles in bulk.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {batches.map((batch) => (
+                  <Button
+                    key={batch.batchId}
+                    variant={batch.batchId === selected?.batchId ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setSelectedId(batch.batchId)}
+                  >
+                    {new Date(batch.createdAt).toLocaleString()} · {countSettled(batch)}/{batch.rows.length}
+                  </Button>
+                ))}
+              </div>
+
+              {selected && (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <span>{selected.concurrency} at once</span>
+                    <Progress value={(countSettled(selected) / selected.rows.length) * 100} className="flex-1" />
+                    <span>{countSettled(selected)} of {selected.rows.length} done</span>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Keyword</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Audience</TableHead>
+                        <TableHead>Priority</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Article</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selected.rows.map((row) => (
+                        <TableRow key={row.index}>
+                          <TableCell>{row.index + 1}</TableCell>
+                          <TableCell className="font-medium">{row.keyword}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{row.articleType}</Badge>
+                          </TableCell>
+                          <TableCell>{row.audience ?? '—'}</TableCell>
+                          <TableCell>{row.priority}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {getStatusIcon(row.status)}
+                              <span>{getStatusLabel(row.status)}</span>
+                            </div>
+                            {row.error && <p className="text-xs text-red-600 mt-1">{row.error}</p>}
+                          </TableCell>
+                          <TableCell>
+                            {row.articleId ? (
+                              <Link href={`/articles/${row.articleId}/edit`} className="inline-flex items-center gap-1 text-sm underline">
+                                Open
+                                <ExternalLink className="h-3 w-3" />
+                              </Link>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
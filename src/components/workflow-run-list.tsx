@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import type { WorkflowRunRecord, WorkflowRunStep } from '@/lib/workflow-runs';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import {
+  CheckCircle,
+  XCircle,
+  PauseCircle,
+  RefreshCw,
+  RotateCcw,
+  Ban,
+  Workflow
+} from 'lucide-react';
+
+const STEP_LABELS: Record<string, string> = {
+  research_phase: 'Research',
+  structure_phase: 'Structure',
+  content_phase: 'Content',
+  optimization_phase: 'Optimization',
+  quality_loop: 'Quality loop',
+  human_review: 'Review',
+};
+
+export function WorkflowRunList() {
+  const [runs, setRuns] = useState<WorkflowRunRecord[]>([]);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const response = await fetch('/api/workflow/runs?limit=20');
+      if (response.ok) {
+        const data = await response.json();
+        setRuns(data.runs || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch workflow runs:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+    const interval = setInterval(fetchRuns, 5000); // Update every 5 seconds
+    return () => clearInterval(interval);
+  }, [fetchRuns]);
+
+  const runAction = async (key: string, url: string) => {
+    setPendingAction(key);
+    setError(null);
+    try {
+      const response = await fetch(url, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Workflow run action failed');
+      }
+      await fetchRuns();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Workflow run action failed');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'running':
+        return <RefreshCw className="h-4 w-4 text-yellow-500 animate-spin" />;
+      case 'suspended':
+        return <PauseCircle className="h-4 w-4 text-blue-500" />;
+      case 'success':
+        return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'canceled':
+        return <Ban className="h-4 w-4 text-gray-500" />;
+      default:
+        return <XCircle className="h-4 w-4 text-red-500" />;
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    const variants: Record<string, any> = {
+      running: 'secondary',
+      suspended: 'outline',
+      success: 'default',
+      failed: 'destructive',
+      canceled: 'outline',
+    };
+
+    return (
+      <Badge variant={variants[status] || 'outline'} className="ml-2">
+        {status}
+      </Badge>
+    );
+  };
+
+  const formatStepDuration = (step: WorkflowRunStep) => {
+    if (!step.startedAt || !step.endedAt) return '';
+    const seconds = Math.round((step.endedAt - step.startedAt) / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
+  // A retry starts at the first step that did not succeed
+  const getRetryStep = (run: WorkflowRunRecord) =>
+    Object.keys(STEP_LABELS).find(stepId => run.steps[stepId]?.status !== 'success');
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Workflow className="h-5 w-5" />
+          Workflow Runs
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <p className="text-sm text-red-600 mb-4 bg-red-50 p-2 rounded">{error}</p>
+        )}
+        <ScrollArea className="h-96">
+          <div className="space-y-4">
+            {runs.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">
+                No workflow runs yet. Runs will appear here when you create an article.
+              </p>
+            ) : (
+              runs.map((run) => {
+                const retryStep = getRetryStep(run);
+                return (
+                  <div key={run.runId} className="p-3 rounded-lg border bg-card">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2 min-w-0">
+                        {getStatusIcon(run.status)}
+                        <span className="font-medium truncate">
+                          {String(run.input.userInput ?? run.workflowId)}
+                        </span>
+                        {getStatusBadge(run.status)}
+                        {run.retryOf && (
+                          <Badge variant="outline" className="text-xs">
+                            retry from {STEP_LABELS[run.retryFrom ?? ''] ?? run.retryFrom}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        {(run.status === 'running' || run.status === 'suspended') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={pendingAction !== null}
+                            onClick={() => runAction(`cancel-${run.runId}`, `/api/workflow/runs/${run.runId}/cancel`)}
+                          >
+                            <Ban className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                        {(run.status === 'failed' || run.status === 'canceled') && retryStep && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={pendingAction !== null}
+                            onClick={() => runAction(`retry-${run.runId}`, `/api/workflow/runs/${run.runId}/retry-from/${retryStep}`)}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry from {STEP_LABELS[retryStep]}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2 text-xs text-muted-foreground">
+                      <span>Started: {new Date(run.createdAt).toLocaleString()}</span>
+                      {Object.entries(run.steps).map(([stepId, step]) => (
+                        <Badge key={stepId} variant="outline" className="text-xs">
+                          {STEP_LABELS[stepId] ?? stepId}: {step.status} {formatStepDuration(step)}
+                        </Badge>
+                      ))}
+                    </div>
+                    {run.error && (
+                      <p className="text-sm text-red-600 mt-2 bg-red-50 p-2 rounded">
+                        Error: {run.error}
+                      </p>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
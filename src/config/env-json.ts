@@ -0,0 +1,18 @@
+import { z } from 'zod'
+
+/**
+ * Parses an environment variable holding JSON against a schema. A missing,
+ * malformed or invalid value is logged and ignored.
+ */
+export function parseJsonEnv<T extends z.ZodTypeAny>(name: string, schema: T): z.infer<T> | undefined {
+  const value = process.env[name]
+  if (!value) return undefined
+  try {
+    const parsed = schema.safeParse(JSON.parse(value))
+    if (parsed.success) return parsed.data
+    console.error(`❌ Ignoring invalid ${name}:`, parsed.error.flatten().fieldErrors)
+  } catch {
+    console.error(`❌ Ignoring ${name}: not valid JSON`)
+  }
+  return undefined
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+import { parseJsonEnv } from '@/config/env-json'
+
+// Phases of the SEO article workflow an agent can be routed by
+export const MODEL_PHASES = ['research', 'folder_setup', 'outline', 'draft', 'optimization', 'revision'] as const
+export type ModelPhase = typeof MODEL_PHASES[number]
+
+// Providers a model can be served by, with the variable holding their API key
+export const MODEL_PROVIDERS = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY'
+} as const
+export type ModelProvider = keyof typeof MODEL_PROVIDERS
+
+// `provider:model`, e.g. openai:gpt-4o
+const modelSpecSchema = z.string().regex(/^(openai|anthropic):\S+$/, 'Expected provider:model with provider openai or anthropic')
+
+// Models in order of preference; the next takes over when one is rate limited or failing
+const modelChainSchema = z.array(modelSpecSchema).min(1)
+
+const agentModelRouteSchema = z.object({
+  models: modelChainSchema.optional(),
+  phases: z.record(z.enum(MODEL_PHASES), modelChainSchema).optional()
+})
+
+const modelRoutesSchema = z.object({
+  default: modelChainSchema.optional(),
+  // Keyed by the agent's key in the Mastra instance, e.g. seoContentAgent
+  agents: z.record(z.string(), agentModelRouteSchema).optional()
+})
+
+export type ModelChain = z.infer<typeof modelChainSchema>
+export type AgentModelRoute = z.infer<typeof agentModelRouteSchema>
+
+export interface ModelRoutes {
+  default: ModelChain
+  agents: Record<string, AgentModelRoute>
+}
+
+const STRONG: ModelChain = ['openai:gpt-4o', 'anthropic:claude-3-5-sonnet-latest']
+const FAST: ModelChain = ['openai:gpt-4o-mini', 'anthropic:claude-3-5-haiku-latest']
+
+// Cheaper models for the mechanical phases, stronger ones for research and writing
+export const DEFAULT_MODEL_ROUTES: ModelRoutes = {
+  default: STRONG,
+  agents: {
+    seoStructureAgent: { phases: { folder_setup: FAST, outline: FAST } }
+  }
+}
+
+/**
+ * Model routes: MODEL_ROUTES replaces the default chain and the routes of the
+ * agents it names, e.g. {"agents":{"seoContentAgent":{"phases":{"draft":["anthropic:claude-sonnet-4-0"]}}}}
+ */
+export function getModelRoutes(): ModelRoutes {
+  const overrides = parseJsonEnv('MODEL_ROUTES', modelRoutesSchema)
+  return {
+    default: overrides?.default ?? DEFAULT_MODEL_ROUTES.default,
+    agents: { ...DEFAULT_MODEL_ROUTES.agents, ...overrides?.agents }
+  }
+}
+
+/**
+ * Models an agent tries for a phase: the phase's chain, else the agent's
+ * chain, else the default
+ */
+export function resolveModelChain(routes: ModelRoutes, agentKey: string, phase?: ModelPhase): ModelChain {
+  const route = routes.agents[agentKey]
+  return (phase && route?.phases?.[phase]) || route?.models || routes.default
+}
@@ -0,0 +1,16 @@
+import type { SiteConfig } from '@/lib/seo-analyzer'
+import { CUSTOM_CONTEXT } from './tasc-context'
+
+function splitList(value?: string): string[] {
+  return (value ?? '').split(',').map(item => item.trim()).filter(Boolean)
+}
+
+// Our own site, used to tell internal from external links.
+// NEXT_PUBLIC_ so the SEO panel in the browser classifies links the same way as the agents.
+export const SITE_CONFIG: SiteConfig = {
+  domains: splitList(process.env.NEXT_PUBLIC_SITE_DOMAINS),
+  includeSubdomains: process.env.NEXT_PUBLIC_SITE_INCLUDE_SUBDOMAINS !== 'false',
+  pathPrefixes: splitList(process.env.NEXT_PUBLIC_SITE_PATH_PREFIXES),
+  competitorDomains: splitList(process.env.NEXT_PUBLIC_COMPETITOR_DOMAINS),
+  stylePhrases: CUSTOM_CONTEXT.stylePhrases
+}
@@ -1,6 +1,8 @@
 // TASC Blog Article Agent v2 - Context and Rules Configuration
 // This file contains all the context, rules, and guidelines for creating high-quality blog articles
 
+import type { StylePhrase } from "@/lib/seo-analyzer"
+
 export const TASC_CONTEXT = {
 	// Company Information
 	company: {
@@ -81,6 +83,12 @@ export const TASC_CONTEXT = {
 
 // You can add your specific context and rules here
 export const CUSTOM_CONTEXT = {
+	// Phrases the SEO analyzer flags on top of its built-in list of filler, clichés and AI-isms
+	stylePhrases: [
+		// Example:
+		// { phrase: "world-class", kind: "cliche", suggestion: "Back the claim with a figure or client result" }
+	] as StylePhrase[],
+
 	// Add your specific rules, guidelines, and context here
 	// Example:
 	// specificRules: [
@@ -0,0 +1,54 @@
+import { z } from 'zod'
+import { parseJsonEnv } from '@/config/env-json'
+
+// USD per million tokens
+const modelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative()
+})
+
+// Spending limits in USD; a missing limit is unlimited
+const usageBudgetSchema = z.object({
+  dailyUsd: z.number().positive().optional(),
+  monthlyUsd: z.number().positive().optional()
+})
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>
+export type UsageBudget = z.infer<typeof usageBudgetSchema>
+
+// List prices of the models the agents use. A model id matches the longest
+// entry it starts with, so dated versions such as gpt-4o-2024-08-06 are priced too.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 }
+}
+
+function parseAmount(name: string): number | undefined {
+  const amount = Number(process.env[name])
+  return process.env[name] && amount > 0 ? amount : undefined
+}
+
+// MODEL_PRICES adds or overrides entries, e.g. {"gpt-4o":{"input":2.5,"output":10}}
+export function getModelPrices(): Record<string, ModelPrice> {
+  return { ...DEFAULT_MODEL_PRICES, ...parseJsonEnv('MODEL_PRICES', z.record(z.string(), modelPriceSchema)) }
+}
+
+/**
+ * Budget of a user: their entry in USAGE_USER_BUDGETS (keyed by Clerk user
+ * id), else the USAGE_DAILY_BUDGET_USD and USAGE_MONTHLY_BUDGET_USD defaults
+ */
+export function getUsageBudget(userId: string): UsageBudget {
+  const budgets = parseJsonEnv('USAGE_USER_BUDGETS', z.record(z.string(), usageBudgetSchema))
+  return budgets?.[userId] ?? {
+    dailyUsd: parseAmount('USAGE_DAILY_BUDGET_USD'),
+    monthlyUsd: parseAmount('USAGE_MONTHLY_BUDGET_USD')
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Runs once when the server starts: picks up the workflow runs and batches a
+ * previous process left running, and keeps taking over those of processes
+ * that stop
+ */
+export async function register() {
+  // Workflow runs need the Node.js runtime and the LibSQL database
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { mastra } = await import('@/mastra')
+  const { RUN_LEASE_MS, workflowRunRegistry } = await import('@/lib/workflow-runs')
+  const { resumeInterruptedRuns } = await import('@/mastra/workflows/recovery')
+  const { resumeQueuedBatches } = await import('@/mastra/workflows/batch')
+
+  const recover = async () => {
+    try {
+      const resumed = await resumeInterruptedRuns(mastra.getWorkflow('seoArticleWorkflow'), workflowRunRegistry)
+      if (resumed.length > 0) {
+        console.log(`Resumed ${resumed.length} interrupted workflow run(s): ${resumed.join(', ')}`)
+      }
+    } catch (error) {
+      console.error('❌ Failed to resume interrupted workflow runs:', error)
+    }
+
+    try {
+      const batches = await resumeQueuedBatches(mastra.getWorkflow('seoArticleWorkflow'), workflowRunRegistry)
+      if (batches.length > 0) {
+        console.log(`Resumed ${batches.length} workflow batch(es) with queued rows: ${batches.join(', ')}`)
+      }
+    } catch (error) {
+      console.error('❌ Failed to resume queued workflow batches:', error)
+    }
+  }
+
+  await recover()
+  // Runs and batches of a process that stopped shortly before, or of another
+  // instance that stopped, are taken over once their lease expires
+  setInterval(recover, RUN_LEASE_MS).unref()
+}
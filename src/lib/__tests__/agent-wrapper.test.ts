@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Agent } from '@mastra/core/agent';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { USAGE_ARTICLE_KEY, USAGE_USER_KEY, wrapAgentWithLogging } from '../agent-wrapper';
+import { agentActivityLogger } from '../agent-activity-logger';
+import { usageLedger } from '../usage-ledger';
+
+vi.mock('../agent-activity-logger', () => ({
+  agentActivityLogger: {
+    startActivity: vi.fn(async () => 'activity-1'),
+    updateActivity: vi.fn(),
+    completeActivity: vi.fn()
+  }
+}));
+
+vi.mock('../usage-ledger', () => ({
+  usageLedger: { record: vi.fn() }
+}));
+
+describe('wrapAgentWithLogging', () => {
+  const runtimeContext = new RuntimeContext();
+  runtimeContext.set(USAGE_USER_KEY, 'user-1');
+  runtimeContext.set(USAGE_ARTICLE_KEY, 'article-1');
+
+  const steps = [
+    { usage: { promptTokens: 1000, completionTokens: 100, totalTokens: 1100 }, response: { modelId: 'gpt-4o-2024-08-06' } },
+    { usage: { promptTokens: 2000, completionTokens: 200, totalTokens: 2200 }, response: { modelId: 'claude-3-5-sonnet-20241022' } },
+    { usage: { promptTokens: 500, completionTokens: 50, totalTokens: 550 }, response: { modelId: 'gpt-4o-2024-08-06' } }
+  ];
+  const usage = { promptTokens: 3500, completionTokens: 350, totalTokens: 3850 };
+
+  let agent: Agent;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    agent = {
+      generate: vi.fn(async () => ({ text: 'Done', finishReason: 'stop', usage, steps })),
+      stream: vi.fn(async (_messages: unknown, options: { onFinish: (event: unknown) => Promise<void> }) => {
+        await options.onFinish({ text: 'Done', finishReason: 'stop', usage, steps });
+        return { textStream: 'stream' };
+      }),
+      getModel: vi.fn(async () => ({ modelId: 'gpt-4o' }))
+    } as unknown as Agent;
+    wrapAgentWithLogging(agent, 'seoContentAgent');
+  });
+
+  it('records generate usage per model for the user and article in the runtime context', async () => {
+    await agent.generate('Write the draft', { runId: 'run-1', runtimeContext });
+
+    expect(vi.mocked(usageLedger.record).mock.calls.map(([entry]) => entry)).toEqual([
+      { agent: 'seoContentAgent', model: 'gpt-4o-2024-08-06', promptTokens: 1500, completionTokens: 150, runId: 'run-1', userId: 'user-1', articleId: 'article-1' },
+      { agent: 'seoContentAgent', model: 'claude-3-5-sonnet-20241022', promptTokens: 2000, completionTokens: 200, runId: 'run-1', userId: 'user-1', articleId: 'article-1' }
+    ]);
+    expect(agentActivityLogger.completeActivity).toHaveBeenCalledWith('activity-1', expect.objectContaining({
+      models: ['gpt-4o-2024-08-06', 'claude-3-5-sonnet-20241022']
+    }));
+  });
+
+  it('records stream usage when the stream finishes, then calls the caller\'s onFinish', async () => {
+    const onFinish = vi.fn(() => {
+      expect(usageLedger.record).toHaveBeenCalledTimes(2);
+    });
+    const result = await agent.stream([{ role: 'user', content: 'Write the draft' }], { runtimeContext, onFinish });
+
+    expect(result).toEqual({ textStream: 'stream' });
+    expect(onFinish).toHaveBeenCalledWith(expect.objectContaining({ usage }));
+    expect(vi.mocked(usageLedger.record).mock.calls[0][0]).toMatchObject({ userId: 'user-1', articleId: 'article-1', runId: undefined });
+    expect(agentActivityLogger.completeActivity).toHaveBeenCalledWith('activity-1', expect.objectContaining({ responseLength: 4, finishReason: 'stop' }));
+  });
+
+  it('falls back to the agent\'s model when a step reports none, and records calls without a user', async () => {
+    await wrapAgentWithLogging({
+      generate: vi.fn(async () => ({ text: '', usage })),
+      stream: vi.fn(),
+      getModel: vi.fn(async () => ({ modelId: 'gpt-4o' }))
+    } as unknown as Agent, 'seoResearchAgent').generate('Research payroll');
+
+    expect(usageLedger.record).toHaveBeenCalledWith({
+      agent: 'seoResearchAgent', model: 'gpt-4o', promptTokens: 3500, completionTokens: 350, runId: undefined, userId: undefined, articleId: undefined
+    });
+  });
+});
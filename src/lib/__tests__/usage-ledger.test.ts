@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createClient, type Client } from '@libsql/client';
+import { UsageLedger, estimateCost, findModelPrice } from '../usage-ledger';
+import { DEFAULT_MODEL_PRICES } from '@/config/usage';
+
+describe('UsageLedger', () => {
+  let client: Client;
+  let ledger: UsageLedger;
+
+  const record = (overrides: Partial<Parameters<UsageLedger['record']>[0]> = {}) => ledger.record({
+    agent: 'seoContentAgent',
+    model: 'gpt-4o',
+    promptTokens: 100_000,
+    completionTokens: 20_000,
+    runId: 'run-1',
+    userId: 'user-1',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    vi.useRealTimers();
+    client = createClient({ url: ':memory:' });
+    ledger = new UsageLedger({
+      client,
+      prices: DEFAULT_MODEL_PRICES,
+      getBudget: userId => (userId === 'user-1' ? { dailyUsd: 1, monthlyUsd: 10 } : {})
+    });
+  });
+
+  it('should price dated and provider-prefixed model ids by the longest matching entry', () => {
+    expect(findModelPrice('gpt-4o-2024-08-06', DEFAULT_MODEL_PRICES)).toEqual({ input: 2.5, output: 10 });
+    expect(findModelPrice('gpt-4o-mini-2024-07-18', DEFAULT_MODEL_PRICES)).toEqual({ input: 0.15, output: 0.6 });
+    expect(findModelPrice('anthropic/claude-3-5-haiku-20241022', DEFAULT_MODEL_PRICES)).toEqual({ input: 0.8, output: 4 });
+    expect(findModelPrice('gpt-4oo', DEFAULT_MODEL_PRICES)).toBeUndefined();
+    expect(estimateCost({ input: 2.5, output: 10 }, 100_000, 20_000)).toBeCloseTo(0.45);
+  });
+
+  it('should record the tokens and estimated cost of a call with its tags', async () => {
+    const entry = await record();
+    const unpriced = await record({ model: 'local-llama' });
+
+    expect(entry).toMatchObject({ runId: 'run-1', userId: 'user-1', agent: 'seoContentAgent', totalTokens: 120_000 });
+    expect(entry.costUsd).toBeCloseTo(0.45);
+    expect(unpriced.costUsd).toBeUndefined();
+  });
+
+  it('should roll usage up per day and month, and break it down per agent, model and run', async () => {
+    vi.useFakeTimers({ now: new Date('2026-09-30T23:00:00Z'), toFake: ['Date'] });
+    await record();
+    vi.setSystemTime(new Date('2026-10-01T08:00:00Z'));
+    await record({ agent: 'seoOptimizationAgent', runId: 'run-2' });
+    await record({ model: 'gpt-4o-mini', runId: 'run-2' });
+    await record({ userId: 'user-2' });
+
+    const daily = await ledger.rollup({ userId: 'user-1', period: 'day', since: new Date('2026-09-01T00:00:00Z') });
+    expect(daily.map(({ key, calls }) => [key, calls])).toEqual([['2026-09-30', 1], ['2026-10-01', 2]]);
+    expect(daily[1].totalTokens).toBe(240_000);
+
+    const monthly = await ledger.rollup({ userId: 'user-1', period: 'month', since: new Date('2026-01-01T00:00:00Z') });
+    expect(monthly.map(({ key, calls }) => [key, calls])).toEqual([['2026-09', 1], ['2026-10', 2]]);
+    expect(monthly[1].costUsd).toBeCloseTo(0.45 + 0.027);
+
+    const models = await ledger.breakdown({ by: 'model', userId: 'user-1', since: new Date('2026-10-01T00:00:00Z') });
+    expect(models.map(({ key, calls }) => [key, calls])).toEqual([['gpt-4o', 1], ['gpt-4o-mini', 1]]);
+    const run = await ledger.breakdown({ by: 'agent', userId: 'user-1', runId: 'run-2' });
+    expect(run.map(({ key }) => key)).toEqual(['seoOptimizationAgent', 'seoContentAgent']);
+  });
+
+  it('should report a budget as exceeded once the spending of the day or month reaches it', async () => {
+    vi.useFakeTimers({ now: new Date('2026-10-01T08:00:00Z'), toFake: ['Date'] });
+    await record({ promptTokens: 200_000, completionTokens: 40_000 });
+
+    expect(await ledger.getBudgetStatus('user-1')).toMatchObject({
+      daily: { limitUsd: 1, exceeded: false },
+      monthly: { limitUsd: 10, exceeded: false },
+      exceeded: false
+    });
+
+    await record({ promptTokens: 200_000, completionTokens: 40_000 });
+    const status = await ledger.getBudgetStatus('user-1');
+    expect(status.daily.spentUsd).toBeCloseTo(1.8);
+    expect(status.exceeded).toBe(true);
+    // A new day resets the daily budget
+    expect((await ledger.getBudgetStatus('user-1', new Date('2026-10-02T08:00:00Z'))).exceeded).toBe(false);
+    expect((await ledger.getBudgetStatus('user-2')).exceeded).toBe(false);
+  });
+
+  it('should tag the entries of a run with the article it produced', async () => {
+    await record();
+    await record({ runId: 'run-2' });
+    await ledger.assignArticle('run-1', 'article-1');
+
+    const { rows } = await client.execute('SELECT run_id, article_id FROM usage_entries ORDER BY id');
+    expect(rows.map(row => [row.run_id, row.article_id])).toEqual([['run-1', 'article-1'], ['run-2', null]]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_BATCH_ROWS, parseBatchCsv } from '../workflow-batches';
+
+describe('parseBatchCsv', () => {
+  it('should read the keyword, article type, audience and priority of each row', () => {
+    const { rows, errors } = parseBatchCsv([
+      'Keyword,Article Type,Target Audience,Priority',
+      'payroll outsourcing,Commercial,HR directors,high',
+      '"employer of record, Singapore",how-to,"Founders, CFOs",5',
+      '',
+      'visa sponsorship,,,'
+    ].join('\r\n'));
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { keyword: 'payroll outsourcing', articleType: 'commercial', audience: 'HR directors', priority: 3 },
+      { keyword: 'employer of record, Singapore', articleType: 'how-to', audience: 'Founders, CFOs', priority: 5 },
+      { keyword: 'visa sponsorship', articleType: 'informational', audience: undefined, priority: 2 }
+    ]);
+  });
+
+  it('should read quoted fields with doubled quotes and line breaks', () => {
+    const { rows } = parseBatchCsv('keyword,audience\n"the ""best"" PEO","HR\nteams"\nleave policy,managers');
+
+    expect(rows.map(row => [row.keyword, row.audience])).toEqual([
+      ['the "best" PEO', 'HR\nteams'],
+      ['leave policy', 'managers']
+    ]);
+  });
+
+  it('should report the line of each invalid row', () => {
+    const { rows, errors } = parseBatchCsv('keyword,type,priority\npayroll,essay,high\n,commercial,low\nleave policy,,urgent\nvisas,,');
+
+    expect(rows).toHaveLength(1);
+    expect(errors.map(error => error.line)).toEqual([2, 3, 4]);
+    expect(errors[0].message).toContain('articleType');
+    expect(errors[1].message).toContain('Keyword is required');
+    expect(errors[2].message).toContain('Priority must be high, medium, low or a whole number');
+  });
+
+  it('should reject a CSV without a keyword column, rows or within the row limit', () => {
+    expect(parseBatchCsv('topic\n').errors).toEqual([{ line: 1, message: 'The CSV has no rows' }]);
+    expect(parseBatchCsv('title,type\npayroll,commercial').errors).toEqual([{ line: 1, message: 'The header has no keyword column' }]);
+    expect(parseBatchCsv('').errors[0].message).toBe('The CSV is empty');
+
+    const csv = ['keyword', ...Array.from({ length: MAX_BATCH_ROWS + 1 }, (_, index) => `keyword ${index}`)].join('\n');
+    expect(parseBatchCsv(csv).errors[0].message).toContain(`at most ${MAX_BATCH_ROWS} rows`);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  WORKFLOW_EVENT_VERSION,
+  followWorkflowEvents,
+  formatSSE,
+  parseSSE,
+  readWorkflowEvents,
+  toWorkflowEvents,
+  type WorkflowEvent,
+  type WorkflowEventBody
+} from '../workflow-events';
+
+const event = (id: number, body: WorkflowEventBody = { type: 'step_started', stepId: 'research_phase' }): WorkflowEvent =>
+  ({ ...body, version: WORKFLOW_EVENT_VERSION, id, runId: 'run-1', timestamp: 1000 + id }) as WorkflowEvent;
+
+const sseResponse = (chunks: string[]) => new Response(new ReadableStream({
+  start(controller) {
+    chunks.forEach(chunk => controller.enqueue(new TextEncoder().encode(chunk)));
+    controller.close();
+  }
+}));
+
+describe('Workflow events', () => {
+  it('should map the step lifecycle of a Mastra run', () => {
+    const startedAt = new Map<string, number>();
+
+    expect(toWorkflowEvents({ type: 'step-start', payload: { id: 'research_phase', startedAt: 1000 } }, startedAt))
+      .toEqual([{ type: 'step_started', stepId: 'research_phase' }]);
+    expect(toWorkflowEvents({ type: 'step-result', payload: { id: 'research_phase', status: 'success', endedAt: 4000 } }, startedAt))
+      .toEqual([{ type: 'step_completed', stepId: 'research_phase', durationMs: 3000 }]);
+    expect(toWorkflowEvents({ type: 'step-result', payload: { id: 'structure_phase', status: 'failed', error: 'Error: Outline invalid\n    at execute' } }))
+      .toEqual([{ type: 'step_failed', stepId: 'structure_phase', error: 'Error: Outline invalid' }]);
+    expect(toWorkflowEvents({ type: 'step-suspended', payload: { id: 'structure_phase' } }))
+      .toEqual([{ type: 'step_suspended', stepId: 'structure_phase' }]);
+    expect(toWorkflowEvents({ type: 'step-finish', payload: { id: 'research_phase' } })).toEqual([]);
+  });
+
+  it('should map the tool calls and token usage the steps write', () => {
+    const chunk = (output: unknown) => ({ type: 'step-output', payload: { stepName: 'content_phase', output } });
+
+    expect(toWorkflowEvents(chunk({ type: 'tool-call', agent: 'seoContentAgent', toolName: 'seoAnalyzer' })))
+      .toEqual([{ type: 'tool_call', stepId: 'content_phase', agent: 'seoContentAgent', toolName: 'seoAnalyzer' }]);
+    expect(toWorkflowEvents(chunk({ type: 'usage', agent: 'seoContentAgent', promptTokens: 900, completionTokens: 100, totalTokens: 1000 })))
+      .toEqual([{ type: 'token_usage', stepId: 'content_phase', agent: 'seoContentAgent', promptTokens: 900, completionTokens: 100, totalTokens: 1000 }]);
+    expect(toWorkflowEvents(chunk('free text'))).toEqual([]);
+  });
+
+  it('should round-trip events through SSE and skip unknown versions', () => {
+    const completed = event(3, { type: 'workflow_complete', result: { articleSlug: 'payroll' } });
+
+    expect(formatSSE(completed)).toMatch(/^id: 3\ndata: /);
+    expect(parseSSE(formatSSE(completed).trim())).toEqual(completed);
+    expect(parseSSE(`data: ${JSON.stringify({ ...completed, version: 2 })}`)).toBeNull();
+    expect(parseSSE(': keep-alive')).toBeNull();
+  });
+
+  it('should read events split across chunks', async () => {
+    const sse = formatSSE(event(1)) + formatSSE(event(2));
+    const response = sseResponse([sse.slice(0, 20), sse.slice(20, 90), sse.slice(90)]);
+    const events: WorkflowEvent[] = [];
+
+    for await (const received of readWorkflowEvents(response.body!)) events.push(received);
+
+    expect(events.map(received => received.id)).toEqual([1, 2]);
+  });
+
+  it('should reconnect after a dropped connection and skip events it already has', async () => {
+    const open = vi.fn()
+      .mockResolvedValueOnce(sseResponse([formatSSE(event(1, { type: 'run_started' })), formatSSE(event(2))]))
+      .mockResolvedValueOnce(sseResponse([formatSSE(event(2)), formatSSE(event(3, { type: 'workflow_suspended' }))]));
+    const onEvent = vi.fn();
+
+    const terminal = await followWorkflowEvents(open, onEvent, { retryDelayMs: 0 });
+
+    expect(terminal.type).toBe('workflow_suspended');
+    expect(open).toHaveBeenNthCalledWith(2, { runId: 'run-1', lastEventId: 2 });
+    expect(onEvent.mock.calls.map(([received]) => received.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should give up when the run never started or the server rejects the reconnection', async () => {
+    const failing = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(followWorkflowEvents(failing, vi.fn(), { retryDelayMs: 0 })).rejects.toThrow('Failed to fetch');
+
+    const open = vi.fn()
+      .mockResolvedValueOnce(sseResponse([formatSSE(event(1, { type: 'run_started' }))]))
+      .mockResolvedValueOnce(Response.json({ error: 'Workflow run not found' }, { status: 404 }));
+    await expect(followWorkflowEvents(open, vi.fn(), { retryDelayMs: 0 })).rejects.toThrow('Workflow run not found');
+  });
+});
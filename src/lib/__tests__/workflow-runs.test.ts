@@ -0,0 +1,179 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { createClient } from '@libsql/client';
+import { WorkflowRunRegistry, type WorkflowState } from '../workflow-runs';
+
+describe('WorkflowRunRegistry', () => {
+  let registry: WorkflowRunRegistry;
+
+  const register = (runId: string, userId = 'user-1') =>
+    registry.register({ runId, workflowId: 'seoArticleWorkflow', userId, input: { userInput: 'payroll outsourcing' } });
+
+  beforeEach(() => {
+    registry = new WorkflowRunRegistry(createClient({ url: ':memory:' }));
+  });
+
+  it('should register a run as running with its user and input', async () => {
+    const run = await register('run-1');
+
+    expect(run).toMatchObject({
+      runId: 'run-1',
+      userId: 'user-1',
+      input: { userInput: 'payroll outsourcing' },
+      status: 'running',
+      steps: {}
+    });
+    expect(await registry.get('missing')).toBeNull();
+  });
+
+  it('should add the lease columns to a runs table created by an earlier version', async () => {
+    const client = createClient({ url: ':memory:' });
+    await client.execute(`CREATE TABLE workflow_runs (
+      run_id TEXT PRIMARY KEY, workflow_id TEXT NOT NULL, user_id TEXT NOT NULL, input TEXT NOT NULL, status TEXT NOT NULL,
+      steps TEXT NOT NULL DEFAULT '{}', error TEXT, retry_of TEXT, retry_from TEXT, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL
+    )`);
+    await client.execute(`INSERT INTO workflow_runs (run_id, workflow_id, user_id, input, status, created_at, updated_at)
+      VALUES ('run-0', 'seoArticleWorkflow', 'user-1', '{}', 'running', 0, 0)`);
+    registry = new WorkflowRunRegistry(client);
+
+    await register('run-1');
+    // Runs from before leases have none, so any process may take them over
+    expect(await registry.claim((await registry.get('run-0'))!)).toBe(true);
+    expect(await registry.claim((await registry.get('run-1'))!)).toBe(false);
+  });
+
+  it('should let only one of concurrent resumes claim a suspended run', async () => {
+    await register('run-1');
+    await registry.record('run-1', { status: 'suspended', steps: { research_phase: { status: 'suspended' } } });
+    const record = (await registry.get('run-1'))!;
+
+    expect(await Promise.all([registry.claim(record), registry.claim(record)])).toEqual([true, false]);
+    expect((await registry.get('run-1'))?.status).toBe('running');
+  });
+
+  it('should list the runs of a user, filtered by status', async () => {
+    await register('run-1');
+    await register('run-2', 'user-2');
+    await register('run-3');
+    await registry.recordFailure('run-3', new Error('Research failed'));
+
+    expect((await registry.list({ userId: 'user-1' })).map(run => run.runId).sort()).toEqual(['run-1', 'run-3']);
+    expect((await registry.list({ userId: 'user-1', status: 'failed' })).map(run => run.runId)).toEqual(['run-3']);
+    expect(await registry.list({ userId: 'user-1', limit: 1 })).toHaveLength(1);
+  });
+
+  it('should record step statuses and timings and skip the workflow input', async () => {
+    await register('run-1');
+    await registry.record('run-1', {
+      status: 'failed',
+      steps: {
+        input: { userInput: 'payroll outsourcing' } as any,
+        research_phase: { status: 'success', startedAt: 1000, endedAt: 4000 },
+        structure_phase: { status: 'failed', startedAt: 4000, endedAt: 5000, error: 'Error: Outline invalid\n    at execute' }
+      },
+      error: 'Error: Outline invalid\n    at execute'
+    });
+
+    const run = await registry.get('run-1');
+    expect(run?.status).toBe('failed');
+    expect(run?.error).toBe('Error: Outline invalid');
+    expect(run?.steps).toEqual({
+      research_phase: { status: 'success', startedAt: 1000, endedAt: 4000 },
+      structure_phase: { status: 'failed', startedAt: 4000, endedAt: 5000, error: 'Error: Outline invalid' }
+    });
+  });
+
+  it('should keep a canceled run canceled when its last step finishes', async () => {
+    await register('run-1');
+    await registry.cancel('run-1');
+    await registry.record('run-1', { status: 'success', steps: { research_phase: { status: 'success' } } });
+    await registry.recordFailure('run-1', new Error('Aborted'));
+
+    const run = await registry.get('run-1');
+    expect(run?.status).toBe('canceled');
+    expect(run?.steps.research_phase.status).toBe('success');
+  });
+
+  it('should number, store and send the events of a run in order', async () => {
+    const sent: number[] = [];
+    const events = registry.createEventPublisher('run-1', event => sent.push(event.id));
+
+    events.publish({ type: 'run_started' });
+    events.publish({ type: 'step_started', stepId: 'research_phase' });
+    events.publish({ type: 'workflow_suspended' });
+    await events.flush();
+
+    expect(sent).toEqual([1, 2, 3]);
+    expect((await registry.listEvents('run-1', 1)).map(event => [event.id, event.type])).toEqual([
+      [2, 'step_started'],
+      [3, 'workflow_suspended']
+    ]);
+    expect(await registry.listEvents('run-2')).toEqual([]);
+  });
+
+  it('should continue the event ids of a run a second publisher publishes to', async () => {
+    const first = registry.createEventPublisher('run-1', () => undefined);
+    first.publish({ type: 'run_started' });
+    first.publish({ type: 'workflow_suspended' });
+    await first.flush();
+
+    const sent: number[] = [];
+    const second = registry.createEventPublisher('run-1', event => sent.push(event.id));
+    second.publish({ type: 'run_started' });
+    second.publish({ type: 'workflow_complete', result: {} });
+    await second.flush();
+
+    expect(sent).toEqual([3, 4]);
+    expect((await registry.listEvents('run-1', 2)).map(event => [event.id, event.type])).toEqual([
+      [3, 'run_started'],
+      [4, 'workflow_complete']
+    ]);
+  });
+
+  it('should keep the steps current while a run executes and record its outcome', async () => {
+    await register('run-1');
+    let listener: ((event: { payload: { workflowState: WorkflowState } }) => void) | undefined;
+    const run = {
+      runId: 'run-1',
+      watch: (cb: typeof listener) => {
+        listener = cb;
+        return () => { listener = undefined; };
+      }
+    };
+
+    const result = await registry.monitor(run as any, async () => {
+      listener?.({ payload: { workflowState: { status: 'running', steps: { research_phase: { status: 'running', startedAt: 1000 } } } } });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect((await registry.get('run-1'))?.steps.research_phase.status).toBe('running');
+      return { status: 'suspended', steps: { research_phase: { status: 'suspended', startedAt: 1000 } } };
+    });
+
+    expect(result.status).toBe('suspended');
+    expect(listener).toBeUndefined();
+    expect((await registry.get('run-1'))?.status).toBe('suspended');
+
+    await expect(registry.monitor(run as any, async () => { throw new Error('Agent unavailable'); })).rejects.toThrow('Agent unavailable');
+    expect(await registry.get('run-1')).toMatchObject({ status: 'failed', error: 'Agent unavailable' });
+  });
+
+  it('should cancel a run that another process canceled at the next heartbeat', async () => {
+    const client = createClient({ url: ':memory:' });
+    const executing = new WorkflowRunRegistry(client, { instanceId: 'executing', leaseMs: 30 });
+    const other = new WorkflowRunRegistry(client, { instanceId: 'other' });
+    await executing.register({ runId: 'run-1', workflowId: 'seoArticleWorkflow', userId: 'user-1', input: {} });
+
+    let stop: () => void = () => undefined;
+    const run = {
+      runId: 'run-1',
+      watch: () => () => undefined,
+      cancel: vi.fn(() => stop())
+    };
+    const result = executing.monitor(run, () => new Promise<WorkflowState>(resolve => {
+      stop = () => resolve({ status: 'canceled', steps: {} });
+    }));
+    await other.cancel('run-1');
+
+    expect(await result).toEqual({ status: 'canceled', steps: {} });
+    expect(run.cancel).toHaveBeenCalledTimes(1);
+    expect((await other.get('run-1'))?.status).toBe('canceled');
+  });
+});
@@ -3,34 +3,104 @@
  * Wraps Mastra agents to automatically log their activities
  */
 
-import { Agent } from '@mastra/core/agent';
+import { Agent, type AgentGenerateOptions } from '@mastra/core/agent';
+import type { LanguageModelUsage, StreamObjectOnFinishCallback, StreamTextOnFinishCallback, ToolSet } from 'ai';
 import { agentActivityLogger } from './agent-activity-logger';
+import { usageLedger } from './usage-ledger';
+
+// Runtime context keys callers set to account an agent call to a user and an article
+export const USAGE_USER_KEY = 'usageUserId';
+export const USAGE_ARTICLE_KEY = 'usageArticleId';
+
+type AgentMessages = Parameters<Agent['generate']>[0];
+type GenerateOptions = Parameters<Agent['generate']>[1];
+type StreamOptions = Parameters<Agent['stream']>[1];
+type StreamFinishEvent =
+  | Parameters<StreamTextOnFinishCallback<ToolSet>>[0]
+  | Parameters<StreamObjectOnFinishCallback<unknown>>[0];
+
+// Usage a generate result or stream finish event reports, in total and per step
+type UsageStep = { usage?: LanguageModelUsage; response?: { modelId?: string } };
+type UsageReport = UsageStep & { steps?: UsageStep[] };
+
+function describeMessages(messages: AgentMessages) {
+  const list = Array.isArray(messages) ? messages : [messages];
+  const last = list[list.length - 1];
+  const content = typeof last === 'string' ? last : last?.content;
+  return {
+    messageCount: list.length,
+    lastMessage: typeof content === 'string' ? content.slice(0, 100) + '...' : undefined
+  };
+}
+
+/**
+ * Records the tokens of a call in the usage ledger, one entry per model that
+ * served its steps, since a step may fail over to another provider. Entries
+ * are tagged with the call's run id and the user and article its runtime
+ * context names. Ledger errors are logged and never fail the call.
+ * Returns the models.
+ */
+async function recordUsage(
+  agent: Agent,
+  agentName: string,
+  options: Pick<AgentGenerateOptions, 'runId' | 'runtimeContext'> | undefined,
+  report: UsageReport
+): Promise<string[] | undefined> {
+  if (!report.usage) return undefined;
+
+  try {
+    const userId = options?.runtimeContext?.get(USAGE_USER_KEY) as string | undefined;
+    const articleId = options?.runtimeContext?.get(USAGE_ARTICLE_KEY) as string | undefined;
+    const steps = report.steps?.length ? report.steps : [report];
+    const tokensByModel = new Map<string, { promptTokens: number; completionTokens: number }>();
+    for (const step of steps) {
+      const model = step.response?.modelId
+        ?? (await agent.getModel({ runtimeContext: options?.runtimeContext })).modelId;
+      const tokens = tokensByModel.get(model) ?? { promptTokens: 0, completionTokens: 0 };
+      tokens.promptTokens += step.usage?.promptTokens ?? 0;
+      tokens.completionTokens += step.usage?.completionTokens ?? 0;
+      tokensByModel.set(model, tokens);
+    }
+    for (const [model, tokens] of tokensByModel) {
+      await usageLedger.record({ agent: agentName, model, ...tokens, runId: options?.runId, userId, articleId });
+    }
+    return [...tokensByModel.keys()];
+  } catch (error) {
+    console.error(`Failed to record the usage of ${agentName}:`, error);
+    return undefined;
+  }
+}
 
 export function wrapAgentWithLogging(agent: Agent, agentName: string): Agent {
-  const originalGenerate = agent.generate.bind(agent);
+  const originalGenerate = agent.generate.bind(agent) as (
+    messages: AgentMessages,
+    options?: GenerateOptions
+  ) => ReturnType<Agent['generate']>;
+  const originalStream = agent.stream.bind(agent) as (
+    messages: AgentMessages,
+    options?: StreamOptions
+  ) => ReturnType<Agent['stream']>;
   
-  agent.generate = async (messages: any[], options?: any) => {
+  agent.generate = (async (messages: AgentMessages, options?: GenerateOptions) => {
     const activityId = await agentActivityLogger.startActivity(
       agentName,
       'Generating response',
-      { 
-        messageCount: messages.length,
-        lastMessage: messages[messages.length - 1]?.content?.slice(0, 100) + '...',
-        options 
-      }
+      { ...describeMessages(messages), options }
     );
 
     try {
       await agentActivityLogger.updateActivity(activityId, { status: 'in_progress' });
       
       const result = await originalGenerate(messages, options);
+      const models = await recordUsage(agent, agentName, options, result);
       
       await agentActivityLogger.completeActivity(
         activityId,
         { 
           responseLength: result.text?.length || 0,
           finishReason: result.finishReason,
-          usage: result.usage
+          usage: result.usage,
+          models
         }
       );
       
@@ -43,7 +113,45 @@ export function wrapAgentWithLogging(agent: Agent, agentName: string): Agent {
       );
       throw error;
     }
-  };
+  }) as Agent['generate'];
+
+  // Streams are recorded when they finish, before the caller's onFinish runs
+  agent.stream = (async (messages: AgentMessages, options?: StreamOptions) => {
+    const activityId = await agentActivityLogger.startActivity(
+      agentName,
+      'Streaming response',
+      { ...describeMessages(messages), options }
+    );
+
+    try {
+      await agentActivityLogger.updateActivity(activityId, { status: 'in_progress' });
+
+      const onFinish = options?.onFinish as ((event: StreamFinishEvent) => Promise<void> | void) | undefined;
+      return await originalStream(messages, {
+        ...options,
+        onFinish: (async (event: StreamFinishEvent) => {
+          const models = await recordUsage(agent, agentName, options, event);
+          await agentActivityLogger.completeActivity(
+            activityId,
+            {
+              responseLength: 'text' in event ? event.text.length : 0,
+              finishReason: 'finishReason' in event ? event.finishReason : undefined,
+              usage: event.usage,
+              models
+            }
+          );
+          await onFinish?.(event);
+        }) as NonNullable<StreamOptions>['onFinish']
+      });
+    } catch (error) {
+      await agentActivityLogger.completeActivity(
+        activityId,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw error;
+    }
+  }) as Agent['stream'];
 
   return agent;
 }
@@ -0,0 +1,61 @@
+import { createHash } from 'crypto'
+import type { Types } from 'mongoose'
+import { getArticleAnalysisModel } from '@/lib/db-models'
+import type { IArticleAnalysis } from '@/models/ArticleAnalysis'
+import { toAssessmentSnapshots } from '@/lib/seo-analyzer'
+import type { AnalysisResult, AnalysisSnapshot } from '@/lib/seo-analyzer'
+
+export interface AnalysisSnapshotInput {
+  articleId: string
+  // User who triggered the analysis
+  userId: string
+  content: string
+  analysis: AnalysisResult
+}
+
+// Stored analysis, as a lean query or `create` returns it
+type AnalysisDocument = Pick<IArticleAnalysis, 'userId' | 'contentHash' | 'seoScore' | 'readabilityScore' | 'assessments' | 'createdAt'> & {
+  _id: Types.ObjectId
+}
+
+function toAnalysisSnapshot(document: AnalysisDocument): AnalysisSnapshot {
+  return {
+    id: String(document._id),
+    createdAt: new Date(document.createdAt).toISOString(),
+    userId: document.userId,
+    contentHash: document.contentHash,
+    seoScore: document.seoScore,
+    readabilityScore: document.readabilityScore,
+    assessments: (document.assessments ?? []).map(({ id, category, rating, score }) => ({ id, category, rating, score }))
+  }
+}
+
+/**
+ * Stores the scores and assessment ratings of one analysis of an article
+ */
+export async function saveAnalysisSnapshot(input: AnalysisSnapshotInput): Promise<AnalysisSnapshot> {
+  const ArticleAnalysis = await getArticleAnalysisModel()
+  const document: AnalysisDocument = await ArticleAnalysis.create({
+    articleId: input.articleId,
+    userId: input.userId,
+    contentHash: createHash('sha256').update(input.content).digest('hex'),
+    seoScore: input.analysis.seoScore,
+    readabilityScore: input.analysis.readabilityScore,
+    assessments: toAssessmentSnapshots(input.analysis)
+  })
+
+  return toAnalysisSnapshot(document)
+}
+
+/**
+ * The most recent analyses of an article, oldest first
+ */
+export async function findAnalysisSnapshots(articleId: string, limit = 50): Promise<AnalysisSnapshot[]> {
+  const ArticleAnalysis = await getArticleAnalysisModel()
+  const documents = await ArticleAnalysis.find({ articleId })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean<AnalysisDocument[]>()
+
+  return documents.reverse().map(toAnalysisSnapshot)
+}
@@ -0,0 +1,100 @@
+import type { Types } from 'mongoose'
+import { getArticleModel } from '@/lib/db-models'
+import type { IArticle } from '@/models/Article'
+import type { LibraryArticle } from '@/lib/seo-analyzer'
+import type { ArticleType } from '@/lib/seo-analyzer/types'
+
+export interface LibraryScope {
+  userId: string
+  // Team articles are shared across the Clerk organization
+  orgId?: string | null
+}
+
+// Fields of a stored article, as a lean query returns them
+type ArticleDocument<K extends keyof IArticle> = Pick<IArticle, K> & { _id: Types.ObjectId }
+
+/**
+ * Query for an article the user may read: their own, or one of their team's.
+ * Only the owner may change an article.
+ */
+export function readableArticleQuery(scope: LibraryScope, articleId: string): Record<string, unknown> {
+  return scope.orgId
+    ? { _id: articleId, $or: [{ userId: scope.userId }, { orgId: scope.orgId }] }
+    : { _id: articleId, userId: scope.userId }
+}
+
+/**
+ * Loads the other articles of the user's team, and the user's own articles
+ * from before they joined one, in the shape the analyzer's cannibalization
+ * check expects. Outside a team only the user's own articles are loaded.
+ */
+export async function findLibraryArticles(scope: LibraryScope, excludeId?: string): Promise<LibraryArticle[]> {
+  const Article = await getArticleModel()
+  // Articles saved outside a team have no orgId
+  const query: Record<string, unknown> = scope.orgId
+    ? { $or: [{ orgId: scope.orgId }, { userId: scope.userId, orgId: null }] }
+    : { userId: scope.userId }
+  if (excludeId) {
+    query._id = { $ne: excludeId }
+  }
+
+  const articles = await Article.find(query)
+    .select('title focusKeyword semanticKeywords')
+    .lean<ArticleDocument<'title' | 'focusKeyword' | 'semanticKeywords'>[]>()
+
+  return articles.map(article => ({
+    id: String(article._id),
+    title: article.title,
+    url: `/articles/${article._id}/edit`,
+    focusKeyword: article.focusKeyword,
+    semanticKeywords: article.semanticKeywords ?? []
+  }))
+}
+
+export interface WorkflowArticle {
+  title: string
+  slug: string
+  content: string
+  metaDescription?: string
+  focusKeyword: string
+  semanticKeywords: string[]
+  articleType: ArticleType
+  seoScore: number
+  readabilityScore: number
+  // Run the article was generated by, and anything else worth keeping from it
+  workflowData: { runId: string } & Record<string, unknown>
+}
+
+/**
+ * Saves an article a workflow run generated as a draft of the user, once per
+ * run. Takes the next free slug when another article already has this one.
+ * Returns the article id.
+ */
+export async function saveWorkflowArticle(
+  owner: LibraryScope & { userEmail: string },
+  article: WorkflowArticle
+): Promise<string> {
+  const Article = await getArticleModel()
+  const saved = await Article.findOne({ userId: owner.userId, 'workflowData.runId': article.workflowData.runId })
+    .select('_id')
+    .lean<ArticleDocument<never> | null>()
+  if (saved) return String(saved._id)
+
+  const escaped = article.slug.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const taken = new Set((await Article.find({ userId: owner.userId, slug: { $regex: `^${escaped}(-\\d+)?$` } })
+    .select('slug')
+    .lean<ArticleDocument<'slug'>[]>()).map(existing => existing.slug))
+  let slug = article.slug
+  for (let suffix = 2; taken.has(slug); suffix++) slug = `${article.slug}-${suffix}`
+
+  const created = await Article.create({
+    ...article,
+    slug,
+    userId: owner.userId,
+    orgId: owner.orgId ?? undefined,
+    userEmail: owner.userEmail,
+    status: 'draft',
+    phases: { research: true, structure: true, content: true, optimization: true, review: true }
+  })
+  return String(created._id)
+}
@@ -2,4 +2,9 @@
 export async function getArticleModel() {
   const { Article } = await import('@/models/Article')
   return Article
+}
+
+export async function getArticleAnalysisModel() {
+  const { ArticleAnalysis } = await import('@/models/ArticleAnalysis')
+  return ArticleAnalysis
 }
\ No newline at end of file
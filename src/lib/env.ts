@@ -16,6 +16,7 @@ const envSchema = z.object({
   CLERK_SECRET_KEY: z.string().optional(),
   
   // Optional External APIs
+  ANTHROPIC_API_KEY: z.string().optional(),
   EXA_API_KEY: z.string().optional(),
   
   // Optional Database (Turso)
@@ -94,6 +95,17 @@ export function isFeatureEnabled(feature: 'clerk' | 'exa' | 'google' | 'mongodb'
   }
 }
 
+/**
+ * LibSQL database shared by Mastra's storage and the workflow run registry
+ */
+export function getLibSQLConfig(): { url: string; authToken?: string } {
+  if (isFeatureEnabled('turso')) {
+    const config = getEnv();
+    return { url: config.TURSO_DATABASE_URL!, authToken: config.TURSO_AUTH_TOKEN };
+  }
+  return { url: 'file:./storage.db' };
+}
+
 /**
  * Get API key with proper error handling
  */
@@ -0,0 +1,62 @@
+import { SEOAnalyzer } from '../index';
+import { compareFocusKeywords, getSharedSemanticKeywords, findKeyphraseConflicts } from '../utils/cannibalization';
+import { assessKeyphraseCannibalization } from '../assessments/seo/keyphrase-cannibalization';
+import { LibraryArticle } from '../types';
+import { describe, it, expect } from 'vitest';
+
+describe('Keyphrase cannibalization', () => {
+  const library: LibraryArticle[] = [
+    { id: '1', title: 'Outsourcing HR in Dubai', url: '/articles/1/edit', focusKeyword: 'outsourcing HR' },
+    { id: '2', title: 'HR Outsourcing Costs in Dubai', url: '/articles/2/edit', focusKeyword: 'HR outsourcing Dubai' },
+    {
+      id: '3',
+      title: 'Payroll Compliance',
+      url: '/articles/3/edit',
+      focusKeyword: 'payroll compliance',
+      semanticKeywords: ['WPS', 'labour law', 'gratuity']
+    },
+    { id: '4', title: 'Hiring in Riyadh', url: '/articles/4/edit', focusKeyword: 'recruitment Saudi Arabia' }
+  ];
+
+  it('should compare focus keywords regardless of word order and word form', () => {
+    expect(compareFocusKeywords('HR outsourcing', 'outsource HR')).toBe('identical');
+    expect(compareFocusKeywords('HR outsourcing', 'HR outsourcing in Dubai')).toBe('similar');
+    expect(compareFocusKeywords('HR outsourcing', 'payroll services')).toBeUndefined();
+  });
+
+  it('should only report heavily overlapping semantic keywords', () => {
+    expect(getSharedSemanticKeywords(['WPS', 'labour laws', 'visa'], ['wps', 'labour law', 'gratuity'])).toEqual(['WPS', 'labour laws']);
+    expect(getSharedSemanticKeywords(['WPS', 'visa', 'medical insurance', 'Emiratisation'], ['WPS', 'gratuity'])).toEqual([]);
+  });
+
+  it('should list conflicts with identical keywords first', () => {
+    const conflicts = findKeyphraseConflicts(
+      { content: '', keyword: 'HR outsourcing', semanticKeywords: ['WPS', 'labour law'] },
+      library
+    );
+
+    expect(conflicts.map(conflict => [conflict.article.id, conflict.focusKeywordMatch])).toEqual([
+      ['1', 'identical'],
+      ['2', 'similar'],
+      ['3', undefined]
+    ]);
+  });
+
+  it('should warn with links to the conflicting articles', () => {
+    const result = assessKeyphraseCannibalization({ content: '', keyword: 'HR outsourcing', otherArticles: library });
+
+    expect(result.rating).toBe('bad');
+    expect(result.text).toContain('"Outsourcing HR in Dubai" targets the same focus keyword');
+    expect(result.references).toEqual([
+      { title: 'Outsourcing HR in Dubai', url: '/articles/1/edit' },
+      { title: 'HR Outsourcing Costs in Dubai', url: '/articles/2/edit' }
+    ]);
+  });
+
+  it('should not score articles that were not checked against the library', () => {
+    const data = { content: '<p>HR outsourcing in the UAE.</p>', keyword: 'visa processing' };
+
+    expect(SEOAnalyzer.analyze(data).seoAssessments.find(a => a.id === 'keyphrase-cannibalization')?.notApplicable).toBe(true);
+    expect(SEOAnalyzer.analyze({ ...data, otherArticles: library }).seoAssessments.find(a => a.id === 'keyphrase-cannibalization')?.rating).toBe('good');
+  });
+});
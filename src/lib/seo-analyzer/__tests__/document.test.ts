@@ -0,0 +1,83 @@
+import { parseDocument, detectContentFormat } from '../document';
+import { SEOAnalyzer } from '../index';
+import { describe, it, expect } from 'vitest';
+
+describe('Document model', () => {
+  const html = `<h1>HR Outsourcing in the UAE</h1>
+<p>HR outsourcing helps companies in Dubai <strong>scale faster</strong>. Read our <a href="/services">services overview</a>.</p>
+<h2>Why <em>outsource</em> HR?</h2>
+<ul><li><p>Lower costs</p></li><li><p>Compliance with <a href="https://mohre.gov.ae" rel="nofollow noopener" target="_blank">MOHRE</a> rules</p></li></ul>
+<p><img src="/team.png" alt="TASC team" title="Our team" width="800" height="600"></p>
+<table><thead><tr><th>Plan</th><th>Price</th></tr></thead><tbody><tr><td>Basic</td><td>AED 500</td></tr></tbody></table>`;
+
+  const markdown = `# HR Outsourcing in the UAE
+
+HR outsourcing helps companies in Dubai **scale faster**. Read our [services overview](/services).
+
+## Why *outsource* HR?
+
+- Lower costs
+- Compliance with <a href="https://mohre.gov.ae" rel="nofollow noopener" target="_blank">MOHRE</a> rules
+
+![TASC team](/team.png "Our team")
+
+| Plan | Price |
+|------|-------|
+| Basic | AED 500 |
+`;
+
+  it('should detect the content format', () => {
+    expect(detectContentFormat(html)).toBe('html');
+    expect(detectContentFormat(markdown)).toBe('markdown');
+    expect(detectContentFormat('Just some plain text.')).toBe('markdown');
+  });
+
+  it('should extract the same structure from HTML and Markdown', () => {
+    const fromHtml = parseDocument(html);
+    const fromMarkdown = parseDocument(markdown);
+
+    for (const document of [fromHtml, fromMarkdown]) {
+      expect(document.headings.map(h => [h.level, h.text])).toEqual([
+        [1, 'HR Outsourcing in the UAE'],
+        [2, 'Why outsource HR?']
+      ]);
+      expect(document.lists).toEqual([expect.objectContaining({ ordered: false, items: ['Lower costs', 'Compliance with MOHRE rules'] })]);
+      expect(document.links.map(l => [l.href, l.text])).toEqual([
+        ['/services', 'services overview'],
+        ['https://mohre.gov.ae', 'MOHRE']
+      ]);
+      expect(document.links[1].rel).toEqual(['nofollow', 'noopener']);
+      expect(document.images).toEqual([expect.objectContaining({ src: '/team.png', alt: 'TASC team', title: 'Our team' })]);
+      expect(document.tables).toEqual([expect.objectContaining({ rows: [['Plan', 'Price'], ['Basic', 'AED 500']], hasHeader: true })]);
+    }
+
+    expect(fromMarkdown.text).toBe(fromHtml.text);
+  });
+
+  it('should score HTML and Markdown identically', () => {
+    const data = { keyword: 'HR outsourcing', title: 'HR Outsourcing in the UAE: A Complete Guide for Employers' };
+    const fromHtml = SEOAnalyzer.analyze({ ...data, content: html });
+    const fromMarkdown = SEOAnalyzer.analyze({ ...data, content: markdown });
+
+    const summarize = (result: typeof fromHtml) =>
+      [...result.seoAssessments, ...result.readabilityAssessments].map(a => [a.id, a.score, a.text]);
+
+    expect(summarize(fromMarkdown)).toEqual(summarize(fromHtml));
+  });
+
+  it('should read headings with nested markup', () => {
+    const source = '<h2 class="title">Payroll <a href="/payroll"><strong>services</strong></a> in KSA</h2>';
+    const document = parseDocument(source);
+
+    expect(document.headings).toEqual([{ level: 2, text: 'Payroll services in KSA', start: 0, end: source.length }]);
+  });
+
+  it('should map plain text back to the source', () => {
+    const source = 'Intro with **bold &amp; brave** words.';
+    const document = parseDocument(source);
+    const start = document.text.indexOf('brave');
+
+    expect(document.text).toBe('Intro with bold & brave words.');
+    expect(source.slice(document.sourceOffsets[start], document.sourceOffsets[start + 4] + 1)).toBe('brave');
+  });
+});
@@ -0,0 +1,92 @@
+import { SEOAnalyzer } from '../index';
+import { analyzeEEAT } from '../eeat';
+import { classifySource } from '../eeat/sources';
+import { parseDocument } from '../document';
+import { classifyLinks } from '../utils/links';
+import { SiteConfig } from '../types';
+import { describe, it, expect } from 'vitest';
+
+describe('E-E-A-T analysis', () => {
+  const siteConfig: SiteConfig = { domains: ['tascoutsourcing.com'], competitorDomains: ['rival-hr.com'] };
+  const analyze = (content: string, structuredData?: string) => {
+    const document = parseDocument(content);
+    return analyzeEEAT({ content, structuredData }, document, classifyLinks(document, { siteConfig }), siteConfig);
+  };
+
+  it('should classify cited sources', () => {
+    const type = (url: string) => classifySource(new URL(url), siteConfig);
+
+    expect(type('https://www.mohre.gov.ae/en/services')).toBe('government');
+    expect(type('https://www.gov.uk/guidance')).toBe('government');
+    expect(type('https://www.ilo.int/report')).toBe('government');
+    expect(type('https://www.ox.ac.uk/research')).toBe('academic');
+    expect(type('https://doi.org/10.1000/182')).toBe('academic');
+    expect(type('https://blog.rival-hr.com/payroll')).toBe('competitor');
+    expect(type('https://www.shrm.org/topics')).toBe('industry');
+  });
+
+  it('should find the byline, bio, experience and date', () => {
+    const result = analyze(
+      '<h1>Payroll outsourcing</h1><p>By Sara Khan</p><p>Last updated: March 3, 2025</p>'
+      + '<p>In our experience, payroll errors drop once we have tested the process with a pilot team.</p>'
+      + '<h2>About the author</h2><p>Sara Khan is a senior HR consultant based in Dubai.</p>'
+    );
+
+    expect(result.author).toEqual({ name: 'Sara Khan', hasByline: true, hasBio: true });
+    expect(result.dates).toEqual({ updated: 'March 3, 2025' });
+    expect(result.experienceMarkers).toEqual(['in our experience', 'we have tested']);
+    expect(result.factors.expertise).toBe(100);
+  });
+
+  it('should read the author and dates from JSON-LD', () => {
+    const schema = JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'Article',
+      datePublished: '2025-01-10',
+      author: { '@type': 'Person', name: 'Omar Haddad', description: 'Head of payroll at TASC' }
+    });
+    const result = analyze('<p>Payroll runs monthly.</p>', schema);
+
+    expect(result.author).toEqual({ name: 'Omar Haddad', hasByline: false, hasBio: true });
+    expect(result.dates.published).toBe('2025-01-10');
+  });
+
+  it('should flag statistics without a citation', () => {
+    const result = analyze(
+      '<p>45% of companies outsource payroll. According to the ministry, 2 in 10 firms use a PEO.</p>'
+      + '<p>Hiring costs fell by AED 5,000 per employee (<a href="https://www.shrm.org/report">SHRM</a>).</p>'
+    );
+
+    expect(result.uncitedStatistics.map(statistic => statistic.statistic)).toEqual(['45%']);
+    expect(result.uncitedStatistics[0].mark.original).toBe('45% of companies outsource payroll.');
+    expect(result.factors.trust).toBe(40);
+  });
+
+  it('should weigh sources by type and count each site once', () => {
+    const links = (urls: string[]) => urls.map(url => `<a href="${url}">source</a>`).join(' ');
+
+    expect(analyze(`<p>${links(['https://www.mohre.gov.ae/a', 'https://www.ox.ac.uk/b'])}</p>`).factors.authority).toBe(100);
+    expect(analyze(`<p>${links(['https://www.shrm.org/a', 'https://www.shrm.org/b'])}</p>`).factors.authority).toBe(33);
+    expect(analyze(`<p>${links(['https://rival-hr.com/a'])}</p>`).factors.authority).toBe(0);
+  });
+
+  it('should add remediation items to the recommendations', () => {
+    const result = SEOAnalyzer.analyzeAdvanced(
+      { content: '<p>Companies save 30% with outsourcing. See <a href="https://rival-hr.com/guide">this guide</a>.</p>' },
+      false,
+      { siteConfig }
+    );
+    const actions = result.advanced.recommendations.map(recommendation => recommendation.action);
+
+    expect(result.eeat?.remediation.map(item => item.action)).toEqual([
+      'Add an author byline naming the writer of the article',
+      'Cite at least two authoritative sources, such as government or academic publications',
+      'Replace the links to competitors (rival-hr.com) with neutral sources',
+      'Add a source for the statistic without a citation, e.g. "Companies save 30% with outsourcing."',
+      'Add first-hand experience, e.g. what your team has seen while helping clients',
+      'Show when the article was published or last updated'
+    ]);
+    expect(actions).toContain('Add an author byline naming the writer of the article');
+    expect(result.advanced.eatScore).toEqual({ score: result.eeat?.score, factors: result.eeat?.factors });
+  });
+});
@@ -0,0 +1,39 @@
+import { SEOAnalyzer } from '../index';
+import { compareSnapshots, toAssessmentSnapshots } from '../utils/history';
+import { AssessmentSnapshot } from '../types';
+import { describe, it, expect } from 'vitest';
+
+describe('Analysis history', () => {
+  const snapshot = (id: string, rating: AssessmentSnapshot['rating'], category: AssessmentSnapshot['category'] = 'seo'): AssessmentSnapshot =>
+    ({ id, category, rating, score: 0 });
+
+  it('should snapshot only the assessments that applied', () => {
+    const result = SEOAnalyzer.analyze({ content: '<p>HR outsourcing helps companies grow.</p>', keyword: 'HR outsourcing' });
+    const snapshots = toAssessmentSnapshots(result);
+    const applied = [...result.seoAssessments, ...result.readabilityAssessments].filter(a => !a.notApplicable);
+
+    expect(snapshots.map(s => s.id)).toEqual(applied.map(a => a.id));
+    expect(snapshots.find(s => s.id === result.readabilityAssessments[0].id)?.category).toBe('readability');
+  });
+
+  it('should report the direction of rating changes', () => {
+    const previous = { assessments: [snapshot('title-length', 'bad'), snapshot('keyword-density', 'good'), snapshot('meta-description', 'ok')] };
+    const current = { assessments: [snapshot('title-length', 'good'), snapshot('keyword-density', 'ok'), snapshot('meta-description', 'ok')] };
+
+    expect(compareSnapshots(previous, current)).toEqual([
+      { id: 'title-length', category: 'seo', from: 'bad', to: 'good', direction: 'improved' },
+      { id: 'keyword-density', category: 'seo', from: 'good', to: 'ok', direction: 'regressed' }
+    ]);
+  });
+
+  it('should report assessments that appeared or stopped applying', () => {
+    const previous = { assessments: [snapshot('images', 'bad'), snapshot('passive-voice', 'feedback', 'readability')] };
+    const current = { assessments: [snapshot('passive-voice', 'good', 'readability'), snapshot('internal-links', 'ok')] };
+
+    expect(compareSnapshots(previous, current)).toEqual([
+      { id: 'passive-voice', category: 'readability', from: 'feedback', to: 'good', direction: 'changed' },
+      { id: 'internal-links', category: 'seo', from: undefined, to: 'ok', direction: 'changed' },
+      { id: 'images', category: 'seo', from: 'bad', direction: 'changed' }
+    ]);
+  });
+});
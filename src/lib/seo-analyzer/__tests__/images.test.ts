@@ -0,0 +1,62 @@
+import { SEOAnalyzer } from '../index';
+import { parseDocument } from '../document';
+import { auditImages, isDescriptiveFilename, getDataUriBytes } from '../utils/images';
+import { describe, it, expect } from 'vitest';
+
+describe('Image assessment', () => {
+  const issueTypes = (content: string, keyword?: string) =>
+    auditImages(parseDocument(content), keyword).map(image => image.issues.map(issue => issue.type));
+
+  it('should report missing and empty alt attributes per image', () => {
+    const content = '<p><img src="/team-photo.png" width="800" height="600"><img src="/office-dubai.png" alt="" width="800" height="600"><img src="/payroll-chart.png" alt="Payroll chart" width="800" height="600"></p>';
+
+    expect(issueTypes(content)).toEqual([['missing-alt'], ['empty-alt'], []]);
+  });
+
+  it('should flag generated filenames', () => {
+    expect(isDescriptiveFilename('IMG_1234.jpg')).toBe(false);
+    expect(isDescriptiveFilename('DSC-00042.JPG')).toBe(false);
+    expect(isDescriptiveFilename('Screenshot 2024-05-01 at 10.15.32.png')).toBe(false);
+    expect(isDescriptiveFilename('3f2504e0-4f89-11d3-9a0c-0305e82c3301.webp')).toBe(false);
+    expect(isDescriptiveFilename('hr-outsourcing-dubai.jpg')).toBe(true);
+    expect(isDescriptiveFilename('photo-of-our-team.png')).toBe(true);
+  });
+
+  it('should only require dimensions on HTML images', () => {
+    const markdown = '![HR team](/hr-team.png)\n\n<img src="/hr-office.png" alt="HR office">';
+
+    expect(issueTypes(markdown)).toEqual([[], ['missing-dimensions']]);
+  });
+
+  it('should flag oversized data URIs', () => {
+    const small = `data:image/png;base64,${'A'.repeat(100)}`;
+    const large = `data:image/png;base64,${'A'.repeat(20000)}`;
+    const content = `<p><img src="${small}" alt="Logo" width="10" height="10"><img src="${large}" alt="Banner" width="10" height="10"></p>`;
+
+    expect(getDataUriBytes(large)).toBe(15000);
+    expect(issueTypes(content)).toEqual([[], ['oversized-data-uri']]);
+  });
+
+  it('should credit the keyword or a synonym in alt text', () => {
+    const content = '<p>Our team handles payroll.</p><p><img src="/hr-team.png" alt="Staffing services team in Dubai" width="800" height="600"></p>';
+    const data = { content, keyword: 'HR outsourcing' };
+
+    const withoutSynonym = SEOAnalyzer.analyze(data).seoAssessments.find(a => a.id === 'images');
+    const withSynonym = SEOAnalyzer.analyze({ ...data, synonyms: ['staffing services'] }).seoAssessments.find(a => a.id === 'images');
+
+    expect(withoutSynonym?.rating).toBe('ok');
+    expect(withoutSynonym?.text).toContain('focus keyword or a synonym');
+    expect(withSynonym?.rating).toBe('good');
+  });
+
+  it('should lower the score and mark images with missing alt text', () => {
+    const content = '<p>Short intro.</p><p><img src="/IMG_1234.jpg"></p>';
+    const result = SEOAnalyzer.analyze({ content });
+    const images = result.seoAssessments.find(a => a.id === 'images');
+
+    expect(images?.rating).toBe('bad');
+    expect(images?.text).toContain('1 image has missing alt text');
+    expect(images?.marks?.[0].source).toEqual({ start: content.indexOf('<img'), end: content.length - 4 });
+    expect(result.images?.[0].issues.map(issue => issue.type)).toEqual(['missing-alt', 'non-descriptive-filename', 'missing-dimensions']);
+  });
+});
@@ -0,0 +1,60 @@
+import { SEOAnalyzer } from '../index';
+import { IncrementalAnalysisCache, splitTextBlocks } from '../incremental';
+import { parseDocument } from '../document';
+import { getLocalePack } from '../locales';
+import { countText } from '../utils/text-statistics';
+import { describe, it, expect } from 'vitest';
+
+describe('Incremental analysis', () => {
+  const paragraph = (i: number) =>
+    `<p>Paragraph ${i} was reviewed by the team. However, HR outsourcing helps companies in Dubai grow 3.5 times faster! Is it worth it?</p>`;
+  const content = '<h1>HR Outsourcing in the UAE</h1>'
+    + Array.from({ length: 30 }, (_, i) => (i % 5 === 0 ? `<h2>Section ${i}</h2>` : '') + paragraph(i)).join('')
+    + '<ul><li>Payroll</li><li>Visas.</li></ul>';
+  const seoData = { content, keyword: 'HR outsourcing', title: 'HR Outsourcing in the UAE' };
+
+  it('should split the text into blocks that add up to the whole text', () => {
+    const document = parseDocument(content);
+    const localePack = getLocalePack('en');
+    const blocks = splitTextBlocks(document, localePack);
+    const whole = countText(document.text, localePack);
+    const summed = blocks.map(block => countText(block, localePack)).reduce((sum, counts) => ({
+      wordCount: sum.wordCount + counts.wordCount,
+      sentenceCount: sum.sentenceCount + counts.sentenceCount,
+      syllableCount: sum.syllableCount + counts.syllableCount,
+      complexWordCount: sum.complexWordCount + counts.complexWordCount,
+      passiveSentenceCount: sum.passiveSentenceCount + counts.passiveSentenceCount,
+      transitionSentenceCount: sum.transitionSentenceCount + counts.transitionSentenceCount
+    }));
+
+    expect(blocks.join('')).toBe(document.text);
+    expect(blocks.length).toBeGreaterThan(30);
+    expect(summed).toEqual(whole);
+  });
+
+  it('should produce the same result as a full analysis', () => {
+    const cache = new IncrementalAnalysisCache();
+
+    expect(SEOAnalyzer.analyze(seoData, false, { cache })).toEqual(SEOAnalyzer.analyze(seoData));
+
+    const edited = { ...seoData, content: content.replace('Paragraph 12 was reviewed', 'Paragraph 12 has been carefully reviewed') };
+    expect(SEOAnalyzer.analyze(edited, true, { cache })).toEqual(SEOAnalyzer.analyze(edited, true));
+  });
+
+  it('should only recount the edited block', () => {
+    const cache = new IncrementalAnalysisCache();
+    SEOAnalyzer.analyze(seoData, false, { cache });
+    const { blocks } = cache.lastRun;
+
+    SEOAnalyzer.analyze({ ...seoData, content: content.replace('Paragraph 7 was', 'Paragraph 7 is') }, false, { cache });
+
+    expect(cache.lastRun).toEqual({ blocks, recounted: 1 });
+  });
+
+  it('should keep headings without punctuation with the following sentence', () => {
+    const markdown = '# Payroll guide\n\nPayroll is handled monthly. Fees vary.\n\n## Costs\n\nCosts depend on headcount.';
+    const blocks = splitTextBlocks(parseDocument(markdown), getLocalePack('en'));
+
+    expect(blocks).toEqual(['Payroll guide Payroll is handled monthly. Fees vary.', ' Costs Costs depend on headcount.']);
+  });
+});
@@ -0,0 +1,82 @@
+import { SEOAnalyzer } from '../index';
+import { parseDocument } from '../document';
+import { classifyLinks, resolvePageUrl } from '../utils/links';
+import { SiteConfig } from '../types';
+import { describe, it, expect } from 'vitest';
+
+describe('Link classification', () => {
+  const siteConfig: SiteConfig = { domains: ['example.com'], includeSubdomains: true, pathPrefixes: ['/ae'] };
+
+  const classify = (html: string, pageUrl?: string) =>
+    classifyLinks(parseDocument(html), { siteConfig, pageUrl }).map(link => [link.href, link.type, link.issue]);
+
+  it('should classify absolute links to the site as internal', () => {
+    const html = `<p>
+      <a href="https://www.example.com/ae/services">Services</a>
+      <a href="https://careers.example.com/ae/jobs">Jobs</a>
+      <a href="https://example.com/sa/services">Saudi site</a>
+      <a href="https://mohre.gov.ae">MOHRE</a>
+      <a href="/ae/payroll">Payroll</a>
+      <a href="mailto:info@example.com">Mail us</a>
+    </p>`;
+
+    expect(classify(html)).toEqual([
+      ['https://www.example.com/ae/services', 'internal', undefined],
+      ['https://careers.example.com/ae/jobs', 'internal', undefined],
+      ['https://example.com/sa/services', 'external', undefined],
+      ['https://mohre.gov.ae', 'external', undefined],
+      ['/ae/payroll', 'internal', undefined],
+      ['mailto:info@example.com', 'other', undefined]
+    ]);
+  });
+
+  it('should classify links to the analyzed page as same-page anchors', () => {
+    const html = `<h2>Visa costs</h2><p>
+      <a href="#visa-costs">Costs</a>
+      <a href="https://example.com/ae/hr-guide#visa-costs">Costs again</a>
+      <a href="#pricing">Pricing</a>
+    </p>`;
+
+    expect(classify(html, 'hr-guide')).toEqual([
+      ['#visa-costs', 'anchor', undefined],
+      ['https://example.com/ae/hr-guide#visa-costs', 'anchor', undefined],
+      ['#pricing', 'anchor', 'No heading or element with id "pricing" on this page']
+    ]);
+  });
+
+  it('should report broken relative link patterns', () => {
+    const html = `<p>
+      <a href="">Empty</a>
+      <a href="#">Nowhere</a>
+      <a href="www.example.com/ae/about">No protocol</a>
+      <a href="https:/example.com">Typo</a>
+      <a href="/our services">Spaces</a>
+      <a href="../../../pricing">Too far up</a>
+      <a href="javascript:void(0)">Script</a>
+    </p>`;
+
+    const issues = classify(html, 'https://example.com/ae/guide').map(([href, , issue]) => [href, issue !== undefined]);
+
+    expect(issues.every(([, broken]) => broken)).toBe(true);
+  });
+
+  it('should place a bare slug under the first domain and path prefix', () => {
+    expect(resolvePageUrl('hr-guide', siteConfig)?.href).toBe('https://example.com/ae/hr-guide');
+    expect(resolvePageUrl('https://example.com/blog/post', siteConfig)?.href).toBe('https://example.com/blog/post');
+    expect(resolvePageUrl('hr-guide')).toBeUndefined();
+  });
+
+  it('should count own-domain links towards internal links and report broken ones', () => {
+    const content = '<p>See <a href="https://example.com/ae/payroll">payroll</a> and <a href="https://www.example.com/ae/visas">visas</a>. Contact <a href="www.example.com/ae/contact">us</a>.</p>';
+
+    const withoutSite = SEOAnalyzer.analyze({ content, url: 'hr-guide' });
+    const withSite = SEOAnalyzer.analyze({ content, url: 'hr-guide' }, false, { siteConfig });
+    const internalLinks = withSite.seoAssessments.find(a => a.id === 'internal-links');
+
+    expect(withoutSite.seoAssessments.find(a => a.id === 'internal-links')?.rating).toBe('bad');
+    expect(internalLinks?.rating).toBe('ok');
+    expect(internalLinks?.text).toContain('1 link looks broken');
+    expect(internalLinks?.marks?.[0].original).toBe('us');
+    expect(withSite.links?.map(link => link.type)).toEqual(['internal', 'internal', 'internal']);
+  });
+});
@@ -0,0 +1,56 @@
+import { SEOAnalyzer } from '../index';
+import { getLocalePack, englishLocalePack, arabicLocalePack, frenchLocalePack } from '../locales';
+import { describe, it, expect } from 'vitest';
+
+describe('Locale packs', () => {
+  it('should resolve packs from BCP 47 locales and fall back to English', () => {
+    expect(getLocalePack('ar-AE')).toBe(arabicLocalePack);
+    expect(getLocalePack('fr_FR')).toBe(frenchLocalePack);
+    expect(getLocalePack('de')).toBe(englishLocalePack);
+    expect(getLocalePack()).toBe(englishLocalePack);
+  });
+
+  describe('Arabic', () => {
+    const content = '<p>تقدم الشركة خدمات التوظيف في دبي. لذلك يتم تعيين الموظفين بسرعة. هل تحتاج إلى فريق جديد؟ وبالتالي توفر الشركة الوقت.</p>';
+
+    it('should split sentences on the Arabic question mark and count Arabic words', () => {
+      const stats = SEOAnalyzer.analyzeContent(content, undefined, undefined, 'ar');
+
+      expect(stats.sentenceCount).toBe(4);
+      expect(stats.wordCount).toBe(20);
+      expect(stats.locale).toBe('ar');
+    });
+
+    it('should detect the periphrastic passive and attached transition words', () => {
+      expect(arabicLocalePack.isPassiveSentence('لذلك يتم تعيين الموظفين بسرعة.')).toBe(true);
+      expect(arabicLocalePack.isPassiveSentence('تقدم الشركة خدمات التوظيف.')).toBe(false);
+      expect(arabicLocalePack.hasTransitionWord('وبالتالي توفر الشركة الوقت.')).toBe(true);
+    });
+
+    it('should report reading ease as not applicable and leave it out of the score', () => {
+      const result = SEOAnalyzer.analyze({ content, locale: 'ar-AE' });
+      const flesch = result.readabilityAssessments.find(a => a.id === 'flesch-reading-ease');
+
+      expect(flesch?.notApplicable).toBe(true);
+      expect(flesch?.text).toContain('Arabic');
+      expect(result.readabilityScore).toBe(
+        SEOAnalyzer.analyze({ content, locale: 'ar' }, false, { disabledAssessments: ['flesch-reading-ease'] }).readabilityScore
+      );
+    });
+  });
+
+  describe('French', () => {
+    it('should use the Kandel-Moles formula', () => {
+      const stats = SEOAnalyzer.analyzeContent('<p>Le chat dort. La maison est grande.</p>', undefined, undefined, 'fr');
+
+      expect(stats.readabilityFormula).toBe('Kandel-Moles Reading Ease');
+      expect(stats.fleschReadingEase).toBeGreaterThan(80);
+    });
+
+    it('should detect passive voice and transition words', () => {
+      expect(frenchLocalePack.isPassiveSentence('Le contrat est signé par le client.')).toBe(true);
+      expect(frenchLocalePack.isPassiveSentence('Le client signe le contrat.')).toBe(false);
+      expect(frenchLocalePack.hasTransitionWord("C'est pourquoi nous recrutons.")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { createPositionMap, markFromTextRange, markFromSourceRange } from '../utils/marks';
+import { stripHtml, analyzeText } from '../utils/text-statistics';
+import { assessSentenceLength } from '../assessments/readability/sentence-length';
+import { assessPassiveVoice } from '../assessments/readability/passive-voice';
+import { assessParagraphLength } from '../assessments/readability/paragraph-length';
+import { assessKeywordDensity } from '../assessments/seo/keyword-density';
+import { assessHeadingStructure } from '../assessments/seo/heading-structure';
+import { describe, it, expect } from 'vitest';
+
+describe('Assessment marks', () => {
+  describe('createPositionMap', () => {
+    it('should produce the same text as stripHtml', () => {
+      const html = `
+        <h1>Outsourcing   Guide</h1>
+        <style>.x { color: red; }</style>
+        <p>First <strong>bold</strong> paragraph.</p>
+        <script>alert("x")</script>
+        <p>Second paragraph with a <a href="/link">link</a>.</p>
+      `;
+
+      expect(createPositionMap(html).text).toBe(stripHtml(html));
+    });
+
+    it('should map text offsets back to the source', () => {
+      const html = '<p>Hello <em>world</em>.</p>';
+      const map = createPositionMap(html);
+      const start = map.text.indexOf('world');
+      const mark = markFromTextRange(map, start, start + 5);
+
+      expect(mark.original).toBe('world');
+      expect(html.slice(mark.source.start, mark.source.end)).toBe('world');
+    });
+
+    it('should map source ranges to trimmed text ranges', () => {
+      const html = '<h2>Intro</h2><p>Body text here.</p>';
+      const map = createPositionMap(html);
+      const start = html.indexOf('<p>');
+      const mark = markFromSourceRange(map, start, html.length);
+
+      expect(mark.original).toBe('Body text here.');
+      expect(map.text.slice(mark.text.start, mark.text.end)).toBe('Body text here.');
+    });
+  });
+
+  describe('assessments', () => {
+    const longSentence = 'This sentence keeps going on and on with many additional words so that it clearly exceeds the recommended twenty word limit for readability.';
+
+    it('should mark sentences that are too long', () => {
+      const content = `<p>Short one. ${longSentence}</p>`;
+      const result = assessSentenceLength(content, analyzeText(content));
+
+      expect(result.marks).toHaveLength(1);
+      expect(result.marks![0].original).toBe(longSentence);
+    });
+
+    it('should mark passive sentences', () => {
+      const content = '<p>The report was completed by the team. We shipped it.</p>';
+      const result = assessPassiveVoice(content, analyzeText(content));
+
+      expect(result.marks).toHaveLength(1);
+      expect(result.marks![0].original).toBe('The report was completed by the team.');
+    });
+
+    it('should mark long paragraphs with their source range', () => {
+      const longParagraph = `<p>${'word '.repeat(160).trim()}.</p>`;
+      const content = `<p>Short paragraph.</p>${longParagraph}`;
+      const result = assessParagraphLength(content);
+
+      expect(result.marks).toHaveLength(1);
+      expect(content.slice(result.marks![0].source.start, result.marks![0].source.end)).toBe(longParagraph);
+    });
+
+    it('should mark every keyword occurrence', () => {
+      const content = '<p>HR outsourcing helps. Choose <b>HR outsourcing</b> wisely.</p>';
+      const result = assessKeywordDensity(
+        { content, keyword: 'HR outsourcing' },
+        analyzeText(content, 'HR outsourcing')
+      );
+
+      expect(result.marks).toHaveLength(2);
+      result.marks!.forEach(mark => {
+        expect(content.slice(mark.source.start, mark.source.end)).toBe('HR outsourcing');
+      });
+    });
+
+    it('should mark headings that break the hierarchy', () => {
+      const content = '<h1>Title</h1><h3>Skipped level</h3><h2>Fine</h2>';
+      const result = assessHeadingStructure(content, analyzeText(content), 'title');
+
+      expect(result.marks).toHaveLength(1);
+      expect(result.marks![0].original).toBe('Skipped level');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { stem, normalizeWord, findKeywordMatches, countKeywordOccurrences, describeKeywordOccurrences } from '../utils/morphology';
+import { SEOAnalyzer } from '../index';
+import { describe, it, expect } from 'vitest';
+
+describe('Morphology', () => {
+  describe('stem', () => {
+    it('should reduce inflected forms to a common stem', () => {
+      expect(stem('outsourcing')).toBe(stem('outsourced'));
+      expect(stem('outsources')).toBe(stem('outsource'));
+      expect(stem('services')).toBe(stem('service'));
+      expect(stem('companies')).toBe(stem('company'));
+    });
+
+    it('should map irregular forms before stemming', () => {
+      expect(normalizeWord('children')).toBe(normalizeWord('child'));
+      expect(normalizeWord('wrote')).toBe(normalizeWord('writing'));
+    });
+  });
+
+  describe('findKeywordMatches', () => {
+    it('should classify exact, word form and synonym matches', () => {
+      const text = 'HR outsourcing saves time. Outsourced HR is common. Staffing services also help.';
+      const matches = findKeywordMatches(text, 'HR outsourcing', ['staffing service']);
+
+      expect(matches.map(m => m.type)).toEqual(['exact', 'synonym']);
+
+      const reordered = findKeywordMatches('We outsource HR. HR outsourced teams grow.', 'HR outsourcing');
+      expect(reordered.map(m => [m.type, m.phrase])).toEqual([['morphology', 'HR outsourced']]);
+    });
+
+    it('should return offsets that point at the matched phrase', () => {
+      const text = 'Why HR Outsourcing works';
+      const [match] = findKeywordMatches(text, 'hr outsourcing');
+
+      expect(text.slice(match.start, match.end)).toBe('HR Outsourcing');
+      expect(match.type).toBe('exact');
+    });
+
+    it('should describe the occurrence split', () => {
+      const matches = findKeywordMatches('HR outsourcing and HR outsourced and staffing', 'HR outsourcing', ['staffing']);
+
+      expect(describeKeywordOccurrences(countKeywordOccurrences(matches))).toBe('1 exact, 1 word form, 1 synonym');
+    });
+  });
+
+  describe('assessments', () => {
+    it('should credit word forms in the title', () => {
+      const result = SEOAnalyzer.analyze({
+        title: 'Outsourced HR Services for UAE Businesses',
+        content: '<p>Some content</p>',
+        keyword: 'outsourcing HR'
+      });
+      const title = result.seoAssessments.find(a => a.id === 'title');
+
+      expect(title?.rating).toBe('ok');
+      expect(title?.text).toContain('Outsourced HR');
+    });
+
+    it('should report the exact / word form split in keyword density', () => {
+      const result = SEOAnalyzer.analyze({
+        content: '<p>Payroll outsourcing is popular. Payroll outsourced to experts saves money. We compare payroll providers here.</p>',
+        keyword: 'payroll outsourcing'
+      });
+      const density = result.seoAssessments.find(a => a.id === 'keyword-density');
+
+      expect(density?.text).toContain('1 exact, 1 word form');
+      expect(density?.marks).toHaveLength(2);
+    });
+  });
+});
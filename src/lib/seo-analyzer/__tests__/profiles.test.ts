@@ -0,0 +1,69 @@
+import { SEOAnalyzer } from '../index';
+import { applyScoringProfile, DEFAULT_QUALITY_THRESHOLDS, getQualityThresholds, getScoringProfile, SCORING_PROFILES } from '../profiles';
+import { defaultAssessmentRegistry } from '../registry';
+import { DEFAULT_READABILITY_CONFIG, DEFAULT_SEO_CONFIG } from '../config';
+import { SEOData } from '../types';
+import { describe, it, expect } from 'vitest';
+
+describe('Scoring profiles', () => {
+  const steps = '<ol><li>Collect the documents.</li><li>Submit the application.</li><li>Pay the visa fee.</li></ol>';
+  const howToSchema = JSON.stringify({
+    '@context': 'https://schema.org',
+    '@type': 'HowTo',
+    name: 'How to apply for a UAE work visa',
+    step: [
+      { '@type': 'HowToStep', text: 'Collect the documents.' },
+      { '@type': 'HowToStep', text: 'Submit the application.' }
+    ]
+  });
+  const seoData: SEOData = {
+    title: 'How to Apply for a UAE Work Visa',
+    content: `<h1>How to apply for a UAE work visa</h1><p>A UAE work visa takes three steps.</p>${steps}`,
+    keyword: 'UAE work visa'
+  };
+
+  it('should score informational articles with the defaults', () => {
+    expect(getScoringProfile()).toBe(SCORING_PROFILES.informational);
+    expect(SEOAnalyzer.analyze({ ...seoData, articleType: 'informational' })).toEqual(SEOAnalyzer.analyze(seoData));
+  });
+
+  it('should apply thresholds, weights and switches without touching the defaults', () => {
+    const scoring = applyScoringProfile(SCORING_PROFILES['how-to'], {
+      registry: defaultAssessmentRegistry,
+      seoConfig: DEFAULT_SEO_CONFIG,
+      readabilityConfig: DEFAULT_READABILITY_CONFIG
+    });
+
+    expect(scoring.seoConfig.structuredData.requiredTypes).toEqual(['HowTo']);
+    expect(scoring.seoConfig.content).toBe(DEFAULT_SEO_CONFIG.content);
+    expect(scoring.registry.getWeight('ordered-list')).toBe(1.4);
+    expect(scoring.registry.resolve('seo').map(d => d.id)).toContain('ordered-list');
+    expect(DEFAULT_SEO_CONFIG.structuredData.requiredTypes).toEqual([]);
+    expect(defaultAssessmentRegistry.get('ordered-list')?.enabled).toBe(false);
+  });
+
+  it('should require numbered steps and HowTo schema for how-tos', () => {
+    const bulleted = SEOAnalyzer.analyze({ ...seoData, content: seoData.content.replace(/ol>/g, 'ul>'), articleType: 'how-to' });
+    expect(bulleted.seoAssessments.find(a => a.id === 'ordered-list')?.rating).toBe('bad');
+    expect(bulleted.seoAssessments.find(a => a.id === 'structured-data')?.rating).toBe('bad');
+
+    const complete = SEOAnalyzer.analyze({ ...seoData, structuredData: howToSchema, articleType: 'how-to' });
+    expect(complete.seoAssessments.find(a => a.id === 'ordered-list')?.rating).toBe('good');
+    expect(complete.seoAssessments.find(a => a.id === 'structured-data')?.rating).not.toBe('bad');
+  });
+
+  it('should expect fewer transitions in listicles', () => {
+    const content = '<h2>1. Payroll</h2><p>Payroll runs monthly.</p><h2>2. Visas</h2><p>Visas take two weeks.</p><p>However, fees vary.</p><p>Fees depend on headcount.</p>';
+    const rating = (articleType?: SEOData['articleType']) => SEOAnalyzer
+      .analyze({ content, articleType })
+      .readabilityAssessments.find(a => a.id === 'transition-words')?.rating;
+
+    expect(rating()).toBe('bad');
+    expect(rating('listicle')).toBe('good');
+  });
+
+  it('should let a profile lower the quality thresholds it needs', () => {
+    expect(getQualityThresholds(getScoringProfile())).toEqual(DEFAULT_QUALITY_THRESHOLDS);
+    expect(getQualityThresholds(SCORING_PROFILES.transactional)).toEqual({ seoScore: 90, readabilityScore: DEFAULT_QUALITY_THRESHOLDS.readabilityScore });
+  });
+});
@@ -0,0 +1,82 @@
+import { SEOAnalyzer } from '../index';
+import { createAssessmentRegistry, defaultAssessmentRegistry } from '../registry';
+import { DEFAULT_SEO_CONFIG } from '../config';
+import { AssessmentDefinition, SEOData } from '../types';
+import { describe, it, expect } from 'vitest';
+
+describe('AssessmentRegistry', () => {
+  const seoData: SEOData = {
+    title: 'HR Outsourcing in the UAE: A Complete Guide',
+    content: '<h1>HR outsourcing</h1><p>HR outsourcing helps growing companies in Dubai scale their teams.</p>',
+    keyword: 'HR outsourcing'
+  };
+
+  it('should register the built-in assessments in analysis order', () => {
+    expect(defaultAssessmentRegistry.getAll('seo')).toHaveLength(15);
+    expect(defaultAssessmentRegistry.getAll('readability')).toHaveLength(9);
+
+    const result = SEOAnalyzer.analyze(seoData);
+
+    // Profile-specific assessments are registered disabled
+    expect(result.seoAssessments.map(a => a.id)).toEqual(
+      defaultAssessmentRegistry.getAll('seo').filter(d => d.enabled !== false).map(d => d.id)
+    );
+    expect(result.seoAssessments.find(a => a.id === 'ordered-list')).toBeUndefined();
+  });
+
+  it('should expose weights for the advanced scorer', () => {
+    expect(defaultAssessmentRegistry.getWeight('title')).toBe(1.5);
+    expect(defaultAssessmentRegistry.getWeight('unknown-check')).toBe(1.0);
+  });
+
+  it('should skip disabled assessments', () => {
+    const result = SEOAnalyzer.analyze(seoData, false, {
+      disabledAssessments: ['images', 'transition-words']
+    });
+
+    expect(result.seoAssessments.find(a => a.id === 'images')).toBeUndefined();
+    expect(result.readabilityAssessments.find(a => a.id === 'transition-words')).toBeUndefined();
+  });
+
+  it('should only run enabled assessments when a whitelist is given', () => {
+    const result = SEOAnalyzer.analyze(seoData, false, {
+      enabledAssessments: ['title', 'sentence-length']
+    });
+
+    expect(result.seoAssessments.map(a => a.id)).toEqual(['title']);
+    expect(result.readabilityAssessments.map(a => a.id)).toEqual(['sentence-length']);
+  });
+
+  it('should pass config overrides to assessments', () => {
+    const result = SEOAnalyzer.analyze(seoData, false, {
+      seoConfig: { ...DEFAULT_SEO_CONFIG, content: { minWords: 5, cornerstoneMinWords: 10 } }
+    });
+
+    expect(result.seoAssessments.find(a => a.id === 'text-length')?.rating).toBe('good');
+  });
+
+  it('should run custom assessments without touching the default registry', () => {
+    const tascCheck: AssessmentDefinition = {
+      id: 'tasc-brand-mention',
+      category: 'seo',
+      weight: 1.2,
+      priority: 'important',
+      assess: ({ seoData }) => seoData.content.includes('TASC')
+        ? { id: 'tasc-brand-mention', score: 9, rating: 'good', text: 'TASC is mentioned.' }
+        : { id: 'tasc-brand-mention', score: 3, rating: 'bad', text: 'Mention TASC at least once.' }
+    };
+
+    const registry = createAssessmentRegistry().register(tascCheck);
+    const result = SEOAnalyzer.analyze(seoData, false, { registry });
+
+    expect(result.seoAssessments.find(a => a.id === 'tasc-brand-mention')?.rating).toBe('bad');
+    expect(defaultAssessmentRegistry.has('tasc-brand-mention')).toBe(false);
+  });
+
+  it('should respect definitions disabled on the registry', () => {
+    const registry = createAssessmentRegistry().setEnabled('content-freshness', false);
+    const result = SEOAnalyzer.analyze(seoData, false, { registry });
+
+    expect(result.seoAssessments.find(a => a.id === 'content-freshness')).toBeUndefined();
+  });
+});
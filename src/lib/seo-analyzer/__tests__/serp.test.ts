@@ -0,0 +1,68 @@
+import { SEOAnalyzer } from '../index';
+import { createBreadcrumb, createSnippetPreview, measureTextWidth, truncateToWidth } from '../serp';
+import { SERP_LAYOUTS } from '../config';
+import { describe, it, expect } from 'vitest';
+
+describe('SERP snippet preview', () => {
+  const siteConfig = { domains: ['www.example.com'], pathPrefixes: ['/ae'] };
+
+  it('should measure wide characters wider than narrow ones', () => {
+    const narrow = measureTextWidth('illicit little fill', 20);
+    const wide = measureTextWidth('WWW MMM WWWWW MMMMM', 20);
+
+    expect(narrow).toBeLessThan(200);
+    expect(wide).toBeGreaterThan(narrow * 2);
+    expect(measureTextWidth('payroll', 14, [{ start: 0, end: 7 }])).toBeGreaterThan(measureTextWidth('payroll', 14));
+  });
+
+  it('should truncate at a word boundary with an ellipsis', () => {
+    const title = 'HR Outsourcing in the UAE: A Complete Guide for Employers and HR Managers in 2025';
+    const result = truncateToWidth(title, SERP_LAYOUTS.desktop.title);
+
+    expect(result.truncated).toBe(true);
+    expect(result.text.endsWith(' ...')).toBe(true);
+    expect(title.startsWith(result.text.slice(0, -4))).toBe(true);
+    expect(measureTextWidth(result.text, 20)).toBeLessThanOrEqual(SERP_LAYOUTS.desktop.title.maxWidth);
+    expect(truncateToWidth('Short title', SERP_LAYOUTS.desktop.title)).toMatchObject({ text: 'Short title', truncated: false });
+  });
+
+  it('should cut descriptions earlier on mobile and bold the keyword', () => {
+    const data = {
+      content: '<p>Body</p>',
+      keyword: 'HR outsourcing',
+      metaDescription: 'HR outsourcing lets UAE companies hand payroll, visas and compliance to specialists. Learn what it costs and how to choose a provider.'
+    };
+    const desktop = createSnippetPreview(data, 'desktop');
+    const mobile = createSnippetPreview(data, 'mobile');
+
+    expect(desktop.description.truncated).toBe(false);
+    expect(mobile.description.truncated).toBe(true);
+    expect(mobile.description.text.length).toBeLessThan(desktop.description.text.length);
+    expect(desktop.description.segments[0]).toEqual({ text: 'HR outsourcing', bold: true });
+    expect(desktop.description.segments.map(segment => segment.text).join('')).toBe(desktop.description.text);
+  });
+
+  it('should fall back to page text without a meta description', () => {
+    const preview = createSnippetPreview({ content: '<h1>Guide</h1><p>Payroll in Dubai explained.</p>' });
+
+    expect(preview.description.text).toContain('Payroll in Dubai explained.');
+  });
+
+  it('should build the breadcrumb from the slug and site', () => {
+    expect(createBreadcrumb('hr-guide', siteConfig)).toBe('example.com › ae › hr-guide');
+    expect(createBreadcrumb('https://blog.example.org/posts/payroll/')).toBe('blog.example.org › posts › payroll');
+  });
+
+  it('should rate title and meta description length by pixel width', () => {
+    // 60 characters, but far wider than a desktop result
+    const wideTitle = 'WWWWWWWWWW MMMMMMMMMM WWWWWWWWWW MMMMMMMMMM WWWWWWWWWW MMMMM';
+    const result = SEOAnalyzer.analyze({ content: '<p>Body</p>', title: wideTitle, metaDescription: 'Too short.' });
+    const title = result.seoAssessments.find(a => a.id === 'title');
+    const meta = result.seoAssessments.find(a => a.id === 'meta-description');
+
+    expect(title?.rating).toBe('ok');
+    expect(title?.text).toContain('pixels');
+    expect(title?.text).toContain('too long');
+    expect(meta?.text).toContain('below the recommended minimum of 720 pixels');
+  });
+});
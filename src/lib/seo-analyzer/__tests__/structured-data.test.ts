@@ -0,0 +1,111 @@
+import { SEOAnalyzer } from '../index';
+import { extractJsonLd, formatSchemaIssues, validateStructuredData } from '../schema';
+import { describe, it, expect } from 'vitest';
+
+describe('Structured data validation', () => {
+  const faqPage = {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: [
+      {
+        '@type': 'Question',
+        name: 'What does HR outsourcing cost in Dubai?',
+        acceptedAnswer: { '@type': 'Answer', text: 'Most providers charge per employee per month.' }
+      }
+    ]
+  };
+
+  const article = {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: 'HR Outsourcing in the UAE',
+    author: { '@type': 'Person', name: 'Sara Khan' },
+    datePublished: '2025-03-01T09:00:00+04:00',
+    dateModified: '2025-04-01',
+    image: 'https://example.com/hr.png',
+    publisher: { '@type': 'Organization', name: 'TASC' },
+    description: 'A guide for employers.',
+    mainEntityOfPage: 'https://example.com/ae/hr-guide'
+  };
+
+  it('should accept complete FAQPage and BlogPosting markup', () => {
+    const validation = validateStructuredData({ '@context': 'https://schema.org', '@graph': [faqPage, article] });
+
+    expect(validation.valid).toBe(true);
+    expect(validation.entities.map(entity => entity.type)).toEqual(['FAQPage', 'BlogPosting']);
+    expect(validation.warnings).toEqual([]);
+  });
+
+  it('should report missing required properties with their path', () => {
+    const broken = {
+      ...faqPage,
+      mainEntity: [
+        { '@type': 'Question', name: 'Is it legal?', acceptedAnswer: { '@type': 'Answer' } },
+        { '@type': 'Question', acceptedAnswer: 'Yes' }
+      ]
+    };
+
+    expect(formatSchemaIssues(validateStructuredData(broken).errors)).toEqual([
+      'mainEntity[0].acceptedAnswer.text: Answer text is missing',
+      'mainEntity[1].name: Question text is missing',
+      'mainEntity[1].acceptedAnswer: Expected an Answer'
+    ]);
+  });
+
+  it('should check article dates, authors and recommended properties', () => {
+    const validation = validateStructuredData({
+      '@context': 'https://schema.org',
+      '@type': 'Article',
+      headline: 'Payroll guide',
+      author: 'Sara Khan',
+      datePublished: '01/03/2025'
+    });
+
+    expect(formatSchemaIssues(validation.errors)).toEqual([
+      'author: Expected a Person or Organization object, not plain text',
+      'datePublished: Expected an ISO 8601 date such as "2025-03-01T09:00:00+04:00", got "01/03/2025"'
+    ]);
+    expect(validation.warnings.map(issue => issue.path)).toEqual(['image', 'dateModified', 'publisher', 'description', 'mainEntityOfPage']);
+  });
+
+  it('should validate HowTo steps and breadcrumb positions', () => {
+    const howTo = validateStructuredData({
+      '@context': 'https://schema.org',
+      '@type': 'HowTo',
+      name: 'How to apply for a work permit',
+      totalTime: '30 minutes',
+      step: [{ '@type': 'HowToStep', text: 'Submit the offer letter.' }, { '@type': 'HowToStep' }]
+    });
+    const breadcrumbs = validateStructuredData({
+      '@context': 'https://schema.org',
+      '@type': 'BreadcrumbList',
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: 'Blog', item: 'https://example.com/blog' },
+        { '@type': 'ListItem', position: 3, name: 'HR guide' }
+      ]
+    });
+
+    expect(formatSchemaIssues(howTo.errors)).toEqual(['step[1].text: Step text is missing']);
+    expect(howTo.warnings.map(issue => issue.path)).toContain('totalTime');
+    expect(formatSchemaIssues(breadcrumbs.errors)).toEqual(['itemListElement[1].position: Expected position 2, got 3']);
+  });
+
+  it('should reject invalid JSON, a missing context and unexpected types', () => {
+    expect(validateStructuredData('{"@type": "FAQPage",}').errors[0].message).toMatch(/^Invalid JSON/);
+    expect(formatSchemaIssues(validateStructuredData({ ...faqPage, '@context': 'https://example.com' }).errors))
+      .toEqual(['@context: @context must be "https://schema.org"']);
+    expect(validateStructuredData({}, ['FAQPage']).valid).toBe(false);
+    expect(validateStructuredData(article, ['FAQPage']).errors.map(issue => issue.message)).toEqual(['Expected FAQPage markup']);
+  });
+
+  it('should assess JSON-LD blocks in the content', () => {
+    const content = `<p>Body</p><script type="application/ld+json">${JSON.stringify({ ...faqPage, mainEntity: [] })}</script>`;
+    const result = SEOAnalyzer.analyze({ content });
+    const assessment = result.seoAssessments.find(a => a.id === 'structured-data');
+
+    expect(extractJsonLd(content)).toHaveLength(1);
+    expect(assessment?.rating).toBe('bad');
+    expect(assessment?.text).toContain('mainEntity: Expected at least 1 item');
+    expect(SEOAnalyzer.analyze({ content: '<p>Body</p>' }).seoAssessments.find(a => a.id === 'structured-data')?.notApplicable).toBe(true);
+  });
+});
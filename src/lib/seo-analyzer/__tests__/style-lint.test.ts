@@ -0,0 +1,83 @@
+import { SEOAnalyzer } from '../index';
+import { findConsecutiveOpeners, findOverusedAdverbs, findRepeatedOpeners, findStylePhrases } from '../style';
+import { parseDocument } from '../document';
+import { frenchLocalePack, englishLocalePack } from '../locales';
+import { describe, it, expect } from 'vitest';
+
+describe('Style lint', () => {
+  const assessment = (content: string, id: string, locale?: string) =>
+    SEOAnalyzer.analyze({ content, locale }).readabilityAssessments.find(a => a.id === id);
+
+  it('should flag filler phrases, clichés and AI-isms with a rewrite hint', () => {
+    const document = parseDocument('<p>In today’s fast-paced world, payroll matters. It is important to note that we delve into costs in order to save.</p>');
+    const findings = findStylePhrases(document);
+
+    expect(findings.map(finding => [finding.kind, finding.mark.original])).toEqual([
+      ['ai-ism', 'In today’s fast-paced world'],
+      ['ai-ism', 'It is important to note that'],
+      ['ai-ism', 'delve into'],
+      ['filler', 'in order to']
+    ]);
+    expect(findings[3].mark.suggestion).toBe('Use "to"');
+    expect(document.source.slice(findings[2].mark.source.start, findings[2].mark.source.end)).toBe('delve into');
+  });
+
+  it('should add the house-style phrases of the site', () => {
+    const document = parseDocument('<p>We offer world-class payroll.</p>');
+    const siteConfig = {
+      domains: [],
+      stylePhrases: [{ phrase: 'world-class', kind: 'cliche' as const, suggestion: 'Back the claim with a figure' }]
+    };
+
+    expect(findStylePhrases(document, englishLocalePack, siteConfig).map(finding => finding.suggestion)).toEqual(['Back the claim with a figure']);
+    expect(assessment('<p>We offer world-class payroll.</p>', 'style-phrases')?.rating).toBe('good');
+  });
+
+  it('should find repeated and consecutive sentence openers', () => {
+    const document = parseDocument(
+      '<h2>Payroll</h2><p>Payroll runs monthly. Payroll needs approvals. Payroll closes on the 25th.</p>'
+      + '<p>This means fees rise. Costs vary. This means delays. This means errors. Teams grow. This means churn.</p>'
+    );
+
+    expect(findConsecutiveOpeners(document).map(finding => finding.mark.original)).toEqual([
+      'Payroll runs monthly.',
+      'Payroll needs approvals.',
+      'Payroll closes on the 25th.'
+    ]);
+    expect(findRepeatedOpeners(document).map(finding => finding.match)).toEqual(['this means', 'this means', 'this means', 'this means']);
+    expect(findRepeatedOpeners(document, englishLocalePack, 4)).toEqual([]);
+  });
+
+  it('should flag adverbs used too often', () => {
+    const content = '<p>It is really simple. It is really fast. It is really cheap. It is really safe. Apply monthly.</p>';
+    const findings = findOverusedAdverbs(parseDocument(content));
+
+    expect(findings.map(finding => finding.match)).toEqual(['really', 'really', 'really', 'really']);
+    expect(findings[0].mark.suggestion).toContain('"really" is used 4 times');
+    expect(assessment(content, 'overused-adverbs')?.rating).toBe('ok');
+  });
+
+  it('should score the style assessments and report the findings', () => {
+    const clean = '<p>Payroll runs monthly. Approvals take two days. Most clients close on the 25th.</p>';
+    const generic = '<p>In today’s fast-paced world, we delve into payroll. At the end of the day, it is a game-changer.</p>';
+
+    expect(assessment(clean, 'style-phrases')?.rating).toBe('good');
+    expect(assessment(clean, 'sentence-openers')?.rating).toBe('good');
+    expect(assessment(generic, 'style-phrases')?.rating).toBe('bad');
+    expect(assessment(generic, 'style-phrases')?.marks).toHaveLength(4);
+    expect(SEOAnalyzer.analyze({ content: generic }).styleLint?.map(finding => finding.match)).toEqual([
+      "in today's fast-paced world",
+      'delve into',
+      'at the end of the day',
+      'game-changer'
+    ]);
+  });
+
+  it('should skip the phrase and adverb checks for locales without them', () => {
+    const content = '<p>Nous traitons la paie vraiment rapidement.</p>';
+
+    expect(frenchLocalePack.stylePhrases).toBeUndefined();
+    expect(assessment(content, 'style-phrases', 'fr')?.notApplicable).toBe(true);
+    expect(assessment(content, 'overused-adverbs', 'fr')?.notApplicable).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { assessKeywordInIntroduction } from '../assessments/seo/keyword-in-introduction';
+import { assessKeywordInSlug, getSlugText } from '../assessments/seo/keyword-in-slug';
+import { assessSubheadingDistribution } from '../assessments/readability/subheading-distribution';
+import { DEFAULT_READABILITY_CONFIG } from '../config';
+import { describe, it, expect } from 'vitest';
+
+describe('Yoast parity assessments', () => {
+  describe('assessKeywordInIntroduction', () => {
+    const keyword = 'HR outsourcing';
+
+    it('should pass when a sentence of the first paragraph contains the keyword', () => {
+      const content = '<h1>Guide</h1><p>Growing firms in Dubai choose HR outsourcing. It saves time.</p><p>More text.</p>';
+      const result = assessKeywordInIntroduction({ content, keyword });
+
+      expect(result.rating).toBe('good');
+      expect(result.marks?.[0].original).toBe('HR outsourcing');
+    });
+
+    it('should credit word forms and synonyms', () => {
+      expect(assessKeywordInIntroduction({ content: '<p>We outsource HR for clients.</p>', keyword: 'outsourcing HR' }).rating).toBe('good');
+      expect(assessKeywordInIntroduction({ content: '<p>Staffing services help you scale.</p>', keyword, synonyms: ['staffing services'] }).rating).toBe('good');
+    });
+
+    it('should be ok when the keyword words are spread over sentences', () => {
+      const result = assessKeywordInIntroduction({ content: '<p>Our HR team is small. Outsourcing helped.</p>', keyword });
+
+      expect(result.rating).toBe('ok');
+    });
+
+    it('should fail when the first paragraph does not mention the keyword', () => {
+      const content = '<p>Welcome to our blog.</p><p>HR outsourcing is popular.</p>';
+
+      expect(assessKeywordInIntroduction({ content, keyword }).rating).toBe('bad');
+    });
+
+    it('should not apply without a focus keyword', () => {
+      expect(assessKeywordInIntroduction({ content: '<p>Text.</p>' }).notApplicable).toBe(true);
+    });
+  });
+
+  describe('assessKeywordInSlug', () => {
+    it('should read the last path segment of URLs and slugs', () => {
+      expect(getSlugText('https://example.com/blog/hr-outsourcing-uae/?ref=nav')).toBe('hr outsourcing uae');
+      expect(getSlugText('hr_outsourcing.html')).toBe('hr outsourcing');
+    });
+
+    it('should rate the share of keyword words in the slug', () => {
+      const keyword = 'payroll outsourcing in Dubai';
+
+      expect(assessKeywordInSlug({ content: '', keyword, url: 'outsourcing-payroll-dubai' }).rating).toBe('good');
+      expect(assessKeywordInSlug({ content: '', keyword, url: 'payroll-outsourcing' }).rating).toBe('ok');
+      expect(assessKeywordInSlug({ content: '', keyword, url: 'hr-guide' }).rating).toBe('bad');
+      expect(assessKeywordInSlug({ content: '', keyword }).rating).toBe('bad');
+    });
+  });
+
+  describe('assessSubheadingDistribution', () => {
+    const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+    it('should accept short text without subheadings', () => {
+      expect(assessSubheadingDistribution(`<p>${words(200)}</p>`).rating).toBe('good');
+    });
+
+    it('should require subheadings in long text', () => {
+      expect(assessSubheadingDistribution(`<p>${words(400)}</p>`).rating).toBe('bad');
+    });
+
+    it('should mark sections longer than the configured maximum', () => {
+      const content = `<h1>Title</h1><p>${words(100)}</p><h2>First</h2><p>${words(350)}</p><h3>Second</h3><p>${words(50)}</p>`;
+      const result = assessSubheadingDistribution(content);
+
+      expect(result.rating).toBe('ok');
+      expect(result.marks).toHaveLength(1);
+      expect(result.marks?.[0].original).toBe(words(350));
+
+      const config = { ...DEFAULT_READABILITY_CONFIG, subheadingDistribution: { maxWords: 400 } };
+      expect(assessSubheadingDistribution(content, config).rating).toBe('good');
+    });
+  });
+});
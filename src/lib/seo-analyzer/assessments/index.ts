@@ -0,0 +1,223 @@
+import { AssessmentDefinition } from '../types'
+
+// SEO Assessments
+import { assessKeywordDensity } from './seo/keyword-density'
+import { assessMetaDescription } from './seo/meta-description'
+import { assessTitle } from './seo/title'
+import { assessTextLength } from './seo/text-length'
+import { assessInternalLinks } from './seo/internal-links'
+import { assessImages } from './seo/images'
+import { assessSemanticKeywords } from './seo/semantic-keywords'
+import { assessHeadingStructure } from './seo/heading-structure'
+import { assessContentFreshness } from './seo/content-freshness'
+import { assessExternalLinks } from './seo/external-links'
+import { assessKeywordInIntroduction } from './seo/keyword-in-introduction'
+import { assessKeywordInSlug } from './seo/keyword-in-slug'
+import { assessKeyphraseCannibalization } from './seo/keyphrase-cannibalization'
+import { assessStructuredData } from './seo/structured-data'
+import { assessOrderedList } from './seo/ordered-list'
+
+// Readability Assessments
+import { assessSentenceLength } from './readability/sentence-length'
+import { assessParagraphLength } from './readability/paragraph-length'
+import { assessPassiveVoice } from './readability/passive-voice'
+import { assessFleschReadingEase } from './readability/flesch-reading-ease'
+import { assessTransitionWords } from './readability/transition-words'
+import { assessSubheadingDistribution } from './readability/subheading-distribution'
+import { assessStylePhrases } from './readability/style-phrases'
+import { assessSentenceOpeners } from './readability/sentence-openers'
+import { assessOverusedAdverbs } from './readability/overused-adverbs'
+
+// Weights are based on SEO impact: critical factors have the highest impact on rankings
+export const BUILT_IN_ASSESSMENTS: AssessmentDefinition[] = [
+  {
+    id: 'keyword-density',
+    category: 'seo',
+    weight: 1.4,
+    priority: 'critical',
+    configKey: 'keyword',
+    assess: ({ seoData, stats, seoConfig, document }) => assessKeywordDensity(seoData, stats, seoConfig, document)
+  },
+  {
+    id: 'meta-description',
+    category: 'seo',
+    weight: 1.3,
+    priority: 'critical',
+    configKey: 'metaDescription',
+    assess: ({ seoData, seoConfig }) => assessMetaDescription(seoData, seoConfig)
+  },
+  {
+    id: 'title',
+    category: 'seo',
+    weight: 1.5,
+    priority: 'critical',
+    configKey: 'title',
+    assess: ({ seoData, seoConfig }) => assessTitle(seoData, seoConfig)
+  },
+  {
+    id: 'text-length',
+    category: 'seo',
+    weight: 1.3,
+    priority: 'critical',
+    configKey: 'content',
+    assess: ({ stats, isCornerstone, seoConfig }) => assessTextLength(stats, isCornerstone, seoConfig)
+  },
+  {
+    id: 'internal-links',
+    category: 'seo',
+    weight: 1.1,
+    priority: 'important',
+    assess: ({ stats, document }) => assessInternalLinks(stats, document)
+  },
+  {
+    id: 'images',
+    category: 'seo',
+    weight: 0.9,
+    priority: 'beneficial',
+    assess: ({ seoData, stats, document }) => assessImages(stats, seoData.keyword, document)
+  },
+  {
+    id: 'semantic-keywords',
+    category: 'seo',
+    weight: 1.2,
+    priority: 'important',
+    assess: ({ seoData, stats, document }) => assessSemanticKeywords(seoData, stats, document)
+  },
+  {
+    id: 'heading-structure',
+    category: 'seo',
+    weight: 1.4,
+    priority: 'critical',
+    assess: ({ seoData, stats, document }) =>
+      assessHeadingStructure(seoData.content, stats, seoData.keyword, seoData.synonyms, document)
+  },
+  {
+    id: 'content-freshness',
+    category: 'seo',
+    weight: 1.0,
+    priority: 'important',
+    assess: ({ seoData, stats, document }) => assessContentFreshness(seoData.content, stats, document)
+  },
+  {
+    id: 'external-links',
+    category: 'seo',
+    weight: 1.1,
+    priority: 'important',
+    assess: ({ seoData, stats, document }) => assessExternalLinks(seoData.content, stats, document)
+  },
+  {
+    id: 'keyword-in-introduction',
+    category: 'seo',
+    weight: 1.2,
+    priority: 'important',
+    assess: ({ seoData, localePack, document }) => assessKeywordInIntroduction(seoData, localePack, document)
+  },
+  {
+    id: 'keyword-in-slug',
+    category: 'seo',
+    weight: 1.0,
+    priority: 'important',
+    assess: ({ seoData }) => assessKeywordInSlug(seoData)
+  },
+  {
+    id: 'keyphrase-cannibalization',
+    category: 'seo',
+    weight: 1.2,
+    priority: 'important',
+    assess: ({ seoData }) => assessKeyphraseCannibalization(seoData)
+  },
+  {
+    id: 'structured-data',
+    category: 'seo',
+    weight: 0.9,
+    priority: 'beneficial',
+    configKey: 'structuredData',
+    assess: ({ seoData, seoConfig }) => assessStructuredData(seoData, seoConfig)
+  },
+  {
+    // Only the how-to profile enables this check
+    id: 'ordered-list',
+    category: 'seo',
+    weight: 1.0,
+    priority: 'important',
+    enabled: false,
+    configKey: 'orderedList',
+    assess: ({ document, seoConfig }) => assessOrderedList(document, seoConfig)
+  },
+  {
+    id: 'sentence-length',
+    category: 'readability',
+    weight: 0.8,
+    priority: 'beneficial',
+    configKey: 'sentence',
+    assess: ({ seoData, stats, readabilityConfig, localePack, document }) =>
+      assessSentenceLength(seoData.content, stats, readabilityConfig, localePack, document)
+  },
+  {
+    id: 'paragraph-length',
+    category: 'readability',
+    weight: 0.7,
+    priority: 'beneficial',
+    configKey: 'paragraph',
+    assess: ({ seoData, readabilityConfig, localePack, document }) =>
+      assessParagraphLength(seoData.content, readabilityConfig, localePack, document)
+  },
+  {
+    id: 'passive-voice',
+    category: 'readability',
+    weight: 0.7,
+    priority: 'beneficial',
+    configKey: 'passiveVoice',
+    assess: ({ seoData, stats, readabilityConfig, localePack, document }) =>
+      assessPassiveVoice(seoData.content, stats, readabilityConfig, localePack, document)
+  },
+  {
+    id: 'flesch-reading-ease',
+    category: 'readability',
+    weight: 1.0,
+    priority: 'important',
+    assess: ({ stats, localePack }) => assessFleschReadingEase(stats, localePack)
+  },
+  {
+    id: 'transition-words',
+    category: 'readability',
+    weight: 0.8,
+    priority: 'beneficial',
+    configKey: 'transitionWords',
+    assess: ({ stats, readabilityConfig, localePack }) => assessTransitionWords(stats, readabilityConfig, localePack)
+  },
+  {
+    id: 'subheading-distribution',
+    category: 'readability',
+    weight: 0.9,
+    priority: 'important',
+    configKey: 'subheadingDistribution',
+    assess: ({ seoData, readabilityConfig, localePack, document }) =>
+      assessSubheadingDistribution(seoData.content, readabilityConfig, localePack, document)
+  },
+  {
+    id: 'style-phrases',
+    category: 'readability',
+    weight: 0.8,
+    priority: 'beneficial',
+    configKey: 'stylePhrases',
+    assess: ({ document, readabilityConfig, localePack, siteConfig }) =>
+      assessStylePhrases(document, readabilityConfig, localePack, siteConfig)
+  },
+  {
+    id: 'sentence-openers',
+    category: 'readability',
+    weight: 0.6,
+    priority: 'beneficial',
+    configKey: 'sentenceOpeners',
+    assess: ({ document, readabilityConfig, localePack }) => assessSentenceOpeners(document, readabilityConfig, localePack)
+  },
+  {
+    id: 'overused-adverbs',
+    category: 'readability',
+    weight: 0.5,
+    priority: 'beneficial',
+    configKey: 'adverbs',
+    assess: ({ document, readabilityConfig, localePack }) => assessOverusedAdverbs(document, readabilityConfig, localePack)
+  }
+]
@@ -1,22 +1,37 @@
 import { AssessmentResult, ContentStatistics } from '../../types'
+import { englishLocalePack } from '../../locales'
+
+export function assessFleschReadingEase(
+  stats: ContentStatistics,
+  localePack = englishLocalePack
+): AssessmentResult {
+  if (!localePack.readabilityFormula) {
+    return {
+      score: 0,
+      text: `Reading ease is not scored for ${localePack.name} content because no validated formula exists for it. Readability is judged by the other checks.`,
+      id: 'flesch-reading-ease',
+      rating: 'feedback',
+      notApplicable: true
+    }
+  }
 
-export function assessFleschReadingEase(stats: ContentStatistics): AssessmentResult {
   if (!stats.fleschReadingEase || stats.wordCount === 0) {
     return {
       score: 0,
-      text: 'Unable to calculate Flesch Reading Ease score.',
+      text: `Unable to calculate ${localePack.readabilityFormula.name} score.`,
       id: 'flesch-reading-ease',
       rating: 'feedback'
     }
   }
 
   const score = stats.fleschReadingEase
+  const name = localePack.readabilityFormula.name
 
   // Determine difficulty level and score
   if (score >= 90) {
     return {
       score: 9,
-      text: `Excellent! Your text has a Flesch Reading Ease score of ${score.toFixed(1)}, making it very easy to read.`,
+      text: `Excellent! Your text has a ${name} score of ${score.toFixed(1)}, making it very easy to read.`,
       id: 'flesch-reading-ease',
       rating: 'good'
     }
@@ -25,7 +40,7 @@ export function assessFleschReadingEase(stats: ContentStatistics): AssessmentRes
   if (score >= 80) {
     return {
       score: 9,
-      text: `Great! Your text has a Flesch Reading Ease score of ${score.toFixed(1)}, making it easy to read.`,
+      text: `Great! Your text has a ${name} score of ${score.toFixed(1)}, making it easy to read.`,
       id: 'flesch-reading-ease',
       rating: 'good'
     }
@@ -34,7 +49,7 @@ export function assessFleschReadingEase(stats: ContentStatistics): AssessmentRes
   if (score >= 70) {
     return {
       score: 8,
-      text: `Good! Your text has a Flesch Reading Ease score of ${score.toFixed(1)}, making it fairly easy to read.`,
+      text: `Good! Your text has a ${name} score of ${score.toFixed(1)}, making it fairly easy to read.`,
       id: 'flesch-reading-ease',
       rating: 'good'
     }
@@ -43,7 +58,7 @@ export function assessFleschReadingEase(stats: ContentStatistics): AssessmentRes
   if (score >= 60) {
     return {
       score: 6,
-      text: `Your text has a Flesch Reading Ease score of ${score.toFixed(1)}, which is standard for most content.`,
+      text: `Your text has a ${name} score of ${score.toFixed(1)}, which is standard for most content.`,
       id: 'flesch-reading-ease',
       rating: 'ok'
     }
@@ -52,7 +67,7 @@ export function assessFleschReadingEase(stats: ContentStatistics): AssessmentRes
   if (score >= 50) {
     return {
       score: 5,
-      text: `Your text has a Flesch Reading Ease score of ${score.toFixed(1)}, making it fairly difficult to read. Consider simplifying your sentences.`,
+      text: `Your text has a ${name} score of ${score.toFixed(1)}, making it fairly difficult to read. Consider simplifying your sentences.`,
       id: 'flesch-reading-ease',
       rating: 'ok'
     }
@@ -61,7 +76,7 @@ export function assessFleschReadingEase(stats: ContentStatistics): AssessmentRes
   if (score >= 30) {
     return {
       score: 3,
-      text: `Your text has a Flesch Reading Ease score of ${score.toFixed(1)}, making it difficult to read. Use shorter sentences and simpler words.`,
+      text: `Your text has a ${name} score of ${score.toFixed(1)}, making it difficult to read. Use shorter sentences and simpler words.`,
       id: 'flesch-reading-ease',
       rating: 'bad'
     }
@@ -69,7 +84,7 @@ export function assessFleschReadingEase(stats: ContentStatistics): AssessmentRes
 
   return {
     score: 2,
-    text: `Your text has a Flesch Reading Ease score of ${score.toFixed(1)}, making it very difficult to read. Significantly simplify your writing.`,
+    text: `Your text has a ${name} score of ${score.toFixed(1)}, making it very difficult to read. Significantly simplify your writing.`,
     id: 'flesch-reading-ease',
     rating: 'bad'
   }
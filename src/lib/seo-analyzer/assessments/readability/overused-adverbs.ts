@@ -0,0 +1,57 @@
+import { AssessmentResult, ParsedDocument } from '../../types'
+import { DEFAULT_READABILITY_CONFIG } from '../../config'
+import { englishLocalePack } from '../../locales'
+import { findOverusedAdverbs } from '../../style'
+
+/**
+ * Flags adverbs, such as 'really' or 'significantly', that the text leans on
+ */
+export function assessOverusedAdverbs(
+  document: ParsedDocument,
+  config = DEFAULT_READABILITY_CONFIG,
+  localePack = englishLocalePack
+): AssessmentResult {
+  if (!localePack.isAdverb) {
+    return {
+      score: 0,
+      text: `Adverbs are not checked for ${localePack.name} content.`,
+      id: 'overused-adverbs',
+      rating: 'feedback',
+      notApplicable: true
+    }
+  }
+
+  const { maxRepeats } = config.adverbs
+  const findings = findOverusedAdverbs(document, localePack, maxRepeats)
+  const adverbs = Array.from(new Set(findings.map(finding => finding.match)))
+
+  if (adverbs.length === 0) {
+    return {
+      score: 9,
+      text: `No adverb is used more than ${maxRepeats} times. Good job!`,
+      id: 'overused-adverbs',
+      rating: 'good'
+    }
+  }
+
+  const list = adverbs.map(adverb => `"${adverb}"`).join(', ')
+  const marks = findings.map(finding => finding.mark)
+
+  if (adverbs.length === 1) {
+    return {
+      score: 6,
+      text: `${list} is used more than ${maxRepeats} times. Cut it where the sentence works without it.`,
+      id: 'overused-adverbs',
+      rating: 'ok',
+      marks
+    }
+  }
+
+  return {
+    score: 3,
+    text: `${list} are each used more than ${maxRepeats} times. Cut them or choose more precise verbs.`,
+    id: 'overused-adverbs',
+    rating: 'bad',
+    marks
+  }
+}
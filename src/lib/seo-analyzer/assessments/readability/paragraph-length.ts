@@ -1,12 +1,17 @@
-import { AssessmentResult } from '../../types'
+import { AssessmentResult, ParsedDocument } from '../../types'
 import { DEFAULT_READABILITY_CONFIG } from '../../config'
-import { getParagraphs, getWords } from '../../utils/text-statistics'
+import { getParagraphRanges } from '../../utils/text-statistics'
+import { englishLocalePack } from '../../locales'
+import { parseDocument } from '../../document'
+import { markFromSourceRange } from '../../utils/marks'
 
 export function assessParagraphLength(
   content: string,
-  config = DEFAULT_READABILITY_CONFIG
+  config = DEFAULT_READABILITY_CONFIG,
+  localePack = englishLocalePack,
+  document: ParsedDocument = parseDocument(content)
 ): AssessmentResult {
-  const paragraphs = getParagraphs(content)
+  const paragraphs = getParagraphRanges(content, document)
   
   if (paragraphs.length === 0) {
     return {
@@ -18,14 +23,10 @@ export function assessParagraphLength(
   }
 
   const maxWords = config.paragraph.maxWords
-  let tooLongCount = 0
-
-  paragraphs.forEach(paragraph => {
-    const words = getWords(paragraph)
-    if (words.length > maxWords) {
-      tooLongCount++
-    }
-  })
+  const marks = paragraphs
+    .filter(({ paragraph }) => localePack.getWords(paragraph).length > maxWords)
+    .map(({ start, end }) => markFromSourceRange(document, start, end))
+  const tooLongCount = marks.length
 
   if (tooLongCount === 0) {
     return {
@@ -43,7 +44,8 @@ export function assessParagraphLength(
       score: 6,
       text: `1 paragraph exceeds ${maxWords} words. Consider breaking it up for better readability.`,
       id: 'paragraph-length',
-      rating: 'ok'
+      rating: 'ok',
+      marks
     }
   }
 
@@ -52,7 +54,8 @@ export function assessParagraphLength(
       score: 6,
       text: `${tooLongCount} paragraphs exceed ${maxWords} words. Consider breaking them up.`,
       id: 'paragraph-length',
-      rating: 'ok'
+      rating: 'ok',
+      marks
     }
   }
 
@@ -60,6 +63,7 @@ export function assessParagraphLength(
     score: 3,
     text: `${tooLongCount} paragraphs (${percentage.toFixed(1)}%) exceed ${maxWords} words. Break up long paragraphs to improve readability.`,
     id: 'paragraph-length',
-    rating: 'bad'
+    rating: 'bad',
+    marks
   }
 }
\ No newline at end of file
@@ -1,9 +1,15 @@
-import { AssessmentResult, ContentStatistics } from '../../types'
+import { AssessmentResult, ContentStatistics, ParsedDocument } from '../../types'
 import { DEFAULT_READABILITY_CONFIG } from '../../config'
+import { englishLocalePack } from '../../locales'
+import { parseDocument } from '../../document'
+import { markFromTextRange } from '../../utils/marks'
 
 export function assessPassiveVoice(
+  content: string,
   stats: ContentStatistics,
-  config = DEFAULT_READABILITY_CONFIG
+  config = DEFAULT_READABILITY_CONFIG,
+  localePack = englishLocalePack,
+  document: ParsedDocument = parseDocument(content)
 ): AssessmentResult {
   const percentage = stats.passiveVoicePercentage
   const maxPercentage = config.passiveVoice.maxPercentage
@@ -17,12 +23,17 @@ export function assessPassiveVoice(
     }
   }
 
+  const marks = localePack.getSentenceRanges(document.text)
+    .filter(({ sentence }) => localePack.isPassiveSentence(sentence))
+    .map(({ start, end }) => markFromTextRange(document, start, end))
+
   if (percentage <= maxPercentage) {
     return {
       score: 9,
       text: `Excellent! ${percentage.toFixed(1)}% of sentences use passive voice, which is within the recommended maximum of ${maxPercentage}%.`,
       id: 'passive-voice',
-      rating: 'good'
+      rating: 'good',
+      marks
     }
   }
 
@@ -31,7 +42,8 @@ export function assessPassiveVoice(
       score: 6,
       text: `${percentage.toFixed(1)}% of sentences use passive voice, which is slightly above the recommended maximum of ${maxPercentage}%. Try to use more active voice.`,
       id: 'passive-voice',
-      rating: 'ok'
+      rating: 'ok',
+      marks
     }
   }
 
@@ -39,6 +51,7 @@ export function assessPassiveVoice(
     score: 3,
     text: `${percentage.toFixed(1)}% of sentences use passive voice, which is well above the recommended maximum of ${maxPercentage}%. Use active voice to make your writing more engaging.`,
     id: 'passive-voice',
-    rating: 'bad'
+    rating: 'bad',
+    marks
   }
 }
\ No newline at end of file
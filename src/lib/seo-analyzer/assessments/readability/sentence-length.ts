@@ -1,13 +1,17 @@
-import { AssessmentResult, ContentStatistics } from '../../types'
+import { AssessmentResult, ContentStatistics, ParsedDocument } from '../../types'
 import { DEFAULT_READABILITY_CONFIG } from '../../config'
-import { getSentences, getWords } from '../../utils/text-statistics'
+import { englishLocalePack } from '../../locales'
+import { parseDocument } from '../../document'
+import { markFromTextRange } from '../../utils/marks'
 
 export function assessSentenceLength(
   content: string,
   stats: ContentStatistics,
-  config = DEFAULT_READABILITY_CONFIG
+  config = DEFAULT_READABILITY_CONFIG,
+  localePack = englishLocalePack,
+  document: ParsedDocument = parseDocument(content)
 ): AssessmentResult {
-  const sentences = getSentences(content)
+  const sentences = localePack.getSentenceRanges(document.text)
   
   if (sentences.length === 0) {
     return {
@@ -21,13 +25,10 @@ export function assessSentenceLength(
   const maxWords = config.sentence.maxWords
   const maxPercentage = config.sentence.maxRecommendedPercentage
 
-  let tooLongCount = 0
-  sentences.forEach(sentence => {
-    const words = getWords(sentence)
-    if (words.length > maxWords) {
-      tooLongCount++
-    }
-  })
+  const marks = sentences
+    .filter(({ sentence }) => localePack.getWords(sentence).length > maxWords)
+    .map(({ start, end }) => markFromTextRange(document, start, end))
+  const tooLongCount = marks.length
 
   const percentage = (tooLongCount / sentences.length) * 100
 
@@ -45,7 +46,8 @@ export function assessSentenceLength(
       score: 9,
       text: `${percentage.toFixed(1)}% of sentences are over ${maxWords} words, which is within the recommended maximum of ${maxPercentage}%.`,
       id: 'sentence-length',
-      rating: 'good'
+      rating: 'good',
+      marks
     }
   }
 
@@ -54,7 +56,8 @@ export function assessSentenceLength(
       score: 6,
       text: `${percentage.toFixed(1)}% of sentences are over ${maxWords} words, which is slightly above the recommended maximum of ${maxPercentage}%. Consider shortening some sentences.`,
       id: 'sentence-length',
-      rating: 'ok'
+      rating: 'ok',
+      marks
     }
   }
 
@@ -62,6 +65,7 @@ export function assessSentenceLength(
     score: 3,
     text: `${percentage.toFixed(1)}% of sentences are over ${maxWords} words, which is well above the recommended maximum of ${maxPercentage}%. Shorten your sentences to improve readability.`,
     id: 'sentence-length',
-    rating: 'bad'
+    rating: 'bad',
+    marks
   }
 }
\ No newline at end of file
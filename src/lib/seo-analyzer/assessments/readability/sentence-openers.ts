@@ -0,0 +1,58 @@
+import { AssessmentResult, ParsedDocument } from '../../types'
+import { DEFAULT_READABILITY_CONFIG } from '../../config'
+import { englishLocalePack } from '../../locales'
+import { findConsecutiveOpeners, findRepeatedOpeners } from '../../style'
+
+/**
+ * Checks that sentences do not keep opening the same way, either in a row
+ * or across the text
+ */
+export function assessSentenceOpeners(
+  document: ParsedDocument,
+  config = DEFAULT_READABILITY_CONFIG,
+  localePack = englishLocalePack
+): AssessmentResult {
+  if (localePack.getSentenceRanges(document.text).length === 0) {
+    return {
+      score: 0,
+      text: 'No sentences found to assess sentence openers.',
+      id: 'sentence-openers',
+      rating: 'feedback'
+    }
+  }
+
+  const { maxRepeats, maxConsecutive } = config.sentenceOpeners
+  const consecutive = findConsecutiveOpeners(document, localePack, maxConsecutive)
+  const repeated = findRepeatedOpeners(document, localePack, maxRepeats)
+  const quote = (words: string[]) => Array.from(new Set(words)).map(word => `"${word}"`).join(', ')
+
+  if (consecutive.length > 0) {
+    return {
+      score: 3,
+      text: `More than ${maxConsecutive} sentences in a row start with ${quote(consecutive.map(finding => finding.match))}. Mix things up so the text does not sound repetitive.`,
+      id: 'sentence-openers',
+      rating: 'bad',
+      marks: [...consecutive, ...repeated]
+        .filter((finding, index, all) => all.findIndex(other => other.mark.text.start === finding.mark.text.start) === index)
+        .sort((a, b) => a.mark.text.start - b.mark.text.start)
+        .map(finding => finding.mark)
+    }
+  }
+
+  if (repeated.length > 0) {
+    return {
+      score: 6,
+      text: `More than ${maxRepeats} sentences start with ${quote(repeated.map(finding => finding.match))}. Vary how your sentences open.`,
+      id: 'sentence-openers',
+      rating: 'ok',
+      marks: repeated.map(finding => finding.mark)
+    }
+  }
+
+  return {
+    score: 9,
+    text: 'Your sentences open in varied ways. Good job!',
+    id: 'sentence-openers',
+    rating: 'good'
+  }
+}
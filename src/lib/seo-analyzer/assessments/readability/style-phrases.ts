@@ -0,0 +1,59 @@
+import { AssessmentResult, ParsedDocument, SiteConfig } from '../../types'
+import { DEFAULT_READABILITY_CONFIG, DEFAULT_SITE_CONFIG } from '../../config'
+import { englishLocalePack } from '../../locales'
+import { findStylePhrases } from '../../style'
+
+/**
+ * Flags filler phrases, clichés and AI-isms from the locale's list and the
+ * site's house style
+ */
+export function assessStylePhrases(
+  document: ParsedDocument,
+  config = DEFAULT_READABILITY_CONFIG,
+  localePack = englishLocalePack,
+  siteConfig: SiteConfig = DEFAULT_SITE_CONFIG
+): AssessmentResult {
+  if (!localePack.stylePhrases?.length && !siteConfig.stylePhrases?.length) {
+    return {
+      score: 0,
+      text: `No list of filler phrases exists for ${localePack.name} content yet.`,
+      id: 'style-phrases',
+      rating: 'feedback',
+      notApplicable: true
+    }
+  }
+
+  const findings = findStylePhrases(document, localePack, siteConfig)
+  const { maxOccurrences } = config.stylePhrases
+
+  if (findings.length === 0) {
+    return {
+      score: 9,
+      text: 'No filler phrases, clichés or AI-isms found. Good job!',
+      id: 'style-phrases',
+      rating: 'good'
+    }
+  }
+
+  const examples = Array.from(new Set(findings.map(finding => `"${finding.mark.original}"`))).slice(0, 3).join(', ')
+  const count = findings.length === 1 ? '1 filler phrase, cliché or AI-ism' : `${findings.length} filler phrases, clichés or AI-isms`
+  const marks = findings.map(finding => finding.mark)
+
+  if (findings.length <= maxOccurrences) {
+    return {
+      score: 6,
+      text: `Found ${count}: ${examples}. Rewrite them in plain words.`,
+      id: 'style-phrases',
+      rating: 'ok',
+      marks
+    }
+  }
+
+  return {
+    score: 3,
+    text: `Found ${count}, such as ${examples}. They make the text sound generic; rewrite them in plain words.`,
+    id: 'style-phrases',
+    rating: 'bad',
+    marks
+  }
+}
@@ -0,0 +1,90 @@
+import { AssessmentResult, ParsedDocument, TextRange } from '../../types'
+import { DEFAULT_READABILITY_CONFIG } from '../../config'
+import { englishLocalePack } from '../../locales'
+import { parseDocument } from '../../document'
+import { markFromSourceRange, markFromTextRange } from '../../utils/marks'
+
+/**
+ * Checks that long stretches of text are broken up by H2/H3 subheadings
+ */
+export function assessSubheadingDistribution(
+  content: string,
+  config = DEFAULT_READABILITY_CONFIG,
+  localePack = englishLocalePack,
+  document: ParsedDocument = parseDocument(content)
+): AssessmentResult {
+  const maxWords = config.subheadingDistribution.maxWords
+  const headings = document.headings.map(heading => ({
+    level: heading.level,
+    range: markFromSourceRange(document, heading.start, heading.end).text
+  }))
+
+  // Sections run from one subheading to the next; heading text itself is not counted
+  const boundaries = headings.filter(({ level }) => level === 2 || level === 3).map(({ range }) => range)
+  const sections: TextRange[] = []
+  let start = 0
+  boundaries.forEach(range => {
+    sections.push({ start, end: range.start })
+    start = range.end
+  })
+  sections.push({ start, end: document.text.length })
+
+  const countWords = ({ start, end }: TextRange) => {
+    const headingWords = headings
+      .filter(({ range }) => range.start >= start && range.end <= end)
+      .reduce((sum, { range }) => sum + localePack.getWords(document.text.slice(range.start, range.end)).length, 0)
+    return localePack.getWords(document.text.slice(start, end)).length - headingWords
+  }
+
+  if (boundaries.length === 0) {
+    if (countWords(sections[0]) <= maxWords) {
+      return {
+        score: 9,
+        text: 'You are not using any subheadings, but your text is short enough and probably does not need them.',
+        id: 'subheading-distribution',
+        rating: 'good'
+      }
+    }
+    return {
+      score: 3,
+      text: `You are not using any subheadings, although your text is longer than ${maxWords} words. Add H2 or H3 subheadings to break it up.`,
+      id: 'subheading-distribution',
+      rating: 'bad'
+    }
+  }
+
+  const longSections = sections.filter(section => countWords(section) > maxWords)
+  const marks = longSections.map(({ start, end }) => {
+    // Skip the spaces left by the surrounding headings
+    while (document.text[start] === ' ') start++
+    while (end > start && document.text[end - 1] === ' ') end--
+    return markFromTextRange(document, start, end)
+  })
+
+  if (longSections.length === 0) {
+    return {
+      score: 9,
+      text: `Great job distributing your text with subheadings! No section exceeds ${maxWords} words.`,
+      id: 'subheading-distribution',
+      rating: 'good'
+    }
+  }
+
+  if (longSections.length === 1) {
+    return {
+      score: 6,
+      text: `1 section of your text is longer than ${maxWords} words without a subheading. Add an H2 or H3 to break it up.`,
+      id: 'subheading-distribution',
+      rating: 'ok',
+      marks
+    }
+  }
+
+  return {
+    score: 3,
+    text: `${longSections.length} sections of your text are longer than ${maxWords} words without a subheading. Add H2 or H3 subheadings to break them up.`,
+    id: 'subheading-distribution',
+    rating: 'bad',
+    marks
+  }
+}
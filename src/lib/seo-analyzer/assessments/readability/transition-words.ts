@@ -1,9 +1,11 @@
 import { AssessmentResult, ContentStatistics } from '../../types'
 import { DEFAULT_READABILITY_CONFIG } from '../../config'
+import { englishLocalePack } from '../../locales'
 
 export function assessTransitionWords(
   stats: ContentStatistics,
-  config = DEFAULT_READABILITY_CONFIG
+  config = DEFAULT_READABILITY_CONFIG,
+  localePack = englishLocalePack
 ): AssessmentResult {
   const percentage = stats.transitionWordPercentage
   const minPercentage = config.transitionWords.minPercentage
@@ -38,7 +40,7 @@ export function assessTransitionWords(
   if (percentage >= minPercentage * 0.5) {
     return {
       score: 3,
-      text: `Only ${percentage.toFixed(1)}% of sentences contain transition words, which is below the recommended minimum of ${minPercentage}%. Add transition words like 'however', 'therefore', 'moreover' to improve text flow.`,
+      text: `Only ${percentage.toFixed(1)}% of sentences contain transition words, which is below the recommended minimum of ${minPercentage}%. Add transition words like ${localePack.transitionWordExamples.map(word => `'${word}'`).join(', ')} to improve text flow.`,
       id: 'transition-words',
       rating: 'bad'
     }
@@ -1,10 +1,17 @@
-import { AssessmentResult, ContentStatistics } from '../../types'
+import { AssessmentResult, ContentStatistics, ParsedDocument } from '../../types'
+import { parseDocument } from '../../document'
 
 /**
  * Assesses content freshness indicators
  * Checks for dates, current year references, and fresh terminology
  */
-export function assessContentFreshness(content: string, stats: ContentStatistics): AssessmentResult {
+export function assessContentFreshness(
+  content: string,
+  stats: ContentStatistics,
+  document: ParsedDocument = parseDocument(content)
+): AssessmentResult {
+  // Only the readable text counts, not URLs or attributes
+  const text = document.text
   const currentYear = new Date().getFullYear()
   const lastYear = currentYear - 1
   
@@ -19,12 +26,12 @@ export function assessContentFreshness(content: string, stats: ContentStatistics
   }
   
   // Count occurrences
-  const currentYearMatches = (content.match(freshnessIndicators.currentYear) || []).length
-  const lastYearMatches = (content.match(freshnessIndicators.lastYear) || []).length
-  const dateMatches = (content.match(freshnessIndicators.dates) || []).length
-  const freshTermMatches = (content.match(freshnessIndicators.freshTerms) || []).length
-  const staleTermMatches = (content.match(freshnessIndicators.staleTerms) || []).length
-  const updateMatches = (content.match(freshnessIndicators.updateIndicators) || []).length
+  const currentYearMatches = (text.match(freshnessIndicators.currentYear) || []).length
+  const lastYearMatches = (text.match(freshnessIndicators.lastYear) || []).length
+  const dateMatches = (text.match(freshnessIndicators.dates) || []).length
+  const freshTermMatches = (text.match(freshnessIndicators.freshTerms) || []).length
+  const staleTermMatches = (text.match(freshnessIndicators.staleTerms) || []).length
+  const updateMatches = (text.match(freshnessIndicators.updateIndicators) || []).length
   
   // Calculate freshness score
   let score = 5 // Base score
@@ -1,50 +1,25 @@
-import { AssessmentResult, ContentStatistics } from '../../types'
+import { AssessmentResult, ContentStatistics, ParsedDocument } from '../../types'
+import { parseDocument } from '../../document'
+import { classifyLinks } from '../../utils/links'
 
 /**
  * Assesses external link quality and quantity
  * Checks for authoritative outbound links and proper link attributes
  */
-export function assessExternalLinks(content: string, stats: ContentStatistics): AssessmentResult {
-  // Regex patterns for different link types
-  const linkRegex = /<a\s+(?:[^>]*?\s+)?href=["']([^"']+)["'][^>]*>(.*?)<\/a>/gi
-  const markdownLinkRegex = /\[([^\]]+)\]\(([^)]+)\)/g
-  
-  const externalLinks: Array<{ url: string; text: string; hasNofollow: boolean; opensNewTab: boolean }> = []
-  
-  // Process HTML links
-  let match
-  while ((match = linkRegex.exec(content)) !== null) {
-    const url = match[1]
-    const text = match[2]
-    const fullTag = match[0]
-    
-    // Check if external
-    if (url.startsWith('http://') || url.startsWith('https://') || url.startsWith('//')) {
-      externalLinks.push({
-        url,
-        text: text.replace(/<[^>]*>/g, ''), // Strip inner HTML
-        hasNofollow: /rel=["'][^"']*nofollow/i.test(fullTag),
-        opensNewTab: /target=["']_blank["']/i.test(fullTag)
-      })
-    }
-  }
-  
-  // Process Markdown links if no HTML links found
-  if (externalLinks.length === 0) {
-    while ((match = markdownLinkRegex.exec(content)) !== null) {
-      const text = match[1]
-      const url = match[2]
-      
-      if (url.startsWith('http://') || url.startsWith('https://')) {
-        externalLinks.push({
-          url,
-          text,
-          hasNofollow: false, // Markdown doesn't support rel attributes
-          opensNewTab: false
-        })
-      }
-    }
-  }
+export function assessExternalLinks(
+  content: string,
+  stats: ContentStatistics,
+  document: ParsedDocument = parseDocument(content)
+): AssessmentResult {
+  // Markdown links carry no rel/target, so they count as followed links opening in the same tab
+  const externalLinks = (stats.links ?? classifyLinks(document))
+    .filter(link => link.type === 'external' && !link.issue)
+    .map(link => ({
+      url: link.href,
+      text: link.text,
+      hasNofollow: link.rel.includes('nofollow'),
+      opensNewTab: link.target === '_blank'
+    }))
   
   // Analyze link quality
   const linkCount = externalLinks.length
@@ -1,51 +1,50 @@
-import { AssessmentResult, ContentStatistics } from '../../types'
+import { AssessmentResult, ContentStatistics, ParsedDocument } from '../../types'
+import { parseDocument } from '../../document'
+import { markFromSourceRange } from '../../utils/marks'
+import { findKeywordMatches, countKeywordOccurrences, describeKeywordOccurrences } from '../../utils/morphology'
 
 /**
  * Assesses heading structure (H1-H6) for SEO optimization
  * Checks hierarchy, keyword usage in headings, and proper structure
  */
-export function assessHeadingStructure(content: string, stats: ContentStatistics, keyword?: string): AssessmentResult {
-  // Extract all headings
-  const headingRegex = /<h([1-6])(?:\s[^>]*)?>([^<]+)<\/h[1-6]>/gi
-  const markdownHeadingRegex = /^(#{1,6})\s+(.+)$/gm
-  
-  const headings: Array<{ level: number; text: string }> = []
-  
-  // Check HTML headings
-  let match
-  while ((match = headingRegex.exec(content)) !== null) {
-    headings.push({
-      level: parseInt(match[1]),
-      text: match[2].trim()
-    })
-  }
-  
-  // Check Markdown headings if no HTML found
-  if (headings.length === 0) {
-    while ((match = markdownHeadingRegex.exec(content)) !== null) {
-      headings.push({
-        level: match[1].length,
-        text: match[2].trim()
-      })
-    }
-  }
+export function assessHeadingStructure(
+  content: string,
+  stats: ContentStatistics,
+  keyword?: string,
+  synonyms: string[] = [],
+  document: ParsedDocument = parseDocument(content)
+): AssessmentResult {
+  const headings = document.headings
 
   // Analyze heading structure
   const h1Count = headings.filter(h => h.level === 1).length
   const h2Count = headings.filter(h => h.level === 2).length
-  const hasKeywordInH1 = keyword ? headings.some(h => h.level === 1 && h.text.toLowerCase().includes(keyword.toLowerCase())) : true
-  const hasKeywordInH2 = keyword ? headings.some(h => h.level === 2 && h.text.toLowerCase().includes(keyword.toLowerCase())) : true
+
+  // Keyword matches per heading, crediting word forms and synonyms
+  const headingMatches = new Map(headings.map(h => [h, keyword ? findKeywordMatches(h.text, keyword, synonyms) : []]))
+  const keywordHeadings = headings.filter(h => (headingMatches.get(h)?.length ?? 0) > 0)
+  const hasKeywordInH1 = keyword ? keywordHeadings.some(h => h.level === 1) : true
+  const hasKeywordInH2 = keyword ? keywordHeadings.some(h => h.level === 2) : true
+  const keywordSplit = keyword
+    ? ` Keyword in headings: ${describeKeywordOccurrences(countKeywordOccurrences(keywordHeadings.flatMap(h => headingMatches.get(h) ?? [])))}.`
+    : ''
   
   // Check for proper hierarchy
-  let hasProperHierarchy = true
+  const hierarchyViolations: typeof headings = []
   let previousLevel = 0
   for (const heading of headings) {
     if (heading.level > previousLevel + 1 && previousLevel !== 0) {
-      hasProperHierarchy = false
-      break
+      hierarchyViolations.push(heading)
     }
     previousLevel = heading.level
   }
+  const hasProperHierarchy = hierarchyViolations.length === 0
+
+  // Mark offending headings, or the keyword headings when the structure is sound
+  const extraH1s = h1Count > 1 ? headings.filter(h => h.level === 1) : []
+  const problemHeadings = headings.filter(h => extraH1s.includes(h) || hierarchyViolations.includes(h))
+  const markedHeadings = problemHeadings.length > 0 || !keyword ? problemHeadings : keywordHeadings
+  const marks = markedHeadings.map(h => markFromSourceRange(document, h.start, h.end))
 
   // Scoring logic
   let score = 0
@@ -91,8 +90,9 @@ export function assessHeadingStructure(content: string, stats: ContentStatistics
       id: 'heading-structure',
       rating: 'good',
       score: 9,
-      text: 'Excellent heading structure! Your content has proper H1-H6 hierarchy with keyword optimization.',
-      impact: 'positive'
+      text: `Excellent heading structure! Your content has proper H1-H6 hierarchy with keyword optimization.${keywordSplit}`,
+      impact: 'positive',
+      marks
     }
   }
   
@@ -101,8 +101,9 @@ export function assessHeadingStructure(content: string, stats: ContentStatistics
       id: 'heading-structure',
       rating: 'ok',
       score: 6,
-      text: `Good heading structure with minor issues: ${issues.join('. ')}.`,
-      impact: 'medium'
+      text: `Good heading structure with minor issues: ${issues.join('. ')}.${keywordSplit}`,
+      impact: 'medium',
+      marks
     }
   }
 
@@ -110,7 +111,8 @@ export function assessHeadingStructure(content: string, stats: ContentStatistics
     id: 'heading-structure',
     rating: 'bad',
     score: 3,
-    text: `Poor heading structure. Issues found: ${issues.join('. ')}.`,
-    impact: 'high'
+    text: `Poor heading structure. Issues found: ${issues.join('. ')}.${keywordSplit}`,
+    impact: 'high',
+    marks
   }
 }
\ No newline at end of file
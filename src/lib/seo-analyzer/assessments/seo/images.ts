@@ -1,6 +1,47 @@
-import { AssessmentResult, ContentStatistics } from '../../types'
+import { AssessmentResult, ContentStatistics, ImageIssueType, ParsedDocument } from '../../types'
+import { markFromSourceRange } from '../../utils/marks'
 
-export function assessImages(stats: ContentStatistics): AssessmentResult {
+// Findings that keep the image from being understood at all
+const SEVERE_ISSUES: ImageIssueType[] = ['missing-alt', 'empty-alt', 'oversized-data-uri']
+
+const ISSUE_SUMMARIES: Record<ImageIssueType, string> = {
+  'missing-alt': 'missing alt text',
+  'empty-alt': 'empty alt text',
+  'non-descriptive-filename': 'a non-descriptive filename',
+  'missing-dimensions': 'no width/height',
+  'oversized-data-uri': 'an oversized inline data URI'
+}
+
+export function assessImages(stats: ContentStatistics, keyword?: string, document?: ParsedDocument): AssessmentResult {
+  const result = rateImageCount(stats)
+  const images = stats.images ?? []
+  if (images.length === 0) return result
+
+  const findings: string[] = []
+  ;(Object.keys(ISSUE_SUMMARIES) as ImageIssueType[]).forEach(type => {
+    const count = images.filter(image => image.issues.some(issue => issue.type === type)).length
+    if (count > 0) {
+      findings.push(`${count} image${count > 1 ? 's have' : ' has'} ${ISSUE_SUMMARIES[type]}`)
+    }
+  })
+  const missingKeyword = !!keyword && !images.some(image => image.hasKeyword)
+  if (findings.length === 0 && !missingKeyword) return result
+
+  const isSevere = images.some(image => image.issues.some(issue => SEVERE_ISSUES.includes(issue.type)))
+  const score = isSevere || result.score === 3 ? 3 : 6
+  const keywordText = missingKeyword ? ' Add the focus keyword or a synonym to the alt text of at least one image.' : ''
+  const flagged = images.filter(image => image.issues.length > 0)
+
+  return {
+    ...result,
+    score,
+    rating: score === 3 ? 'bad' : 'ok',
+    text: `${result.text}${findings.length > 0 ? ` ${findings.join(', ')}.` : ''}${keywordText}`,
+    marks: document ? flagged.map(image => markFromSourceRange(document, image.start, image.end)) : undefined
+  }
+}
+
+function rateImageCount(stats: ContentStatistics): AssessmentResult {
   const imageCount = stats.imageCount
   const wordCount = stats.wordCount
 
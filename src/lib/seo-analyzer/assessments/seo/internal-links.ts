@@ -1,8 +1,29 @@
-import { AssessmentResult, ContentStatistics } from '../../types'
+import { AssessmentResult, AssessmentMark, ContentStatistics, ParsedDocument } from '../../types'
+import { markFromSourceRange } from '../../utils/marks'
 
-export function assessInternalLinks(stats: ContentStatistics): AssessmentResult {
+export function assessInternalLinks(stats: ContentStatistics, document?: ParsedDocument): AssessmentResult {
   const internalLinks = stats.linkCount.internal
+  const result = rateInternalLinks(internalLinks)
 
+  // Broken link targets lower the rating one step and are listed
+  const brokenLinks = (stats.links ?? []).filter(link => link.issue)
+  if (brokenLinks.length === 0) return result
+
+  const details = brokenLinks.map(link => `"${link.text || link.href}" (${link.issue})`).join('; ')
+  const marks: AssessmentMark[] | undefined = document
+    ? brokenLinks.map(link => markFromSourceRange(document, link.start, link.end))
+    : undefined
+
+  return {
+    ...result,
+    score: result.score === 9 ? 6 : 3,
+    rating: result.score === 9 ? 'ok' : 'bad',
+    text: `${result.text} ${brokenLinks.length === 1 ? '1 link looks broken' : `${brokenLinks.length} links look broken`}: ${details}.`,
+    marks
+  }
+}
+
+function rateInternalLinks(internalLinks: number): AssessmentResult {
   if (internalLinks === 0) {
     return {
       score: 3,
@@ -36,4 +57,4 @@ export function assessInternalLinks(stats: ContentStatistics): AssessmentResult
     id: 'internal-links',
     rating: 'feedback'
   }
-}
\ No newline at end of file
+}
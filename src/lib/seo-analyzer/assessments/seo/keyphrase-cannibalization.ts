@@ -0,0 +1,47 @@
+import { AssessmentResult, KeyphraseConflict, SEOData } from '../../types'
+import { findKeyphraseConflicts } from '../../utils/cannibalization'
+
+function describeConflict({ article, focusKeywordMatch, sharedSemanticKeywords }: KeyphraseConflict): string {
+  if (focusKeywordMatch === 'identical') return `"${article.title}" targets the same focus keyword`
+  if (focusKeywordMatch === 'similar') return `"${article.title}" targets a near-identical focus keyword ("${article.focusKeyword}")`
+  return `"${article.title}" shares semantic keywords (${sharedSemanticKeywords.join(', ')})`
+}
+
+/**
+ * Warns when other articles of the library compete for the same keyword,
+ * which splits rankings between them
+ */
+export function assessKeyphraseCannibalization(data: SEOData): AssessmentResult {
+  if (!data.otherArticles) {
+    return {
+      score: 0,
+      text: 'Other articles were not checked for competing focus keywords.',
+      id: 'keyphrase-cannibalization',
+      rating: 'feedback',
+      notApplicable: true
+    }
+  }
+
+  const conflicts = findKeyphraseConflicts(data)
+  if (conflicts.length === 0) {
+    return {
+      score: 9,
+      text: 'No other article competes for this focus keyword.',
+      id: 'keyphrase-cannibalization',
+      rating: 'good'
+    }
+  }
+
+  const references = conflicts.map(({ article }) => ({ title: article.title, url: article.url }))
+  const details = conflicts.map(describeConflict).join('; ')
+  const hasIdentical = conflicts.some(conflict => conflict.focusKeywordMatch === 'identical')
+
+  return {
+    score: hasIdentical ? 3 : 6,
+    text: `${conflicts.length === 1 ? '1 other article competes' : `${conflicts.length} other articles compete`} with this one: ${details}. Choose a different focus keyword or merge the articles.`,
+    id: 'keyphrase-cannibalization',
+    rating: hasIdentical ? 'bad' : 'ok',
+    impact: hasIdentical ? 'high' : 'medium',
+    references
+  }
+}
@@ -1,12 +1,16 @@
-import { AssessmentResult, SEOData, ContentStatistics } from '../../types'
+import { AssessmentResult, SEOData, ContentStatistics, ParsedDocument } from '../../types'
 import { DEFAULT_SEO_CONFIG } from '../../config'
+import { findKeywordMatches, describeKeywordOccurrences } from '../../utils/morphology'
+import { parseDocument } from '../../document'
+import { markFromTextRange } from '../../utils/marks'
 
 export function assessKeywordDensity(
   data: SEOData,
   stats: ContentStatistics,
-  config = DEFAULT_SEO_CONFIG
+  config = DEFAULT_SEO_CONFIG,
+  document: ParsedDocument = parseDocument(data.content)
 ): AssessmentResult {
-  if (!data.keyword || !stats.keywordDensity) {
+  if (!data.keyword) {
     return {
       score: 0,
       text: 'No focus keyword has been set. Set a focus keyword to optimize your content.',
@@ -15,44 +19,74 @@ export function assessKeywordDensity(
     }
   }
 
-  const density = stats.keywordDensity
-  const { minDensity, maxDensity } = config.keyword
+  // Exact matches drive the classic density checks; word forms and synonyms use the morphology thresholds
+  const density = stats.keywordDensity ?? 0
+  const morphologyDensity = stats.keywordMorphologyDensity ?? density
+  const split = describeKeywordOccurrences(stats.keywordOccurrences ?? { exact: 0, morphology: 0, synonym: 0 })
+  const marks = findKeywordMatches(document.text, data.keyword, data.synonyms)
+    .map(({ start, end }) => markFromTextRange(document, start, end))
+  const { minDensity, maxDensity, morphologyMinDensity, morphologyMaxDensity } = config.keyword
 
-  // Perfect density range
-  if (density >= minDensity && density <= maxDensity) {
+  // Way too high
+  if (density > 4) {
     return {
-      score: 9,
-      text: `The focus keyword appears ${density.toFixed(1)}% of the time. This is within the recommended range of ${minDensity}%-${maxDensity}%.`,
+      score: -50,
+      text: `The focus keyword density is ${density.toFixed(1)}% (${split}), which is way too high. This looks like keyword stuffing and will hurt your SEO.`,
       id: 'keyword-density',
-      rating: 'good'
+      rating: 'bad',
+      marks
     }
   }
 
-  // Too low
-  if (density < minDensity) {
+  // Slightly too high
+  if (density > maxDensity) {
     return {
-      score: 4,
-      text: `The focus keyword density is ${density.toFixed(1)}%, which is below the recommended minimum of ${minDensity}%. Use your focus keyword more often.`,
+      score: -10,
+      text: `The focus keyword density is ${density.toFixed(1)}% (${split}), which is above the recommended maximum of ${maxDensity}%. Reduce keyword usage to avoid over-optimization.`,
       id: 'keyword-density',
-      rating: 'bad'
+      rating: 'bad',
+      marks
     }
   }
 
-  // Slightly too high
-  if (density > maxDensity && density <= 4) {
+  if (morphologyDensity > morphologyMaxDensity) {
     return {
       score: -10,
-      text: `The focus keyword density is ${density.toFixed(1)}%, which is above the recommended maximum of ${maxDensity}%. Reduce keyword usage to avoid over-optimization.`,
+      text: `The focus keyword and its variants appear ${morphologyDensity.toFixed(1)}% of the time (${split}), which is above the recommended maximum of ${morphologyMaxDensity}% for all word forms. Vary your wording to avoid over-optimization.`,
       id: 'keyword-density',
-      rating: 'bad'
+      rating: 'bad',
+      marks
     }
   }
 
-  // Way too high
+  // Perfect density range
+  if (density >= minDensity) {
+    return {
+      score: 9,
+      text: `The focus keyword appears ${density.toFixed(1)}% of the time (${split}). This is within the recommended range of ${minDensity}%-${maxDensity}%.`,
+      id: 'keyword-density',
+      rating: 'good',
+      marks
+    }
+  }
+
+  // Enough coverage once word forms and synonyms are credited
+  if (morphologyDensity >= morphologyMinDensity) {
+    return {
+      score: 8,
+      text: `The focus keyword and its variants appear ${morphologyDensity.toFixed(1)}% of the time (${split}). This is within the recommended range of ${morphologyMinDensity}%-${morphologyMaxDensity}%, but consider using the exact keyword a little more.`,
+      id: 'keyword-density',
+      rating: 'good',
+      marks
+    }
+  }
+
+  // Too low
   return {
-    score: -50,
-    text: `The focus keyword density is ${density.toFixed(1)}%, which is way too high. This looks like keyword stuffing and will hurt your SEO.`,
+    score: 4,
+    text: `The focus keyword density is ${density.toFixed(1)}% (${split}), which is below the recommended minimum of ${minDensity}%. Use your focus keyword more often.`,
     id: 'keyword-density',
-    rating: 'bad'
+    rating: 'bad',
+    marks
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+import { AssessmentResult, SEOData, ParsedDocument } from '../../types'
+import { findKeywordMatches, getKeywordWordCoverage } from '../../utils/morphology'
+import { englishLocalePack } from '../../locales'
+import { parseDocument } from '../../document'
+import { markFromSourceRange, markFromTextRange } from '../../utils/marks'
+
+/**
+ * Checks that the first paragraph makes the topic clear by mentioning the focus keyword
+ */
+export function assessKeywordInIntroduction(
+  data: SEOData,
+  localePack = englishLocalePack,
+  document: ParsedDocument = parseDocument(data.content)
+): AssessmentResult {
+  if (!data.keyword) {
+    return {
+      score: 0,
+      text: 'Set a focus keyword to check whether your introduction mentions it.',
+      id: 'keyword-in-introduction',
+      rating: 'feedback',
+      notApplicable: true
+    }
+  }
+
+  const introduction = document.paragraphs.find(paragraph => paragraph.text.trim() !== '')
+  if (!introduction) {
+    return {
+      score: 3,
+      text: 'No introduction found. Start your content with a paragraph that mentions your focus keyword.',
+      id: 'keyword-in-introduction',
+      rating: 'bad'
+    }
+  }
+
+  // Work on the paragraph's range of the plain text so matches can be marked
+  const { text: range } = markFromSourceRange(document, introduction.start, introduction.end)
+  const text = document.text.slice(range.start, range.end)
+  const phrases = [data.keyword, ...(data.synonyms ?? [])]
+
+  const sentenceMatch = localePack.getSentenceRanges(text)
+    .map(sentence => findKeywordMatches(text.slice(sentence.start, sentence.end), data.keyword!, data.synonyms)
+      .map(match => ({ ...match, start: match.start + sentence.start, end: match.end + sentence.start })))
+    .find(matches => matches.length > 0)
+
+  if (sentenceMatch) {
+    return {
+      score: 9,
+      text: 'Well done! Your focus keyword or a synonym appears in the first paragraph.',
+      id: 'keyword-in-introduction',
+      rating: 'good',
+      marks: sentenceMatch.map(({ start, end }) => markFromTextRange(document, range.start + start, range.start + end))
+    }
+  }
+
+  if (phrases.some(phrase => getKeywordWordCoverage(text, phrase) === 1)) {
+    return {
+      score: 6,
+      text: 'All words of your focus keyword appear in the first paragraph, but not together in one sentence. Use the keyword in one sentence of the introduction.',
+      id: 'keyword-in-introduction',
+      rating: 'ok',
+      marks: [markFromTextRange(document, range.start, range.end)]
+    }
+  }
+
+  return {
+    score: 3,
+    text: 'Your focus keyword or its synonyms do not appear in the first paragraph. Mention it early so the topic is clear right away.',
+    id: 'keyword-in-introduction',
+    rating: 'bad',
+    marks: [markFromTextRange(document, range.start, range.end)]
+  }
+}
@@ -0,0 +1,67 @@
+import { AssessmentResult, SEOData } from '../../types'
+import { getKeywordWordCoverage } from '../../utils/morphology'
+
+/**
+ * Last path segment of a URL or slug, with word separators turned into spaces
+ */
+export function getSlugText(url: string): string {
+  const path = url.trim().replace(/^[a-z][a-z\d+.-]*:\/\/[^/]*/i, '').split(/[?#]/)[0]
+  const segment = path.split('/').filter(Boolean).pop() ?? ''
+  let decoded = segment
+  try {
+    decoded = decodeURIComponent(segment)
+  } catch {
+    // Keep the raw segment
+  }
+  return decoded.replace(/\.[a-z\d]+$/i, '').replace(/[-_+.]+/g, ' ').trim()
+}
+
+export function assessKeywordInSlug(data: SEOData): AssessmentResult {
+  if (!data.keyword) {
+    return {
+      score: 0,
+      text: 'Set a focus keyword to check whether your URL slug contains it.',
+      id: 'keyword-in-slug',
+      rating: 'feedback',
+      notApplicable: true
+    }
+  }
+
+  const slug = data.url ? getSlugText(data.url) : ''
+  if (!slug) {
+    return {
+      score: 3,
+      text: 'No URL slug has been set. Add a short slug that contains your focus keyword.',
+      id: 'keyword-in-slug',
+      rating: 'bad'
+    }
+  }
+
+  // Best coverage over the keyword and its synonyms
+  const coverage = Math.max(...[data.keyword, ...(data.synonyms ?? [])].map(phrase => getKeywordWordCoverage(slug, phrase)))
+
+  if (coverage === 1) {
+    return {
+      score: 9,
+      text: 'Great! Your URL slug contains the focus keyword.',
+      id: 'keyword-in-slug',
+      rating: 'good'
+    }
+  }
+
+  if (coverage > 0.5) {
+    return {
+      score: 6,
+      text: `Your URL slug contains ${Math.round(coverage * 100)}% of the words of your focus keyword. Use the complete keyword in the slug.`,
+      id: 'keyword-in-slug',
+      rating: 'ok'
+    }
+  }
+
+  return {
+    score: 3,
+    text: 'Your URL slug does not contain the focus keyword. Change the slug to include it.',
+    id: 'keyword-in-slug',
+    rating: 'bad'
+  }
+}
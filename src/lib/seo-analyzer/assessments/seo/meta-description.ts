@@ -1,5 +1,7 @@
 import { AssessmentResult, SEOData } from '../../types'
-import { DEFAULT_SEO_CONFIG } from '../../config'
+import { DEFAULT_SEO_CONFIG, SERP_LAYOUTS } from '../../config'
+import { findKeywordMatches } from '../../utils/morphology'
+import { measureTextWidth } from '../../serp'
 
 export function assessMetaDescription(
   data: SEOData,
@@ -14,33 +16,58 @@ export function assessMetaDescription(
     }
   }
 
-  const length = data.metaDescription.length
-  const { minLength, maxLength } = config.metaDescription
+  // Google cuts descriptions by rendered width, so check pixels rather than characters
+  const width = Math.round(measureTextWidth(data.metaDescription, SERP_LAYOUTS.desktop.description.fontSize))
+  const { minWidth, maxWidth } = config.metaDescription
+  const mobileNote = width > SERP_LAYOUTS.mobile.description.maxWidth
+    ? ` On mobile it is cut after ${SERP_LAYOUTS.mobile.description.maxWidth} pixels, so lead with the key message.`
+    : ''
 
   // Perfect length
-  if (length >= minLength && length <= maxLength) {
+  if (width >= minWidth && width <= maxWidth) {
     // Check if keyword is in meta description
-    if (data.keyword && data.metaDescription.toLowerCase().includes(data.keyword.toLowerCase())) {
+    const matches = data.keyword ? findKeywordMatches(data.metaDescription, data.keyword, data.synonyms) : []
+    if (matches.some(match => match.type === 'exact')) {
       return {
         score: 9,
-        text: `The meta description is ${length} characters long and contains the focus keyword. Well done!`,
+        text: `The meta description is ${width} pixels wide and contains the focus keyword. Well done!${mobileNote}`,
         id: 'meta-description',
         rating: 'good'
       }
     }
+
+    const variantMatch = matches.find(match => match.type === 'morphology')
+    if (variantMatch) {
+      return {
+        score: 8,
+        text: `The meta description is ${width} pixels wide and contains a word form of the focus keyword ("${variantMatch.phrase}"). Good!${mobileNote}`,
+        id: 'meta-description',
+        rating: 'good'
+      }
+    }
+
+    const synonymMatch = matches.find(match => match.type === 'synonym')
+    if (synonymMatch) {
+      return {
+        score: 7,
+        text: `The meta description is ${width} pixels wide and contains a synonym of the focus keyword ("${synonymMatch.phrase}"), but not the keyword itself.${mobileNote}`,
+        id: 'meta-description',
+        rating: 'ok'
+      }
+    }
     return {
       score: 6,
-      text: `The meta description is ${length} characters long, which is good. However, it doesn't contain the focus keyword.`,
+      text: `The meta description is ${width} pixels wide, which is good. However, it doesn't contain the focus keyword.${mobileNote}`,
       id: 'meta-description',
       rating: 'ok'
     }
   }
 
   // Too short
-  if (length < minLength) {
+  if (width < minWidth) {
     return {
       score: 6,
-      text: `The meta description is only ${length} characters long, which is below the recommended minimum of ${minLength} characters. Add more content to fully utilize the available space.`,
+      text: `The meta description is only ${width} pixels wide, which is below the recommended minimum of ${minWidth} pixels. Add more content to fully utilize the available space.`,
       id: 'meta-description',
       rating: 'ok'
     }
@@ -49,7 +76,7 @@ export function assessMetaDescription(
   // Too long
   return {
     score: 6,
-    text: `The meta description is ${length} characters long, which exceeds the recommended maximum of ${maxLength} characters. It may be truncated in search results.`,
+    text: `The meta description is ${width} pixels wide, which exceeds the ${maxWidth} pixels Google shows on desktop. It will be truncated in search results.`,
     id: 'meta-description',
     rating: 'ok'
   }
@@ -0,0 +1,52 @@
+import { AssessmentResult, ParsedDocument } from '../../types'
+import { DEFAULT_SEO_CONFIG } from '../../config'
+import { markFromSourceRange } from '../../utils/marks'
+
+/**
+ * Checks that the steps of a how-to are numbered, which Google can show
+ * as a list snippet
+ */
+export function assessOrderedList(document: ParsedDocument, config = DEFAULT_SEO_CONFIG): AssessmentResult {
+  const { minItems } = config.orderedList
+  const orderedLists = document.lists.filter(list => list.ordered)
+  const longest = Math.max(0, ...orderedLists.map(list => list.items.length))
+
+  if (longest >= minItems) {
+    return {
+      score: 9,
+      text: `The steps are numbered in an ordered list of ${longest} items. Good job!`,
+      id: 'ordered-list',
+      rating: 'good'
+    }
+  }
+
+  if (orderedLists.length > 0) {
+    return {
+      score: 6,
+      text: `The ordered list has only ${longest === 1 ? '1 item' : `${longest} items`}. Break the process into at least ${minItems} steps.`,
+      id: 'ordered-list',
+      rating: 'ok',
+      impact: 'medium'
+    }
+  }
+
+  const bulletedLists = document.lists.filter(list => !list.ordered)
+  if (bulletedLists.length > 0) {
+    return {
+      score: 3,
+      text: 'The steps are in a bulleted list. Number them in an ordered list so readers and search engines can follow the sequence.',
+      id: 'ordered-list',
+      rating: 'bad',
+      impact: 'high',
+      marks: bulletedLists.map(({ start, end }) => markFromSourceRange(document, start, end))
+    }
+  }
+
+  return {
+    score: 3,
+    text: `No ordered list found. Put the steps of the process in a numbered list of at least ${minItems} items.`,
+    id: 'ordered-list',
+    rating: 'bad',
+    impact: 'high'
+  }
+}
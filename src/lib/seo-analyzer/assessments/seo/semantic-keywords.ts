@@ -1,10 +1,15 @@
-import { AssessmentResult, SEOData, ContentStatistics } from '../../types'
+import { AssessmentResult, SEOData, ContentStatistics, ParsedDocument } from '../../types'
+import { parseDocument } from '../../document'
 
 /**
  * Assesses semantic keyword usage in content
  * Checks if related keywords and LSI keywords are naturally integrated
  */
-export function assessSemanticKeywords(seoData: SEOData, stats: ContentStatistics): AssessmentResult {
+export function assessSemanticKeywords(
+  seoData: SEOData,
+  stats: ContentStatistics,
+  document: ParsedDocument = parseDocument(seoData.content)
+): AssessmentResult {
   const semanticKeywords = seoData.semanticKeywords || []
   
   if (semanticKeywords.length === 0) {
@@ -18,7 +23,7 @@ export function assessSemanticKeywords(seoData: SEOData, stats: ContentStatistic
   }
 
   // Count occurrences of semantic keywords
-  const content = seoData.content.toLowerCase()
+  const content = document.text.toLowerCase()
   let foundKeywords = 0
   const keywordOccurrences: Record<string, number> = {}
 
@@ -0,0 +1,74 @@
+import { AssessmentResult, SchemaIssue, SEOData, StructuredDataValidation } from '../../types'
+import { DEFAULT_SEO_CONFIG } from '../../config'
+import { extractJsonLd, formatSchemaIssues, validateStructuredData } from '../../schema'
+
+// Issues listed in the feedback text; the rest are counted
+const MAX_LISTED_ISSUES = 3
+
+function listIssues(lines: string[]): string {
+  const listed = lines.slice(0, MAX_LISTED_ISSUES).join('; ')
+  return lines.length > MAX_LISTED_ISSUES ? `${listed} and ${lines.length - MAX_LISTED_ISSUES} more` : listed
+}
+
+/**
+ * Validates the page's JSON-LD (Article, FAQPage, HowTo, ...) so it stays
+ * eligible for rich results. Profiles can require types, e.g. HowTo for how-to guides.
+ */
+export function assessStructuredData(data: SEOData, config = DEFAULT_SEO_CONFIG): AssessmentResult {
+  const { requiredTypes } = config.structuredData
+  const blocks = [data.structuredData ?? '', ...extractJsonLd(data.content)].filter(block => block.trim() !== '')
+  if (blocks.length === 0 && requiredTypes.length > 0) {
+    return {
+      score: 3,
+      text: `No structured data found. Add ${requiredTypes.join(' or ')} JSON-LD markup to qualify for rich results.`,
+      id: 'structured-data',
+      rating: 'bad',
+      impact: 'high'
+    }
+  }
+
+  if (blocks.length === 0) {
+    return {
+      score: 0,
+      text: 'No structured data found. Add JSON-LD such as Article or FAQPage markup to qualify for rich results.',
+      id: 'structured-data',
+      rating: 'feedback',
+      notApplicable: true
+    }
+  }
+
+  const validations: StructuredDataValidation[] = blocks.map(block => validateStructuredData(block))
+  const warnings = validations.flatMap(validation => validation.warnings)
+  const types = [...new Set(validations.flatMap(validation => validation.entities.map(entity => entity.type)))]
+  const errors: SchemaIssue[] = validations.flatMap(validation => validation.errors)
+  if (requiredTypes.length > 0 && !types.some(type => (requiredTypes as string[]).includes(type))) {
+    errors.push({ severity: 'error', path: '', message: `Expected ${requiredTypes.join(' or ')} markup` })
+  }
+
+  if (errors.length > 0) {
+    return {
+      score: 3,
+      text: `The structured data has ${errors.length === 1 ? '1 error' : `${errors.length} errors`} that make it ineligible for rich results: ${listIssues(formatSchemaIssues(errors))}.`,
+      id: 'structured-data',
+      rating: 'bad',
+      impact: 'high'
+    }
+  }
+
+  if (warnings.length > 0) {
+    return {
+      score: 6,
+      text: `The ${types.join(', ')} markup is valid, but recommended properties are missing: ${listIssues(formatSchemaIssues(warnings))}.`,
+      id: 'structured-data',
+      rating: 'ok',
+      impact: 'low'
+    }
+  }
+
+  return {
+    score: 9,
+    text: `The ${types.join(', ')} markup is valid. Good job!`,
+    id: 'structured-data',
+    rating: 'good'
+  }
+}
@@ -1,5 +1,7 @@
 import { AssessmentResult, SEOData, AssessmentScore } from '../../types'
-import { DEFAULT_SEO_CONFIG } from '../../config'
+import { DEFAULT_SEO_CONFIG, SERP_LAYOUTS } from '../../config'
+import { findKeywordMatches } from '../../utils/morphology'
+import { measureTextWidth, truncateToWidth } from '../../serp'
 
 export function assessTitle(
   data: SEOData,
@@ -9,64 +11,85 @@ export function assessTitle(
     return {
       score: 1,
       text: 'No SEO title has been set. This is critical for search engine rankings.',
-      id: 'seo-title',
+      id: 'title',
       rating: 'bad'
     }
   }
 
-  const length = data.title.length
-  const { minLength, maxLength } = config.title
+  // Google cuts titles by rendered width, so check pixels rather than characters
+  const width = Math.round(measureTextWidth(data.title, SERP_LAYOUTS.desktop.title.fontSize))
+  const { minWidth, maxWidth } = config.title
 
-  // Check length first
   let lengthScore = 9
   let lengthFeedback = ''
 
-  if (length < minLength) {
+  if (width < minWidth) {
     lengthScore = 6
-    lengthFeedback = ` The title is ${length} characters, which is below the recommended minimum of ${minLength}.`
-  } else if (length > maxLength) {
+    lengthFeedback = ` The title is ${width} pixels wide, which is below the recommended minimum of ${minWidth} pixels.`
+  } else if (width > maxWidth) {
     lengthScore = 6
-    lengthFeedback = ` The title is ${length} characters, which exceeds the recommended maximum of ${maxLength}.`
+    const shown = truncateToWidth(data.title, SERP_LAYOUTS.desktop.title).text
+    lengthFeedback = ` The title is ${width} pixels wide, which exceeds the ${maxWidth} pixels Google shows; it will be cut to "${shown}".`
   }
 
   // Check keyword position and presence
   if (data.keyword) {
-    const titleLower = data.title.toLowerCase()
-    const keywordLower = data.keyword.toLowerCase()
-    
-    if (!titleLower.includes(keywordLower)) {
+    const matches = findKeywordMatches(data.title, data.keyword, data.synonyms)
+    const exactMatch = matches.find(match => match.type === 'exact')
+    const variantMatch = matches.find(match => match.type === 'morphology')
+    const synonymMatch = matches.find(match => match.type === 'synonym')
+
+    if (exactMatch) {
+      // Check if keyword is at the beginning
+      if (exactMatch.start === 0) {
+        return {
+          score: Math.min(9, lengthScore) as AssessmentScore,
+          text: `Excellent! The SEO title contains the focus keyword at the beginning.${lengthFeedback}`,
+          id: 'title',
+          rating: lengthScore === 9 ? 'good' : 'ok'
+        }
+      }
+
+      // Keyword is present but not at beginning
+      return {
+        score: Math.min(6, lengthScore) as AssessmentScore,
+        text: `The SEO title contains the focus keyword, but it's not at the beginning. Consider moving it to the start for better SEO.${lengthFeedback}`,
+        id: 'title',
+        rating: 'ok'
+      }
+    }
+
+    if (variantMatch) {
       return {
-        score: 2,
-        text: `The focus keyword doesn't appear in the SEO title. Add it to improve SEO.${lengthFeedback}`,
-        id: 'seo-title',
-        rating: 'bad'
+        score: Math.min(6, lengthScore) as AssessmentScore,
+        text: `The SEO title contains a word form of the focus keyword ("${variantMatch.phrase}") but not the exact keyword. Use the exact focus keyword for the strongest signal.${lengthFeedback}`,
+        id: 'title',
+        rating: 'ok'
       }
     }
 
-    // Check if keyword is at the beginning
-    if (titleLower.startsWith(keywordLower)) {
+    if (synonymMatch) {
       return {
-        score: Math.min(9, lengthScore) as AssessmentScore,
-        text: `Excellent! The SEO title contains the focus keyword at the beginning.${lengthFeedback}`,
-        id: 'seo-title',
-        rating: lengthScore === 9 ? 'good' : 'ok'
+        score: Math.min(5, lengthScore) as AssessmentScore,
+        text: `The SEO title contains a synonym of the focus keyword ("${synonymMatch.phrase}") but not the keyword itself. Add the focus keyword to improve SEO.${lengthFeedback}`,
+        id: 'title',
+        rating: 'ok'
       }
     }
 
-    // Keyword is present but not at beginning
     return {
-      score: Math.min(6, lengthScore) as AssessmentScore,
-      text: `The SEO title contains the focus keyword, but it's not at the beginning. Consider moving it to the start for better SEO.${lengthFeedback}`,
-      id: 'seo-title',
-      rating: 'ok'
+      score: 2,
+      text: `The focus keyword doesn't appear in the SEO title. Add it to improve SEO.${lengthFeedback}`,
+      id: 'title',
+      rating: 'bad'
     }
   }
 
   // No keyword set, just check length
   return {
     score: lengthScore as AssessmentScore,
-    text: `The SEO title length is ${length === 1 ? 'good' : length < minLength ? 'too short' : length > maxLength ? 'too long' : 'good'}.${lengthFeedback} Set a focus keyword to get more specific recommendations.`,
-    id: 'seo-title',
+    text: `The SEO title length is ${width < minWidth ? 'too short' : width > maxWidth ? 'too long' : 'good'}.${lengthFeedback} Set a focus keyword to get more specific recommendations.`,
+    id: 'title',
     rating: lengthScore === 9 ? 'good' : 'ok'
   }
 }
\ No newline at end of file
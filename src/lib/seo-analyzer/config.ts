@@ -1,4 +1,4 @@
-import { SEOConfig, ReadabilityConfig } from './types'
+import { SEOConfig, ReadabilityConfig, SiteConfig, SerpDevice, SerpLayout } from './types'
 
 export const DEFAULT_SEO_CONFIG: SEOConfig = {
   keyword: {
@@ -8,12 +8,12 @@ export const DEFAULT_SEO_CONFIG: SEOConfig = {
     morphologyMaxDensity: 3.5
   },
   metaDescription: {
-    minLength: 120,
-    maxLength: 156
+    minWidth: 720,
+    maxWidth: 920
   },
   title: {
-    minLength: 30,
-    maxLength: 60
+    minWidth: 400,
+    maxWidth: 600
   },
   content: {
     minWords: 300,
@@ -22,9 +22,34 @@ export const DEFAULT_SEO_CONFIG: SEOConfig = {
   headings: {
     minKeywordDensity: 30,
     maxKeywordDensity: 75
+  },
+  orderedList: {
+    minItems: 3
+  },
+  structuredData: {
+    requiredTypes: []
   }
 }
 
+// Fonts and truncation widths of Google's results pages
+export const SERP_LAYOUTS: Record<SerpDevice, SerpLayout> = {
+  desktop: {
+    title: { fontSize: 20, maxWidth: 600 },
+    description: { fontSize: 14, maxWidth: 920 }
+  },
+  mobile: {
+    title: { fontSize: 18, maxWidth: 660 },
+    description: { fontSize: 14, maxWidth: 680 }
+  }
+}
+
+// Without configured domains every absolute link is external
+export const DEFAULT_SITE_CONFIG: SiteConfig = {
+  domains: [],
+  includeSubdomains: true,
+  pathPrefixes: []
+}
+
 export const DEFAULT_READABILITY_CONFIG: ReadabilityConfig = {
   sentence: {
     maxWords: 20,
@@ -44,6 +69,19 @@ export const DEFAULT_READABILITY_CONFIG: ReadabilityConfig = {
   },
   wordComplexity: {
     maxPercentage: 10
+  },
+  subheadingDistribution: {
+    maxWords: 300
+  },
+  stylePhrases: {
+    maxOccurrences: 2
+  },
+  sentenceOpeners: {
+    maxRepeats: 3,
+    maxConsecutive: 2
+  },
+  adverbs: {
+    maxRepeats: 3
   }
 }
 
@@ -84,6 +122,9 @@ export const TRANSITION_WORDS = [
 
 export const COMPLEX_WORDS_SYLLABLE_THRESHOLD = 3
 
+// Inline data-URI images above this size bloat the HTML and cannot be cached
+export const MAX_DATA_URI_IMAGE_BYTES = 10 * 1024
+
 export const SCORE_TO_RATING_MAP = {
   error: -1,
   feedback: 0,
@@ -0,0 +1,193 @@
+import { DocumentNode, DocumentNodeType } from '../types'
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+])
+
+// Elements whose content is never part of the readable text
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'template', 'noscript'])
+
+// Block elements that implicitly close an open <p>
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'ul'
+])
+
+const NODE_TYPES: Record<string, DocumentNodeType> = {
+  p: 'paragraph', ul: 'list', ol: 'list', li: 'listItem', blockquote: 'blockquote', pre: 'code',
+  table: 'table', tr: 'tableRow', td: 'tableCell', th: 'tableCell', a: 'link', img: 'image',
+  strong: 'strong', b: 'strong', em: 'emphasis', i: 'emphasis', code: 'inlineCode', br: 'break'
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', deg: '°', middot: '·', bull: '•'
+}
+
+const TAG_REGEX = /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/y
+const ATTRIBUTE_REGEX = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+
+export function isBlockElement(tag: string): boolean {
+  return BLOCK_ELEMENTS.has(tag) || tag === 'li' || tag === 'tr' || tag === 'td' || tag === 'th'
+}
+
+export function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of raw.matchAll(ATTRIBUTE_REGEX)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '', 0).value
+  }
+  return attributes
+}
+
+/**
+ * Decodes character references, keeping the source offset of every decoded character
+ */
+export function decodeEntities(raw: string, offset: number): { value: string; offsets: number[] } {
+  let value = ''
+  const offsets: number[] = []
+  let i = 0
+  for (const match of raw.matchAll(/&(#\d+|#x[0-9a-f]+|[a-z]+\d*);/gi)) {
+    const index = match.index ?? 0
+    const name = match[1]
+    const decoded = name.startsWith('#')
+      ? String.fromCodePoint(parseInt(name.slice(name[1] === 'x' || name[1] === 'X' ? 2 : 1), name[1] === 'x' || name[1] === 'X' ? 16 : 10) || 0xfffd)
+      : NAMED_ENTITIES[name.toLowerCase()]
+    if (decoded === undefined) continue
+
+    for (; i < index; i++) {
+      value += raw[i]
+      offsets.push(offset + i)
+    }
+    value += decoded
+    for (let k = 0; k < decoded.length; k++) {
+      offsets.push(offset + index)
+    }
+    i = index + match[0].length
+  }
+  for (; i < raw.length; i++) {
+    value += raw[i]
+    offsets.push(offset + i)
+  }
+  return { value, offsets }
+}
+
+export function createTextNode(value: string, offsets: number[], end?: number): DocumentNode {
+  const start = offsets[0] ?? 0
+  return { type: 'text', start, end: end ?? (offsets[offsets.length - 1] ?? start - 1) + 1, children: [], value, offsets }
+}
+
+function createElementNode(tag: string, attributes: Record<string, string>, start: number, end: number): DocumentNode {
+  const heading = /^h([1-6])$/.exec(tag)
+  const node: DocumentNode = {
+    type: heading ? 'heading' : NODE_TYPES[tag] ?? 'element',
+    tag,
+    attributes,
+    start,
+    end,
+    children: []
+  }
+  if (heading) node.level = Number(heading[1])
+  if (tag === 'ul' || tag === 'ol') node.ordered = tag === 'ol'
+  if (tag === 'td' || tag === 'th') node.header = tag === 'th'
+  return node
+}
+
+/**
+ * Parses the HTML between `start` and `end` of `source` into document nodes.
+ * Tolerates the usual tag soup: unclosed paragraphs, list items and table cells
+ * are closed implicitly, stray closing tags are ignored.
+ */
+export function parseHtml(source: string, start = 0, end = source.length): DocumentNode[] {
+  const root: DocumentNode = { type: 'root', start, end, children: [] }
+  const stack: DocumentNode[] = [root]
+  const top = () => stack[stack.length - 1]
+
+  const closeFrom = (index: number, position: number) => {
+    while (stack.length > index) {
+      const node = stack.pop()!
+      node.end = Math.max(node.end, position)
+    }
+  }
+
+  // Index of the innermost open element with one of the tags, not looking past the boundary tags
+  const findOpen = (tags: string[], boundaries: string[] = []) => {
+    for (let index = stack.length - 1; index > 0; index--) {
+      const tag = stack[index].tag ?? ''
+      if (tags.includes(tag)) return index
+      if (boundaries.includes(tag)) return -1
+    }
+    return -1
+  }
+
+  const closeImplied = (tag: string, position: number) => {
+    let index = -1
+    if (BLOCK_ELEMENTS.has(tag)) index = findOpen(['p'], ['li', 'td', 'th', 'blockquote', 'div'])
+    else if (tag === 'li') index = findOpen(['li'], ['ul', 'ol'])
+    else if (tag === 'td' || tag === 'th') index = findOpen(['td', 'th'], ['tr', 'table'])
+    else if (tag === 'tr') index = findOpen(['tr'], ['table'])
+    if (index > 0) closeFrom(index, position)
+  }
+
+  let i = start
+  while (i < end) {
+    const lt = source.indexOf('<', i)
+    const textEnd = lt === -1 || lt >= end ? end : lt
+    if (textEnd > i) {
+      const { value, offsets } = decodeEntities(source.slice(i, textEnd), i)
+      top().children.push(createTextNode(value, offsets, textEnd))
+      i = textEnd
+      continue
+    }
+
+    // Comments, doctype and processing instructions
+    if (source.startsWith('<!--', i)) {
+      const close = source.indexOf('-->', i + 4)
+      i = close === -1 || close + 3 > end ? end : close + 3
+      continue
+    }
+    if (source[i + 1] === '!' || source[i + 1] === '?') {
+      const close = source.indexOf('>', i)
+      i = close === -1 || close + 1 > end ? end : close + 1
+      continue
+    }
+
+    TAG_REGEX.lastIndex = i
+    const match = TAG_REGEX.exec(source)
+    if (!match || match.index + match[0].length > end) {
+      top().children.push(createTextNode('<', [i]))
+      i++
+      continue
+    }
+
+    const [full, closing, rawName, rawAttributes, selfClosing] = match
+    const tag = rawName.toLowerCase()
+    const tagEnd = i + full.length
+
+    if (closing) {
+      const index = findOpen([tag])
+      if (index > 0) closeFrom(index, tagEnd)
+      i = tagEnd
+      continue
+    }
+
+    if (SKIPPED_ELEMENTS.has(tag)) {
+      const close = source.toLowerCase().indexOf(`</${tag}`, tagEnd)
+      const closeEnd = close === -1 ? -1 : source.indexOf('>', close)
+      i = closeEnd === -1 || closeEnd + 1 > end ? end : closeEnd + 1
+      continue
+    }
+
+    closeImplied(tag, i)
+    const node = createElementNode(tag, parseAttributes(rawAttributes), i, tagEnd)
+    top().children.push(node)
+    if (!VOID_ELEMENTS.has(tag) && !selfClosing) {
+      stack.push(node)
+    }
+    i = tagEnd
+  }
+
+  closeFrom(1, end)
+  return root.children
+}
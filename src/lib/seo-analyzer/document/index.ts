@@ -0,0 +1,189 @@
+import {
+  ContentFormat,
+  DocumentNode,
+  DocumentNodeType,
+  DocumentHeading,
+  DocumentParagraph,
+  DocumentList,
+  DocumentLink,
+  DocumentImage,
+  DocumentTable,
+  ParsedDocument
+} from '../types'
+import { parseHtml, isBlockElement } from './html'
+import { parseMarkdown } from './markdown'
+
+const HTML_BLOCK_TAG = /<(?:p|h[1-6]|ul|ol|li|div|table|blockquote|section|article|figure|pre)\b[^>]*>/i
+const MARKDOWN_BLOCK = /^ {0,3}(?:#{1,6}[ \t]|[-*+][ \t]|\d{1,9}[.)][ \t]|>|```|~~~|\|.*\|[ \t]*$)/m
+
+// Nodes whose text is separated from the surrounding text
+const SEPARATED_TYPES = new Set<DocumentNodeType>([
+  'heading', 'paragraph', 'list', 'listItem', 'blockquote', 'code', 'table', 'tableRow', 'tableCell', 'image', 'break'
+])
+
+/**
+ * HTML from the editor and Markdown from the agents are told apart by their block syntax.
+ * Plain text is treated as Markdown, where blank lines separate paragraphs.
+ */
+export function detectContentFormat(source: string): ContentFormat {
+  if (!HTML_BLOCK_TAG.test(source)) return 'markdown'
+  if (!MARKDOWN_BLOCK.test(source) || source.trimStart().startsWith('<')) return 'html'
+  return 'markdown'
+}
+
+function isSeparated(node: DocumentNode): boolean {
+  return SEPARATED_TYPES.has(node.type) || (node.type === 'element' && !!node.tag && isBlockElement(node.tag))
+}
+
+function collectCharacters(node: DocumentNode, chars: string[], offsets: number[]) {
+  if (node.type === 'text') {
+    const value = node.value ?? ''
+    for (let i = 0; i < value.length; i++) {
+      chars.push(value[i])
+      offsets.push(node.offsets?.[i] ?? node.start)
+    }
+    return
+  }
+
+  const separated = isSeparated(node)
+  if (separated) {
+    chars.push(' ')
+    offsets.push(node.start)
+  }
+  node.children.forEach(child => collectCharacters(child, chars, offsets))
+  if (separated) {
+    chars.push(' ')
+    offsets.push(Math.max(node.start, node.end - 1))
+  }
+}
+
+/**
+ * Plain text of a node with whitespace collapsed, as used by the text statistics
+ */
+function toPlainText(node: DocumentNode): { text: string; sourceOffsets: number[] } {
+  const chars: string[] = []
+  const offsets: number[] = []
+  collectCharacters(node, chars, offsets)
+
+  let text = ''
+  const sourceOffsets: number[] = []
+  let previousWasSpace = false
+  chars.forEach((char, index) => {
+    if (/\s/.test(char)) {
+      if (!previousWasSpace && text.length > 0) {
+        text += ' '
+        sourceOffsets.push(offsets[index])
+      }
+      previousWasSpace = true
+      return
+    }
+    text += char
+    sourceOffsets.push(offsets[index])
+    previousWasSpace = false
+  })
+  if (text.endsWith(' ')) {
+    text = text.slice(0, -1)
+    sourceOffsets.pop()
+  }
+
+  return { text, sourceOffsets }
+}
+
+export function getNodeText(node: DocumentNode): string {
+  return toPlainText(node).text
+}
+
+function findDescendants(node: DocumentNode, type: DocumentNodeType, stopAt: DocumentNodeType): DocumentNode[] {
+  return node.children.flatMap(child => {
+    if (child.type === type) return [child]
+    if (child.type === stopAt) return []
+    return findDescendants(child, type, stopAt)
+  })
+}
+
+function collect(root: DocumentNode) {
+  const headings: DocumentHeading[] = []
+  const paragraphs: DocumentParagraph[] = []
+  const lists: DocumentList[] = []
+  const links: DocumentLink[] = []
+  const images: DocumentImage[] = []
+  const tables: DocumentTable[] = []
+
+  const visit = (node: DocumentNode, insideItem: boolean) => {
+    const { start, end } = node
+    const attributes = node.attributes ?? {}
+
+    switch (node.type) {
+      case 'heading':
+        headings.push({ level: node.level ?? 1, text: getNodeText(node), start, end })
+        break
+      case 'paragraph':
+        if (!insideItem) paragraphs.push({ text: getNodeText(node), start, end })
+        break
+      case 'list':
+        lists.push({
+          ordered: !!node.ordered,
+          items: findDescendants(node, 'listItem', 'list').map(getNodeText),
+          start,
+          end
+        })
+        break
+      case 'link':
+        // Named anchors without href are not links
+        if (attributes.href !== undefined) {
+          links.push({
+            href: attributes.href,
+            text: getNodeText(node),
+            title: attributes.title,
+            rel: (attributes.rel ?? '').toLowerCase().split(/\s+/).filter(Boolean),
+            target: attributes.target,
+            start,
+            end
+          })
+        }
+        break
+      case 'image':
+        images.push({
+          src: attributes.src ?? '',
+          alt: attributes.alt,
+          title: attributes.title,
+          width: attributes.width,
+          height: attributes.height,
+          syntax: node.tag === 'img' ? 'html' : 'markdown',
+          start,
+          end
+        })
+        break
+      case 'table': {
+        const rows = findDescendants(node, 'tableRow', 'table')
+        tables.push({
+          rows: rows.map(row => findDescendants(row, 'tableCell', 'table').map(getNodeText)),
+          hasHeader: rows.length > 0 && findDescendants(rows[0], 'tableCell', 'table').some(cell => !!cell.header),
+          start,
+          end
+        })
+        break
+      }
+    }
+
+    const inside = insideItem || node.type === 'listItem' || node.type === 'tableCell'
+    node.children.forEach(child => visit(child, inside))
+  }
+
+  visit(root, false)
+  return { headings, paragraphs, lists, links, images, tables }
+}
+
+/**
+ * Parses HTML or Markdown content into one document tree. Everything the analyzer
+ * knows about the structure of the content (headings, paragraphs, links, images,
+ * the plain text and its mapping back to the source) comes from this tree,
+ * so both formats are scored identically.
+ */
+export function parseDocument(source: string, format: ContentFormat = detectContentFormat(source)): ParsedDocument {
+  const children = format === 'html' ? parseHtml(source) : parseMarkdown(source)
+  const root: DocumentNode = { type: 'root', start: 0, end: source.length, children }
+  const { text, sourceOffsets } = toPlainText(root)
+
+  return { format, source, root, text, sourceOffsets, ...collect(root) }
+}
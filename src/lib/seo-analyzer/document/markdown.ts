@@ -0,0 +1,606 @@
+import { DocumentNode } from '../types'
+import { parseHtml, parseAttributes, createTextNode, decodeEntities, isBlockElement } from './html'
+
+interface Line {
+  text: string
+  // Offset of text[0] in the source
+  start: number
+}
+
+// Text with the source offset of each of its characters
+interface SourceText {
+  value: string
+  offsets: number[]
+}
+
+interface LinkDefinition {
+  href: string
+  title?: string
+}
+
+interface ParserContext {
+  source: string
+  definitions: Map<string, LinkDefinition>
+}
+
+const BLANK = /^[ \t]*$/
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)/
+const FENCE = /^ {0,3}(`{3,}|~{3,})/
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/
+const BLOCKQUOTE = /^ {0,3}> ?/
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+|$)/
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/
+const HTML_BLOCK = /^ {0,3}<(?:!--|\/?([a-zA-Z][\w-]*)(?=[\s/>]|$))/
+const DEFINITION = /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/
+
+const LINK_DESTINATION = /\(\s*(?:<([^>\n]*)>|((?:[^\s()\\]|\\.|\((?:[^\s()\\]|\\.)*\))*))(?:\s+(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|\(((?:[^()\\]|\\.)*)\)))?\s*\)/y
+const AUTOLINK = /<((?:https?|ftp):\/\/[^\s<>]*|mailto:[^\s<>]+)>/iy
+const INLINE_TAG = /<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/y
+const BARE_URL = /(?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:;*_~'")\]]/y
+const ESCAPABLE = /[!-/:-@[-`{-~]/
+const ENTITY = /&(?:#\d+|#x[0-9a-f]+|[a-z]+\d*);/iy
+
+function splitLines(source: string): Line[] {
+  const lines: Line[] = []
+  let start = 0
+  for (const raw of source.split('\n')) {
+    lines.push({ text: raw.endsWith('\r') ? raw.slice(0, -1) : raw, start })
+    start += raw.length + 1
+  }
+  return lines
+}
+
+function sliceLine(line: Line, from: number): Line {
+  return { text: line.text.slice(from), start: line.start + from }
+}
+
+function lineEnd(line: Line): number {
+  return line.start + line.text.length
+}
+
+function indentOf(text: string): number {
+  return /^ */.exec(text)![0].length
+}
+
+function joinLines(lines: Line[]): SourceText {
+  let value = ''
+  const offsets: number[] = []
+  lines.forEach((line, index) => {
+    if (index > 0) {
+      value += '\n'
+      offsets.push(lineEnd(lines[index - 1]))
+    }
+    value += line.text
+    for (let k = 0; k < line.text.length; k++) offsets.push(line.start + k)
+  })
+  return { value, offsets }
+}
+
+function trimSourceText({ value, offsets }: SourceText): SourceText {
+  const leading = value.length - value.trimStart().length
+  const trimmed = value.trim()
+  return { value: trimmed, offsets: offsets.slice(leading, leading + trimmed.length) }
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function isBlockHtml(text: string): boolean {
+  const match = HTML_BLOCK.exec(text)
+  return !!match && (match[1] === undefined || isBlockElement(match[1].toLowerCase()))
+}
+
+function isOrderedMarker(marker: string): boolean {
+  return /\d/.test(marker)
+}
+
+// Lines that end a paragraph without a blank line in between
+function interruptsParagraph(text: string): boolean {
+  const item = LIST_ITEM.exec(text)
+  return ATX_HEADING.test(text) || FENCE.test(text) || BLOCKQUOTE.test(text) || THEMATIC_BREAK.test(text) ||
+    isBlockHtml(text) || (!!item && item[3] !== '' && (!isOrderedMarker(item[2]) || /^1[.)]$/.test(item[2])))
+}
+
+function splitTableCells(line: Line): Line[] {
+  const cells: Line[] = []
+  let text = line.text
+  let start = line.start
+  const leading = /^[ \t]*\|?/.exec(text)![0].length
+  text = text.slice(leading)
+  start += leading
+  text = text.replace(/\|?[ \t]*$/, '')
+
+  let cellStart = 0
+  for (let i = 0; i <= text.length; i++) {
+    if (i < text.length && text[i] === '\\') {
+      i++
+      continue
+    }
+    if (i === text.length || text[i] === '|') {
+      cells.push({ text: text.slice(cellStart, i), start: start + cellStart })
+      cellStart = i + 1
+    }
+  }
+  return cells
+}
+
+function parseInline(text: SourceText, context: ParserContext): DocumentNode[] {
+  const { value, offsets } = text
+  const nodes: DocumentNode[] = []
+  let buffer = ''
+  let bufferOffsets: number[] = []
+
+  const flush = () => {
+    if (buffer) nodes.push(createTextNode(buffer, bufferOffsets))
+    buffer = ''
+    bufferOffsets = []
+  }
+  const push = (node: DocumentNode) => {
+    flush()
+    nodes.push(node)
+  }
+  const literal = (from: number, to: number) => {
+    buffer += value.slice(from, to)
+    bufferOffsets.push(...offsets.slice(from, to))
+  }
+  const sub = (from: number, to: number): SourceText => ({ value: value.slice(from, to), offsets: offsets.slice(from, to) })
+  const endOffset = (index: number) => (offsets[index - 1] ?? 0) + 1
+
+  let i = 0
+  while (i < value.length) {
+    const char = value[i]
+
+    if (char === '\\' && i + 1 < value.length && ESCAPABLE.test(value[i + 1])) {
+      literal(i + 1, i + 2)
+      i += 2
+      continue
+    }
+
+    if (char === '&') {
+      ENTITY.lastIndex = i
+      const entity = ENTITY.exec(value)
+      const decoded = entity ? decodeEntities(entity[0], offsets[i]) : null
+      if (decoded && decoded.value !== entity![0]) {
+        buffer += decoded.value
+        bufferOffsets.push(...decoded.offsets)
+        i += entity![0].length
+        continue
+      }
+    }
+
+    // Code spans
+    if (char === '`') {
+      const run = /^`+/.exec(value.slice(i))![0]
+      const close = value.indexOf(run, i + run.length)
+      if (close !== -1) {
+        const code = trimSourceText(sub(i + run.length, close))
+        push({
+          type: 'inlineCode',
+          start: offsets[i],
+          end: endOffset(close + run.length),
+          children: [createTextNode(code.value, code.offsets)]
+        })
+        i = close + run.length
+        continue
+      }
+      literal(i, i + run.length)
+      i += run.length
+      continue
+    }
+
+    // Links and images
+    if (char === '[' || (char === '!' && value[i + 1] === '[')) {
+      const isImage = char === '!'
+      const link = parseLinkAt(value, isImage ? i + 1 : i, context)
+      if (link) {
+        const label = parseInline(sub(link.labelStart, link.labelEnd), context)
+        const attributes: Record<string, string> = isImage
+          ? { src: link.href, alt: plainTextOf(label) }
+          : { href: link.href }
+        if (link.title !== undefined) attributes.title = link.title
+        push({
+          type: isImage ? 'image' : 'link',
+          start: offsets[i],
+          end: endOffset(link.end),
+          attributes,
+          children: isImage ? [] : label
+        })
+        i = link.end
+        continue
+      }
+    }
+
+    // Autolinks and inline HTML
+    if (char === '<') {
+      AUTOLINK.lastIndex = i
+      const auto = AUTOLINK.exec(value)
+      if (auto) {
+        const href = auto[1]
+        push({
+          type: 'link',
+          start: offsets[i],
+          end: endOffset(i + auto[0].length),
+          attributes: { href },
+          children: [createTextNode(href, offsets.slice(i + 1, i + 1 + href.length))]
+        })
+        i += auto[0].length
+        continue
+      }
+
+      INLINE_TAG.lastIndex = i
+      const tag = INLINE_TAG.exec(value)
+      if (tag) {
+        const [full, closing, rawName, rawAttributes] = tag
+        const name = rawName.toLowerCase()
+        const tagEnd = i + full.length
+        if (!closing && name === 'img') {
+          push({ type: 'image', tag: name, start: offsets[i], end: endOffset(tagEnd), attributes: parseAttributes(rawAttributes), children: [] })
+        } else if (!closing && name === 'br') {
+          push({ type: 'break', tag: name, start: offsets[i], end: endOffset(tagEnd), children: [] })
+        } else if (!closing && name === 'a') {
+          const close = value.toLowerCase().indexOf('</a>', tagEnd)
+          const innerEnd = close === -1 ? value.length : close
+          const nodeEnd = close === -1 ? value.length : close + 4
+          push({
+            type: 'link',
+            tag: name,
+            start: offsets[i],
+            end: endOffset(nodeEnd),
+            attributes: parseAttributes(rawAttributes),
+            children: parseInline(sub(tagEnd, innerEnd), context)
+          })
+          i = nodeEnd
+          continue
+        }
+        // Other inline tags only carry formatting
+        i = tagEnd
+        continue
+      }
+    }
+
+    // Emphasis, strong emphasis and strikethrough
+    if (char === '*' || char === '_' || (char === '~' && value[i + 1] === '~')) {
+      const run = new RegExp(`^\\${char}+`).exec(value.slice(i))![0]
+      const size = Math.min(run.length, char === '~' ? 2 : 3)
+      const intraword = char === '_' && i > 0 && /[\p{L}\p{N}]/u.test(value[i - 1])
+      const delimiter = char.repeat(size)
+      let close = -1
+      if (!intraword && i + size < value.length && !/\s/.test(value[i + size])) {
+        for (let j = value.indexOf(delimiter, i + size + 1); j !== -1; j = value.indexOf(delimiter, j + 1)) {
+          const closesWord = char !== '_' || !/[\p{L}\p{N}]/u.test(value[j + size] ?? '')
+          if (!/\s/.test(value[j - 1]) && value[j - 1] !== '\\' && closesWord) {
+            close = j
+            break
+          }
+        }
+      }
+      if (close !== -1) {
+        const children = parseInline(sub(i + size, close), context)
+        const start = offsets[i]
+        const end = endOffset(close + size)
+        const node: DocumentNode = char === '~'
+          ? { type: 'element', tag: 'del', start, end, children }
+          : size === 1
+            ? { type: 'emphasis', start, end, children }
+            : { type: 'strong', start, end, children: size === 3 ? [{ type: 'emphasis', start, end, children }] : children }
+        push(node)
+        i = close + size
+        continue
+      }
+      literal(i, i + run.length)
+      i += run.length
+      continue
+    }
+
+    // Bare URLs
+    if ((char === 'h' || char === 'w') && (i === 0 || /[\s(*_~]/.test(value[i - 1]))) {
+      BARE_URL.lastIndex = i
+      const url = BARE_URL.exec(value)
+      if (url) {
+        const href = url[0].startsWith('www.') ? `http://${url[0]}` : url[0]
+        push({
+          type: 'link',
+          start: offsets[i],
+          end: endOffset(i + url[0].length),
+          attributes: { href },
+          children: [createTextNode(url[0], offsets.slice(i, i + url[0].length))]
+        })
+        i += url[0].length
+        continue
+      }
+    }
+
+    literal(i, i + 1)
+    i++
+  }
+
+  flush()
+  return nodes
+}
+
+function parseLinkAt(
+  value: string,
+  open: number,
+  context: ParserContext
+): { labelStart: number; labelEnd: number; href: string; title?: string; end: number } | null {
+  let depth = 0
+  let labelEnd = -1
+  for (let j = open; j < value.length; j++) {
+    if (value[j] === '\\') {
+      j++
+    } else if (value[j] === '[') {
+      depth++
+    } else if (value[j] === ']' && --depth === 0) {
+      labelEnd = j
+      break
+    }
+  }
+  if (labelEnd === -1) return null
+
+  const labelStart = open + 1
+  const label = value.slice(labelStart, labelEnd)
+
+  // Inline link: [text](href "title")
+  if (value[labelEnd + 1] === '(') {
+    LINK_DESTINATION.lastIndex = labelEnd + 1
+    const match = LINK_DESTINATION.exec(value)
+    if (!match) return null
+    return {
+      labelStart,
+      labelEnd,
+      href: match[1] ?? match[2] ?? '',
+      title: match[3] ?? match[4] ?? match[5],
+      end: labelEnd + 1 + match[0].length
+    }
+  }
+
+  // Full [text][ref], collapsed [text][] and shortcut [text] references
+  let reference = label
+  let end = labelEnd + 1
+  if (value[labelEnd + 1] === '[') {
+    const close = value.indexOf(']', labelEnd + 2)
+    if (close !== -1) {
+      reference = value.slice(labelEnd + 2, close) || label
+      end = close + 1
+    }
+  }
+  const definition = context.definitions.get(normalizeLabel(reference))
+  return definition ? { labelStart, labelEnd, href: definition.href, title: definition.title, end } : null
+}
+
+function parseList(lines: Line[], from: number, context: ParserContext): { node: DocumentNode; next: number } {
+  const first = LIST_ITEM.exec(lines[from].text)!
+  const ordered = isOrderedMarker(first[2])
+  const delimiter = first[2].slice(-1)
+  const items: DocumentNode[] = []
+
+  let i = from
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i].text)
+    if (!match || isOrderedMarker(match[2]) !== ordered || match[2].slice(-1) !== delimiter) break
+
+    const spacing = match[3].length > 4 || match[3].length === 0 ? 1 : match[3].length
+    const contentIndent = match[1].length + match[2].length + spacing
+    const itemLines = [sliceLine(lines[i], Math.min(contentIndent, lines[i].text.length))]
+
+    let j = i + 1
+    while (j < lines.length) {
+      const line = lines[j]
+      if (BLANK.test(line.text)) {
+        // Blank lines stay in the item only when indented content follows
+        let next = j
+        while (next < lines.length && BLANK.test(lines[next].text)) next++
+        if (next < lines.length && indentOf(lines[next].text) >= contentIndent) {
+          for (; j < next; j++) itemLines.push({ text: '', start: lines[j].start })
+          continue
+        }
+        break
+      }
+      if (indentOf(line.text) >= contentIndent) {
+        itemLines.push(sliceLine(line, contentIndent))
+      } else if (LIST_ITEM.test(line.text) || interruptsParagraph(line.text)) {
+        break
+      } else {
+        // Lazy paragraph continuation
+        itemLines.push(line)
+      }
+      j++
+    }
+
+    items.push({
+      type: 'listItem',
+      start: lines[i].start,
+      end: lineEnd(itemLines[itemLines.length - 1]),
+      children: parseBlocks(itemLines, context)
+    })
+
+    // Blank lines between items of a loose list
+    let next = j
+    while (next < lines.length && BLANK.test(lines[next].text)) next++
+    const following = next < lines.length ? LIST_ITEM.exec(lines[next].text) : null
+    i = following && isOrderedMarker(following[2]) === ordered && following[2].slice(-1) === delimiter ? next : j
+    if (i === j && j < lines.length && BLANK.test(lines[j].text)) break
+  }
+
+  return {
+    node: { type: 'list', ordered, start: lines[from].start, end: items[items.length - 1].end, children: items },
+    next: i
+  }
+}
+
+function parseBlocks(lines: Line[], context: ParserContext): DocumentNode[] {
+  const nodes: DocumentNode[] = []
+
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+    const text = line.text
+
+    if (BLANK.test(text) || DEFINITION.test(text)) {
+      i++
+      continue
+    }
+
+    // Fenced code
+    const fence = FENCE.exec(text)
+    if (fence) {
+      const marker = fence[1]
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`)
+      let j = i + 1
+      while (j < lines.length && !closing.test(lines[j].text)) j++
+      const code = joinLines(lines.slice(i + 1, j))
+      nodes.push({
+        type: 'code',
+        start: line.start,
+        end: lineEnd(lines[Math.min(j, lines.length - 1)]),
+        children: code.value ? [createTextNode(code.value, code.offsets)] : []
+      })
+      i = j + 1
+      continue
+    }
+
+    // ATX headings
+    const heading = ATX_HEADING.exec(text)
+    if (heading) {
+      const content = trimSourceText(joinLines([sliceLine(line, heading[0].length)]))
+      const closingSequence = /(?:^|[ \t]+)#+[ \t]*$/.exec(content.value)
+      const inline = closingSequence
+        ? trimSourceText({ value: content.value.slice(0, closingSequence.index), offsets: content.offsets.slice(0, closingSequence.index) })
+        : content
+      nodes.push({
+        type: 'heading',
+        level: heading[1].length,
+        start: line.start,
+        end: lineEnd(line),
+        children: parseInline(inline, context)
+      })
+      i++
+      continue
+    }
+
+    if (THEMATIC_BREAK.test(text)) {
+      nodes.push({ type: 'element', tag: 'hr', start: line.start, end: lineEnd(line), children: [] })
+      i++
+      continue
+    }
+
+    // GFM tables
+    if (text.includes('|') && i + 1 < lines.length && lines[i + 1].text.includes('|') && TABLE_DELIMITER.test(lines[i + 1].text)) {
+      const rowLines = [line]
+      let j = i + 2
+      while (j < lines.length && !BLANK.test(lines[j].text) && lines[j].text.includes('|')) {
+        rowLines.push(lines[j])
+        j++
+      }
+      const rows: DocumentNode[] = rowLines.map((rowLine, rowIndex) => ({
+        type: 'tableRow',
+        start: rowLine.start,
+        end: lineEnd(rowLine),
+        children: splitTableCells(rowLine).map(cell => ({
+          type: 'tableCell',
+          header: rowIndex === 0,
+          start: cell.start,
+          end: lineEnd(cell),
+          children: parseInline(trimSourceText(joinLines([cell])), context)
+        }))
+      }))
+      nodes.push({ type: 'table', start: line.start, end: lineEnd(rowLines[rowLines.length - 1]), children: rows })
+      i = j
+      continue
+    }
+
+    // Blockquotes, including lazy continuation lines
+    if (BLOCKQUOTE.test(text)) {
+      const quoted: Line[] = []
+      let j = i
+      while (j < lines.length && !BLANK.test(lines[j].text)) {
+        const prefix = BLOCKQUOTE.exec(lines[j].text)
+        quoted.push(prefix ? sliceLine(lines[j], prefix[0].length) : lines[j])
+        j++
+      }
+      nodes.push({
+        type: 'blockquote',
+        start: line.start,
+        end: lineEnd(lines[j - 1]),
+        children: parseBlocks(quoted, context)
+      })
+      i = j
+      continue
+    }
+
+    if (LIST_ITEM.test(text)) {
+      const { node, next } = parseList(lines, i, context)
+      nodes.push(node)
+      i = next
+      continue
+    }
+
+    // Raw HTML blocks run until the next blank line
+    if (isBlockHtml(text)) {
+      let j = i
+      while (j < lines.length && !BLANK.test(lines[j].text)) j++
+      const block = lines.slice(i, j)
+      const contiguous = block.every((blockLine, index) => index === 0 || blockLine.start === lineEnd(block[index - 1]) + 1)
+      if (contiguous) {
+        nodes.push(...parseHtml(context.source, line.start, lineEnd(block[block.length - 1])))
+      } else {
+        block.forEach(blockLine => nodes.push(...parseHtml(context.source, blockLine.start, lineEnd(blockLine))))
+      }
+      i = j
+      continue
+    }
+
+    // Paragraphs, or setext headings when underlined
+    const paragraphLines = [line]
+    let j = i + 1
+    let setextLevel = 0
+    while (j < lines.length && !BLANK.test(lines[j].text)) {
+      const underline = SETEXT_UNDERLINE.exec(lines[j].text)
+      if (underline) {
+        setextLevel = underline[1][0] === '=' ? 1 : 2
+        break
+      }
+      if (interruptsParagraph(lines[j].text)) break
+      paragraphLines.push(lines[j])
+      j++
+    }
+    const inline = parseInline(trimSourceText(joinLines(paragraphLines.map(l => sliceLine(l, indentOf(l.text))))), context)
+    if (setextLevel) {
+      nodes.push({ type: 'heading', level: setextLevel, start: line.start, end: lineEnd(lines[j]), children: inline })
+      i = j + 1
+    } else {
+      nodes.push({ type: 'paragraph', start: line.start, end: lineEnd(paragraphLines[paragraphLines.length - 1]), children: inline })
+      i = j
+    }
+  }
+
+  return nodes
+}
+
+function plainTextOf(nodes: DocumentNode[]): string {
+  return nodes
+    .map(node => node.type === 'text' ? node.value ?? '' : plainTextOf(node.children))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Parses CommonMark/GFM Markdown into document nodes: ATX and setext headings,
+ * paragraphs, nested lists, blockquotes, fenced code, tables, inline and reference
+ * links, images, emphasis and embedded HTML.
+ */
+export function parseMarkdown(source: string): DocumentNode[] {
+  const lines = splitLines(source)
+  const definitions = new Map<string, LinkDefinition>()
+  for (const line of lines) {
+    const match = DEFINITION.exec(line.text)
+    if (match && !definitions.has(normalizeLabel(match[1]))) {
+      definitions.set(normalizeLabel(match[1]), { href: match[2], title: match[3] ?? match[4] ?? match[5] })
+    }
+  }
+
+  return parseBlocks(lines, { source, definitions })
+}
@@ -0,0 +1,300 @@
+/**
+ * E-E-A-T analysis: who wrote the article and what qualifies them, which
+ * sources it cites, whether its figures are sourced, first-hand experience
+ * and when it was published or last updated.
+ */
+
+import {
+  AuthorSignals,
+  CitedSource,
+  ClassifiedLink,
+  DocumentNode,
+  EEATAnalysis,
+  LocalePack,
+  ParsedDocument,
+  Recommendation,
+  SEOData,
+  SiteConfig,
+  SourceType,
+  UncitedStatistic
+} from '../types'
+import { DEFAULT_SITE_CONFIG } from '../config'
+import { englishLocalePack } from '../locales'
+import { getNodeText } from '../document'
+import { extractJsonLd } from '../schema'
+import { SchemaNode, isSchemaNode } from '../schema/rules'
+import { markFromTextRange } from '../utils/marks'
+import { classifySource, SOURCE_POINTS } from './sources'
+
+const NAME = "\\p{Lu}[\\p{L}'’.-]+(?:\\s+\\p{Lu}[\\p{L}'’.-]+){1,3}"
+const BYLINE = new RegExp(`^(?:(?:Written|Posted|Reviewed) )?[Bb]y\\s+(${NAME})`, 'u')
+const AUTHOR_ATTRIBUTE = /\b(?:author|byline)\b/i
+const BIO_ATTRIBUTE = /\bbio\b|author[-_]?(?:bio|box|info|description)/i
+const ABOUT_AUTHOR_HEADING = /^about (?:the )?(?:author|writer)|^author bio/i
+const BIO_SENTENCE = /\b(?:is|has been|works as|serves as)\s+(?:a|an|the|our)\b[^.]{0,80}?\b(?:specialist|consultant|expert|manager|director|lead|editor|writer|analyst|advisor|adviser|head|founder|partner|officer|lawyer|accountant|recruiter|researcher)\b|\b\d+\+? years of experience\b/i
+
+const MONTHS = '(?:January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)\\.?'
+const DATE = `(?:${MONTHS}\\s+\\d{1,2},?\\s+\\d{4}|\\d{1,2}\\s+${MONTHS},?\\s+\\d{4}|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{4})`
+const DATE_LABEL = new RegExp(`\\b(published|posted|last updated|updated|last reviewed|reviewed)(?:\\s+on)?:?\\s+(${DATE})`, 'gi')
+
+const STATISTIC = /(?:[$€£]\s?|\b(?:AED|USD|SAR|EUR|GBP)\s?)\d[\d,.]*(?:\s?(?:k|m|bn|million|billion))?\b|\b\d[\d,.]*\s?(?:%|percent\b|per cent\b)|\b\d[\d,.]*\s?(?:million|billion|trillion)\b|\b\d+(?:\.\d+)?\s?(?:x|times)\s+(?:more|less|faster|slower|higher|lower|larger|smaller|as)\b|\b(?:one|two|three|four|five|\d+) (?:in|out of) (?:every )?(?:\d+|three|four|five|ten)\b/i
+const CITATION_CUE = /\baccording to\b|\bsource:|\b(?:data|figures) from\b|\b(?:study|survey|report|research|analysis) (?:by|from|of)\b|\[\d+\]|\(\p{Lu}[\p{L}&.\s]*,?\s\d{4}\)/iu
+
+const EXPERIENCE = /\bin (?:my|our) (?:experience|work with)\b|\b(?:I|we)(?:'ve|’ve| have)?\s+(?:personally\s+)?(?:tested|tried|used|worked with|helped|implemented|handled|processed|managed|reviewed|interviewed|onboarded|set up|seen)\b|\bour (?:team|clients|customers|consultants) (?:have |has )?(?:found|reported|saw|seen|told us)\b|\b(?:first-hand|firsthand|hands-on)\b|\bcase study\b/gi
+
+// Experience factor for 0, 1, 2 and 3+ distinct markers
+const EXPERIENCE_SCORES = [0, 60, 85, 100]
+// Source points that earn a full authority factor, e.g. two government sources
+const FULL_AUTHORITY_POINTS = 6
+
+interface SchemaSignals {
+  authorName?: string
+  authorBio: boolean
+  published?: string
+  updated?: string
+}
+
+function collectSchemaNodes(value: unknown): SchemaNode[] {
+  if (Array.isArray(value)) return value.flatMap(collectSchemaNodes)
+  if (!isSchemaNode(value)) return []
+  return [value, ...collectSchemaNodes(value['@graph'])]
+}
+
+function readSchemaSignals(seoData: SEOData): SchemaSignals {
+  const signals: SchemaSignals = { authorBio: false }
+  const blocks = [seoData.structuredData ?? '', ...extractJsonLd(seoData.content)].filter(block => block.trim() !== '')
+
+  blocks.forEach(block => {
+    let data: unknown
+    try {
+      data = JSON.parse(block)
+    } catch {
+      return
+    }
+    collectSchemaNodes(data).forEach(node => {
+      const authors = (Array.isArray(node.author) ? node.author : [node.author]).filter(author => author !== undefined)
+      authors.forEach(author => {
+        const name = typeof author === 'string' ? author : isSchemaNode(author) ? author.name : undefined
+        if (typeof name === 'string' && name.trim() && !signals.authorName) signals.authorName = name.trim()
+        if (isSchemaNode(author) && typeof author.description === 'string' && author.description.trim()) signals.authorBio = true
+      })
+      if (typeof node.datePublished === 'string' && !signals.published) signals.published = node.datePublished
+      if (typeof node.dateModified === 'string' && !signals.updated) signals.updated = node.dateModified
+    })
+  })
+
+  return signals
+}
+
+function bylineName(text: string): string | undefined {
+  const trimmed = text.trim()
+  const match = trimmed.match(BYLINE)
+  if (match) return match[1]
+  return trimmed.length > 0 && trimmed.length <= 60 ? trimmed.replace(/^by\s+/i, '') : undefined
+}
+
+function findAuthor(document: ParsedDocument, schema: SchemaSignals): AuthorSignals {
+  const bylines: string[] = []
+  let hasBio = schema.authorBio
+
+  // Author markup of the editor or CMS, e.g. <a rel="author"> or <div class="author-bio">
+  const visit = (node: DocumentNode) => {
+    const attributes = node.attributes ?? {}
+    const marker = [attributes.class, attributes.rel, attributes.itemprop, attributes.id].filter(Boolean).join(' ')
+    if (BIO_ATTRIBUTE.test(marker)) {
+      hasBio = hasBio || getNodeText(node).trim().length > 0
+      return
+    }
+    if (AUTHOR_ATTRIBUTE.test(marker) || node.tag === 'address') {
+      const name = bylineName(getNodeText(node))
+      if (name) bylines.push(name)
+      return
+    }
+    node.children.forEach(visit)
+  }
+  visit(document.root)
+
+  document.paragraphs.forEach(paragraph => {
+    const match = paragraph.text.trim().match(BYLINE)
+    if (match) bylines.push(match[1])
+  })
+
+  const name = bylines[0] ?? schema.authorName
+  if (!hasBio) {
+    const aboutHeading = document.headings.find(heading => ABOUT_AUTHOR_HEADING.test(heading.text.trim()))
+    hasBio = !!aboutHeading && document.paragraphs.some(paragraph => paragraph.start > aboutHeading.end)
+  }
+  if (!hasBio && name) {
+    const nameParts = name.split(/\s+/)
+    hasBio = document.paragraphs.some(paragraph =>
+      nameParts.some(part => paragraph.text.includes(part)) && BIO_SENTENCE.test(paragraph.text)
+    )
+  }
+
+  return { name, hasByline: bylines.length > 0, hasBio }
+}
+
+function findDates(document: ParsedDocument, schema: SchemaSignals): EEATAnalysis['dates'] {
+  const dates: EEATAnalysis['dates'] = { published: schema.published, updated: schema.updated }
+
+  for (const [, label, date] of document.text.matchAll(DATE_LABEL)) {
+    const key = /updated|reviewed/i.test(label) ? 'updated' : 'published'
+    dates[key] = dates[key] ?? date
+  }
+
+  const visit = (node: DocumentNode) => {
+    if (node.tag === 'time') {
+      dates.published = dates.published ?? (node.attributes?.datetime || getNodeText(node).trim() || undefined)
+    }
+    node.children.forEach(visit)
+  }
+  visit(document.root)
+
+  return dates
+}
+
+function findSources(links: ClassifiedLink[], siteConfig: SiteConfig): CitedSource[] {
+  return links.flatMap(link => {
+    if (link.type !== 'external' || !link.url) return []
+    try {
+      const url = new URL(link.url)
+      return [{ url: link.url, hostname: url.hostname, text: link.text, type: classifySource(url, siteConfig) }]
+    } catch {
+      return []
+    }
+  })
+}
+
+function findStatistics(document: ParsedDocument, links: ClassifiedLink[], localePack: LocalePack) {
+  let count = 0
+  const uncited: UncitedStatistic[] = []
+
+  localePack.getSentenceRanges(document.text).forEach(({ sentence, start, end }) => {
+    const match = sentence.match(STATISTIC)
+    if (!match) return
+    count++
+
+    const mark = markFromTextRange(document, start, end)
+    const linked = links.some(link => link.type !== 'anchor' && link.start < mark.source.end && link.end > mark.source.start)
+    if (!linked && !CITATION_CUE.test(sentence)) {
+      uncited.push({ statistic: match[0].trim(), mark })
+    }
+  })
+
+  return { count, uncited }
+}
+
+function findExperienceMarkers(document: ParsedDocument): string[] {
+  const markers = Array.from(document.text.matchAll(EXPERIENCE), match => match[0].toLowerCase().replace('’', "'"))
+  return [...new Set(markers)]
+}
+
+function buildRemediation(analysis: Omit<EEATAnalysis, 'score' | 'factors' | 'remediation'>): Recommendation[] {
+  const { author, sources, sourceCounts, uncitedStatistics, experienceMarkers, dates } = analysis
+  const remediation: Recommendation[] = []
+
+  if (!author.hasByline) {
+    remediation.push({
+      priority: 'high',
+      action: 'Add an author byline naming the writer of the article',
+      impact: 'Shows readers and search engines who is accountable for the content'
+    })
+  } else if (!author.hasBio) {
+    remediation.push({
+      priority: 'medium',
+      action: `Add a short author bio that states ${author.name ?? 'the author'}'s role and experience`,
+      impact: 'Demonstrates the expertise behind the article'
+    })
+  }
+
+  // Competitors are not sources the article can stand on
+  if (sources.length === sourceCounts.competitor) {
+    remediation.push({
+      priority: 'high',
+      action: 'Cite at least two authoritative sources, such as government or academic publications',
+      impact: 'Backs up the claims and builds authority'
+    })
+  } else if (sourceCounts.government + sourceCounts.academic === 0) {
+    remediation.push({
+      priority: 'low',
+      action: 'Add a government or academic source alongside the industry sources',
+      impact: 'Strengthens the authority of the citations'
+    })
+  }
+
+  if (sourceCounts.competitor > 0) {
+    const hosts = [...new Set(sources.filter(source => source.type === 'competitor').map(source => source.hostname))]
+    remediation.push({
+      priority: 'medium',
+      action: `Replace the links to competitors (${hosts.join(', ')}) with neutral sources`,
+      impact: 'Avoids sending readers and authority to competitors'
+    })
+  }
+
+  if (uncitedStatistics.length > 0) {
+    const count = uncitedStatistics.length
+    remediation.push({
+      priority: 'high',
+      action: `Add a source for ${count === 1 ? 'the statistic' : `${count} statistics`} without a citation, e.g. "${uncitedStatistics[0].mark.original.trim()}"`,
+      impact: 'Unsourced figures undermine the trustworthiness of the article'
+    })
+  }
+
+  if (experienceMarkers.length === 0) {
+    remediation.push({
+      priority: 'medium',
+      action: 'Add first-hand experience, e.g. what your team has seen while helping clients',
+      impact: 'Shows the real-world experience that sets the article apart from generic content'
+    })
+  }
+
+  if (!dates.published && !dates.updated) {
+    remediation.push({
+      priority: 'medium',
+      action: 'Show when the article was published or last updated',
+      impact: 'Lets readers judge how current the information is'
+    })
+  }
+
+  return remediation
+}
+
+/**
+ * Finds the E-E-A-T signals of an article and scores each factor 0-100
+ */
+export function analyzeEEAT(
+  seoData: SEOData,
+  document: ParsedDocument,
+  links: ClassifiedLink[],
+  siteConfig: SiteConfig = DEFAULT_SITE_CONFIG,
+  localePack: LocalePack = englishLocalePack
+): EEATAnalysis {
+  const schema = readSchemaSignals(seoData)
+  const author = findAuthor(document, schema)
+  const sources = findSources(links, siteConfig)
+  const sourceCounts: Record<SourceType, number> = { government: 0, academic: 0, industry: 0, competitor: 0 }
+  sources.forEach(source => sourceCounts[source.type]++)
+  const statistics = findStatistics(document, links, localePack)
+  const experienceMarkers = findExperienceMarkers(document)
+  const dates = findDates(document, schema)
+
+  // Each site counts once, so repeated links to one source add no authority
+  const sourcePoints = [...new Map(sources.map(source => [source.hostname, source.type])).values()]
+    .reduce((sum, type) => sum + SOURCE_POINTS[type], 0)
+  const citedShare = statistics.count === 0 ? 1 : (statistics.count - statistics.uncited.length) / statistics.count
+
+  const factors = {
+    experience: EXPERIENCE_SCORES[Math.min(experienceMarkers.length, EXPERIENCE_SCORES.length - 1)],
+    expertise: (author.hasByline ? 50 : 0) + (author.hasBio ? 50 : 0),
+    authority: Math.min(100, Math.round((sourcePoints / FULL_AUTHORITY_POINTS) * 100)),
+    trust: (dates.published || dates.updated ? 40 : 0) + Math.round(citedShare * 60)
+  }
+
+  const signals = { author, sources, sourceCounts, uncitedStatistics: statistics.uncited, experienceMarkers, dates }
+  return {
+    score: Math.round((factors.experience + factors.expertise + factors.authority + factors.trust) / 4),
+    factors,
+    ...signals,
+    remediation: buildRemediation(signals)
+  }
+}
@@ -0,0 +1,46 @@
+import { SiteConfig, SourceType } from '../types'
+import { normalizeHost } from '../utils/links'
+
+// gov.uk, gov.ae, gob.mx, gouv.fr, go.jp, govt.nz, .mil and intergovernmental .int
+const GOVERNMENT_HOST = /(?:^|\.)(?:gov|gob|gouv|govt|go|mil)(?:\.[a-z]{2})?$|\.int$|(?:^|\.)u\.ae$/
+// .edu, .edu.au, .ac.uk, .ac.ae
+const ACADEMIC_HOST = /(?:^|\.)(?:edu|ac)(?:\.[a-z]{2})?$/
+const ACADEMIC_PUBLISHERS = [
+  'doi.org',
+  'arxiv.org',
+  'jstor.org',
+  'scholar.google.com',
+  'researchgate.net',
+  'sciencedirect.com',
+  'springer.com',
+  'nature.com',
+  'wiley.com',
+  'tandfonline.com',
+  'ssrn.com'
+]
+
+// Points towards the authority factor; citing a competitor adds none
+export const SOURCE_POINTS: Record<SourceType, number> = {
+  government: 3,
+  academic: 3,
+  industry: 2,
+  competitor: 0
+}
+
+function onDomain(host: string, domain: string): boolean {
+  const normalized = normalizeHost(domain)
+  return host === normalized || host.endsWith(`.${normalized}`)
+}
+
+/**
+ * Classifies the site an outbound link cites. Anything that is not a
+ * government, academic or competitor site counts as an industry source.
+ */
+export function classifySource(url: URL, siteConfig: SiteConfig): SourceType {
+  const host = normalizeHost(url.hostname)
+
+  if ((siteConfig.competitorDomains ?? []).some(domain => onDomain(host, domain))) return 'competitor'
+  if (GOVERNMENT_HOST.test(host)) return 'government'
+  if (ACADEMIC_HOST.test(host) || ACADEMIC_PUBLISHERS.some(domain => onDomain(host, domain))) return 'academic'
+  return 'industry'
+}
@@ -0,0 +1,151 @@
+/**
+ * Incremental re-analysis for articles that are being edited. The text is split
+ * into blocks at paragraph ends, and the counts of each block are cached by a
+ * hash of its text, so a keystroke only recounts the block it changed.
+ */
+
+import { AnalysisCache, LocalePack, ParsedDocument, TextCounts } from '../types'
+import { countText } from '../utils/text-statistics'
+
+interface CachedBlock {
+  text: string
+  counts: TextCounts
+}
+
+/**
+ * Keeps the results used by the current and the previous run, so entries for
+ * deleted text are dropped after one run
+ */
+class RunMemo<T> {
+  private current = new Map<string, T>()
+  private previous = new Map<string, T>()
+
+  get(key: string, compute: () => T): T {
+    if (this.current.has(key)) return this.current.get(key)!
+    const value = this.previous.has(key) ? this.previous.get(key)! : compute()
+    this.current.set(key, value)
+    return value
+  }
+
+  rotate() {
+    this.previous = this.current
+    this.current = new Map()
+  }
+}
+
+// FNV-1a; the block text is compared on lookup, so collisions only cost a recount
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `${(hash >>> 0).toString(36)}-${text.length}`
+}
+
+/**
+ * Splits the plain text of the document into blocks whose counts add up to the
+ * counts of the whole text. Blocks end where a sentence ends at the end of a
+ * paragraph, heading, list or table; a heading without final punctuation stays
+ * in the block of the sentence it runs into.
+ */
+export function splitTextBlocks(document: ParsedDocument, localePack: LocalePack): string[] {
+  const { text, sourceOffsets } = document
+  const blockEnds = [...document.headings, ...document.paragraphs, ...document.lists, ...document.tables]
+    .map(block => block.end)
+    .sort((a, b) => a - b)
+
+  const blocks: string[] = []
+  let blockStart = 0
+  let nextEnd = 0
+  for (const { end } of localePack.getSentenceRanges(text)) {
+    // Cut only before a space, where no sentence or word continues
+    if (text[end] !== ' ') continue
+    while (nextEnd < blockEnds.length && blockEnds[nextEnd] <= sourceOffsets[end - 1]) nextEnd++
+    if (nextEnd < blockEnds.length && blockEnds[nextEnd] <= sourceOffsets[end + 1]) {
+      blocks.push(text.slice(blockStart, end))
+      blockStart = end
+    }
+  }
+  blocks.push(text.slice(blockStart))
+  return blocks
+}
+
+function addCounts(total: TextCounts, counts: TextCounts) {
+  total.wordCount += counts.wordCount
+  total.sentenceCount += counts.sentenceCount
+  total.syllableCount += counts.syllableCount
+  total.complexWordCount += counts.complexWordCount
+  total.passiveSentenceCount += counts.passiveSentenceCount
+  total.transitionSentenceCount += counts.transitionSentenceCount
+}
+
+/**
+ * Cache for `AnalyzerOptions.cache`. Use one instance per open article.
+ */
+export class IncrementalAnalysisCache implements AnalysisCache {
+  private blocks = new Map<string, CachedBlock>()
+  private sentenceChecks = new RunMemo<boolean>()
+  private syllables = new RunMemo<number>()
+  private localePacks = new Map<LocalePack, LocalePack>()
+
+  // Blocks of the last run and how many of them were recounted
+  lastRun = { blocks: 0, recounted: 0 }
+
+  getTextCounts(document: ParsedDocument, localePack: LocalePack): TextCounts {
+    // Each analysis counts the text once, so this starts a new run
+    this.sentenceChecks.rotate()
+    this.syllables.rotate()
+
+    const blocks = new Map<string, CachedBlock>()
+    const total: TextCounts = {
+      wordCount: 0,
+      sentenceCount: 0,
+      syllableCount: 0,
+      complexWordCount: 0,
+      passiveSentenceCount: 0,
+      transitionSentenceCount: 0
+    }
+    let recounted = 0
+
+    const texts = splitTextBlocks(document, localePack)
+    texts.forEach(text => {
+      const key = `${localePack.locale}:${hashText(text)}`
+      let block = blocks.get(key) ?? this.blocks.get(key)
+      if (block?.text !== text) {
+        block = { text, counts: countText(text, localePack) }
+        recounted++
+      }
+      blocks.set(key, block)
+      addCounts(total, block.counts)
+    })
+
+    this.blocks = blocks
+    this.lastRun = { blocks: texts.length, recounted }
+    return total
+  }
+
+  memoizeLocalePack(localePack: LocalePack): LocalePack {
+    const cached = this.localePacks.get(localePack)
+    if (cached) return cached
+
+    const { locale } = localePack
+    const memoized: LocalePack = {
+      ...localePack,
+      countSyllables: word => this.syllables.get(`${locale}:${word}`, () => localePack.countSyllables(word)),
+      isPassiveSentence: sentence =>
+        this.sentenceChecks.get(`${locale}:passive:${sentence}`, () => localePack.isPassiveSentence(sentence)),
+      hasTransitionWord: sentence =>
+        this.sentenceChecks.get(`${locale}:transition:${sentence}`, () => localePack.hasTransitionWord(sentence))
+    }
+    this.localePacks.set(localePack, memoized)
+    return memoized
+  }
+
+  clear() {
+    this.blocks.clear()
+    this.sentenceChecks = new RunMemo()
+    this.syllables = new RunMemo()
+    this.lastRun = { blocks: 0, recounted: 0 }
+  }
+}
@@ -1,57 +1,53 @@
-import { SEOData, ReadabilityData, AnalysisResult, AssessmentResult, ContentStatistics } from './types'
+import { SEOData, ReadabilityData, AnalysisResult, AssessmentResult, ContentStatistics, AnalyzerOptions, AssessmentContext } from './types'
 import { analyzeText } from './utils/text-statistics'
-import { OVERALL_SCORE_THRESHOLDS } from './config'
+import { DEFAULT_SEO_CONFIG, DEFAULT_READABILITY_CONFIG, DEFAULT_SITE_CONFIG, OVERALL_SCORE_THRESHOLDS } from './config'
 import { AdvancedSEOScorer } from './scoring/advanced-scorer'
-
-// SEO Assessments
-import { assessKeywordDensity } from './assessments/seo/keyword-density'
-import { assessMetaDescription } from './assessments/seo/meta-description'
-import { assessTitle } from './assessments/seo/title'
-import { assessTextLength } from './assessments/seo/text-length'
-import { assessInternalLinks } from './assessments/seo/internal-links'
-import { assessImages } from './assessments/seo/images'
-import { assessSemanticKeywords } from './assessments/seo/semantic-keywords'
-import { assessHeadingStructure } from './assessments/seo/heading-structure'
-import { assessContentFreshness } from './assessments/seo/content-freshness'
-import { assessExternalLinks } from './assessments/seo/external-links'
-
-// Readability Assessments
-import { assessSentenceLength } from './assessments/readability/sentence-length'
-import { assessParagraphLength } from './assessments/readability/paragraph-length'
-import { assessPassiveVoice } from './assessments/readability/passive-voice'
-import { assessFleschReadingEase } from './assessments/readability/flesch-reading-ease'
-import { assessTransitionWords } from './assessments/readability/transition-words'
+import { defaultAssessmentRegistry } from './registry'
+import { getLocalePack } from './locales'
+import { parseDocument } from './document'
+import { analyzeEEAT } from './eeat'
+import { lintStyle } from './style'
+import { applyScoringProfile, getScoringProfile, ProfiledScoring } from './profiles'
 
 export class SEOAnalyzer {
   /**
    * Analyzes content for SEO and readability
    */
-  static analyze(seoData: SEOData, isCornerstone = false): AnalysisResult {
+  static analyze(seoData: SEOData, isCornerstone = false, options: AnalyzerOptions = {}): AnalysisResult {
+    const { registry, seoConfig, readabilityConfig } = this.resolveScoring(seoData, options)
+    const localePack = options.cache
+      ? options.cache.memoizeLocalePack(getLocalePack(seoData.locale))
+      : getLocalePack(seoData.locale)
+    const siteConfig = options.siteConfig ?? DEFAULT_SITE_CONFIG
+
+    // Parse the content once; statistics and assessments all read this tree
+    const document = parseDocument(seoData.content)
+
     // Generate content statistics
-    const stats = analyzeText(seoData.content, seoData.keyword)
-
-    // Run SEO assessments
-    const seoAssessments: AssessmentResult[] = [
-      assessKeywordDensity(seoData, stats),
-      assessMetaDescription(seoData),
-      assessTitle(seoData),
-      assessTextLength(stats, isCornerstone),
-      assessInternalLinks(stats),
-      assessImages(stats),
-      assessSemanticKeywords(seoData, stats),
-      assessHeadingStructure(seoData.content, stats, seoData.keyword),
-      assessContentFreshness(seoData.content, stats),
-      assessExternalLinks(seoData.content, stats)
-    ]
-
-    // Run readability assessments
-    const readabilityAssessments: AssessmentResult[] = [
-      assessSentenceLength(seoData.content, stats),
-      assessParagraphLength(seoData.content),
-      assessPassiveVoice(stats),
-      assessFleschReadingEase(stats),
-      assessTransitionWords(stats)
-    ]
+    const stats = analyzeText(seoData.content, seoData.keyword, seoData.synonyms, localePack, document, {
+      siteConfig,
+      pageUrl: seoData.url
+    }, options.cache)
+
+    const context: AssessmentContext = {
+      seoData,
+      stats,
+      isCornerstone,
+      document,
+      localePack,
+      siteConfig,
+      seoConfig,
+      readabilityConfig
+    }
+
+    // Run the registered SEO and readability assessments
+    const seoAssessments: AssessmentResult[] = registry
+      .resolve('seo', options)
+      .map(definition => definition.assess(context))
+
+    const readabilityAssessments: AssessmentResult[] = registry
+      .resolve('readability', options)
+      .map(definition => definition.assess(context))
 
     // Calculate overall scores
     const seoScore = this.calculateScore(seoAssessments)
@@ -66,17 +62,32 @@ export class SEOAnalyzer {
       readabilityScore,
       seoAssessments,
       readabilityAssessments,
-      overallRating
+      overallRating,
+      links: stats.links,
+      images: stats.images,
+      eeat: analyzeEEAT(seoData, document, stats.links ?? [], siteConfig, localePack),
+      styleLint: lintStyle(document, localePack, siteConfig, readabilityConfig)
     }
   }
 
+  /**
+   * Registry and configs adjusted by the scoring profile of the article type
+   */
+  private static resolveScoring(seoData: SEOData, options: AnalyzerOptions): ProfiledScoring {
+    return applyScoringProfile(options.profile ?? getScoringProfile(seoData.articleType), {
+      registry: options.registry ?? defaultAssessmentRegistry,
+      seoConfig: options.seoConfig ?? DEFAULT_SEO_CONFIG,
+      readabilityConfig: options.readabilityConfig ?? DEFAULT_READABILITY_CONFIG
+    })
+  }
+
   /**
    * Calculates score based on assessment results using Yoast's formula
    */
   private static calculateScore(assessments: AssessmentResult[]): number {
     if (assessments.length === 0) return 0
 
-    const validAssessments = assessments.filter(a => a.score >= 0)
+    const validAssessments = assessments.filter(a => a.score >= 0 && !a.notApplicable)
     if (validAssessments.length === 0) return 0
 
     const totalScore = validAssessments.reduce((sum, assessment) => {
@@ -102,8 +113,8 @@ export class SEOAnalyzer {
   /**
    * Analyzes just content statistics without full assessment
    */
-  static analyzeContent(content: string, keyword?: string): ContentStatistics {
-    return analyzeText(content, keyword)
+  static analyzeContent(content: string, keyword?: string, synonyms?: string[], locale?: string): ContentStatistics {
+    return analyzeText(content, keyword, synonyms, getLocalePack(locale))
   }
 
   /**
@@ -130,16 +141,18 @@ export class SEOAnalyzer {
   /**
    * Performs advanced analysis with weighted scoring and insights
    */
-  static analyzeAdvanced(seoData: SEOData, isCornerstone = false) {
+  static analyzeAdvanced(seoData: SEOData, isCornerstone = false, options: AnalyzerOptions = {}) {
+    const { registry } = this.resolveScoring(seoData, options)
+
     // Get standard analysis first
-    const basicAnalysis = this.analyze(seoData, isCornerstone)
+    const basicAnalysis = this.analyze(seoData, isCornerstone, options)
     
     // Calculate advanced scores
-    const advancedSEO = AdvancedSEOScorer.calculateAdvancedScore(basicAnalysis.seoAssessments)
-    const advancedReadability = AdvancedSEOScorer.calculateAdvancedScore(basicAnalysis.readabilityAssessments)
+    const advancedSEO = AdvancedSEOScorer.calculateAdvancedScore(basicAnalysis.seoAssessments, registry)
+    const advancedReadability = AdvancedSEOScorer.calculateAdvancedScore(basicAnalysis.readabilityAssessments, registry)
     const contentQuality = AdvancedSEOScorer.calculateContentQualityScore(basicAnalysis)
     const eatScore = AdvancedSEOScorer.calculateEATScore(basicAnalysis)
-    const recommendations = AdvancedSEOScorer.generateRecommendations(basicAnalysis)
+    const recommendations = AdvancedSEOScorer.generateRecommendations(basicAnalysis, registry)
     
     return {
       ...basicAnalysis,
@@ -206,4 +219,19 @@ export class SEOAnalyzer {
 }
 
 export * from './types'
-export * from './config'
\ No newline at end of file
+export * from './config'
+export { AssessmentRegistry, createAssessmentRegistry, defaultAssessmentRegistry } from './registry'
+export { LOCALE_PACKS, getLocalePack } from './locales'
+export { parseDocument, detectContentFormat } from './document'
+export { classifyLinks, resolvePageUrl } from './utils/links'
+export { auditImages } from './utils/images'
+export { findKeyphraseConflicts } from './utils/cannibalization'
+export { createSnippetPreview, createBreadcrumb, measureTextWidth, truncateToWidth } from './serp'
+export { validateStructuredData, extractJsonLd, formatSchemaIssues, STRUCTURED_DATA_TYPES } from './schema'
+export { IncrementalAnalysisCache } from './incremental'
+export { toAssessmentSnapshots, compareSnapshots } from './utils/history'
+export { ARTICLE_TYPES, SCORING_PROFILES, DEFAULT_QUALITY_THRESHOLDS, getScoringProfile, getQualityThresholds, applyScoringProfile } from './profiles'
+export { analyzeEEAT } from './eeat'
+export { classifySource } from './eeat/sources'
+export { lintStyle } from './style'
+export { ENGLISH_STYLE_PHRASES } from './style/phrases'
\ No newline at end of file
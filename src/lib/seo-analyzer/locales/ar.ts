@@ -0,0 +1,66 @@
+import { LocalePack } from '../types'
+import { createSentenceSplitter, createTransitionWordMatcher, getUnicodeWords } from './shared'
+
+export const ARABIC_TRANSITION_WORDS = [
+  // Addition
+  'أيضا', 'أيضاً', 'كذلك', 'بالإضافة إلى', 'إضافة إلى ذلك', 'علاوة على ذلك', 'فضلا عن', 'فضلاً عن',
+
+  // Contrast
+  'لكن', 'لكنّ', 'ومع ذلك', 'مع ذلك', 'بينما', 'في المقابل', 'من ناحية أخرى', 'رغم', 'على الرغم من', 'بالرغم من',
+
+  // Cause and Effect
+  'لذلك', 'لذا', 'بالتالي', 'وبالتالي', 'نتيجة لذلك', 'بسبب', 'لأن', 'لأنّ', 'إذ', 'حيث',
+
+  // Time and Sequence
+  'ثم', 'بعد ذلك', 'أولا', 'أولاً', 'ثانيا', 'ثانياً', 'ثالثا', 'ثالثاً', 'أخيرا', 'أخيراً', 'في البداية',
+
+  // Example and Emphasis
+  'على سبيل المثال', 'مثلا', 'مثلاً', 'خاصة', 'خصوصا', 'خصوصاً', 'بالتحديد', 'في الواقع',
+
+  // Conclusion
+  'في الختام', 'ختاما', 'ختاماً', 'باختصار', 'خلاصة القول'
+]
+
+const LETTER = '[\\u0621-\\u064A]'
+const DAMMA = '\\u064F'
+const FATHA = '\\u064E'
+const KASRA = '\\u0650'
+const SUKUN = '\\u0652'
+
+// Short vowels are usually unwritten, so passive verbs are only recognisable when vocalised:
+// past فُعِلَ (damma then kasra) and present يُفْعَلُ (prefix with damma, sukun, then fatha).
+// Unvocalised text is covered by the periphrastic passive "تم/يتم + verbal noun".
+const PASSIVE_PATTERNS = [
+  new RegExp(`${LETTER}${DAMMA}${LETTER}\\u0651?${KASRA}`, 'u'),
+  new RegExp(`[يتنأ]${DAMMA}${LETTER}${SUKUN}${LETTER}${FATHA}`, 'u'),
+  /(?<![\p{L}\p{M}])[وف]?(?:تم|تمّ|تمت|تمّت|يتم|يتمّ|تتم|تتمّ|سيتم|ستتم)\s+\p{L}/u
+]
+
+export function isArabicPassiveSentence(sentence: string): boolean {
+  return PASSIVE_PATTERNS.some(pattern => pattern.test(sentence))
+}
+
+/**
+ * Rough syllable estimate: roughly every second written consonant opens a syllable
+ * once the (usually unwritten) short vowels are accounted for.
+ */
+export function countArabicSyllables(word: string): number {
+  const letters = word.match(/[\u0621-\u064A]/g) ?? []
+  return Math.max(1, Math.round(letters.length / 2))
+}
+
+export const arabicLocalePack: LocalePack = {
+  locale: 'ar',
+  name: 'Arabic',
+  transitionWords: ARABIC_TRANSITION_WORDS,
+  transitionWordExamples: ['لذلك', 'بالإضافة إلى', 'على سبيل المثال'],
+  // Arabic question mark ؟ alongside the Latin terminators
+  getSentenceRanges: createSentenceSplitter('.!?؟…'),
+  getWords: getUnicodeWords,
+  countSyllables: countArabicSyllables,
+  isPassiveSentence: isArabicPassiveSentence,
+  // Conjunctions و and ف attach directly to the following word
+  hasTransitionWord: createTransitionWordMatcher(ARABIC_TRANSITION_WORDS, 'وف')
+  // No readabilityFormula: Flesch-style formulas depend on syllable counts,
+  // which cannot be derived reliably from unvocalised Arabic script.
+}
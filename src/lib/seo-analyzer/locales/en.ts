@@ -0,0 +1,81 @@
+import { LocalePack } from '../types'
+import { TRANSITION_WORDS } from '../config'
+import { ENGLISH_STYLE_PHRASES } from '../style/phrases'
+import { createSentenceSplitter, createTransitionWordMatcher } from './shared'
+
+export function getEnglishWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s'-]/g, '')
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+}
+
+export function countEnglishSyllables(word: string): number {
+  word = word.toLowerCase()
+  let count = 0
+  let previousWasVowel = false
+
+  for (let i = 0; i < word.length; i++) {
+    const isVowel = /[aeiou]/.test(word[i])
+    if (isVowel && !previousWasVowel) {
+      count++
+    }
+    previousWasVowel = isVowel
+  }
+
+  // Adjust for silent e
+  if (word.endsWith('e') && count > 1) {
+    count--
+  }
+
+  // Ensure at least one syllable
+  return Math.max(1, count)
+}
+
+const PASSIVE_INDICATORS = [
+  /\b(was|were|been|being|is|are|am)\s+\w+ed\b/i,
+  /\b(was|were|been|being|is|are|am)\s+\w+en\b/i,
+  /\b(get|gets|got|gotten|getting)\s+\w+ed\b/i
+]
+
+export function isEnglishPassiveSentence(sentence: string): boolean {
+  return PASSIVE_INDICATORS.some(pattern => pattern.test(sentence))
+}
+
+// Intensifiers and hedges that do not end in -ly
+const ADVERBS = new Set(['very', 'quite', 'rather', 'just', 'somewhat'])
+// Words ending in -ly that are not adverbs
+const NOT_ADVERBS = new Set([
+  'only', 'family', 'early', 'daily', 'weekly', 'monthly', 'quarterly', 'yearly', 'hourly', 'likely', 'unlikely',
+  'supply', 'apply', 'reply', 'rely', 'comply', 'imply', 'multiply', 'italy', 'july', 'holy', 'ugly', 'costly',
+  'friendly', 'lovely', 'lonely', 'elderly', 'timely', 'orderly', 'assembly', 'anomaly', 'ally', 'belly', 'bully',
+  'jelly', 'folly', 'rally', 'silly', 'fly', 'butterfly', 'lily', 'scholarly', 'curly', 'burly', 'surly'
+])
+
+export function isEnglishAdverb(word: string): boolean {
+  word = word.toLowerCase()
+  if (ADVERBS.has(word)) return true
+  return word.length > 4 && word.endsWith('ly') && !NOT_ADVERBS.has(word)
+}
+
+export const englishLocalePack: LocalePack = {
+  locale: 'en',
+  name: 'English',
+  transitionWords: TRANSITION_WORDS,
+  transitionWordExamples: ['however', 'therefore', 'moreover'],
+  getSentenceRanges: createSentenceSplitter('.!?'),
+  getWords: getEnglishWords,
+  countSyllables: countEnglishSyllables,
+  isPassiveSentence: isEnglishPassiveSentence,
+  hasTransitionWord: createTransitionWordMatcher(TRANSITION_WORDS),
+  stylePhrases: ENGLISH_STYLE_PHRASES,
+  isAdverb: isEnglishAdverb,
+  readabilityFormula: {
+    name: 'Flesch Reading Ease',
+    calculate: ({ wordCount, sentenceCount, syllableCount }) =>
+      206.835 -
+      1.015 * (wordCount / sentenceCount) -
+      84.6 * (syllableCount / wordCount)
+  }
+}
@@ -0,0 +1,77 @@
+import { LocalePack } from '../types'
+import { createSentenceSplitter, createTransitionWordMatcher, getUnicodeWords } from './shared'
+
+export const FRENCH_TRANSITION_WORDS = [
+  // Addition
+  'aussi', 'de plus', 'en outre', 'par ailleurs', 'également', 'de même', 'ainsi que',
+
+  // Contrast
+  'cependant', 'pourtant', 'toutefois', 'néanmoins', 'mais', 'en revanche', 'par contre',
+  'au contraire', 'tandis que', 'alors que', 'bien que', 'malgré',
+
+  // Cause and Effect
+  'donc', 'ainsi', 'par conséquent', "c'est pourquoi", 'en effet', 'car', 'parce que',
+  'puisque', 'grâce à', 'de ce fait',
+
+  // Time and Sequence
+  'ensuite', 'puis', 'enfin', 'finalement', "d'abord", "tout d'abord", 'premièrement',
+  'deuxièmement', 'troisièmement', 'auparavant', 'désormais',
+
+  // Example and Emphasis
+  'par exemple', 'notamment', 'en particulier', 'surtout', 'effectivement', 'évidemment',
+
+  // Conclusion
+  'en conclusion', 'en résumé', 'pour conclure', 'en somme', 'bref', 'en définitive'
+]
+
+const ETRE_FORMS = [
+  'suis', 'es', 'est', 'sommes', 'êtes', 'sont', 'étais', 'était', 'étions', 'étiez', 'étaient',
+  'été', 'serai', 'seras', 'sera', 'serons', 'serez', 'seront', 'serais', 'serait', 'serions',
+  'seriez', 'seraient', 'sois', 'soit', 'soyons', 'soyez', 'soient', 'fut', 'furent', 'être'
+]
+
+// Form of "être" followed by a past participle, optionally separated by a common adverb.
+// "être" also forms the compound past of movement verbs ("est venu"), which this does not tell apart.
+const PASSIVE_PATTERN = new RegExp(
+  `(?<![\\p{L}])(?:${ETRE_FORMS.join('|')})\\s+` +
+  '(?:(?:pas|plus|très|bien|déjà|souvent|toujours|jamais|mal|rapidement)\\s+)?' +
+  '\\p{L}+(?:é|ée|és|ées|u|ue|us|ues|is|ise|ises|ert|erte|erts|ertes|uit|uite|uits|uites)(?![\\p{L}])',
+  'iu'
+)
+
+export function isFrenchPassiveSentence(sentence: string): boolean {
+  return PASSIVE_PATTERN.test(sentence)
+}
+
+export function countFrenchSyllables(word: string): number {
+  const lower = word.toLowerCase()
+  const groups = lower.match(/[aeiouyàâäéèêëîïôöùûüÿœæ]+/g) ?? []
+  let count = groups.length
+
+  // Final "e", "es" and the verb ending "ent" are silent (but not the adverb ending "ment")
+  if (count > 1 && /[^aeiouy](?:e|es)$|[^aeiouym]ent$/.test(lower)) {
+    count--
+  }
+
+  return Math.max(1, count)
+}
+
+export const frenchLocalePack: LocalePack = {
+  locale: 'fr',
+  name: 'French',
+  transitionWords: FRENCH_TRANSITION_WORDS,
+  transitionWordExamples: ['cependant', 'par conséquent', 'de plus'],
+  getSentenceRanges: createSentenceSplitter('.!?…'),
+  getWords: getUnicodeWords,
+  countSyllables: countFrenchSyllables,
+  isPassiveSentence: isFrenchPassiveSentence,
+  hasTransitionWord: createTransitionWordMatcher(FRENCH_TRANSITION_WORDS),
+  // Kandel & Moles (1958) adaptation of Flesch Reading Ease for French
+  readabilityFormula: {
+    name: 'Kandel-Moles Reading Ease',
+    calculate: ({ wordCount, sentenceCount, syllableCount }) =>
+      207 -
+      1.015 * (wordCount / sentenceCount) -
+      73.6 * (syllableCount / wordCount)
+  }
+}
@@ -0,0 +1,22 @@
+import { LocalePack } from '../types'
+import { englishLocalePack } from './en'
+import { arabicLocalePack } from './ar'
+import { frenchLocalePack } from './fr'
+
+export const LOCALE_PACKS: Record<string, LocalePack> = {
+  en: englishLocalePack,
+  ar: arabicLocalePack,
+  fr: frenchLocalePack
+}
+
+/**
+ * Picks the locale pack for a BCP 47 locale ("ar-AE", "fr_FR", "en").
+ * Unknown or missing locales fall back to English.
+ */
+export function getLocalePack(locale?: string): LocalePack {
+  if (!locale) return englishLocalePack
+  const language = locale.toLowerCase().split(/[-_]/)[0]
+  return LOCALE_PACKS[language] ?? englishLocalePack
+}
+
+export { englishLocalePack, arabicLocalePack, frenchLocalePack }
@@ -0,0 +1,51 @@
+import { SentenceRange } from '../types'
+
+// Letters, combining marks (Arabic diacritics, French accents in NFD) and digits
+const WORD_CHAR = '\\p{L}\\p{M}\\p{N}'
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Builds a sentence splitter that ends sentences on any of the given terminators
+ */
+export function createSentenceSplitter(terminators: string): (text: string) => SentenceRange[] {
+  const chars = escapeRegExp(terminators)
+  const pattern = new RegExp(`[^${chars}]+[${chars}]+`, 'g')
+
+  return (text: string) => {
+    const ranges: SentenceRange[] = []
+    for (const match of text.matchAll(pattern)) {
+      const raw = match[0]
+      const leading = raw.length - raw.trimStart().length
+      const sentence = raw.trim()
+      if (sentence.length === 0) continue
+      const start = (match.index ?? 0) + leading
+      ranges.push({ sentence, start, end: start + sentence.length })
+    }
+    return ranges
+  }
+}
+
+/**
+ * Builds a matcher that checks whether a sentence contains one of the transition words.
+ * `prefixes` lists single-letter clitics that may be attached to the word (e.g. Arabic و and ف).
+ */
+export function createTransitionWordMatcher(words: string[], prefixes = ''): (sentence: string) => boolean {
+  const alternatives = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|')
+  const prefix = prefixes ? `[${escapeRegExp(prefixes)}]?` : ''
+  const pattern = new RegExp(`(?<![${WORD_CHAR}])${prefix}(?:${alternatives})(?![${WORD_CHAR}])`, 'iu')
+
+  return (sentence: string) => pattern.test(sentence.replace(/’/g, "'"))
+}
+
+/**
+ * Splits text into lowercase words for scripts that `\w` does not cover
+ */
+export function getUnicodeWords(text: string): string[] {
+  return text.toLowerCase().match(new RegExp(`[${WORD_CHAR}]+(?:['’-][${WORD_CHAR}]+)*`, 'gu')) ?? []
+}
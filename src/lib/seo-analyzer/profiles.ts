@@ -0,0 +1,108 @@
+import { ArticleType, ConfigOverrides, QualityThresholds, ReadabilityConfig, ScoringProfile, SEOConfig } from './types'
+import type { AssessmentRegistry } from './registry'
+
+export const ARTICLE_TYPES: [ArticleType, ...ArticleType[]] = [
+  'informational',
+  'commercial',
+  'transactional',
+  'hybrid',
+  'how-to',
+  'comparison',
+  'listicle'
+]
+
+// Informational articles score with the defaults; the other types adjust them
+export const SCORING_PROFILES: Record<ArticleType, ScoringProfile> = {
+  informational: {
+    articleType: 'informational',
+    label: 'Informational'
+  },
+  commercial: {
+    articleType: 'commercial',
+    label: 'Commercial',
+    // Readers compare providers, so the SERP snippet and paths to our service pages matter most
+    weights: { 'meta-description': 1.5, 'internal-links': 1.3, 'external-links': 0.8 }
+  },
+  transactional: {
+    articleType: 'transactional',
+    label: 'Transactional',
+    // Landing pages convert with less copy
+    seoConfig: { content: { minWords: 200, cornerstoneMinWords: 600 } },
+    weights: { 'title': 1.6, 'meta-description': 1.5, 'text-length': 0.8, 'content-freshness': 0.6 },
+    thresholds: { seoScore: 90 }
+  },
+  hybrid: {
+    articleType: 'hybrid',
+    label: 'Hybrid',
+    weights: { 'internal-links': 1.2 }
+  },
+  'how-to': {
+    articleType: 'how-to',
+    label: 'How-to',
+    seoConfig: { structuredData: { requiredTypes: ['HowTo'] } },
+    weights: { 'ordered-list': 1.4, 'structured-data': 1.2 },
+    enabledAssessments: ['ordered-list']
+  },
+  comparison: {
+    articleType: 'comparison',
+    label: 'Comparison',
+    // Comparisons stand on cited sources and cover the alternatives by name
+    weights: { 'external-links': 1.3, 'semantic-keywords': 1.4 }
+  },
+  listicle: {
+    articleType: 'listicle',
+    label: 'Listicle',
+    // Each item is a short paragraph under its own subheading and rarely opens with a transition
+    readabilityConfig: { transitionWords: { minPercentage: 15 }, subheadingDistribution: { maxWords: 200 } },
+    weights: { 'paragraph-length': 0.4, 'transition-words': 0.5, 'subheading-distribution': 1.1 }
+  }
+}
+
+export function getScoringProfile(articleType?: ArticleType): ScoringProfile {
+  return (articleType && SCORING_PROFILES[articleType]) || SCORING_PROFILES.informational
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  seoScore: 95,
+  readabilityScore: 70
+}
+
+export function getQualityThresholds(profile: ScoringProfile): QualityThresholds {
+  return { ...DEFAULT_QUALITY_THRESHOLDS, ...profile.thresholds }
+}
+
+function mergeConfig<T extends object>(config: T, overrides: ConfigOverrides<T> = {}): T {
+  const merged = { ...config }
+  for (const key of Object.keys(overrides) as (keyof T)[]) {
+    merged[key] = { ...config[key], ...overrides[key] }
+  }
+  return merged
+}
+
+export interface ProfiledScoring {
+  registry: AssessmentRegistry
+  seoConfig: SEOConfig
+  readabilityConfig: ReadabilityConfig
+}
+
+/**
+ * Applies a profile's thresholds, weights and assessment switches. The given
+ * registry and configs are left untouched.
+ */
+export function applyScoringProfile(profile: ScoringProfile, base: ProfiledScoring): ProfiledScoring {
+  const { weights = {}, enabledAssessments = [], disabledAssessments = [] } = profile
+  let registry = base.registry
+
+  if (Object.keys(weights).length > 0 || enabledAssessments.length > 0 || disabledAssessments.length > 0) {
+    registry = base.registry.clone()
+    Object.entries(weights).forEach(([id, weight]) => registry.setWeight(id, weight))
+    enabledAssessments.forEach(id => registry.setEnabled(id, true))
+    disabledAssessments.forEach(id => registry.setEnabled(id, false))
+  }
+
+  return {
+    registry,
+    seoConfig: mergeConfig(base.seoConfig, profile.seoConfig),
+    readabilityConfig: mergeConfig(base.readabilityConfig, profile.readabilityConfig)
+  }
+}
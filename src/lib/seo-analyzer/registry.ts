@@ -0,0 +1,89 @@
+import { AssessmentCategory, AssessmentDefinition, AnalyzerOptions } from './types'
+import { BUILT_IN_ASSESSMENTS } from './assessments'
+
+/**
+ * Holds the assessments the analyzer runs, together with their scoring weights.
+ * Assessments run in registration order.
+ */
+export class AssessmentRegistry {
+  private definitions = new Map<string, AssessmentDefinition>()
+
+  constructor(definitions: AssessmentDefinition[] = []) {
+    definitions.forEach(definition => this.register(definition))
+  }
+
+  /**
+   * Registers an assessment, replacing any existing one with the same id
+   */
+  register(definition: AssessmentDefinition): this {
+    this.definitions.set(definition.id, definition)
+    return this
+  }
+
+  unregister(id: string): boolean {
+    return this.definitions.delete(id)
+  }
+
+  get(id: string): AssessmentDefinition | undefined {
+    return this.definitions.get(id)
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id)
+  }
+
+  getAll(category?: AssessmentCategory): AssessmentDefinition[] {
+    const all = Array.from(this.definitions.values())
+    return category ? all.filter(definition => definition.category === category) : all
+  }
+
+  /**
+   * Weight used by the advanced scorer; unknown assessments count as 1.0
+   */
+  getWeight(id: string): number {
+    return this.definitions.get(id)?.weight ?? 1.0
+  }
+
+  setWeight(id: string, weight: number): this {
+    const definition = this.definitions.get(id)
+    if (definition) {
+      this.definitions.set(id, { ...definition, weight })
+    }
+    return this
+  }
+
+  setEnabled(id: string, enabled: boolean): this {
+    const definition = this.definitions.get(id)
+    if (definition) {
+      this.definitions.set(id, { ...definition, enabled })
+    }
+    return this
+  }
+
+  /**
+   * Resolves which assessments run for a category given the caller's options
+   */
+  resolve(category: AssessmentCategory, options: AnalyzerOptions = {}): AssessmentDefinition[] {
+    const { enabledAssessments, disabledAssessments = [] } = options
+
+    return this.getAll(category).filter(definition => {
+      if (disabledAssessments.includes(definition.id)) return false
+      if (enabledAssessments) return enabledAssessments.includes(definition.id)
+      return definition.enabled !== false
+    })
+  }
+
+  clone(): AssessmentRegistry {
+    return new AssessmentRegistry(this.getAll())
+  }
+}
+
+/**
+ * Creates a registry pre-populated with the built-in assessments.
+ * Use this for tenant-specific registries instead of mutating the default one.
+ */
+export function createAssessmentRegistry(): AssessmentRegistry {
+  return new AssessmentRegistry(BUILT_IN_ASSESSMENTS)
+}
+
+export const defaultAssessmentRegistry = createAssessmentRegistry()
@@ -0,0 +1,136 @@
+/**
+ * JSON-LD structured data validation. Checks the schema.org types we publish
+ * (Article, BlogPosting, FAQPage, HowTo, BreadcrumbList) for the properties
+ * Google requires and recommends for rich results.
+ */
+
+import { SchemaEntityValidation, SchemaIssue, StructuredDataType, StructuredDataValidation } from '../types'
+import { SCHEMA_RULES, SchemaNode, getSchemaTypes, isSchemaNode } from './rules'
+
+export const STRUCTURED_DATA_TYPES = Object.keys(SCHEMA_RULES) as StructuredDataType[]
+
+const JSON_LD_SCRIPT = /<script\b[^>]*\btype\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi
+
+/**
+ * Contents of the JSON-LD <script> blocks of an HTML document
+ */
+export function extractJsonLd(content: string): string[] {
+  return Array.from(content.matchAll(JSON_LD_SCRIPT), match => match[1].trim()).filter(Boolean)
+}
+
+function hasSchemaContext(context: unknown): boolean {
+  const contexts = Array.isArray(context) ? context : [context]
+  return contexts.some(value => {
+    const vocabulary = isSchemaNode(value) ? value['@vocab'] : value
+    return typeof vocabulary === 'string' && /^https?:\/\/schema\.org\/?$/i.test(vocabulary)
+  })
+}
+
+function joinPath(base: string, property: string): string {
+  if (property.startsWith('[')) return `${base}${property}`
+  return base ? `${base}.${property}` : property
+}
+
+function validateNode(node: SchemaNode, path: string): SchemaEntityValidation {
+  const types = getSchemaTypes(node)
+  const type = types.find((t): t is StructuredDataType => t in SCHEMA_RULES)
+  const issues: SchemaIssue[] = []
+
+  if (types.length === 0) {
+    issues.push({ severity: 'error', path: joinPath(path, '@type'), message: 'Missing @type' })
+    return { type: 'unknown', path, issues }
+  }
+  // Other types are allowed, there are just no rules for them
+  if (!type) return { type: types[0], path, issues }
+
+  const rule = SCHEMA_RULES[type]
+  const checkProperties = (rules: typeof rule.required, severity: SchemaIssue['severity']) => {
+    rules.forEach(({ property, check }) => {
+      const value = node[property]
+      const propertyPath = joinPath(path, property)
+      if (value === undefined || value === null || value === '') {
+        issues.push({
+          severity,
+          path: propertyPath,
+          message: severity === 'error' ? `Missing required property "${property}"` : `Recommended property "${property}" is missing`
+        })
+        return
+      }
+      check?.(value).forEach(problem => issues.push({
+        severity: problem.severity ?? severity,
+        path: problem.path ? joinPath(propertyPath, problem.path) : propertyPath,
+        message: problem.message
+      }))
+    })
+  }
+
+  checkProperties(rule.required, 'error')
+  checkProperties(rule.recommended, 'warning')
+  rule.validate?.(node).forEach(problem => issues.push({
+    severity: problem.severity ?? 'error',
+    path: problem.path ? joinPath(path, problem.path) : path,
+    message: problem.message
+  }))
+
+  return { type, path, issues }
+}
+
+/**
+ * Validates JSON-LD given as text or parsed value. Top-level arrays and @graph
+ * containers are unwrapped. With `expectedTypes`, markup that contains none of
+ * them is an error, e.g. a faqs.json without a FAQPage.
+ */
+export function validateStructuredData(input: unknown, expectedTypes: StructuredDataType[] = []): StructuredDataValidation {
+  const entities: SchemaEntityValidation[] = []
+  const errors: SchemaIssue[] = []
+
+  let data = input
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input)
+    } catch (error) {
+      errors.push({ severity: 'error', path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` })
+      return { valid: false, entities, errors, warnings: [] }
+    }
+  }
+
+  const roots = Array.isArray(data) ? data : [data]
+  roots.forEach((root, rootIndex) => {
+    const rootPath = Array.isArray(data) ? `[${rootIndex}]` : ''
+    if (!isSchemaNode(root)) {
+      errors.push({ severity: 'error', path: rootPath, message: 'Expected a JSON-LD object' })
+      return
+    }
+    if (!hasSchemaContext(root['@context'])) {
+      errors.push({ severity: 'error', path: joinPath(rootPath, '@context'), message: '@context must be "https://schema.org"' })
+    }
+
+    const graph = root['@graph']
+    if (Array.isArray(graph)) {
+      graph.forEach((node, index) => {
+        const path = joinPath(rootPath, `@graph[${index}]`)
+        if (isSchemaNode(node)) entities.push(validateNode(node, path))
+        else errors.push({ severity: 'error', path, message: 'Expected a JSON-LD object' })
+      })
+    } else {
+      entities.push(validateNode(root, rootPath))
+    }
+  })
+
+  if (expectedTypes.length > 0 && !entities.some(entity => expectedTypes.includes(entity.type as StructuredDataType))) {
+    errors.push({ severity: 'error', path: '', message: `Expected ${expectedTypes.join(' or ')} markup` })
+  }
+
+  const issues = entities.flatMap(entity => entity.issues)
+  errors.push(...issues.filter(issue => issue.severity === 'error'))
+  const warnings = issues.filter(issue => issue.severity === 'warning')
+
+  return { valid: errors.length === 0, entities, errors, warnings }
+}
+
+/**
+ * One line per issue, e.g. "mainEntity[0].acceptedAnswer: Expected an Answer"
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string[] {
+  return issues.map(issue => issue.path ? `${issue.path}: ${issue.message}` : issue.message)
+}
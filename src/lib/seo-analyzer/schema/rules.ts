@@ -0,0 +1,218 @@
+/**
+ * Required and recommended properties per schema.org type, following the
+ * documentation of Google's rich results.
+ */
+
+import { StructuredDataType } from '../types'
+
+export type SchemaNode = Record<string, unknown>
+
+export interface PropertyProblem {
+  // Appended to the property path, e.g. "[0].acceptedAnswer"
+  path?: string
+  message: string
+  // Overrides the severity implied by the rule (required: error, recommended: warning)
+  severity?: 'error' | 'warning'
+}
+
+export interface PropertyRule {
+  property: string
+  check?: (value: unknown) => PropertyProblem[]
+}
+
+export interface SchemaRule {
+  required: PropertyRule[]
+  recommended: PropertyRule[]
+  // Checks spanning several properties
+  validate?: (node: SchemaNode) => PropertyProblem[]
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+const ISO_DURATION = /^P(?!$)(?:\d+Y)?(?:\d+M)?(?:\d+W)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+(?:\.\d+)?S)?)?$/
+const MAX_HEADLINE_LENGTH = 110
+
+export function isSchemaNode(value: unknown): value is SchemaNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function getSchemaTypes(node: SchemaNode): string[] {
+  const type = node['@type']
+  return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string')
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value]
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+function isUrl(value: unknown): boolean {
+  if (!isText(value)) return false
+  try {
+    return /^https?:$/.test(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+function isDate(value: unknown): boolean {
+  return isText(value) && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+const text = (value: unknown): PropertyProblem[] =>
+  isText(value) ? [] : [{ message: 'Expected non-empty text' }]
+
+const date = (value: unknown): PropertyProblem[] =>
+  isDate(value) ? [] : [{ message: `Expected an ISO 8601 date such as "2025-03-01T09:00:00+04:00", got ${JSON.stringify(value)}` }]
+
+const duration = (value: unknown): PropertyProblem[] =>
+  isText(value) && ISO_DURATION.test(value) ? [] : [{ message: `Expected an ISO 8601 duration such as "PT30M", got ${JSON.stringify(value)}` }]
+
+// A Person or Organization with a name; Google no longer accepts plain names
+const namedEntity = (value: unknown): PropertyProblem[] =>
+  asList(value).flatMap((item, index) => {
+    const path = Array.isArray(value) ? `[${index}]` : undefined
+    if (!isSchemaNode(item)) return [{ path, message: 'Expected a Person or Organization object, not plain text' }]
+    if (!isText(item.name)) return [{ path, message: 'Missing name' }]
+    return []
+  })
+
+const image = (value: unknown): PropertyProblem[] =>
+  asList(value).flatMap((item, index) => {
+    const path = Array.isArray(value) ? `[${index}]` : undefined
+    const src = isSchemaNode(item) ? item.url ?? item.contentUrl : item
+    return isUrl(src) ? [] : [{ path, message: 'Expected an image URL or ImageObject with a url' }]
+  })
+
+function nonEmptyList(value: unknown, minimum = 1): PropertyProblem[] {
+  const items = asList(value)
+  return items.length >= minimum ? [] : [{ message: `Expected at least ${minimum === 1 ? '1 item' : `${minimum} items`}` }]
+}
+
+const headline = (value: unknown): PropertyProblem[] => {
+  if (!isText(value)) return text(value)
+  return value.length > MAX_HEADLINE_LENGTH
+    ? [{ message: `Headline is ${value.length} characters; keep it under ${MAX_HEADLINE_LENGTH} so it is not cut`, severity: 'warning' }]
+    : []
+}
+
+const faqQuestions = (value: unknown): PropertyProblem[] => {
+  const problems = nonEmptyList(value)
+  const seen = new Set<string>()
+  asList(value).forEach((item, index) => {
+    const path = `[${index}]`
+    if (!isSchemaNode(item) || !getSchemaTypes(item).includes('Question')) {
+      problems.push({ path, message: 'Expected a Question' })
+      return
+    }
+    if (!isText(item.name)) problems.push({ path: `${path}.name`, message: 'Question text is missing' })
+    else if (seen.has(item.name.trim().toLowerCase())) problems.push({ path: `${path}.name`, message: 'Duplicate question', severity: 'warning' })
+    else seen.add(item.name.trim().toLowerCase())
+
+    const answer = Array.isArray(item.acceptedAnswer) ? item.acceptedAnswer[0] : item.acceptedAnswer
+    if (!isSchemaNode(answer) || !getSchemaTypes(answer).includes('Answer')) {
+      problems.push({ path: `${path}.acceptedAnswer`, message: 'Expected an Answer' })
+    } else if (!isText(answer.text)) {
+      problems.push({ path: `${path}.acceptedAnswer.text`, message: 'Answer text is missing' })
+    }
+  })
+  return problems
+}
+
+const howToSteps = (value: unknown): PropertyProblem[] => {
+  const problems = nonEmptyList(value)
+  asList(value).forEach((item, index) => {
+    const path = `[${index}]`
+    if (isText(item)) return
+    if (!isSchemaNode(item)) {
+      problems.push({ path, message: 'Expected a HowToStep, HowToSection or text' })
+      return
+    }
+    const types = getSchemaTypes(item)
+    if (types.includes('HowToSection')) {
+      if (!isText(item.name)) problems.push({ path: `${path}.name`, message: 'Section name is missing' })
+      howToSteps(item.itemListElement).forEach(problem =>
+        problems.push({ ...problem, path: `${path}.itemListElement${problem.path ?? ''}` })
+      )
+    } else if (!types.includes('HowToStep')) {
+      problems.push({ path, message: 'Expected a HowToStep or HowToSection' })
+    } else if (!isText(item.text) && item.itemListElement === undefined) {
+      problems.push({ path: `${path}.text`, message: 'Step text is missing' })
+    }
+  })
+  return problems
+}
+
+const breadcrumbItems = (value: unknown): PropertyProblem[] => {
+  // Google shows a breadcrumb trail from two levels up
+  const problems = nonEmptyList(value, 2)
+  const items = asList(value)
+  items.forEach((item, index) => {
+    const path = `[${index}]`
+    if (!isSchemaNode(item) || !getSchemaTypes(item).includes('ListItem')) {
+      problems.push({ path, message: 'Expected a ListItem' })
+      return
+    }
+    if (item.position !== index + 1) {
+      problems.push({ path: `${path}.position`, message: `Expected position ${index + 1}, got ${JSON.stringify(item.position)}` })
+    }
+    const target = isSchemaNode(item.item) ? item.item['@id'] ?? item.item.url : item.item
+    const name = item.name ?? (isSchemaNode(item.item) ? item.item.name : undefined)
+    if (!isText(name)) problems.push({ path: `${path}.name`, message: 'Breadcrumb name is missing' })
+    // The last item may omit its URL, it is the current page
+    if (index < items.length - 1 && !isUrl(target)) {
+      problems.push({ path: `${path}.item`, message: 'Expected the absolute URL of this breadcrumb' })
+    }
+  })
+  return problems
+}
+
+const ARTICLE_RULE: SchemaRule = {
+  required: [
+    { property: 'headline', check: headline },
+    { property: 'author', check: namedEntity },
+    { property: 'datePublished', check: date }
+  ],
+  recommended: [
+    { property: 'image', check: image },
+    { property: 'dateModified', check: date },
+    { property: 'publisher', check: namedEntity },
+    { property: 'description', check: text },
+    { property: 'mainEntityOfPage' }
+  ],
+  validate: node => {
+    if (isDate(node.datePublished) && isDate(node.dateModified)
+      && Date.parse(node.dateModified as string) < Date.parse(node.datePublished as string)) {
+      return [{ path: 'dateModified', message: 'dateModified is before datePublished', severity: 'error' }]
+    }
+    return []
+  }
+}
+
+export const SCHEMA_RULES: Record<StructuredDataType, SchemaRule> = {
+  Article: ARTICLE_RULE,
+  BlogPosting: ARTICLE_RULE,
+  FAQPage: {
+    required: [{ property: 'mainEntity', check: faqQuestions }],
+    recommended: []
+  },
+  HowTo: {
+    required: [
+      { property: 'name', check: text },
+      { property: 'step', check: howToSteps }
+    ],
+    recommended: [
+      { property: 'image', check: image },
+      { property: 'description', check: text },
+      { property: 'totalTime', check: duration },
+      { property: 'supply' },
+      { property: 'tool' }
+    ]
+  },
+  BreadcrumbList: {
+    required: [{ property: 'itemListElement', check: breadcrumbItems }],
+    recommended: []
+  }
+}
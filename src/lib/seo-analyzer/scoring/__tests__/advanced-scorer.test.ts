@@ -119,31 +119,30 @@ describe('AdvancedSEOScorer', () => {
   });
 
   describe('calculateEATScore', () => {
-    it('should calculate E-A-T factors correctly', () => {
+    it('should report the factors of the E-E-A-T analysis', () => {
       const analysis: AnalysisResult = {
         seoScore: 75,
         readabilityScore: 80,
-        seoAssessments: [
-          createAssessment('text-length', 9, 'good'),
-          createAssessment('semantic-keywords', 9, 'good'),
-          createAssessment('external-links', 9, 'good'),
-          createAssessment('heading-structure', 6, 'ok'),
-          createAssessment('content-freshness', 9, 'good'),
-          createAssessment('meta-description', 9, 'good'),
-        ],
-        readabilityAssessments: [
-          createAssessment('flesch-reading-ease', 6, 'ok'),
-        ],
-        overallRating: 'good'
+        seoAssessments: [],
+        readabilityAssessments: [],
+        overallRating: 'good',
+        eeat: {
+          score: 70,
+          factors: { experience: 60, expertise: 50, authority: 100, trust: 70 },
+          author: { name: 'Sara Khan', hasByline: true, hasBio: false },
+          sources: [],
+          sourceCounts: { government: 2, academic: 0, industry: 0, competitor: 0 },
+          uncitedStatistics: [],
+          experienceMarkers: ['in our experience'],
+          dates: {},
+          remediation: []
+        }
       };
 
       const result = AdvancedSEOScorer.calculateEATScore(analysis);
 
-      expect(result.score).toBeGreaterThan(0);
-      expect(result.score).toBeLessThanOrEqual(100);
-      expect(result.factors.expertise).toBeGreaterThan(0);
-      expect(result.factors.authority).toBeGreaterThan(0);
-      expect(result.factors.trust).toBeGreaterThan(0);
+      expect(result.score).toBe(70);
+      expect(result.factors).toEqual({ experience: 60, expertise: 50, authority: 100, trust: 70 });
     });
 
     it('should handle missing assessments', () => {
@@ -158,6 +157,7 @@ describe('AdvancedSEOScorer', () => {
       const result = AdvancedSEOScorer.calculateEATScore(analysis);
 
       expect(result.score).toBe(0);
+      expect(result.factors.experience).toBe(0);
       expect(result.factors.expertise).toBe(0);
       expect(result.factors.authority).toBe(0);
       expect(result.factors.trust).toBe(0);
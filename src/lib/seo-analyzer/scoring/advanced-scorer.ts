@@ -1,45 +1,20 @@
-import { AssessmentResult, AnalysisResult } from '../types'
+import { AssessmentResult, AnalysisResult, EEATAnalysis, Recommendation } from '../types'
+import { AssessmentRegistry, defaultAssessmentRegistry } from '../registry'
 
 /**
  * Advanced scoring algorithm with weighted assessments
- * Based on Google's ranking factors and modern SEO best practices
+ * Based on Google's ranking factors and modern SEO best practices.
+ * Weights and priorities come from the assessment registry.
  */
 
-interface WeightedAssessment {
-  id: string
-  weight: number
-  category: 'critical' | 'important' | 'beneficial'
-}
-
-// Define weights for each assessment based on SEO impact
-const ASSESSMENT_WEIGHTS: WeightedAssessment[] = [
-  // Critical factors (highest impact on rankings)
-  { id: 'title', weight: 1.5, category: 'critical' },
-  { id: 'meta-description', weight: 1.3, category: 'critical' },
-  { id: 'keyword-density', weight: 1.4, category: 'critical' },
-  { id: 'text-length', weight: 1.3, category: 'critical' },
-  { id: 'heading-structure', weight: 1.4, category: 'critical' },
-  
-  // Important factors
-  { id: 'semantic-keywords', weight: 1.2, category: 'important' },
-  { id: 'internal-links', weight: 1.1, category: 'important' },
-  { id: 'external-links', weight: 1.1, category: 'important' },
-  { id: 'flesch-reading-ease', weight: 1.0, category: 'important' },
-  { id: 'content-freshness', weight: 1.0, category: 'important' },
-  
-  // Beneficial factors
-  { id: 'images', weight: 0.9, category: 'beneficial' },
-  { id: 'sentence-length', weight: 0.8, category: 'beneficial' },
-  { id: 'paragraph-length', weight: 0.7, category: 'beneficial' },
-  { id: 'passive-voice', weight: 0.7, category: 'beneficial' },
-  { id: 'transition-words', weight: 0.8, category: 'beneficial' },
-]
-
 export class AdvancedSEOScorer {
   /**
    * Calculate advanced SEO score with weighted assessments
    */
-  static calculateAdvancedScore(assessments: AssessmentResult[]): {
+  static calculateAdvancedScore(
+    assessments: AssessmentResult[],
+    registry: AssessmentRegistry = defaultAssessmentRegistry
+  ): {
     score: number
     breakdown: Record<string, number>
     insights: string[]
@@ -50,9 +25,9 @@ export class AdvancedSEOScorer {
     let totalWeightedScore = 0
     let totalWeight = 0
     
-    // Process each assessment
-    assessments.forEach(assessment => {
-      const weight = ASSESSMENT_WEIGHTS.find(w => w.id === assessment.id)?.weight || 1.0
+    // Process each assessment that applies to the content
+    assessments.filter(assessment => !assessment.notApplicable).forEach(assessment => {
+      const weight = registry.getWeight(assessment.id)
       const weightedScore = assessment.score * weight
       
       breakdown[assessment.id] = Math.round((assessment.score / 9) * 100)
@@ -61,8 +36,7 @@ export class AdvancedSEOScorer {
       
       // Generate insights for poor performing critical factors
       if (assessment.rating === 'bad') {
-        const assessmentWeight = ASSESSMENT_WEIGHTS.find(w => w.id === assessment.id)
-        if (assessmentWeight?.category === 'critical') {
+        if (registry.get(assessment.id)?.priority === 'critical') {
           insights.push(`Critical issue: ${assessment.text}`)
         }
       }
@@ -104,6 +78,8 @@ export class AdvancedSEOScorer {
     factors.keywordOptimized = analysis.seoAssessments.find(a => a.id === 'keyword-density')?.rating !== 'bad' || false
     factors.hasLinks = analysis.seoAssessments.find(a => a.id === 'internal-links')?.rating !== 'bad' || false
     factors.freshContent = analysis.seoAssessments.find(a => a.id === 'content-freshness')?.rating !== 'bad' || false
+    factors.clearIntroduction = analysis.seoAssessments.find(a => a.id === 'keyword-in-introduction')?.rating !== 'bad' || false
+    factors.scannableText = analysis.readabilityAssessments.find(a => a.id === 'subheading-distribution')?.rating !== 'bad' || false
     
     // Calculate score based on met factors
     const metFactors = Object.values(factors).filter(Boolean).length
@@ -116,30 +92,25 @@ export class AdvancedSEOScorer {
   /**
    * Generate actionable recommendations based on analysis
    */
-  static generateRecommendations(analysis: AnalysisResult): {
-    priority: 'high' | 'medium' | 'low'
-    action: string
-    impact: string
-  }[] {
-    const recommendations: Array<{
-      priority: 'high' | 'medium' | 'low'
-      action: string
-      impact: string
-    }> = []
+  static generateRecommendations(
+    analysis: AnalysisResult,
+    registry: AssessmentRegistry = defaultAssessmentRegistry
+  ): Recommendation[] {
+    const recommendations: Recommendation[] = []
     
     // Analyze all assessments
     const allAssessments = [...analysis.seoAssessments, ...analysis.readabilityAssessments]
     
     allAssessments.forEach(assessment => {
       if (assessment.rating === 'bad' || assessment.rating === 'error') {
-        const weight = ASSESSMENT_WEIGHTS.find(w => w.id === assessment.id)
+        const definition = registry.get(assessment.id)
         
-        const priority = weight?.category === 'critical' ? 'high' : 
-                        weight?.category === 'important' ? 'medium' : 'low'
+        const priority = definition?.priority === 'critical' ? 'high' : 
+                        definition?.priority === 'important' ? 'medium' : 'low'
         
-        const impact = weight?.category === 'critical' ? 
+        const impact = definition?.priority === 'critical' ? 
           'High impact on search rankings' :
-          weight?.category === 'important' ?
+          definition?.priority === 'important' ?
           'Moderate impact on user experience and SEO' :
           'Minor improvement for overall quality'
         
@@ -151,6 +122,9 @@ export class AdvancedSEOScorer {
         recommendations.push({ priority, action, impact })
       }
     })
+
+    // Remediation items of the E-E-A-T analysis
+    recommendations.push(...(analysis.eeat?.remediation ?? []))
     
     // Sort by priority
     recommendations.sort((a, b) => {
@@ -162,43 +136,20 @@ export class AdvancedSEOScorer {
   }
   
   /**
-   * Calculate E-A-T (Expertise, Authoritativeness, Trustworthiness) score
+   * E-E-A-T (Experience, Expertise, Authoritativeness, Trustworthiness) score
+   * from the signals the analyzer found in the content
    */
   static calculateEATScore(analysis: AnalysisResult): {
     score: number
-    factors: {
-      expertise: number
-      authority: number
-      trust: number
-    }
+    factors: EEATAnalysis['factors']
   } {
-    // Expertise: Content depth and quality
-    const expertiseFactors = [
-      analysis.seoAssessments.find(a => a.id === 'text-length')?.score || 0,
-      analysis.seoAssessments.find(a => a.id === 'semantic-keywords')?.score || 0,
-      analysis.readabilityAssessments.find(a => a.id === 'flesch-reading-ease')?.score || 0,
-    ]
-    const expertise = Math.round(expertiseFactors.reduce((a, b) => a + b, 0) / expertiseFactors.length / 9 * 100)
-    
-    // Authority: Links and structure
-    const authorityFactors = [
-      analysis.seoAssessments.find(a => a.id === 'external-links')?.score || 0,
-      analysis.seoAssessments.find(a => a.id === 'heading-structure')?.score || 0,
-    ]
-    const authority = Math.round(authorityFactors.reduce((a, b) => a + b, 0) / authorityFactors.length / 9 * 100)
-    
-    // Trust: Freshness and quality signals
-    const trustFactors = [
-      analysis.seoAssessments.find(a => a.id === 'content-freshness')?.score || 0,
-      analysis.seoAssessments.find(a => a.id === 'meta-description')?.score || 0,
-    ]
-    const trust = Math.round(trustFactors.reduce((a, b) => a + b, 0) / trustFactors.length / 9 * 100)
-    
-    const score = Math.round((expertise + authority + trust) / 3)
-    
+    if (!analysis.eeat) {
+      return { score: 0, factors: { experience: 0, expertise: 0, authority: 0, trust: 0 } }
+    }
+
     return {
-      score,
-      factors: { expertise, authority, trust }
+      score: analysis.eeat.score,
+      factors: analysis.eeat.factors
     }
   }
 }
@@ -0,0 +1,63 @@
+/**
+ * Advance widths of Arial (metric-compatible with Helvetica) in 1/1000 em,
+ * for printable ASCII from space (32) to tilde (126).
+ * Google renders snippets in Arial on desktop; the mobile font (Roboto) is close
+ * enough in width that the same table is used for both.
+ */
+
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, // space to /
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, // 0 to ?
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, // @ to O
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, // P to _
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, // ` to o
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584 // p to ~
+]
+
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+
+// Typographic characters common in titles and descriptions
+const PUNCTUATION_WIDTHS: Record<string, number> = {
+  '–': 556, '—': 1000, '‘': 222, '’': 222, '“': 333, '”': 333, '…': 1000, '•': 350,
+  '·': 278, '«': 556, '»': 556, '©': 737, '®': 737, '™': 1000, '€': 556, '£': 556, '°': 400,
+  ' ': 278
+}
+
+// Used for scripts the table does not cover, e.g. Arabic
+const DEFAULT_WIDTH = 556
+const WIDE_WIDTH = 1000
+
+function isWideCharacter(code: number): boolean {
+  return (code >= 0x1100 && code <= 0x115f)
+    || (code >= 0x2e80 && code <= 0xa4cf)
+    || (code >= 0xac00 && code <= 0xd7a3)
+    || (code >= 0xf900 && code <= 0xfaff)
+    || (code >= 0xff00 && code <= 0xff60)
+    || code >= 0x1f300
+}
+
+/**
+ * Width of one character in 1/1000 em
+ */
+export function getCharacterWidth(char: string, bold = false): number {
+  const code = char.codePointAt(0) ?? 32
+  if (code >= 32 && code <= 126) {
+    return (bold ? BOLD_WIDTHS : REGULAR_WIDTHS)[code - 32]
+  }
+  if (PUNCTUATION_WIDTHS[char] !== undefined) return PUNCTUATION_WIDTHS[char]
+  if (isWideCharacter(code)) return WIDE_WIDTH
+
+  // Accented Latin letters are as wide as their base letter
+  const base = char.normalize('NFD')[0]
+  if (base !== char && base.charCodeAt(0) >= 32 && base.charCodeAt(0) <= 126) {
+    return getCharacterWidth(base, bold)
+  }
+  return DEFAULT_WIDTH
+}
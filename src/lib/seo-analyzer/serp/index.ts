@@ -0,0 +1,128 @@
+/**
+ * Search result snippet preview. Google truncates titles and descriptions by
+ * rendered pixel width, not by character count, so widths are computed from
+ * the bundled font metrics.
+ */
+
+import {
+  SEOData,
+  SerpDevice,
+  SerpTextLayout,
+  SiteConfig,
+  SnippetPreview,
+  SnippetSegment,
+  SnippetText,
+  TextRange
+} from '../types'
+import { SERP_LAYOUTS } from '../config'
+import { getCharacterWidth } from './font-metrics'
+import { findKeywordMatches } from '../utils/morphology'
+import { resolvePageUrl } from '../utils/links'
+import { parseDocument } from '../document'
+
+const ELLIPSIS = ' ...'
+
+/**
+ * Rendered width in pixels; `boldRanges` are measured in the bold font
+ */
+export function measureTextWidth(text: string, fontSize: number, boldRanges: TextRange[] = []): number {
+  let units = 0
+  let index = 0
+  for (const char of text) {
+    const bold = boldRanges.some(range => index >= range.start && index < range.end)
+    units += getCharacterWidth(char, bold)
+    index += char.length
+  }
+  return Math.round(units * fontSize / 10) / 100
+}
+
+function fitToWidth(text: string, layout: SerpTextLayout, boldRanges: TextRange[]): { snippet: SnippetText; cutIndex: number } {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  const width = measureTextWidth(normalized, layout.fontSize, boldRanges)
+  if (width <= layout.maxWidth) {
+    return { snippet: { text: normalized, width, maxWidth: layout.maxWidth, truncated: false }, cutIndex: normalized.length }
+  }
+
+  const available = layout.maxWidth - measureTextWidth(ELLIPSIS, layout.fontSize)
+  let cutIndex = 0
+  let lastSpace = -1
+  let used = 0
+  for (const char of normalized) {
+    const bold = boldRanges.some(range => cutIndex >= range.start && cutIndex < range.end)
+    const charWidth = getCharacterWidth(char, bold) * layout.fontSize / 1000
+    if (used + charWidth > available) break
+    used += charWidth
+    if (char === ' ') lastSpace = cutIndex
+    cutIndex += char.length
+  }
+
+  // Words are not cut in half unless a single word fills the line
+  if (lastSpace > 0) cutIndex = lastSpace
+  const kept = normalized.slice(0, cutIndex).replace(/[\s,;:.\-–—]+$/, '')
+
+  return { snippet: { text: kept + ELLIPSIS, width, maxWidth: layout.maxWidth, truncated: true }, cutIndex: kept.length }
+}
+
+/**
+ * Cuts the text where Google would: at the last word boundary that still fits
+ * together with the ellipsis
+ */
+export function truncateToWidth(text: string, layout: SerpTextLayout, boldRanges: TextRange[] = []): SnippetText {
+  return fitToWidth(text, layout, boldRanges).snippet
+}
+
+/**
+ * Google's breadcrumb line, e.g. "example.com › blog › hr-outsourcing"
+ */
+export function createBreadcrumb(url: string | undefined, siteConfig?: SiteConfig): string {
+  const resolved = resolvePageUrl(url, siteConfig)
+  if (resolved) {
+    const parts = resolved.pathname.split('/').filter(Boolean).map(part => {
+      try {
+        return decodeURIComponent(part)
+      } catch {
+        return part
+      }
+    })
+    return [resolved.hostname.replace(/^www\./, ''), ...parts].join(' › ')
+  }
+  return (url ?? '').split('/').filter(Boolean).join(' › ')
+}
+
+function toSegments(text: string, boldRanges: TextRange[]): SnippetSegment[] {
+  const segments: SnippetSegment[] = []
+  let position = 0
+  boldRanges
+    .filter(range => range.start < text.length)
+    .forEach(range => {
+      if (range.start > position) segments.push({ text: text.slice(position, range.start), bold: false })
+      segments.push({ text: text.slice(range.start, Math.min(range.end, text.length)), bold: true })
+      position = Math.min(range.end, text.length)
+    })
+  if (position < text.length) segments.push({ text: text.slice(position), bold: false })
+  return segments
+}
+
+/**
+ * Predicts how the page shows up in Google's results on the given device.
+ * Without a meta description Google shows text from the page, so the content is used.
+ */
+export function createSnippetPreview(data: SEOData, device: SerpDevice = 'desktop', siteConfig?: SiteConfig): SnippetPreview {
+  const layout = SERP_LAYOUTS[device]
+  const title = truncateToWidth(data.title ?? '', layout.title)
+
+  const source = (data.metaDescription || parseDocument(data.content).text).replace(/\s+/g, ' ').trim()
+  const boldRanges = data.keyword
+    ? findKeywordMatches(source, data.keyword, data.synonyms).map(({ start, end }) => ({ start, end }))
+    : []
+  const { snippet: description, cutIndex } = fitToWidth(source, layout.description, boldRanges)
+  const segments = toSegments(description.text.slice(0, cutIndex), boldRanges)
+  if (description.truncated) segments.push({ text: ELLIPSIS, bold: false })
+
+  return {
+    device,
+    breadcrumb: createBreadcrumb(data.url, siteConfig),
+    title,
+    description: { ...description, segments }
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Style lint: filler phrases, clichés and AI-isms, repeated sentence
+ * openers, runs of sentences starting with the same word and overused
+ * adverbs. Every finding marks its location and suggests a rewrite.
+ */
+
+import { LocalePack, ParsedDocument, ReadabilityConfig, SentenceRange, SiteConfig, StyleFinding, StylePhrase } from '../types'
+import { DEFAULT_READABILITY_CONFIG, DEFAULT_SITE_CONFIG } from '../config'
+import { englishLocalePack } from '../locales'
+import { markFromSourceRange, markFromTextRange } from '../utils/marks'
+
+const WORD = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function phrasePattern(phrase: string): RegExp {
+  const body = phrase
+    .trim()
+    .split(/\s+/)
+    .map(word => escapeRegExp(word).replace(/'/g, "['’]"))
+    .join('\\s+')
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${body}(?![\\p{L}\\p{M}\\p{N}])`, 'giu')
+}
+
+/**
+ * Sentences of the body paragraphs, so a heading never runs into the
+ * sentence after it
+ */
+function getParagraphSentences(document: ParsedDocument, localePack: LocalePack): SentenceRange[] {
+  return document.paragraphs.flatMap(paragraph => {
+    const { text } = markFromSourceRange(document, paragraph.start, paragraph.end)
+    return localePack.getSentenceRanges(document.text.slice(text.start, text.end)).map(range => ({
+      ...range,
+      start: range.start + text.start,
+      end: range.end + text.start
+    }))
+  })
+}
+
+function getOpener(sentence: string, localePack: LocalePack, words: number): string | undefined {
+  const opening = localePack.getWords(sentence).slice(0, words)
+  return opening.length === words ? opening.join(' ') : undefined
+}
+
+/**
+ * Finds the phrases of the locale's list and the site's house style.
+ * Overlapping matches keep the longest phrase.
+ */
+export function findStylePhrases(
+  document: ParsedDocument,
+  localePack: LocalePack = englishLocalePack,
+  siteConfig: SiteConfig = DEFAULT_SITE_CONFIG
+): StyleFinding[] {
+  const phrases: StylePhrase[] = [...(siteConfig.stylePhrases ?? []), ...(localePack.stylePhrases ?? [])]
+    .filter(({ phrase }) => phrase.trim().length > 0)
+    .sort((a, b) => b.phrase.length - a.phrase.length)
+  const taken: Array<{ start: number; end: number }> = []
+  const findings: StyleFinding[] = []
+
+  phrases.forEach(({ phrase, kind, suggestion }) => {
+    for (const match of document.text.matchAll(phrasePattern(phrase))) {
+      const start = match.index ?? 0
+      const end = start + match[0].length
+      if (taken.some(range => start < range.end && end > range.start)) continue
+
+      taken.push({ start, end })
+      findings.push({
+        rule: 'phrase',
+        match: phrase,
+        kind,
+        suggestion,
+        mark: { ...markFromTextRange(document, start, end), suggestion }
+      })
+    }
+  })
+
+  return findings.sort((a, b) => a.mark.text.start - b.mark.text.start)
+}
+
+/**
+ * Finds two-word sentence openers used more often than `maxRepeats`
+ */
+export function findRepeatedOpeners(
+  document: ParsedDocument,
+  localePack: LocalePack = englishLocalePack,
+  maxRepeats = DEFAULT_READABILITY_CONFIG.sentenceOpeners.maxRepeats
+): StyleFinding[] {
+  const byOpener = new Map<string, SentenceRange[]>()
+  getParagraphSentences(document, localePack).forEach(range => {
+    const opener = getOpener(range.sentence, localePack, 2)
+    if (opener) byOpener.set(opener, [...(byOpener.get(opener) ?? []), range])
+  })
+
+  return Array.from(byOpener.entries())
+    .filter(([, ranges]) => ranges.length > maxRepeats)
+    .flatMap(([opener, ranges]) => {
+      const suggestion = `${ranges.length} sentences start with "${opener}". Vary the opening or merge some of these sentences.`
+      return ranges.map(({ start, end }) => ({
+        rule: 'repeated-opener' as const,
+        match: opener,
+        suggestion,
+        mark: { ...markFromTextRange(document, start, end), suggestion }
+      }))
+    })
+    .sort((a, b) => a.mark.text.start - b.mark.text.start)
+}
+
+/**
+ * Finds runs of more than `maxConsecutive` sentences starting with the same word
+ */
+export function findConsecutiveOpeners(
+  document: ParsedDocument,
+  localePack: LocalePack = englishLocalePack,
+  maxConsecutive = DEFAULT_READABILITY_CONFIG.sentenceOpeners.maxConsecutive
+): StyleFinding[] {
+  const findings: StyleFinding[] = []
+  let run: SentenceRange[] = []
+  let runWord: string | undefined
+
+  const flush = () => {
+    const word = runWord
+    if (word && run.length > maxConsecutive) {
+      const suggestion = `${run.length} sentences in a row start with "${word}". Reword or reorder them so they open differently.`
+      run.forEach(({ start, end }) => findings.push({
+        rule: 'consecutive-opener',
+        match: word,
+        suggestion,
+        mark: { ...markFromTextRange(document, start, end), suggestion }
+      }))
+    }
+  }
+
+  getParagraphSentences(document, localePack).forEach(range => {
+    const word = getOpener(range.sentence, localePack, 1)
+    if (word && word === runWord) {
+      run.push(range)
+      return
+    }
+    flush()
+    run = [range]
+    runWord = word
+  })
+  flush()
+
+  return findings
+}
+
+/**
+ * Finds adverbs used more often than `maxRepeats`. Needs a locale pack that
+ * can recognise adverbs.
+ */
+export function findOverusedAdverbs(
+  document: ParsedDocument,
+  localePack: LocalePack = englishLocalePack,
+  maxRepeats = DEFAULT_READABILITY_CONFIG.adverbs.maxRepeats
+): StyleFinding[] {
+  const { isAdverb } = localePack
+  if (!isAdverb) return []
+
+  const byAdverb = new Map<string, Array<{ start: number; end: number }>>()
+  for (const match of document.text.matchAll(WORD)) {
+    const word = match[0].toLowerCase()
+    if (!isAdverb(word)) continue
+    const start = match.index ?? 0
+    byAdverb.set(word, [...(byAdverb.get(word) ?? []), { start, end: start + match[0].length }])
+  }
+
+  return Array.from(byAdverb.entries())
+    .filter(([, ranges]) => ranges.length > maxRepeats)
+    .flatMap(([adverb, ranges]) => {
+      const suggestion = `"${adverb}" is used ${ranges.length} times. Cut it where the sentence works without it, or pick a more precise verb.`
+      return ranges.map(({ start, end }) => ({
+        rule: 'overused-adverb' as const,
+        match: adverb,
+        suggestion,
+        mark: { ...markFromTextRange(document, start, end), suggestion }
+      }))
+    })
+    .sort((a, b) => a.mark.text.start - b.mark.text.start)
+}
+
+/**
+ * Runs every style rule, ordered by position in the text
+ */
+export function lintStyle(
+  document: ParsedDocument,
+  localePack: LocalePack = englishLocalePack,
+  siteConfig: SiteConfig = DEFAULT_SITE_CONFIG,
+  config: ReadabilityConfig = DEFAULT_READABILITY_CONFIG
+): StyleFinding[] {
+  return [
+    ...findStylePhrases(document, localePack, siteConfig),
+    ...findRepeatedOpeners(document, localePack, config.sentenceOpeners.maxRepeats),
+    ...findConsecutiveOpeners(document, localePack, config.sentenceOpeners.maxConsecutive),
+    ...findOverusedAdverbs(document, localePack, config.adverbs.maxRepeats)
+  ].sort((a, b) => a.mark.text.start - b.mark.text.start)
+}
@@ -0,0 +1,44 @@
+import { StylePhrase, StylePhraseKind } from '../types'
+
+function phrases(kind: StylePhraseKind, suggestion: string, ...variants: string[]): StylePhrase[] {
+  return variants.map(phrase => ({ phrase, kind, suggestion }))
+}
+
+// Filler phrases, clichés and the tells of LLM-generated copy
+export const ENGLISH_STYLE_PHRASES: StylePhrase[] = [
+  // AI-isms
+  ...phrases('ai-ism', 'Cut the scene-setting and open with the point itself',
+    "in today's fast-paced world", "in today's digital age", "in today's ever-changing world", "in today's competitive landscape"),
+  ...phrases('ai-ism', 'Use "look at", "explore" or "cover"', 'delve into', 'delves into', 'delving into', 'delved into'),
+  ...phrases('ai-ism', 'Say "look at" or "examine"', 'dive into', 'deep dive'),
+  ...phrases('ai-ism', 'Cut it and state the point directly',
+    "it's important to note that", 'it is important to note that', "it's important to note",
+    "it's worth noting that", 'it is worth noting that', "it's worth noting"),
+  ...phrases('ai-ism', 'Name the market or change you mean', 'ever-evolving landscape', 'ever-changing landscape', 'evolving landscape'),
+  ...phrases('ai-ism', 'Name the specific problem the reader faces',
+    'navigate the complexities of', 'navigating the complexities of', 'navigate the intricacies of'),
+  ...phrases('ai-ism', 'Say what it does', 'plays a crucial role', 'play a crucial role', 'plays a pivotal role', 'play a pivotal role'),
+  ...phrases('ai-ism', 'Say what the reader can do with it', 'unlock the power of', 'unleash the power of', 'harness the power of', 'unlock the full potential'),
+  ...phrases('ai-ism', 'Say what it shows or proves', 'a testament to'),
+  ...phrases('ai-ism', 'Use "in"', 'in the realm of'),
+  ...phrases('ai-ism', 'Use a plain word such as "mix" or "range"', 'rich tapestry', 'tapestry of'),
+  ...phrases('ai-ism', 'Say what the reader will do', 'embark on a journey', 'embarking on a journey'),
+  ...phrases('ai-ism', 'Say what improves and by how much', 'elevate your', 'take your business to the next level'),
+  ...phrases('ai-ism', 'Address the reader directly', "whether you're a seasoned", 'whether you are a seasoned'),
+
+  // Clichés
+  ...phrases('cliche', 'Say what changes and for whom', 'game-changer', 'game changer'),
+  ...phrases('cliche', 'Cut it, or say "ultimately"', 'at the end of the day'),
+  ...phrases('cliche', 'Use "finally"', 'last but not least'),
+  ...phrases('cliche', 'Name the quick win', 'low-hanging fruit'),
+  ...phrases('cliche', 'Describe the new approach', 'think outside the box', 'paradigm shift'),
+  ...phrases('cliche', 'Cut it and answer the question', 'look no further'),
+
+  // Filler
+  ...phrases('filler', 'Use "to"', 'in order to'),
+  ...phrases('filler', 'Use "because"', 'due to the fact that'),
+  ...phrases('filler', 'Use "now"', 'at this point in time'),
+  ...phrases('filler', 'Cut it', 'for all intents and purposes', 'the fact of the matter is', 'needless to say', 'it goes without saying that', 'it goes without saying'),
+  ...phrases('filler', 'Name the subject directly', 'when it comes to'),
+  ...phrases('filler', 'Cut it; the heading already signals the summary', 'in conclusion', 'in summary')
+]
@@ -1,16 +1,62 @@
+import type { AssessmentRegistry } from './registry'
+
 export type AssessmentScore = -50 | -10 | -1 | 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9
 
 export type AssessmentRating = 'error' | 'feedback' | 'bad' | 'ok' | 'good'
 
+export interface TextRange {
+  start: number
+  end: number
+}
+
+/**
+ * A highlighted fragment of the analyzed content.
+ * `text` offsets point into the stripped text, `source` offsets into the original HTML/Markdown.
+ */
+export interface AssessmentMark {
+  original: string
+  text: TextRange
+  source: TextRange
+  // How to rewrite the marked text, e.g. for style lint findings
+  suggestion?: string
+}
+
+// A related resource an assessment points to, e.g. a conflicting article
+export interface AssessmentReference {
+  title: string
+  url: string
+}
+
 export interface AssessmentResult {
   score: AssessmentScore
   text: string
   id: string
   rating: AssessmentRating
   impact?: 'positive' | 'low' | 'medium' | 'high'
+  marks?: AssessmentMark[]
+  // Set when the check does not apply (e.g. to the content's language); excluded from scoring
+  notApplicable?: boolean
+  references?: AssessmentReference[]
+}
+
+export type KeywordMatchType = 'exact' | 'morphology' | 'synonym'
+
+export interface KeywordMatch {
+  type: KeywordMatchType
+  phrase: string
+  start: number
+  end: number
+}
+
+export interface KeywordOccurrences {
+  exact: number
+  morphology: number
+  synonym: number
 }
 
 export interface SEOData {
+  // BCP 47 locale of the content, selects the readability locale pack (defaults to English)
+  locale?: string
   title?: string
   metaDescription?: string
   url?: string
@@ -19,6 +65,29 @@ export interface SEOData {
   synonyms?: string[]
   relatedKeywords?: string[]
   semanticKeywords?: string[]
+  // The user's or team's other articles, checked for competing focus keywords
+  otherArticles?: LibraryArticle[]
+  // JSON-LD published with the page, in addition to <script> blocks in the content
+  structuredData?: string
+  // Selects the scoring profile; defaults to informational
+  articleType?: ArticleType
+}
+
+export interface LibraryArticle {
+  id: string
+  title: string
+  // Where the article can be opened, e.g. its editor
+  url: string
+  focusKeyword?: string
+  semanticKeywords?: string[]
+}
+
+export type FocusKeywordMatch = 'identical' | 'similar'
+
+export interface KeyphraseConflict {
+  article: LibraryArticle
+  focusKeywordMatch?: FocusKeywordMatch
+  sharedSemanticKeywords: string[]
 }
 
 export interface ReadabilityData {
@@ -32,6 +101,85 @@ export interface AnalysisResult {
   seoAssessments: AssessmentResult[]
   readabilityAssessments: AssessmentResult[]
   overallRating: 'needs-improvement' | 'ok' | 'good'
+  // Per-link classification against the site configuration
+  links?: ClassifiedLink[]
+  // Per-image findings, e.g. for the editor's image toolbar
+  images?: ImageAudit[]
+  // Experience, expertise, authority and trust signals in the content
+  eeat?: EEATAnalysis
+  // Filler phrases, clichés, repeated openers and overused adverbs
+  styleLint?: StyleFinding[]
+}
+
+export interface Recommendation {
+  priority: 'high' | 'medium' | 'low'
+  action: string
+  impact: string
+}
+
+export type SourceType = 'government' | 'academic' | 'industry' | 'competitor'
+
+export interface CitedSource {
+  url: string
+  hostname: string
+  text: string
+  type: SourceType
+}
+
+export interface UncitedStatistic {
+  // The figure that needs a source, e.g. '45%'
+  statistic: string
+  mark: AssessmentMark
+}
+
+export interface AuthorSignals {
+  name?: string
+  hasByline: boolean
+  hasBio: boolean
+}
+
+/**
+ * E-E-A-T signals found in the content and its JSON-LD, scored 0-100 per factor
+ */
+export interface EEATAnalysis {
+  score: number
+  factors: {
+    experience: number
+    expertise: number
+    authority: number
+    trust: number
+  }
+  author: AuthorSignals
+  sources: CitedSource[]
+  sourceCounts: Record<SourceType, number>
+  uncitedStatistics: UncitedStatistic[]
+  // First-person phrases such as 'we tested' or 'in our experience'
+  experienceMarkers: string[]
+  dates: {
+    published?: string
+    updated?: string
+  }
+  remediation: Recommendation[]
+}
+
+export type StylePhraseKind = 'filler' | 'cliche' | 'ai-ism'
+
+// A phrase the style lint flags, with the rewrite it suggests
+export interface StylePhrase {
+  phrase: string
+  kind: StylePhraseKind
+  suggestion: string
+}
+
+export type StyleRule = 'phrase' | 'repeated-opener' | 'consecutive-opener' | 'overused-adverb'
+
+export interface StyleFinding {
+  rule: StyleRule
+  // The phrase, sentence opener or adverb that was found
+  match: string
+  kind?: StylePhraseKind
+  suggestion: string
+  mark: AssessmentMark
 }
 
 export interface ContentStatistics {
@@ -44,7 +192,10 @@ export interface ContentStatistics {
     internal: number
     external: number
   }
+  // Every link with its classification against the site configuration
+  links?: ClassifiedLink[]
   imageCount: number
+  images?: ImageAudit[]
   headingCount: {
     h1: number
     h2: number
@@ -54,7 +205,13 @@ export interface ContentStatistics {
     h6: number
   }
   keywordDensity?: number
+  // Density counting every word form and synonym of the keyword
+  keywordMorphologyDensity?: number
+  keywordOccurrences?: KeywordOccurrences
+  // Reading ease from the locale's formula; undefined when the locale has none
   fleschReadingEase?: number
+  readabilityFormula?: string
+  locale?: string
   averageSentenceLength: number
   averageParagraphLength: number
   passiveVoicePercentage: number
@@ -68,13 +225,14 @@ export interface SEOConfig {
     morphologyMinDensity: number
     morphologyMaxDensity: number
   }
+  // Pixel widths on the desktop results page
   metaDescription: {
-    minLength: number
-    maxLength: number
+    minWidth: number
+    maxWidth: number
   }
   title: {
-    minLength: number
-    maxLength: number
+    minWidth: number
+    maxWidth: number
   }
   content: {
     minWords: number
@@ -84,6 +242,13 @@ export interface SEOConfig {
     minKeywordDensity: number
     maxKeywordDensity: number
   }
+  orderedList: {
+    minItems: number
+  }
+  // Markup the page must carry, e.g. HowTo for how-to guides
+  structuredData: {
+    requiredTypes: StructuredDataType[]
+  }
 }
 
 export interface ReadabilityConfig {
@@ -106,4 +271,405 @@ export interface ReadabilityConfig {
   wordComplexity: {
     maxPercentage: number
   }
-}
\ No newline at end of file
+  subheadingDistribution: {
+    maxWords: number
+  }
+  stylePhrases: {
+    maxOccurrences: number
+  }
+  sentenceOpeners: {
+    // Times the same two-word opener may start a sentence
+    maxRepeats: number
+    // Consecutive sentences that may start with the same word
+    maxConsecutive: number
+  }
+  adverbs: {
+    // Times the same adverb may be used
+    maxRepeats: number
+  }
+}
+export interface SentenceRange extends TextRange {
+  sentence: string
+}
+
+export interface ReadabilityFormula {
+  name: string
+  calculate: (counts: { wordCount: number; sentenceCount: number; syllableCount: number }) => number
+}
+
+/**
+ * Language-specific text rules used by the readability assessments
+ */
+export interface LocalePack {
+  locale: string
+  name: string
+  transitionWords: string[]
+  transitionWordExamples: string[]
+  getSentenceRanges: (text: string) => SentenceRange[]
+  getWords: (text: string) => string[]
+  countSyllables: (word: string) => number
+  isPassiveSentence: (sentence: string) => boolean
+  hasTransitionWord: (sentence: string) => boolean
+  // Omitted when no validated reading ease formula exists for the language
+  readabilityFormula?: ReadabilityFormula
+  // Filler phrases, clichés and AI-isms flagged by the style lint
+  stylePhrases?: StylePhrase[]
+  // Omitted when adverbs cannot be told apart by their form
+  isAdverb?: (word: string) => boolean
+}
+
+export type ContentFormat = 'html' | 'markdown'
+
+export type DocumentNodeType =
+  | 'root'
+  | 'heading'
+  | 'paragraph'
+  | 'list'
+  | 'listItem'
+  | 'blockquote'
+  | 'code'
+  | 'table'
+  | 'tableRow'
+  | 'tableCell'
+  | 'link'
+  | 'image'
+  | 'strong'
+  | 'emphasis'
+  | 'inlineCode'
+  | 'break'
+  | 'element'
+  | 'text'
+
+/**
+ * Node of the parsed content tree. `start`/`end` are offsets into the original HTML/Markdown.
+ */
+export interface DocumentNode extends TextRange {
+  type: DocumentNodeType
+  children: DocumentNode[]
+  // HTML tag name, also set for generic 'element' nodes
+  tag?: string
+  // HTML attributes; Markdown links and images use href/src/alt/title as well
+  attributes?: Record<string, string>
+  level?: number
+  ordered?: boolean
+  header?: boolean
+  // Text nodes: decoded text and the source offset of each of its characters
+  value?: string
+  offsets?: number[]
+}
+
+export interface DocumentHeading extends TextRange {
+  level: number
+  text: string
+}
+
+export interface DocumentParagraph extends TextRange {
+  text: string
+}
+
+export interface DocumentList extends TextRange {
+  ordered: boolean
+  items: string[]
+}
+
+export interface DocumentLink extends TextRange {
+  href: string
+  text: string
+  title?: string
+  rel: string[]
+  target?: string
+}
+
+export interface DocumentImage extends TextRange {
+  src: string
+  alt?: string
+  title?: string
+  width?: string
+  height?: string
+  // Markdown image syntax cannot carry dimensions
+  syntax: ContentFormat
+}
+
+export interface DocumentTable extends TextRange {
+  rows: string[][]
+  hasHeader: boolean
+}
+
+/**
+ * Content parsed once per analysis. `text` is the plain text all text statistics use;
+ * `sourceOffsets[i]` is the index in `source` of the i-th character of `text`.
+ */
+export interface ParsedDocument {
+  format: ContentFormat
+  source: string
+  root: DocumentNode
+  text: string
+  sourceOffsets: number[]
+  headings: DocumentHeading[]
+  // Prose paragraphs; paragraphs inside list items and table cells are not included
+  paragraphs: DocumentParagraph[]
+  lists: DocumentList[]
+  links: DocumentLink[]
+  images: DocumentImage[]
+  tables: DocumentTable[]
+}
+
+/**
+ * The domains and paths that make up our own site.
+ * Absolute links to these count as internal links.
+ */
+export interface SiteConfig {
+  // Canonical hostnames, e.g. 'tascoutsourcing.com'; 'www.' is ignored
+  domains: string[]
+  includeSubdomains?: boolean
+  // Only URLs under these paths are part of the site, e.g. '/ae'
+  pathPrefixes?: string[]
+  // Competitors' domains; citing them is flagged by the E-E-A-T analysis
+  competitorDomains?: string[]
+  // House-style phrases flagged in addition to the locale's list
+  stylePhrases?: StylePhrase[]
+}
+
+export type LinkType = 'internal' | 'external' | 'anchor' | 'other'
+
+export interface ClassifiedLink extends DocumentLink {
+  type: LinkType
+  // Absolute URL the link resolves to, when it can be resolved
+  url?: string
+  // Why the link target looks broken
+  issue?: string
+}
+
+export interface LinkClassificationOptions {
+  siteConfig?: SiteConfig
+  // URL or slug of the analyzed page (SEOData.url), used to resolve relative links
+  pageUrl?: string
+}
+
+export type ImageIssueType =
+  | 'missing-alt'
+  | 'empty-alt'
+  | 'non-descriptive-filename'
+  | 'missing-dimensions'
+  | 'oversized-data-uri'
+
+export interface ImageIssue {
+  type: ImageIssueType
+  message: string
+}
+
+/**
+ * Accessibility and SEO findings for one image, in document order
+ */
+export interface ImageAudit extends DocumentImage {
+  index: number
+  hasKeyword: boolean
+  issues: ImageIssue[]
+}
+
+export type SerpDevice = 'desktop' | 'mobile'
+
+export interface SerpTextLayout {
+  fontSize: number
+  // Width in pixels after which Google truncates the text
+  maxWidth: number
+}
+
+export interface SerpLayout {
+  title: SerpTextLayout
+  description: SerpTextLayout
+}
+
+export interface SnippetSegment {
+  text: string
+  // Google bolds the words of the query in the description
+  bold: boolean
+}
+
+export interface SnippetText {
+  // Text as displayed, ending in an ellipsis when truncated
+  text: string
+  // Rendered width of the full text in pixels
+  width: number
+  maxWidth: number
+  truncated: boolean
+}
+
+export interface SnippetPreview {
+  device: SerpDevice
+  breadcrumb: string
+  title: SnippetText
+  description: SnippetText & { segments: SnippetSegment[] }
+}
+
+export interface AssessmentSnapshot {
+  id: string
+  category: AssessmentCategory
+  rating: AssessmentRating
+  score: number
+}
+
+/**
+ * Stored result of one analysis of an article, for its score history
+ */
+export interface AnalysisSnapshot {
+  id: string
+  createdAt: string
+  // User who triggered the analysis
+  userId: string
+  // SHA-256 of the analyzed content
+  contentHash: string
+  seoScore: number
+  readabilityScore: number
+  assessments: AssessmentSnapshot[]
+}
+
+/**
+ * An assessment whose rating changed between two snapshots.
+ * `from` or `to` is missing when the assessment did not run in that snapshot.
+ */
+export interface AssessmentFlip {
+  id: string
+  category: AssessmentCategory
+  from?: AssessmentRating
+  to?: AssessmentRating
+  direction: 'improved' | 'regressed' | 'changed'
+}
+
+export type StructuredDataType = 'Article' | 'BlogPosting' | 'FAQPage' | 'HowTo' | 'BreadcrumbList'
+
+export interface SchemaIssue {
+  severity: 'error' | 'warning'
+  // Location in the JSON-LD, e.g. "mainEntity[2].acceptedAnswer.text"
+  path: string
+  message: string
+}
+
+export interface SchemaEntityValidation {
+  type: string
+  path: string
+  issues: SchemaIssue[]
+}
+
+/**
+ * Result of validating JSON-LD against the schema.org rules Google uses for
+ * rich results. Errors make the markup ineligible; warnings are recommendations.
+ */
+export interface StructuredDataValidation {
+  valid: boolean
+  entities: SchemaEntityValidation[]
+  errors: SchemaIssue[]
+  warnings: SchemaIssue[]
+}
+
+export type AssessmentCategory = 'seo' | 'readability'
+
+export type AssessmentPriority = 'critical' | 'important' | 'beneficial'
+
+export interface AssessmentContext {
+  seoData: SEOData
+  stats: ContentStatistics
+  isCornerstone: boolean
+  document: ParsedDocument
+  localePack: LocalePack
+  siteConfig: SiteConfig
+  seoConfig: SEOConfig
+  readabilityConfig: ReadabilityConfig
+}
+
+interface BaseAssessmentDefinition {
+  id: string
+  weight: number
+  priority: AssessmentPriority
+  enabled?: boolean
+  assess: (context: AssessmentContext) => AssessmentResult
+}
+
+export type AssessmentDefinition =
+  | (BaseAssessmentDefinition & { category: 'seo'; configKey?: keyof SEOConfig })
+  | (BaseAssessmentDefinition & { category: 'readability'; configKey?: keyof ReadabilityConfig })
+
+export interface AnalyzerOptions {
+  siteConfig?: SiteConfig
+  seoConfig?: SEOConfig
+  readabilityConfig?: ReadabilityConfig
+  enabledAssessments?: string[]
+  disabledAssessments?: string[]
+  registry?: AssessmentRegistry
+  // Replaces the profile selected by the article type
+  profile?: ScoringProfile
+  // Reuses work from earlier runs over the same text
+  cache?: AnalysisCache
+}
+
+export type ArticleType = 'informational' | 'commercial' | 'transactional' | 'hybrid' | 'how-to' | 'comparison' | 'listicle'
+
+export type ConfigOverrides<T> = { [K in keyof T]?: Partial<T[K]> }
+
+/**
+ * Scoring rules for one article type, applied over the default configs and registry
+ */
+export interface ScoringProfile {
+  articleType: ArticleType
+  label: string
+  seoConfig?: ConfigOverrides<SEOConfig>
+  readabilityConfig?: ConfigOverrides<ReadabilityConfig>
+  // Replace the registry weights used by the advanced scorer
+  weights?: Record<string, number>
+  // Assessments switched on or off for this type, on top of the registry's defaults
+  enabledAssessments?: string[]
+  disabledAssessments?: string[]
+  // Scores the article must reach before optimization stops
+  thresholds?: Partial<QualityThresholds>
+}
+
+/**
+ * Minimum scores of an article that is ready for review
+ */
+export interface QualityThresholds {
+  seoScore: number
+  readabilityScore: number
+}
+
+/**
+ * Counts the text statistics are derived from, for the whole text or one block of it
+ */
+export interface TextCounts {
+  wordCount: number
+  sentenceCount: number
+  syllableCount: number
+  complexWordCount: number
+  passiveSentenceCount: number
+  transitionSentenceCount: number
+}
+
+/**
+ * Keeps results between analyses of an article that is being edited, so only
+ * changed text is processed again. Results must equal a full analysis.
+ */
+export interface AnalysisCache {
+  getTextCounts: (document: ParsedDocument, localePack: LocalePack) => TextCounts
+  // Locale pack whose per-sentence and per-word checks remember their results
+  memoizeLocalePack: (localePack: LocalePack) => LocalePack
+}
+
+export interface AnalysisRequest {
+  // Increasing per request; responses to superseded requests are dropped
+  id: number
+  seoData: SEOData
+  isCornerstone: boolean
+  siteConfig?: SiteConfig
+}
+
+export type AnalysisResponse =
+  | { id: number; result: AnalysisResult }
+  | { id: number; error: string }
+
+/**
+ * Runs analyses off the main thread. A request made while another one is
+ * running replaces any request still waiting, which then resolves to null.
+ */
+export interface AnalysisWorkerClient {
+  analyze: (seoData: SEOData, isCornerstone: boolean, siteConfig?: SiteConfig) => Promise<AnalysisResult | null>
+  terminate: () => void
+}
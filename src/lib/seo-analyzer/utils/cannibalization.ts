@@ -0,0 +1,66 @@
+/**
+ * Finds other articles of the library that compete for the same search intent:
+ * the same or nearly the same focus keyword, or largely the same semantic keywords.
+ */
+
+import { FocusKeywordMatch, KeyphraseConflict, LibraryArticle, SEOData } from '../types'
+import { getKeywordStems } from './morphology'
+
+// Share of shared keyword words above which two focus keywords are near-identical
+const SIMILAR_KEYWORD_THRESHOLD = 0.6
+// Share of shared semantic keywords above which two articles overlap heavily
+const SEMANTIC_OVERLAP_THRESHOLD = 0.5
+const MIN_SHARED_SEMANTIC_KEYWORDS = 2
+
+function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  const union = new Set([...a, ...b])
+  if (union.size === 0) return 0
+  return [...a].filter(item => b.has(item)).length / union.size
+}
+
+// Word order and word forms do not matter: "outsourcing HR" equals "HR outsource"
+function toKey(phrase: string): string {
+  return [...new Set(getKeywordStems(phrase))].sort().join(' ')
+}
+
+export function compareFocusKeywords(a: string, b: string): FocusKeywordMatch | undefined {
+  const keyA = toKey(a)
+  const keyB = toKey(b)
+  if (!keyA || !keyB) return undefined
+  if (keyA === keyB) return 'identical'
+  return jaccard(new Set(keyA.split(' ')), new Set(keyB.split(' '))) >= SIMILAR_KEYWORD_THRESHOLD ? 'similar' : undefined
+}
+
+/**
+ * Semantic keywords of `a` that `b` also targets, when the two lists overlap heavily
+ */
+export function getSharedSemanticKeywords(a: string[], b: string[]): string[] {
+  const keysB = new Set(b.map(toKey).filter(Boolean))
+  const keysA = new Set(a.map(toKey).filter(Boolean))
+  const shared = a.filter(keyword => keysB.has(toKey(keyword)))
+
+  if (shared.length < MIN_SHARED_SEMANTIC_KEYWORDS || jaccard(keysA, keysB) < SEMANTIC_OVERLAP_THRESHOLD) return []
+  return shared
+}
+
+export function findKeyphraseConflicts(data: SEOData, articles: LibraryArticle[] = data.otherArticles ?? []): KeyphraseConflict[] {
+  const semanticKeywords = data.semanticKeywords ?? []
+
+  return articles
+    .map(article => ({
+      article,
+      focusKeywordMatch: data.keyword && article.focusKeyword
+        ? compareFocusKeywords(data.keyword, article.focusKeyword)
+        : undefined,
+      sharedSemanticKeywords: getSharedSemanticKeywords(semanticKeywords, article.semanticKeywords ?? [])
+    }))
+    .filter(conflict => conflict.focusKeywordMatch || conflict.sharedSemanticKeywords.length > 0)
+    // Identical keywords first, then near-identical, then semantic overlap
+    .sort((a, b) => rank(a) - rank(b))
+}
+
+function rank(conflict: KeyphraseConflict): number {
+  if (conflict.focusKeywordMatch === 'identical') return 0
+  if (conflict.focusKeywordMatch === 'similar') return 1
+  return 2
+}
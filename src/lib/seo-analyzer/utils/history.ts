@@ -0,0 +1,63 @@
+/**
+ * Snapshots of analysis results and the rating changes between them,
+ * for the score history of an article.
+ */
+
+import {
+  AnalysisResult,
+  AnalysisSnapshot,
+  AssessmentCategory,
+  AssessmentFlip,
+  AssessmentRating,
+  AssessmentResult,
+  AssessmentSnapshot
+} from '../types'
+
+// Feedback is informational and has no rank
+const RATING_RANK: Partial<Record<AssessmentRating, number>> = { error: 0, bad: 1, ok: 2, good: 3 }
+
+/**
+ * Ratings of the assessments that applied to the content
+ */
+export function toAssessmentSnapshots(result: AnalysisResult): AssessmentSnapshot[] {
+  const snapshot = (category: AssessmentCategory) => (assessment: AssessmentResult): AssessmentSnapshot => ({
+    id: assessment.id,
+    category,
+    rating: assessment.rating,
+    score: assessment.score
+  })
+
+  return [
+    ...result.seoAssessments.filter(a => !a.notApplicable).map(snapshot('seo')),
+    ...result.readabilityAssessments.filter(a => !a.notApplicable).map(snapshot('readability'))
+  ]
+}
+
+function getDirection(from?: AssessmentRating, to?: AssessmentRating): AssessmentFlip['direction'] {
+  const fromRank = from && RATING_RANK[from]
+  const toRank = to && RATING_RANK[to]
+  if (fromRank === undefined || toRank === undefined) return 'changed'
+  return toRank > fromRank ? 'improved' : 'regressed'
+}
+
+/**
+ * Assessments whose rating differs between two snapshots, in the order of the newer one
+ */
+export function compareSnapshots(
+  previous: Pick<AnalysisSnapshot, 'assessments'>,
+  current: Pick<AnalysisSnapshot, 'assessments'>
+): AssessmentFlip[] {
+  const before = new Map(previous.assessments.map(assessment => [assessment.id, assessment]))
+  const after = new Map(current.assessments.map(assessment => [assessment.id, assessment]))
+  const flips: AssessmentFlip[] = []
+
+  current.assessments.forEach(({ id, category, rating }) => {
+    const from = before.get(id)?.rating
+    if (from !== rating) flips.push({ id, category, from, to: rating, direction: getDirection(from, rating) })
+  })
+  previous.assessments
+    .filter(({ id }) => !after.has(id))
+    .forEach(({ id, category, rating }) => flips.push({ id, category, from: rating, direction: 'changed' }))
+
+  return flips
+}
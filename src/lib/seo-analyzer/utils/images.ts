@@ -0,0 +1,89 @@
+/**
+ * Per-image accessibility and SEO checks: alt text, keyword in alt,
+ * descriptive filenames, explicit dimensions and inline data-URI size.
+ */
+
+import { DocumentImage, ImageAudit, ImageIssue, ParsedDocument } from '../types'
+import { MAX_DATA_URI_IMAGE_BYTES } from '../config'
+import { findKeywordMatches } from './morphology'
+
+// Names cameras, phones and screenshot tools give files
+const GENERATED_FILENAME = /^(?:img|image|dsc[fn]?|dcim|pxl|gopr|mvimg|photo|pic|picture|screenshot|screen[-_ ]?shot|untitled|whatsapp[-_ ]image|wp|capture)(?:[-_ .()]*\d[\d\-_ .()at]*)?$/i
+const UUID = /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i
+
+export function getImageFilename(src: string): string | undefined {
+  if (src.startsWith('data:')) return undefined
+  const path = src.split(/[?#]/)[0]
+  const filename = path.slice(path.lastIndexOf('/') + 1)
+  try {
+    return decodeURIComponent(filename)
+  } catch {
+    return filename
+  }
+}
+
+export function isDescriptiveFilename(filename: string): boolean {
+  const name = filename.replace(/\.[a-z\d]+$/i, '')
+  if (name === '') return false
+  if (GENERATED_FILENAME.test(name) || UUID.test(name)) return false
+  // Numbers and hashes only, e.g. 1234.jpg or 8f3a9c0d12.png
+  if (/^[\d_ -]+$/.test(name) || /^[\da-f]{8,}$/i.test(name)) return false
+  return /\p{L}{3,}/u.test(name)
+}
+
+// Decoded size of a data URI's payload
+export function getDataUriBytes(src: string): number {
+  const comma = src.indexOf(',')
+  if (!src.startsWith('data:') || comma === -1) return 0
+  const payload = src.slice(comma + 1)
+  if (/;base64$/i.test(src.slice(0, comma))) {
+    const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0
+    return Math.floor(payload.replace(/\s/g, '').length * 3 / 4) - padding
+  }
+  try {
+    return decodeURIComponent(payload).length
+  } catch {
+    return payload.length
+  }
+}
+
+function findImageIssues(image: DocumentImage): ImageIssue[] {
+  const issues: ImageIssue[] = []
+
+  if (image.alt === undefined) {
+    issues.push({ type: 'missing-alt', message: 'Missing alt attribute' })
+  } else if (image.alt.trim() === '') {
+    issues.push({ type: 'empty-alt', message: 'Empty alt text; describe the image unless it is purely decorative' })
+  }
+
+  const filename = getImageFilename(image.src)
+  if (filename !== undefined && !isDescriptiveFilename(filename)) {
+    issues.push({ type: 'non-descriptive-filename', message: `Filename "${filename}" does not describe the image` })
+  }
+
+  if (image.syntax === 'html' && (!image.width || !image.height)) {
+    issues.push({ type: 'missing-dimensions', message: 'Missing width or height, which causes layout shift while loading' })
+  }
+
+  const bytes = getDataUriBytes(image.src)
+  if (bytes > MAX_DATA_URI_IMAGE_BYTES) {
+    issues.push({
+      type: 'oversized-data-uri',
+      message: `Inline data-URI image of ${Math.round(bytes / 1024)} KB; upload it as a file instead`
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Audits every image of the document, in document order
+ */
+export function auditImages(document: ParsedDocument, keyword?: string, synonyms: string[] = []): ImageAudit[] {
+  return document.images.map((image, index) => ({
+    ...image,
+    index,
+    hasKeyword: !!keyword && !!image.alt && findKeywordMatches(image.alt, keyword, synonyms).length > 0,
+    issues: findImageIssues(image)
+  }))
+}
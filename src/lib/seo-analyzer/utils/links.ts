@@ -0,0 +1,221 @@
+/**
+ * Link classification against the site configuration.
+ * Absolute links to our own domains are internal, links to the analyzed page
+ * itself are same-page anchors, and hrefs that cannot work are reported.
+ */
+
+import {
+  ClassifiedLink,
+  DocumentLink,
+  DocumentNode,
+  LinkClassificationOptions,
+  ParsedDocument,
+  SiteConfig
+} from '../types'
+import { DEFAULT_SITE_CONFIG } from '../config'
+
+// Schemes that do not point to a web page
+const NON_PAGE_SCHEMES = ['mailto:', 'tel:', 'sms:', 'data:']
+const SCHEME = /^[a-z][a-z\d+.-]*:/i
+// A scheme missing one slash (https:/page) or its colon (https//page)
+const MALFORMED_PROTOCOL = /^https?(?::\/?(?!\/)|\/\/)/i
+// A host written without protocol, which browsers resolve as a relative path
+const BARE_DOMAIN = /^(?:www\.|[a-z\d-]+(?:\.[a-z\d-]+)*\.(?:com|net|org|io|co|gov|edu|info|biz|ae|sa|qa|kw|bh|om|eg|uk|in)(?:[/:?#]|$))/i
+const PLACEHOLDER = /^(?:url|link|todo|tbd|\[?(?:url|link)\]?|insert[-_ ]?link|link[-_ ]?here)$/i
+const LOCAL_HOSTS = /^(?:localhost|127\.\d+\.\d+\.\d+|0\.0\.0\.0|\[::1\])$/
+
+export function isExternalUrl(href: string): boolean {
+  return /^(?:https?:)?\/\//i.test(href)
+}
+
+export function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^www\./, '').replace(/\.$/, '')
+}
+
+function normalizePrefix(prefix: string): string {
+  return '/' + prefix.replace(/^\/+|\/+$/g, '')
+}
+
+export function isSiteUrl(url: URL, siteConfig: SiteConfig): boolean {
+  const host = normalizeHost(url.hostname)
+  const onDomain = siteConfig.domains.some(domain => {
+    const siteHost = normalizeHost(domain)
+    return host === siteHost || (siteConfig.includeSubdomains !== false && host.endsWith(`.${siteHost}`))
+  })
+  if (!onDomain) return false
+
+  const prefixes = (siteConfig.pathPrefixes ?? []).map(normalizePrefix).filter(prefix => prefix !== '/')
+  return prefixes.length === 0 || prefixes.some(prefix => url.pathname === prefix || url.pathname.startsWith(`${prefix}/`))
+}
+
+/**
+ * Resolves `SEOData.url` to an absolute URL. A bare slug is placed under the
+ * first site domain and path prefix.
+ */
+export function resolvePageUrl(pageUrl: string | undefined, siteConfig: SiteConfig = DEFAULT_SITE_CONFIG): URL | undefined {
+  const value = pageUrl?.trim()
+  if (!value) return undefined
+
+  if (SCHEME.test(value) || value.startsWith('//')) {
+    try {
+      return new URL(value.startsWith('//') ? `https:${value}` : value)
+    } catch {
+      return undefined
+    }
+  }
+
+  const domain = siteConfig.domains[0]
+  if (!domain) return undefined
+  const prefix = normalizePrefix(siteConfig.pathPrefixes?.[0] ?? '')
+  const path = value.startsWith('/') ? value : `${prefix === '/' ? '' : prefix}/${value}`
+  try {
+    return new URL(path, `https://${normalizeHost(domain)}`)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Ids a same-page anchor can jump to: element ids, named anchors and the
+ * slugs renderers generate for headings
+ */
+function collectAnchorTargets(document: ParsedDocument): Set<string> {
+  const targets = new Set<string>()
+  const visit = (node: DocumentNode) => {
+    const { id, name } = node.attributes ?? {}
+    if (id) targets.add(id)
+    if (name && node.type === 'link') targets.add(name)
+    node.children.forEach(visit)
+  }
+  visit(document.root)
+
+  document.headings.forEach(heading => {
+    targets.add(heading.text.toLowerCase().trim().replace(/[^\p{L}\p{N}\s-]/gu, '').replace(/\s+/g, '-'))
+  })
+  return targets
+}
+
+function checkFragment(fragment: string, targets: Set<string>): string | undefined {
+  if (fragment === '') return 'Link points to "#" and goes nowhere'
+  let id = fragment
+  try {
+    id = decodeURIComponent(fragment)
+  } catch {
+    // Keep the raw fragment
+  }
+  if (!targets.has(id)) return `No heading or element with id "${id}" on this page`
+  return undefined
+}
+
+// Whether a relative path climbs above the root from its base directory
+function escapesRoot(path: string, baseDirectory: string[]): boolean {
+  const segments = [...baseDirectory]
+  for (const segment of path.split(/[?#]/)[0].split('/')) {
+    if (segment === '..') {
+      if (segments.length === 0) return true
+      segments.pop()
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment)
+    }
+  }
+  return false
+}
+
+function classifyRelative(
+  href: string,
+  pageUrl: URL | undefined,
+  targets: Set<string>
+): Pick<ClassifiedLink, 'type' | 'url' | 'issue'> {
+  let url: string | undefined
+  try {
+    url = pageUrl ? new URL(href, pageUrl).href : undefined
+  } catch {
+    url = undefined
+  }
+
+  if (href.startsWith('#')) {
+    return { type: 'anchor', url, issue: checkFragment(href.slice(1), targets) }
+  }
+
+  let issue: string | undefined
+  if (href === '') issue = 'Empty link target'
+  else if (PLACEHOLDER.test(href)) issue = 'Placeholder link target'
+  else if (BARE_DOMAIN.test(href)) issue = `Missing https:// — "${href}" is treated as a path on this site`
+  else if (/\s/.test(href)) issue = 'Link target contains spaces'
+  else if (href.includes('\\')) issue = 'Link target uses backslashes instead of slashes'
+  else if (href.startsWith('/') && escapesRoot(href, [])) issue = 'Link target points above the site root'
+  else if (pageUrl && !href.startsWith('/') && escapesRoot(href, pageUrl.pathname.split('/').filter(Boolean).slice(0, -1))) {
+    issue = 'Link target points above the site root'
+  }
+
+  return { type: 'internal', url, issue }
+}
+
+function classifyAbsolute(
+  href: string,
+  siteConfig: SiteConfig,
+  pageUrl: URL | undefined,
+  targets: Set<string>
+): Pick<ClassifiedLink, 'type' | 'url' | 'issue'> {
+  let url: URL
+  try {
+    url = new URL(href.startsWith('//') ? `https:${href}` : href)
+  } catch {
+    return { type: 'external', issue: 'Invalid URL' }
+  }
+
+  if (LOCAL_HOSTS.test(url.hostname)) {
+    return { type: 'external', url: url.href, issue: 'Link points to a local development server' }
+  }
+  if (!isSiteUrl(url, siteConfig)) {
+    return { type: 'external', url: url.href }
+  }
+
+  const samePage = pageUrl
+    && normalizeHost(url.hostname) === normalizeHost(pageUrl.hostname)
+    && url.pathname.replace(/\/$/, '') === pageUrl.pathname.replace(/\/$/, '')
+  if (samePage && url.hash) {
+    return { type: 'anchor', url: url.href, issue: checkFragment(url.hash.slice(1), targets) }
+  }
+  return { type: 'internal', url: url.href }
+}
+
+/**
+ * Classifies every link of the document as internal, external, a same-page
+ * anchor or other (mailto:, tel:, ...), flagging targets that look broken.
+ */
+export function classifyLinks(document: ParsedDocument, options: LinkClassificationOptions = {}): ClassifiedLink[] {
+  const siteConfig = options.siteConfig ?? DEFAULT_SITE_CONFIG
+  const pageUrl = resolvePageUrl(options.pageUrl, siteConfig)
+  const targets = collectAnchorTargets(document)
+
+  return document.links.map((link: DocumentLink): ClassifiedLink => {
+    const href = link.href.trim()
+    const lowerHref = href.toLowerCase()
+
+    if (MALFORMED_PROTOCOL.test(href)) {
+      return { ...link, type: 'external', issue: 'Malformed protocol, expected "https://"' }
+    }
+    if (lowerHref.startsWith('javascript:')) {
+      return { ...link, type: 'other', issue: 'Script links are not followed by search engines' }
+    }
+    if (NON_PAGE_SCHEMES.some(scheme => lowerHref.startsWith(scheme))) {
+      return { ...link, type: 'other' }
+    }
+    if (isExternalUrl(href) || SCHEME.test(href)) {
+      return { ...link, ...classifyAbsolute(href, siteConfig, pageUrl, targets) }
+    }
+    return { ...link, ...classifyRelative(href, pageUrl, targets) }
+  })
+}
+
+/**
+ * Internal and external link counts; broken links and same-page anchors are not counted
+ */
+export function countClassifiedLinks(links: ClassifiedLink[]): { internal: number, external: number } {
+  const working = links.filter(link => !link.issue)
+  return {
+    internal: working.filter(link => link.type === 'internal').length,
+    external: working.filter(link => link.type === 'external').length
+  }
+}
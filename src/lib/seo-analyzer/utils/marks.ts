@@ -0,0 +1,53 @@
+import { AssessmentMark } from '../types'
+import { parseDocument } from '../document'
+
+export interface PositionMap {
+  source: string
+  text: string
+  // sourceOffsets[i] is the index in `source` of the i-th character of `text`
+  sourceOffsets: number[]
+}
+
+/**
+ * Maps the plain text of the content back to its source. A parsed document
+ * already is a position map, so pass it to the mark helpers directly when at hand.
+ */
+export function createPositionMap(source: string): PositionMap {
+  return parseDocument(source)
+}
+
+/**
+ * Creates a mark from a range in the stripped text
+ */
+export function markFromTextRange(map: PositionMap, start: number, end: number): AssessmentMark {
+  const sourceStart = map.sourceOffsets[start] ?? map.source.length
+  const sourceEnd = end > start ? (map.sourceOffsets[end - 1] ?? map.source.length - 1) + 1 : sourceStart
+
+  return {
+    original: map.text.slice(start, end),
+    text: { start, end },
+    source: { start: sourceStart, end: sourceEnd }
+  }
+}
+
+/**
+ * Creates a mark from a range in the original content (e.g. a whole <p> element)
+ */
+export function markFromSourceRange(map: PositionMap, start: number, end: number): AssessmentMark {
+  let textStart = map.sourceOffsets.findIndex(offset => offset >= start)
+  if (textStart === -1) textStart = map.text.length
+  let textEnd = textStart
+  while (textEnd < map.sourceOffsets.length && map.sourceOffsets[textEnd] < end) {
+    textEnd++
+  }
+
+  // Skip the spaces that stand in for the surrounding tags
+  while (textStart < textEnd && map.text[textStart] === ' ') textStart++
+  while (textEnd > textStart && map.text[textEnd - 1] === ' ') textEnd--
+
+  return {
+    original: map.text.slice(textStart, textEnd),
+    text: { start: textStart, end: textEnd },
+    source: { start, end }
+  }
+}
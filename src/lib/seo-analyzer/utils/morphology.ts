@@ -0,0 +1,273 @@
+/**
+ * English morphology helpers for keyword matching.
+ * Word forms are reduced to a common stem (Porter algorithm) after
+ * irregular forms have been mapped to their base form.
+ */
+
+import { KeywordMatch, KeywordOccurrences } from '../types'
+
+// Irregular forms that suffix stripping cannot reduce to their base form
+const IRREGULAR_FORMS: Record<string, string> = {
+  men: 'man', women: 'woman', children: 'child', people: 'person', feet: 'foot',
+  teeth: 'tooth', mice: 'mouse', geese: 'goose', analyses: 'analysis', crises: 'crisis',
+  criteria: 'criterion', phenomena: 'phenomenon', indices: 'index', appendices: 'appendix',
+  lives: 'life', wives: 'wife', knives: 'knife', halves: 'half', selves: 'self',
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be',
+  began: 'begin', begun: 'begin', bought: 'buy', brought: 'bring', built: 'build',
+  chose: 'choose', chosen: 'choose', did: 'do', done: 'do', does: 'do',
+  felt: 'feel', found: 'find', gave: 'give', given: 'give', got: 'get', gotten: 'get',
+  went: 'go', gone: 'go', grew: 'grow', grown: 'grow', had: 'have', has: 'have',
+  held: 'hold', kept: 'keep', knew: 'know', known: 'know', led: 'lead', left: 'leave',
+  made: 'make', meant: 'mean', met: 'meet', paid: 'pay', ran: 'run', said: 'say',
+  saw: 'see', seen: 'see', sold: 'sell', sent: 'send', spent: 'spend', taught: 'teach',
+  told: 'tell', thought: 'think', took: 'take', taken: 'take', understood: 'understand',
+  won: 'win', wrote: 'write', written: 'write', better: 'good', best: 'good'
+}
+
+const WORD_REGEX = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu
+
+function isConsonant(word: string, i: number): boolean {
+  const char = word[i]
+  if ('aeiou'.includes(char)) return false
+  if (char === 'y') return i === 0 || !isConsonant(word, i - 1)
+  return true
+}
+
+// Number of vowel-consonant sequences in the stem
+function measure(stem: string): number {
+  let count = 0
+  let i = 0
+  const length = stem.length
+  while (i < length && isConsonant(stem, i)) i++
+  while (i < length) {
+    while (i < length && !isConsonant(stem, i)) i++
+    if (i >= length) break
+    while (i < length && isConsonant(stem, i)) i++
+    count++
+  }
+  return count
+}
+
+function containsVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true
+  }
+  return false
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const length = word.length
+  return length >= 2 && word[length - 1] === word[length - 2] && isConsonant(word, length - 1)
+}
+
+// consonant-vowel-consonant ending where the last consonant is not w, x or y
+function endsWithCvc(word: string): boolean {
+  const length = word.length
+  if (length < 3) return false
+  return isConsonant(word, length - 3) && !isConsonant(word, length - 2) && isConsonant(word, length - 1) &&
+    !'wxy'.includes(word[length - 1])
+}
+
+function replaceSuffix(word: string, rules: Array<[string, string]>, minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length)
+      return measure(stem) > minMeasure ? stem + replacement : word
+    }
+  }
+  return word
+}
+
+const STEP_2_RULES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log']
+]
+
+const STEP_3_RULES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+]
+
+const STEP_4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+]
+
+/**
+ * Porter stemmer: "outsourcing", "outsourced" and "outsources" all become "outsourc"
+ */
+export function stem(input: string): string {
+  let word = input.toLowerCase()
+  if (word.length <= 2) return word
+
+  // Step 1a: plurals
+  if (word.endsWith('sses')) word = word.slice(0, -2)
+  else if (word.endsWith('ies')) word = word.slice(0, -2)
+  else if (!word.endsWith('ss') && word.endsWith('s')) word = word.slice(0, -1)
+
+  // Step 1b: past tense and gerunds
+  let step1bApplied = false
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1)
+  } else if (word.endsWith('ed') && containsVowel(word.slice(0, -2))) {
+    word = word.slice(0, -2)
+    step1bApplied = true
+  } else if (word.endsWith('ing') && containsVowel(word.slice(0, -3))) {
+    word = word.slice(0, -3)
+    step1bApplied = true
+  }
+  if (step1bApplied) {
+    if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+      word += 'e'
+    } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+      word = word.slice(0, -1)
+    } else if (measure(word) === 1 && endsWithCvc(word)) {
+      word += 'e'
+    }
+  }
+
+  // Step 1c: y -> i
+  if (word.endsWith('y') && containsVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i'
+  }
+
+  // Steps 2-3: derivational suffixes
+  word = replaceSuffix(word, STEP_2_RULES, 0)
+  word = replaceSuffix(word, STEP_3_RULES, 0)
+
+  // Step 4: remove remaining suffixes on longer stems
+  for (const suffix of STEP_4_SUFFIXES) {
+    if (word.endsWith(suffix)) {
+      const base = word.slice(0, -suffix.length)
+      if (measure(base) > 1 && (suffix !== 'ion' || /[st]$/.test(base))) {
+        word = base
+      }
+      break
+    }
+  }
+
+  // Step 5: final e and double l
+  if (word.endsWith('e')) {
+    const base = word.slice(0, -1)
+    const m = measure(base)
+    if (m > 1 || (m === 1 && !endsWithCvc(base))) word = base
+  }
+  if (measure(word) > 1 && word.endsWith('ll')) {
+    word = word.slice(0, -1)
+  }
+
+  return word
+}
+
+/**
+ * Reduces a word to the form used for morphology comparisons
+ */
+export function normalizeWord(word: string): string {
+  const lower = word.toLowerCase().replace(/’/g, "'").replace(/'s$/, '')
+  return stem(IRREGULAR_FORMS[lower] ?? lower)
+}
+
+function tokenize(text: string): Array<{ word: string; start: number; end: number }> {
+  return Array.from(text.matchAll(WORD_REGEX), match => ({
+    word: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }))
+}
+
+/**
+ * Finds the focus keyword in the text, distinguishing exact matches,
+ * other word forms of the keyword, and (word forms of) its synonyms.
+ */
+export function findKeywordMatches(text: string, keyword: string, synonyms: string[] = []): KeywordMatch[] {
+  const tokens = tokenize(text)
+  const normalizedTokens = tokens.map(token => normalizeWord(token.word))
+  const phrases = [keyword, ...synonyms]
+    .map((phrase, index) => {
+      const words = tokenize(phrase).map(token => token.word)
+      return { words, normalized: words.map(normalizeWord), isSynonym: index > 0 }
+    })
+    .filter(({ words }) => words.length > 0)
+
+  const matches: KeywordMatch[] = []
+  let i = 0
+  while (i < tokens.length) {
+    let matched = false
+
+    for (const { words, normalized, isSynonym } of phrases) {
+      if (i + words.length > tokens.length) continue
+
+      const window = tokens.slice(i, i + words.length)
+      const isExact = window.every((token, j) => token.word === words[j])
+      const isMorphology = isExact || window.every((token, j) => normalizedTokens[i + j] === normalized[j])
+      if (!isMorphology) continue
+
+      const start = window[0].start
+      const end = window[window.length - 1].end
+      matches.push({
+        type: isSynonym ? 'synonym' : isExact ? 'exact' : 'morphology',
+        phrase: text.slice(start, end),
+        start,
+        end
+      })
+      i += words.length
+      matched = true
+      break
+    }
+
+    if (!matched) i++
+  }
+
+  return matches
+}
+
+export function countKeywordOccurrences(matches: KeywordMatch[]): KeywordOccurrences {
+  return {
+    exact: matches.filter(match => match.type === 'exact').length,
+    morphology: matches.filter(match => match.type === 'morphology').length,
+    synonym: matches.filter(match => match.type === 'synonym').length
+  }
+}
+
+/**
+ * Describes how a keyword was matched, e.g. "2 exact, 1 word form, 1 synonym"
+ */
+export function describeKeywordOccurrences(occurrences: KeywordOccurrences): string {
+  const parts = [`${occurrences.exact} exact`]
+  if (occurrences.morphology > 0) {
+    parts.push(`${occurrences.morphology} word form${occurrences.morphology === 1 ? '' : 's'}`)
+  }
+  if (occurrences.synonym > 0) {
+    parts.push(`${occurrences.synonym} synonym${occurrences.synonym === 1 ? '' : 's'}`)
+  }
+  return parts.join(', ')
+}
+
+// Words that carry no topic, ignored when checking whether all words of a keyword occur
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'from', 'by', 'with',
+  'about', 'into', 'as', 'is', 'are', 'be', 'how', 'what', 'why', 'when', 'which', 'who', 'vs', 'your', 'our'
+])
+
+/**
+ * Normalized forms of the keyword's content words; function words only count
+ * when the keyword consists of nothing else
+ */
+export function getKeywordStems(keyword: string): string[] {
+  const keywordWords = tokenize(keyword).map(token => token.word)
+  const contentWords = keywordWords.filter(word => !FUNCTION_WORDS.has(word))
+  return (contentWords.length > 0 ? contentWords : keywordWords).map(normalizeWord)
+}
+
+/**
+ * Share (0-1) of the keyword's content words that occur in the text in any word form,
+ * regardless of their order or distance
+ */
+export function getKeywordWordCoverage(text: string, keyword: string): number {
+  const words = getKeywordStems(keyword)
+  if (words.length === 0) return 0
+
+  const textWords = new Set(tokenize(text).map(token => normalizeWord(token.word)))
+  return words.filter(word => textWords.has(word)).length / words.length
+}
@@ -1,18 +1,40 @@
-import { ContentStatistics } from '../types'
-import { TRANSITION_WORDS, COMPLEX_WORDS_SYLLABLE_THRESHOLD } from '../config'
-
-export function analyzeText(content: string, keyword?: string): ContentStatistics {
-  const cleanContent = stripHtml(content)
-  const sentences = getSentences(cleanContent)
-  const words = getWords(cleanContent)
-  const paragraphs = getParagraphs(content)
+import {
+  AnalysisCache,
+  ContentStatistics,
+  LocalePack,
+  SentenceRange,
+  ParsedDocument,
+  LinkClassificationOptions,
+  TextCounts
+} from '../types'
+import { COMPLEX_WORDS_SYLLABLE_THRESHOLD } from '../config'
+import { findKeywordMatches, countKeywordOccurrences } from './morphology'
+import { englishLocalePack, countEnglishSyllables, isEnglishPassiveSentence } from '../locales/en'
+import { parseDocument } from '../document'
+import { classifyLinks, countClassifiedLinks } from './links'
+import { auditImages } from './images'
+
+export { isExternalUrl } from './links'
+
+export function analyzeText(
+  content: string,
+  keyword?: string,
+  synonyms: string[] = [],
+  localePack: LocalePack = englishLocalePack,
+  document: ParsedDocument = parseDocument(content),
+  linkOptions: LinkClassificationOptions = {},
+  cache?: AnalysisCache
+): ContentStatistics {
+  const cleanContent = document.text
+  const counts = cache ? cache.getTextCounts(document, localePack) : countText(cleanContent, localePack)
+  const paragraphs = document.paragraphs
   
   const stats: ContentStatistics = {
-    wordCount: words.length,
-    sentenceCount: sentences.length,
+    wordCount: counts.wordCount,
+    sentenceCount: counts.sentenceCount,
     paragraphCount: paragraphs.length,
-    syllableCount: 0,
-    complexWordCount: 0,
+    syllableCount: counts.syllableCount,
+    complexWordCount: counts.complexWordCount,
     linkCount: {
       internal: 0,
       external: 0
@@ -29,18 +51,10 @@ export function analyzeText(content: string, keyword?: string): ContentStatistic
     averageSentenceLength: 0,
     averageParagraphLength: 0,
     passiveVoicePercentage: 0,
-    transitionWordPercentage: 0
+    transitionWordPercentage: 0,
+    locale: localePack.locale
   }
 
-  // Calculate syllables and complex words
-  words.forEach(word => {
-    const syllables = countSyllables(word)
-    stats.syllableCount += syllables
-    if (syllables >= COMPLEX_WORDS_SYLLABLE_THRESHOLD) {
-      stats.complexWordCount++
-    }
-  })
-
   // Calculate averages
   stats.averageSentenceLength = stats.sentenceCount > 0 
     ? stats.wordCount / stats.sentenceCount 
@@ -50,101 +64,111 @@ export function analyzeText(content: string, keyword?: string): ContentStatistic
     ? stats.wordCount / stats.paragraphCount
     : 0
 
-  // Calculate Flesch Reading Ease
-  if (stats.sentenceCount > 0 && stats.wordCount > 0) {
-    stats.fleschReadingEase = 
-      206.835 - 
-      1.015 * (stats.wordCount / stats.sentenceCount) -
-      84.6 * (stats.syllableCount / stats.wordCount)
+  // Calculate reading ease with the locale's formula (Flesch Reading Ease for English)
+  const formula = localePack.readabilityFormula
+  if (formula && stats.sentenceCount > 0 && stats.wordCount > 0) {
+    stats.readabilityFormula = formula.name
+    stats.fleschReadingEase = formula.calculate(stats)
     stats.fleschReadingEase = Math.max(0, Math.min(100, stats.fleschReadingEase))
   }
 
-  // Calculate passive voice percentage
-  stats.passiveVoicePercentage = calculatePassiveVoicePercentage(sentences)
-
-  // Calculate transition word percentage
-  stats.transitionWordPercentage = calculateTransitionWordPercentage(sentences)
+  // Calculate passive voice and transition word percentages
+  if (counts.sentenceCount > 0) {
+    stats.passiveVoicePercentage = (counts.passiveSentenceCount / counts.sentenceCount) * 100
+    stats.transitionWordPercentage = (counts.transitionSentenceCount / counts.sentenceCount) * 100
+  }
 
   // Calculate keyword density if keyword provided
   if (keyword) {
-    stats.keywordDensity = calculateKeywordDensity(cleanContent, keyword)
+    const occurrences = countKeywordOccurrences(findKeywordMatches(cleanContent, keyword, synonyms))
+    const totalOccurrences = occurrences.exact + occurrences.morphology + occurrences.synonym
+    stats.keywordOccurrences = occurrences
+    stats.keywordDensity = counts.wordCount > 0 ? (occurrences.exact / counts.wordCount) * 100 : 0
+    stats.keywordMorphologyDensity = counts.wordCount > 0 ? (totalOccurrences / counts.wordCount) * 100 : 0
   }
 
-  // Count links
-  const linkCounts = countLinks(content)
-  stats.linkCount = linkCounts
+  // Classify and count links
+  stats.links = classifyLinks(document, linkOptions)
+  stats.linkCount = countClassifiedLinks(stats.links)
 
-  // Count images
-  stats.imageCount = countImages(content)
+  // Count and audit images
+  stats.imageCount = document.images.length
+  stats.images = auditImages(document, keyword, synonyms)
 
   // Count headings
-  stats.headingCount = countHeadings(content)
+  stats.headingCount = countDocumentHeadings(document)
 
   return stats
 }
 
+/**
+ * Word, sentence and syllable counts of plain text
+ */
+export function countText(text: string, localePack: LocalePack = englishLocalePack): TextCounts {
+  const sentences = getSentences(text, localePack)
+  const counts: TextCounts = {
+    wordCount: 0,
+    sentenceCount: sentences.length,
+    syllableCount: 0,
+    complexWordCount: 0,
+    passiveSentenceCount: sentences.filter(sentence => localePack.isPassiveSentence(sentence)).length,
+    transitionSentenceCount: sentences.filter(sentence => localePack.hasTransitionWord(sentence)).length
+  }
+
+  localePack.getWords(text).forEach(word => {
+    const syllables = localePack.countSyllables(word)
+    counts.wordCount++
+    counts.syllableCount += syllables
+    if (syllables >= COMPLEX_WORDS_SYLLABLE_THRESHOLD) {
+      counts.complexWordCount++
+    }
+  })
+
+  return counts
+}
+
 export function stripHtml(html: string): string {
-  return html
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-    .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim()
+  return parseDocument(html).text
+}
+
+export function getSentences(text: string, localePack: LocalePack = englishLocalePack): string[] {
+  // Split by the locale's sentence-ending punctuation
+  return localePack.getSentenceRanges(text).map(range => range.sentence)
 }
 
-export function getSentences(text: string): string[] {
-  // Split by sentence-ending punctuation
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || []
-  return sentences.map(s => s.trim()).filter(s => s.length > 0)
+export function getSentenceRanges(text: string, localePack: LocalePack = englishLocalePack): SentenceRange[] {
+  return localePack.getSentenceRanges(text)
 }
 
-export function getWords(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s'-]/g, '')
-    .split(/\s+/)
-    .filter(word => word.length > 0)
+export function getWords(text: string, localePack: LocalePack = englishLocalePack): string[] {
+  return localePack.getWords(text)
 }
 
 export function getParagraphs(html: string): string[] {
-  const paragraphs = html.match(/<p[^>]*>.*?<\/p>/gi) || []
-  return paragraphs.map(p => stripHtml(p)).filter(p => p.length > 0)
+  return parseDocument(html).paragraphs.map(p => p.text).filter(p => p.length > 0)
 }
 
-export function countSyllables(word: string): number {
-  word = word.toLowerCase()
-  let count = 0
-  let previousWasVowel = false
-  
-  for (let i = 0; i < word.length; i++) {
-    const isVowel = /[aeiou]/.test(word[i])
-    if (isVowel && !previousWasVowel) {
-      count++
-    }
-    previousWasVowel = isVowel
-  }
-  
-  // Adjust for silent e
-  if (word.endsWith('e') && count > 1) {
-    count--
-  }
-  
-  // Ensure at least one syllable
-  return Math.max(1, count)
+export function getParagraphRanges(
+  html: string,
+  document: ParsedDocument = parseDocument(html)
+): Array<{ paragraph: string; start: number; end: number }> {
+  return document.paragraphs
+    .filter(({ text }) => text.length > 0)
+    .map(({ text, start, end }) => ({ paragraph: text, start, end }))
 }
 
-export function calculatePassiveVoicePercentage(sentences: string[]): number {
+// English rules, kept here for existing callers
+export { countEnglishSyllables as countSyllables, isEnglishPassiveSentence as isPassiveSentence }
+
+export function calculatePassiveVoicePercentage(
+  sentences: string[],
+  localePack: LocalePack = englishLocalePack
+): number {
   if (sentences.length === 0) return 0
   
-  const passiveIndicators = [
-    /\b(was|were|been|being|is|are|am)\s+\w+ed\b/i,
-    /\b(was|were|been|being|is|are|am)\s+\w+en\b/i,
-    /\b(get|gets|got|gotten|getting)\s+\w+ed\b/i
-  ]
-  
   let passiveCount = 0
   sentences.forEach(sentence => {
-    if (passiveIndicators.some(pattern => pattern.test(sentence))) {
+    if (localePack.isPassiveSentence(sentence)) {
       passiveCount++
     }
   })
@@ -152,19 +176,13 @@ export function calculatePassiveVoicePercentage(sentences: string[]): number {
   return (passiveCount / sentences.length) * 100
 }
 
-export function calculateTransitionWordPercentage(sentences: string[]): number {
+export function calculateTransitionWordPercentage(
+  sentences: string[],
+  localePack: LocalePack = englishLocalePack
+): number {
   if (sentences.length === 0) return 0
   
-  let transitionCount = 0
-  sentences.forEach(sentence => {
-    const sentenceLower = sentence.toLowerCase()
-    if (TRANSITION_WORDS.some(word => {
-      const regex = new RegExp(`\\b${word}\\b`, 'i')
-      return regex.test(sentenceLower)
-    })) {
-      transitionCount++
-    }
-  })
+  const transitionCount = sentences.filter(sentence => localePack.hasTransitionWord(sentence)).length
   
   return (transitionCount / sentences.length) * 100
 }
@@ -173,49 +191,19 @@ export function calculateKeywordDensity(text: string, keyword: string): number {
   const words = getWords(text)
   if (words.length === 0) return 0
   
-  const keywordLower = keyword.toLowerCase()
-  const keywordWords = keywordLower.split(/\s+/)
-  let occurrences = 0
-  
-  // For single-word keywords
-  if (keywordWords.length === 1) {
-    occurrences = words.filter(word => word === keywordLower).length
-  } else {
-    // For multi-word keywords
-    const textLower = text.toLowerCase()
-    const regex = new RegExp(`\\b${keywordLower}\\b`, 'g')
-    const matches = textLower.match(regex)
-    occurrences = matches ? matches.length : 0
-  }
+  const occurrences = findKeywordMatches(text, keyword).filter(match => match.type === 'exact').length
   
   return (occurrences / words.length) * 100
 }
 
-export function countLinks(html: string): { internal: number, external: number } {
-  const linkRegex = /<a[^>]+href=["']([^"']+)["'][^>]*>/gi
-  let match
-  let internal = 0
-  let external = 0
-  
-  while ((match = linkRegex.exec(html)) !== null) {
-    const href = match[1]
-    if (href.startsWith('http://') || href.startsWith('https://')) {
-      external++
-    } else if (!href.startsWith('mailto:') && !href.startsWith('tel:')) {
-      internal++
-    }
-  }
-  
-  return { internal, external }
+export function countDocumentLinks(
+  document: ParsedDocument,
+  options: LinkClassificationOptions = {}
+): { internal: number, external: number } {
+  return countClassifiedLinks(classifyLinks(document, options))
 }
 
-export function countImages(html: string): number {
-  const imgRegex = /<img[^>]+>/gi
-  const matches = html.match(imgRegex)
-  return matches ? matches.length : 0
-}
-
-export function countHeadings(html: string): ContentStatistics['headingCount'] {
+export function countDocumentHeadings(document: ParsedDocument): ContentStatistics['headingCount'] {
   const counts = {
     h1: 0,
     h2: 0,
@@ -224,12 +212,22 @@ export function countHeadings(html: string): ContentStatistics['headingCount'] {
     h5: 0,
     h6: 0
   }
-  
-  for (let i = 1; i <= 6; i++) {
-    const regex = new RegExp(`<h${i}[^>]*>.*?</h${i}>`, 'gi')
-    const matches = html.match(regex)
-    counts[`h${i}` as keyof typeof counts] = matches ? matches.length : 0
-  }
-  
+
+  document.headings.forEach(({ level }) => {
+    counts[`h${level}` as keyof typeof counts]++
+  })
+
   return counts
-}
\ No newline at end of file
+}
+
+export function countLinks(html: string): { internal: number, external: number } {
+  return countDocumentLinks(parseDocument(html))
+}
+
+export function countImages(html: string): number {
+  return parseDocument(html).images.length
+}
+
+export function countHeadings(html: string): ContentStatistics['headingCount'] {
+  return countDocumentHeadings(parseDocument(html))
+}
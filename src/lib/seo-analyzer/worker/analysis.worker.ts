@@ -0,0 +1,23 @@
+/**
+ * Web Worker entry that analyzes the article off the main thread. The cache
+ * lives as long as the worker, so each request only recounts edited blocks.
+ */
+
+import { SEOAnalyzer } from '../index'
+import { IncrementalAnalysisCache } from '../incremental'
+import { AnalysisRequest, AnalysisResponse } from '../types'
+
+// The DOM lib types `self` as a window; the worker scope has the same message API as a Worker
+const scope = self as unknown as Worker
+const cache = new IncrementalAnalysisCache()
+
+scope.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const { id, seoData, isCornerstone, siteConfig } = event.data
+  let response: AnalysisResponse
+  try {
+    response = { id, result: SEOAnalyzer.analyze(seoData, isCornerstone, { siteConfig, cache }) }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Analysis failed' }
+  }
+  scope.postMessage(response)
+}
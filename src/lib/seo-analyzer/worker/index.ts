@@ -0,0 +1,79 @@
+import { AnalysisRequest, AnalysisResponse, AnalysisResult, AnalysisWorkerClient, SEOData, SiteConfig } from '../types'
+import { SEOAnalyzer } from '../index'
+import { IncrementalAnalysisCache } from '../incremental'
+
+interface PendingRequest {
+  request: AnalysisRequest
+  resolve: (result: AnalysisResult | null) => void
+  reject: (error: Error) => void
+}
+
+// Same contract in the current thread, for environments without Web Workers
+function createInlineClient(): AnalysisWorkerClient {
+  const cache = new IncrementalAnalysisCache()
+  return {
+    analyze: async (seoData, isCornerstone, siteConfig) => SEOAnalyzer.analyze(seoData, isCornerstone, { siteConfig, cache }),
+    terminate: () => cache.clear()
+  }
+}
+
+/**
+ * Starts the analysis worker. Only one request runs at a time; while it runs,
+ * newer requests replace each other so fast typing never builds a backlog.
+ */
+export function createAnalysisWorker(): AnalysisWorkerClient {
+  if (typeof Worker === 'undefined') return createInlineClient()
+
+  const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' })
+  let nextId = 0
+  let running: PendingRequest | null = null
+  let waiting: PendingRequest | null = null
+
+  const send = (pending: PendingRequest) => {
+    running = pending
+    worker.postMessage(pending.request)
+  }
+
+  const sendWaiting = () => {
+    running = null
+    if (waiting) {
+      const next = waiting
+      waiting = null
+      send(next)
+    }
+  }
+
+  worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+    const response = event.data
+    if (running?.request.id === response.id) {
+      if ('error' in response) running.reject(new Error(response.error))
+      else running.resolve(response.result)
+    }
+    sendWaiting()
+  }
+
+  worker.onerror = event => {
+    running?.reject(new Error(event.message || 'Analysis worker failed'))
+    sendWaiting()
+  }
+
+  return {
+    analyze: (seoData: SEOData, isCornerstone: boolean, siteConfig?: SiteConfig) =>
+      new Promise<AnalysisResult | null>((resolve, reject) => {
+        const pending = { request: { id: ++nextId, seoData, isCornerstone, siteConfig }, resolve, reject }
+        if (!running) {
+          send(pending)
+          return
+        }
+        waiting?.resolve(null)
+        waiting = pending
+      }),
+    terminate: () => {
+      worker.terminate()
+      running?.resolve(null)
+      waiting?.resolve(null)
+      running = null
+      waiting = null
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import { createClient, type Client } from '@libsql/client'
+import { getLibSQLConfig } from '@/lib/env'
+import { getModelPrices, getUsageBudget, type ModelPrice, type UsageBudget } from '@/config/usage'
+
+export type UsagePeriod = 'day' | 'month'
+
+export interface UsageEntryInput {
+  agent: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  // Workflow run the call was made in, and the user who started it
+  runId?: string
+  userId?: string
+  articleId?: string
+}
+
+export interface UsageEntry extends UsageEntryInput {
+  id: number
+  totalTokens: number
+  // Undefined when the price table has no entry for the model
+  costUsd?: number
+  createdAt: string
+}
+
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+}
+
+// Totals of a day (YYYY-MM-DD) or month (YYYY-MM), or of an agent or model
+export interface UsageRollup extends UsageTotals {
+  key: string
+}
+
+export interface BudgetStatus {
+  limitUsd?: number
+  spentUsd: number
+  exceeded: boolean
+}
+
+export interface UsageBudgetStatus {
+  daily: BudgetStatus
+  monthly: BudgetStatus
+  exceeded: boolean
+}
+
+interface UsageLedgerOptions {
+  client?: Client
+  prices?: Record<string, ModelPrice>
+  getBudget?: (userId: string) => UsageBudget
+}
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS usage_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT,
+    article_id TEXT,
+    user_id TEXT,
+    agent TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL,
+    completion_tokens INTEGER NOT NULL,
+    cost_usd REAL,
+    created_at INTEGER NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS usage_entries_user_created ON usage_entries (user_id, created_at)',
+  'CREATE INDEX IF NOT EXISTS usage_entries_run ON usage_entries (run_id)'
+]
+
+const PERIOD_FORMATS: Record<UsagePeriod, string> = { day: '%Y-%m-%d', month: '%Y-%m' }
+
+/**
+ * Price of a model: its entry in the table, or the longest entry its id
+ * starts with. Provider prefixes such as `openai/` are ignored.
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  const id = model.slice(model.lastIndexOf('/') + 1)
+  const match = Object.keys(prices)
+    .filter(key => id === key || id.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? prices[match] : undefined
+}
+
+export function estimateCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+}
+
+// Start of the UTC day or month `date` falls in
+function startOf(period: UsagePeriod, date: Date): number {
+  return period === 'day'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+}
+
+function toTotals(row: Record<string, unknown>): UsageTotals {
+  const promptTokens = Number(row.prompt_tokens ?? 0)
+  const completionTokens = Number(row.completion_tokens ?? 0)
+  return {
+    calls: Number(row.calls ?? 0),
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    costUsd: Number(row.cost_usd ?? 0)
+  }
+}
+
+function toBudgetStatus(limitUsd: number | undefined, spentUsd: number): BudgetStatus {
+  return { limitUsd, spentUsd, exceeded: limitUsd !== undefined && spentUsd >= limitUsd }
+}
+
+/**
+ * Records the tokens and estimated cost of every agent call, in the LibSQL
+ * database the workflow run registry uses, and checks users' spending
+ * against their budgets. Times are bucketed in UTC.
+ */
+export class UsageLedger {
+  private client?: Client
+  private ready?: Promise<void>
+  private prices: () => Record<string, ModelPrice>
+  private getBudget: (userId: string) => UsageBudget
+
+  constructor({ client, prices, getBudget = getUsageBudget }: UsageLedgerOptions = {}) {
+    this.client = client
+    this.prices = prices ? () => prices : getModelPrices
+    this.getBudget = getBudget
+  }
+
+  private async getClient(): Promise<Client> {
+    this.client ??= createClient(getLibSQLConfig())
+    const client = this.client
+    this.ready ??= client.batch(SCHEMA, 'write').then(() => undefined)
+    await this.ready
+    return client
+  }
+
+  async record(input: UsageEntryInput): Promise<UsageEntry> {
+    const client = await this.getClient()
+    const price = findModelPrice(input.model, this.prices())
+    const costUsd = price ? estimateCost(price, input.promptTokens, input.completionTokens) : undefined
+    if (!price) console.warn(`No price for model ${input.model}; its usage is recorded without a cost`)
+
+    const createdAt = Date.now()
+    const result = await client.execute({
+      sql: `INSERT INTO usage_entries (run_id, article_id, user_id, agent, model, prompt_tokens, completion_tokens, cost_usd, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        input.runId ?? null,
+        input.articleId ?? null,
+        input.userId ?? null,
+        input.agent,
+        input.model,
+        input.promptTokens,
+        input.completionTokens,
+        costUsd ?? null,
+        createdAt
+      ]
+    })
+    return {
+      ...input,
+      id: Number(result.lastInsertRowid),
+      totalTokens: input.promptTokens + input.completionTokens,
+      costUsd,
+      createdAt: new Date(createdAt).toISOString()
+    }
+  }
+
+  /**
+   * Tags the entries of a run with the article it produced
+   */
+  async assignArticle(runId: string, articleId: string): Promise<void> {
+    const client = await this.getClient()
+    await client.execute({ sql: 'UPDATE usage_entries SET article_id = ? WHERE run_id = ?', args: [articleId, runId] })
+  }
+
+  /**
+   * The user's totals per day or month from `since` on, oldest first
+   */
+  async rollup({ userId, period, since }: { userId: string; period: UsagePeriod; since: Date }): Promise<UsageRollup[]> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: `SELECT strftime('${PERIOD_FORMATS[period]}', created_at / 1000, 'unixepoch') AS key, COUNT(*) AS calls,
+          SUM(prompt_tokens) AS prompt_tokens, SUM(completion_tokens) AS completion_tokens, SUM(cost_usd) AS cost_usd
+        FROM usage_entries WHERE user_id = ? AND created_at >= ?
+        GROUP BY key ORDER BY key ASC`,
+      args: [userId, since.getTime()]
+    })
+    return rows.map(row => ({ key: String(row.key), ...toTotals(row) }))
+  }
+
+  /**
+   * Totals per agent or model of a user's entries from `since` on, or of a run's entries
+   */
+  async breakdown({ by, userId, runId, since }: {
+    by: 'agent' | 'model'
+    userId: string
+    runId?: string
+    since?: Date
+  }): Promise<UsageRollup[]> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: `SELECT ${by} AS key, COUNT(*) AS calls,
+          SUM(prompt_tokens) AS prompt_tokens, SUM(completion_tokens) AS completion_tokens, SUM(cost_usd) AS cost_usd
+        FROM usage_entries WHERE user_id = ?${runId ? ' AND run_id = ?' : ''} AND created_at >= ?
+        GROUP BY key ORDER BY cost_usd DESC, key ASC`,
+      args: runId ? [userId, runId, since?.getTime() ?? 0] : [userId, since?.getTime() ?? 0]
+    })
+    return rows.map(row => ({ key: String(row.key), ...toTotals(row) }))
+  }
+
+  private async spentSince(userId: string, since: number): Promise<number> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: 'SELECT SUM(cost_usd) AS cost_usd FROM usage_entries WHERE user_id = ? AND created_at >= ?',
+      args: [userId, since]
+    })
+    return Number(rows[0]?.cost_usd ?? 0)
+  }
+
+  /**
+   * The user's spending this UTC day and month against their budget. New
+   * runs are refused while either is exceeded.
+   */
+  async getBudgetStatus(userId: string, now = new Date()): Promise<UsageBudgetStatus> {
+    const budget = this.getBudget(userId)
+    const [today, thisMonth] = await Promise.all([
+      this.spentSince(userId, startOf('day', now)),
+      this.spentSince(userId, startOf('month', now))
+    ])
+    const daily = toBudgetStatus(budget.dailyUsd, today)
+    const monthly = toBudgetStatus(budget.monthlyUsd, thisMonth)
+    return { daily, monthly, exceeded: daily.exceeded || monthly.exceeded }
+  }
+}
+
+export const usageLedger = new UsageLedger()
@@ -0,0 +1,166 @@
+import { z } from 'zod'
+import { ARTICLE_TYPES } from '@/lib/seo-analyzer'
+import type { ArticleType } from '@/lib/seo-analyzer/types'
+import { sanitizeInput } from '@/lib/security'
+import type { WorkflowRunStatus } from '@/lib/workflow-runs'
+
+// Rows a single CSV may queue
+export const MAX_BATCH_ROWS = 100
+export const MAX_BATCH_CONCURRENCY = 10
+
+// Named priorities; a number is used as is. Higher runs first.
+const PRIORITIES: Record<string, number> = { high: 3, medium: 2, normal: 2, low: 1 }
+const DEFAULT_PRIORITY = PRIORITIES.medium
+
+export interface WorkflowBatchRowInput {
+  keyword: string
+  articleType: ArticleType
+  audience?: string
+  priority: number
+}
+
+// A row waits as `queued` until a worker starts its run; after that it has the status of the run
+export type WorkflowBatchRowStatus = 'queued' | WorkflowRunStatus
+
+export interface WorkflowBatchRow extends WorkflowBatchRowInput {
+  index: number
+  status: WorkflowBatchRowStatus
+  runId?: string
+  // Article document saved from the finished run
+  articleId?: string
+  error?: string
+}
+
+export interface WorkflowBatch {
+  batchId: string
+  userId: string
+  orgId?: string
+  userEmail: string
+  // Runs of the batch executing at once
+  concurrency: number
+  rows: WorkflowBatchRow[]
+  createdAt: string
+}
+
+export interface BatchCsvError {
+  // 1-based line of the CSV, counting the header
+  line: number
+  message: string
+}
+
+const batchRowSchema = z.object({
+  keyword: z.string().trim().min(1, 'Keyword is required').max(500).transform(sanitizeInput),
+  articleType: z.preprocess(
+    value => (typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : undefined),
+    z.enum(ARTICLE_TYPES).default('informational')
+  ),
+  audience: z.string().trim().max(200).optional().transform(value => value ? sanitizeInput(value) : undefined),
+  priority: z.string().optional().transform((value, ctx) => {
+    const priority = value?.trim().toLowerCase()
+    if (!priority) return DEFAULT_PRIORITY
+    if (priority in PRIORITIES) return PRIORITIES[priority]
+    if (/^-?\d+$/.test(priority)) return Number(priority)
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Priority must be high, medium, low or a whole number, got "${value}"` })
+    return z.NEVER
+  })
+})
+
+// Header names each column is recognized by, compared without case, spaces or punctuation
+const COLUMN_ALIASES: Record<keyof WorkflowBatchRowInput, string[]> = {
+  keyword: ['keyword', 'focuskeyword', 'topic'],
+  articleType: ['articletype', 'type'],
+  audience: ['audience', 'targetaudience'],
+  priority: ['priority']
+}
+
+/**
+ * Splits CSV text into records of fields. Handles quoted fields with
+ * embedded commas, doubled quotes and line breaks.
+ */
+function parseCsvRecords(text: string): { fields: string[]; line: number }[] {
+  const records: { fields: string[]; line: number }[] = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const endRecord = () => {
+    fields.push(field)
+    if (fields.some(value => value.trim())) records.push({ fields, line: recordLine })
+    fields = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRecord()
+      recordLine = ++line
+    } else {
+      field += char
+    }
+  }
+  endRecord()
+  return records
+}
+
+/**
+ * Parses a content calendar CSV with a header row naming the keyword, article
+ * type, audience and priority columns. Only the keyword column is required.
+ * Returns the valid rows and an error for each line that is not.
+ */
+export function parseBatchCsv(text: string): { rows: WorkflowBatchRowInput[]; errors: BatchCsvError[] } {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''))
+  if (!header) {
+    return { rows: [], errors: [{ line: 1, message: 'The CSV is empty' }] }
+  }
+
+  const names = header.fields.map(name => name.toLowerCase().replace(/[^a-z]/g, ''))
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([key, aliases]) => [key, names.findIndex(name => aliases.includes(name))])
+  ) as Record<keyof WorkflowBatchRowInput, number>
+  if (columns.keyword === -1) {
+    return { rows: [], errors: [{ line: header.line, message: 'The header has no keyword column' }] }
+  }
+
+  const rows: WorkflowBatchRowInput[] = []
+  const errors: BatchCsvError[] = []
+  for (const { fields, line } of records) {
+    const value = (column: number) => (column === -1 ? undefined : fields[column])
+    const parsed = batchRowSchema.safeParse({
+      keyword: value(columns.keyword) ?? '',
+      articleType: value(columns.articleType),
+      audience: value(columns.audience),
+      priority: value(columns.priority)
+    })
+    if (parsed.success) {
+      rows.push(parsed.data)
+    } else {
+      errors.push(...parsed.error.issues.map(issue => ({ line, message: `${issue.path.join('.')}: ${issue.message}` })))
+    }
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ line: header.line, message: 'The CSV has no rows' })
+  } else if (rows.length > MAX_BATCH_ROWS) {
+    errors.push({ line: header.line, message: `A batch holds at most ${MAX_BATCH_ROWS} rows, got ${rows.length}` })
+  }
+  return { rows, errors }
+}
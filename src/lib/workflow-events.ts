@@ -0,0 +1,197 @@
+import { z } from 'zod'
+
+/**
+ * Version of the workflow event schema. Bump it on any change clients need to
+ * know about; clients ignore events of versions they do not understand.
+ */
+export const WORKFLOW_EVENT_VERSION = 1
+
+const envelope = {
+  version: z.literal(WORKFLOW_EVENT_VERSION),
+  // Position of the event in its run, sent as the SSE id
+  id: z.number().int().positive(),
+  runId: z.string(),
+  timestamp: z.number()
+}
+
+const stepId = z.string().describe('Id of the workflow step, e.g. research_phase')
+
+export const workflowEventSchema = z.discriminatedUnion('type', [
+  z.object({ ...envelope, type: z.literal('run_started') }),
+  z.object({ ...envelope, type: z.literal('step_started'), stepId }),
+  z.object({ ...envelope, type: z.literal('step_completed'), stepId, durationMs: z.number().optional() }),
+  z.object({ ...envelope, type: z.literal('step_failed'), stepId, error: z.string() }),
+  z.object({ ...envelope, type: z.literal('step_suspended'), stepId }),
+  z.object({ ...envelope, type: z.literal('tool_call'), stepId, agent: z.string(), toolName: z.string() }),
+  z.object({
+    ...envelope,
+    type: z.literal('token_usage'),
+    stepId,
+    agent: z.string(),
+    promptTokens: z.number(),
+    completionTokens: z.number(),
+    totalTokens: z.number()
+  }),
+  z.object({ ...envelope, type: z.literal('workflow_complete'), result: z.unknown() }),
+  z.object({ ...envelope, type: z.literal('workflow_suspended'), review: z.unknown().optional() }),
+  z.object({ ...envelope, type: z.literal('workflow_failed'), error: z.string() })
+])
+
+export type WorkflowEvent = z.infer<typeof workflowEventSchema>
+export type WorkflowEventType = WorkflowEvent['type']
+// An event before the envelope is added
+export type WorkflowEventBody = WorkflowEvent extends infer E ? (E extends WorkflowEvent ? Omit<E, keyof typeof envelope> : never) : never
+
+// Events after which the stream of a run ends
+export const TERMINAL_EVENT_TYPES: WorkflowEventType[] = ['workflow_complete', 'workflow_suspended', 'workflow_failed']
+
+export function isTerminalEvent(event: Pick<WorkflowEvent, 'type'>): boolean {
+  return TERMINAL_EVENT_TYPES.includes(event.type)
+}
+
+// Telemetry the workflow's steps write to their step writer
+export type StepTelemetry =
+  | { type: 'tool-call'; agent: string; toolName: string }
+  | { type: 'usage'; agent: string; promptTokens: number; completionTokens: number; totalTokens: number }
+
+interface MastraChunk {
+  type: string
+  payload?: Record<string, any>
+}
+
+/**
+ * Maps an event of a Mastra run (`watch-v2` events and the step output
+ * chunks of its writable stream) to the workflow events it stands for
+ */
+export function toWorkflowEvents(chunk: MastraChunk, startedAt: Map<string, number> = new Map()): WorkflowEventBody[] {
+  const payload = chunk.payload ?? {}
+  switch (chunk.type) {
+    case 'step-start':
+      startedAt.set(payload.id, payload.startedAt ?? Date.now())
+      return [{ type: 'step_started', stepId: payload.id }]
+    case 'step-result': {
+      if (payload.status === 'failed') {
+        const error = payload.error instanceof Error ? payload.error.message : String(payload.error ?? 'Step failed')
+        return [{ type: 'step_failed', stepId: payload.id, error: error.split('\n')[0] }]
+      }
+      const started = startedAt.get(payload.id)
+      const durationMs = started !== undefined && payload.endedAt ? payload.endedAt - started : undefined
+      return [{ type: 'step_completed', stepId: payload.id, durationMs }]
+    }
+    case 'step-suspended':
+      return [{ type: 'step_suspended', stepId: payload.id }]
+    case 'step-output': {
+      const output = payload.output as StepTelemetry | undefined
+      const id = payload.stepName ?? 'unknown'
+      if (output?.type === 'tool-call') {
+        return [{ type: 'tool_call', stepId: id, agent: output.agent, toolName: output.toolName }]
+      }
+      if (output?.type === 'usage') {
+        const { agent, promptTokens, completionTokens, totalTokens } = output
+        return [{ type: 'token_usage', stepId: id, agent, promptTokens, completionTokens, totalTokens }]
+      }
+      return []
+    }
+    default:
+      return []
+  }
+}
+
+export function formatSSE(event: WorkflowEvent): string {
+  return `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * Parses one SSE message. Messages that are not workflow events of a version
+ * this client understands are skipped.
+ */
+export function parseSSE(message: string): WorkflowEvent | null {
+  const data = message
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n')
+  if (!data) return null
+
+  try {
+    const parsed = workflowEventSchema.safeParse(JSON.parse(data))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads the workflow events of an SSE response body as they arrive
+ */
+export async function* readWorkflowEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<WorkflowEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const messages = buffer.split('\n\n')
+      buffer = messages.pop() ?? ''
+      for (const message of messages) {
+        const event = parseSSE(message)
+        if (event) yield event
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+interface FollowOptions {
+  // Reconnections tried in a row before giving up
+  maxRetries?: number
+  retryDelayMs?: number
+}
+
+/**
+ * Follows the events of a workflow run to its terminal event. `open` starts
+ * the stream; when the connection drops it is called again with the run id
+ * and the id of the last event received, and the events missed in between
+ * are replayed. Returns the terminal event.
+ */
+export async function followWorkflowEvents(
+  open: (resumeFrom?: { runId: string; lastEventId: number }) => Promise<Response>,
+  onEvent: (event: WorkflowEvent) => void,
+  { maxRetries = 5, retryDelayMs = 1000 }: FollowOptions = {}
+): Promise<WorkflowEvent> {
+  let resumeFrom: { runId: string; lastEventId: number } | undefined
+  let attempts = 0
+
+  while (true) {
+    try {
+      const response = await open(resumeFrom)
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        const error = new Error(data.error || `Workflow event stream failed with status ${response.status}`)
+        // Client errors do not go away by reconnecting
+        if (response.status < 500) throw Object.assign(error, { fatal: true })
+        throw error
+      }
+
+      for await (const event of readWorkflowEvents(response.body)) {
+        if (resumeFrom && event.id <= resumeFrom.lastEventId) continue
+        resumeFrom = { runId: event.runId, lastEventId: event.id }
+        attempts = 0
+        onEvent(event)
+        if (isTerminalEvent(event)) return event
+      }
+    } catch (error) {
+      if (!resumeFrom || (error as { fatal?: boolean }).fatal) throw error
+    }
+
+    if (!resumeFrom || ++attempts > maxRetries) {
+      throw new Error('Lost the connection to the workflow event stream')
+    }
+    await new Promise(resolve => setTimeout(resolve, retryDelayMs * attempts))
+  }
+}
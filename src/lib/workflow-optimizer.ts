@@ -309,43 +309,30 @@ export class WorkflowOptimizer {
     dependencyResults: Map<string, any>,
     concurrency: number
   ): Promise<TaskResult[]> {
-    const taskPromises: Promise<TaskResult>[] = [];
-
-    // Create all task promises
-    for (const task of batch) {
-      // Get dependencies for this task
-      const taskDependencies = new Map<string, any>();
-      (task.dependencies || []).forEach(depId => {
-        if (dependencyResults.has(depId)) {
-          taskDependencies.set(depId, dependencyResults.get(depId));
-        }
-      });
-
-      // Create task promise
-      const taskPromise = this.executeTask(task, context, taskDependencies);
-      this.activeTasks.set(task.id, taskPromise);
-      taskPromises.push(taskPromise);
-    }
-
-    // Execute with concurrency control using semaphore-like approach
+    // Execute with concurrency control using semaphore-like approach.
+    // Tasks start only once they hold a permit, in batch (priority) order.
     const semaphore = new TaskSemaphore(concurrency);
-    const results = await Promise.all(
-      taskPromises.map(async (taskPromise) => {
+    return Promise.all(
+      batch.map(async (task) => {
+        // Get dependencies for this task
+        const taskDependencies = new Map<string, any>();
+        (task.dependencies || []).forEach(depId => {
+          if (dependencyResults.has(depId)) {
+            taskDependencies.set(depId, dependencyResults.get(depId));
+          }
+        });
+
         await semaphore.acquire();
         try {
+          const taskPromise = this.executeTask(task, context, taskDependencies);
+          this.activeTasks.set(task.id, taskPromise);
           return await taskPromise;
         } finally {
+          this.activeTasks.delete(task.id);
           semaphore.release();
         }
       })
     );
-
-    // Clear active tasks
-    results.forEach(result => {
-      this.activeTasks.delete(result.taskId);
-    });
-
-    return results;
   }
 
   /**
@@ -0,0 +1,586 @@
+import { randomUUID } from 'crypto'
+import { createClient, type Client } from '@libsql/client'
+import { getLibSQLConfig } from '@/lib/env'
+import { WORKFLOW_EVENT_VERSION, type WorkflowEvent, type WorkflowEventBody } from '@/lib/workflow-events'
+import type { WorkflowBatch, WorkflowBatchRow, WorkflowBatchRowInput } from '@/lib/workflow-batches'
+
+export type WorkflowRunStatus = 'running' | 'suspended' | 'success' | 'failed' | 'canceled'
+
+export const WORKFLOW_RUN_STATUSES: [WorkflowRunStatus, ...WorkflowRunStatus[]] = ['running', 'suspended', 'success', 'failed', 'canceled']
+
+export interface WorkflowRunStep {
+  status: string
+  startedAt?: number
+  endedAt?: number
+  error?: string
+}
+
+export interface WorkflowRunRecord {
+  runId: string
+  workflowId: string
+  // User who started the run
+  userId: string
+  input: Record<string, unknown>
+  status: WorkflowRunStatus
+  steps: Record<string, WorkflowRunStep>
+  error?: string
+  // Run this one retries, and the step the retry started from
+  retryOf?: string
+  retryFrom?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WorkflowRunRegistration {
+  runId: string
+  workflowId: string
+  userId: string
+  input: Record<string, unknown>
+  retryOf?: string
+  retryFrom?: string
+}
+
+// State of a Mastra run, as emitted by `run.watch` and returned by `run.start` or `run.resume`
+export interface WorkflowState {
+  status: string
+  steps: Record<string, { status: string; startedAt?: number; endedAt?: number; error?: unknown } | undefined>
+  error?: unknown
+}
+
+interface WorkflowRunRegistryOptions {
+  // Process the registry belongs to; leases of the runs it executes name it
+  instanceId?: string
+  leaseMs?: number
+}
+
+interface WatchableRun {
+  runId: string
+  watch(cb: (event: { payload: { workflowState: WorkflowState } }) => void): () => void
+  cancel(): void
+}
+
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS workflow_runs (
+    run_id TEXT PRIMARY KEY,
+    workflow_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    input TEXT NOT NULL,
+    status TEXT NOT NULL,
+    steps TEXT NOT NULL DEFAULT '{}',
+    error TEXT,
+    retry_of TEXT,
+    retry_from TEXT,
+    owner TEXT,
+    lease_expires_at INTEGER,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS workflow_runs_user_created ON workflow_runs (user_id, created_at)',
+  `CREATE TABLE IF NOT EXISTS workflow_run_events (
+    run_id TEXT NOT NULL,
+    event_id INTEGER NOT NULL,
+    event TEXT NOT NULL,
+    PRIMARY KEY (run_id, event_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS workflow_batches (
+    batch_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    org_id TEXT,
+    user_email TEXT NOT NULL,
+    concurrency INTEGER NOT NULL,
+    owner TEXT,
+    lease_expires_at INTEGER,
+    created_at INTEGER NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS workflow_batches_user_created ON workflow_batches (user_id, created_at)',
+  `CREATE TABLE IF NOT EXISTS workflow_batch_rows (
+    batch_id TEXT NOT NULL,
+    row_index INTEGER NOT NULL,
+    input TEXT NOT NULL,
+    priority INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    run_id TEXT,
+    article_id TEXT,
+    error TEXT,
+    PRIMARY KEY (batch_id, row_index)
+  )`,
+  'CREATE INDEX IF NOT EXISTS workflow_batch_rows_run ON workflow_batch_rows (run_id)'
+]
+
+// Columns added to tables created by earlier versions
+const ADDED_COLUMNS = [
+  { table: 'workflow_runs', column: 'owner', type: 'TEXT' },
+  { table: 'workflow_runs', column: 'lease_expires_at', type: 'INTEGER' },
+  { table: 'workflow_batches', column: 'owner', type: 'TEXT' },
+  { table: 'workflow_batches', column: 'lease_expires_at', type: 'INTEGER' }
+]
+
+// A process executing a run or batch renews its lease well before it expires;
+// other processes take over only once the lease has run out
+export const RUN_LEASE_MS = 60 * 1000
+
+async function addMissingColumns(client: Client): Promise<void> {
+  for (const { table, column, type } of ADDED_COLUMNS) {
+    const { rows } = await client.execute(`PRAGMA table_info(${table})`)
+    if (!rows.some(row => row.name === column)) {
+      await client.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`)
+    }
+  }
+}
+
+function toRunStatus(status: string): WorkflowRunStatus {
+  switch (status) {
+    case 'success':
+    case 'bailed':
+      return 'success'
+    case 'failed':
+    case 'suspended':
+    case 'canceled':
+      return status
+    default:
+      return 'running'
+  }
+}
+
+// Mastra reports step errors as stacks; the first line carries the message
+function formatError(error: unknown): string | undefined {
+  if (error === undefined || error === null) return undefined
+  const message = error instanceof Error ? error.message : String(error)
+  return message.split('\n')[0]
+}
+
+function toSteps(state: WorkflowState): Record<string, WorkflowRunStep> {
+  const steps: Record<string, WorkflowRunStep> = {}
+  Object.entries(state.steps ?? {}).forEach(([stepId, step]) => {
+    // The step results also hold the workflow input under `input`
+    if (typeof step?.status !== 'string') return
+    steps[stepId] = {
+      status: step.status,
+      startedAt: step.startedAt,
+      endedAt: step.endedAt,
+      error: formatError(step.error)
+    }
+  })
+  return steps
+}
+
+function toRecord(row: Record<string, unknown>): WorkflowRunRecord {
+  return {
+    runId: String(row.run_id),
+    workflowId: String(row.workflow_id),
+    userId: String(row.user_id),
+    input: JSON.parse(String(row.input)),
+    status: toRunStatus(String(row.status)),
+    steps: JSON.parse(String(row.steps)),
+    error: row.error ? String(row.error) : undefined,
+    retryOf: row.retry_of ? String(row.retry_of) : undefined,
+    retryFrom: row.retry_from ? String(row.retry_from) : undefined,
+    createdAt: new Date(Number(row.created_at)).toISOString(),
+    updatedAt: new Date(Number(row.updated_at)).toISOString()
+  }
+}
+
+// A row with a run has the status of the run; the row's own status covers the time before it
+function toBatchRow(row: Record<string, unknown>): WorkflowBatchRow {
+  const input: Omit<WorkflowBatchRowInput, 'priority'> = JSON.parse(String(row.input))
+  return {
+    ...input,
+    priority: Number(row.priority),
+    index: Number(row.row_index),
+    status: row.run_status ? toRunStatus(String(row.run_status)) : (String(row.status) as WorkflowBatchRow['status']),
+    runId: row.run_id ? String(row.run_id) : undefined,
+    articleId: row.article_id ? String(row.article_id) : undefined,
+    error: row.error ? String(row.error) : row.run_error ? String(row.run_error) : undefined
+  }
+}
+
+/**
+ * Records who started each workflow run, its input and the status and
+ * timings of its steps, in the LibSQL database Mastra stores its snapshots in
+ */
+export class WorkflowRunRegistry {
+  private client?: Client
+  private ready?: Promise<void>
+  private instanceId: string
+  private leaseMs: number
+
+  constructor(client?: Client, { instanceId = randomUUID(), leaseMs = RUN_LEASE_MS }: WorkflowRunRegistryOptions = {}) {
+    this.client = client
+    this.instanceId = instanceId
+    this.leaseMs = leaseMs
+  }
+
+  private async getClient(): Promise<Client> {
+    this.client ??= createClient(getLibSQLConfig())
+    const client = this.client
+    this.ready ??= client.batch(SCHEMA, 'write').then(() => addMissingColumns(client))
+    await this.ready
+    return client
+  }
+
+  async register(registration: WorkflowRunRegistration): Promise<WorkflowRunRecord> {
+    const client = await this.getClient()
+    const now = Date.now()
+    await client.execute({
+      sql: `INSERT INTO workflow_runs (run_id, workflow_id, user_id, input, status, steps, retry_of, retry_from, owner, lease_expires_at, created_at, updated_at)
+        VALUES (?, ?, ?, ?, 'running', '{}', ?, ?, ?, ?, ?, ?)`,
+      args: [
+        registration.runId,
+        registration.workflowId,
+        registration.userId,
+        JSON.stringify(registration.input),
+        registration.retryOf ?? null,
+        registration.retryFrom ?? null,
+        this.instanceId,
+        now + this.leaseMs,
+        now,
+        now
+      ]
+    })
+    return (await this.get(registration.runId))!
+  }
+
+  async get(runId: string): Promise<WorkflowRunRecord | null> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({ sql: 'SELECT * FROM workflow_runs WHERE run_id = ?', args: [runId] })
+    return rows[0] ? toRecord(rows[0]) : null
+  }
+
+  /**
+   * The user's runs, newest first
+   */
+  async list({ userId, status, limit = 50 }: { userId: string; status?: WorkflowRunStatus; limit?: number }): Promise<WorkflowRunRecord[]> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: `SELECT * FROM workflow_runs WHERE user_id = ?${status ? ' AND status = ?' : ''} ORDER BY created_at DESC LIMIT ?`,
+      args: status ? [userId, status, limit] : [userId, limit]
+    })
+    return rows.map(row => toRecord(row))
+  }
+
+  /**
+   * Runs of all users in a status, oldest first
+   */
+  async listByStatus(status: WorkflowRunStatus, limit = 100): Promise<WorkflowRunRecord[]> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: 'SELECT * FROM workflow_runs WHERE status = ? ORDER BY created_at ASC LIMIT ?',
+      args: [status, limit]
+    })
+    return rows.map(row => toRecord(row))
+  }
+
+  /**
+   * Takes over a run to execute it: a suspended run being resumed, or a
+   * running run whose lease has expired, i.e. one the process executing it
+   * stopped renewing. Of several requests or processes claiming it, just one
+   * succeeds; runs a live process executes are left to it.
+   */
+  async claim(record: WorkflowRunRecord, now = Date.now()): Promise<boolean> {
+    const client = await this.getClient()
+    const result = await client.execute({
+      sql: `UPDATE workflow_runs SET status = 'running', owner = ?, lease_expires_at = ?, updated_at = ?
+        WHERE run_id = ? AND (status = 'suspended' OR (status = 'running' AND (lease_expires_at IS NULL OR lease_expires_at <= ?)))`,
+      args: [this.instanceId, now + this.leaseMs, now, record.runId, now]
+    })
+    return result.rowsAffected === 1
+  }
+
+  // Marks the run as executed by this process for another lease period and
+  // returns its stored status, which another process may have changed
+  private async renewLease(runId: string): Promise<WorkflowRunStatus | undefined> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: 'UPDATE workflow_runs SET owner = ?, lease_expires_at = ? WHERE run_id = ? RETURNING status',
+      args: [this.instanceId, Date.now() + this.leaseMs, runId]
+    })
+    return rows[0] ? (String(rows[0].status) as WorkflowRunStatus) : undefined
+  }
+
+  /**
+   * Stores the status and steps of a run. A canceled run stays canceled when
+   * its last step finishes after the cancellation.
+   */
+  async record(runId: string, state: WorkflowState): Promise<void> {
+    const client = await this.getClient()
+    await client.execute({
+      sql: `UPDATE workflow_runs
+        SET status = CASE WHEN status = 'canceled' THEN status ELSE ? END, steps = ?, error = ?, updated_at = ?
+        WHERE run_id = ?`,
+      args: [toRunStatus(state.status), JSON.stringify(toSteps(state)), formatError(state.error) ?? null, Date.now(), runId]
+    })
+  }
+
+  async recordFailure(runId: string, error: unknown): Promise<void> {
+    const client = await this.getClient()
+    await client.execute({
+      sql: `UPDATE workflow_runs SET status = 'failed', error = ?, updated_at = ? WHERE run_id = ? AND status != 'canceled'`,
+      args: [formatError(error) ?? 'Unknown error', Date.now(), runId]
+    })
+  }
+
+  async cancel(runId: string): Promise<void> {
+    const client = await this.getClient()
+    await client.execute({
+      sql: `UPDATE workflow_runs SET status = 'canceled', updated_at = ? WHERE run_id = ?`,
+      args: [Date.now(), runId]
+    })
+  }
+
+  /**
+   * Stores an event streamed to the client, so a reconnecting client can
+   * replay the events it missed. The event is numbered after the last one
+   * stored for the run, whichever process published it.
+   */
+  async appendEvent(runId: string, body: WorkflowEventBody, timestamp = Date.now()): Promise<WorkflowEvent> {
+    const client = await this.getClient()
+    const event = { ...body, version: WORKFLOW_EVENT_VERSION, runId, timestamp }
+    const { rows } = await client.execute({
+      sql: `INSERT INTO workflow_run_events (run_id, event_id, event)
+        SELECT ?, COALESCE(MAX(event_id), 0) + 1, ? FROM workflow_run_events WHERE run_id = ?
+        RETURNING event_id`,
+      args: [runId, JSON.stringify(event), runId]
+    })
+    return { ...event, id: Number(rows[0].event_id) } as WorkflowEvent
+  }
+
+  /**
+   * Events of a run after `afterId`, in order
+   */
+  async listEvents(runId: string, afterId = 0): Promise<WorkflowEvent[]> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: 'SELECT event_id, event FROM workflow_run_events WHERE run_id = ? AND event_id > ? ORDER BY event_id ASC',
+      args: [runId, afterId]
+    })
+    return rows.map(row => ({ ...JSON.parse(String(row.event)), id: Number(row.event_id) }))
+  }
+
+  /**
+   * Stores the events of a run and passes them to `send`, in the order they
+   * were published. Their ids continue from the events earlier publishers of
+   * the run stored. An event that cannot be stored is still sent; it just
+   * cannot be replayed.
+   */
+  createEventPublisher(runId: string, send: (event: WorkflowEvent) => void) {
+    let lastId = 0
+    let queue = Promise.resolve()
+    return {
+      publish: (body: WorkflowEventBody) => {
+        const timestamp = Date.now()
+        queue = queue
+          .then(() => this.appendEvent(runId, body, timestamp))
+          .catch(error => {
+            console.error(`Failed to store a ${body.type} event of workflow run ${runId}:`, error)
+            return { ...body, version: WORKFLOW_EVENT_VERSION, id: lastId + 1, runId, timestamp } as WorkflowEvent
+          })
+          .then(event => {
+            lastId = event.id
+            send(event)
+          })
+      },
+      // Resolves once every published event is stored and sent
+      flush: () => queue
+    }
+  }
+
+  async createBatch(batch: Omit<WorkflowBatch, 'batchId' | 'rows' | 'createdAt'> & { rows: WorkflowBatchRowInput[] }): Promise<WorkflowBatch> {
+    const client = await this.getClient()
+    const batchId = randomUUID()
+    const now = Date.now()
+    await client.batch([
+      {
+        sql: `INSERT INTO workflow_batches (batch_id, user_id, org_id, user_email, concurrency, owner, lease_expires_at, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [batchId, batch.userId, batch.orgId ?? null, batch.userEmail, batch.concurrency, this.instanceId, now + this.leaseMs, now]
+      },
+      ...batch.rows.map(({ priority, ...input }, index) => ({
+        sql: `INSERT INTO workflow_batch_rows (batch_id, row_index, input, priority, status) VALUES (?, ?, ?, ?, 'queued')`,
+        args: [batchId, index, JSON.stringify(input), priority]
+      }))
+    ], 'write')
+    return (await this.getBatch(batchId))!
+  }
+
+  async getBatch(batchId: string): Promise<WorkflowBatch | null> {
+    const client = await this.getClient()
+    const [{ rows: batches }, { rows }] = await client.batch([
+      { sql: 'SELECT * FROM workflow_batches WHERE batch_id = ?', args: [batchId] },
+      {
+        sql: `SELECT batch_row.*, run.status AS run_status, run.error AS run_error
+          FROM workflow_batch_rows batch_row LEFT JOIN workflow_runs run ON run.run_id = batch_row.run_id
+          WHERE batch_row.batch_id = ? ORDER BY batch_row.row_index ASC`,
+        args: [batchId]
+      }
+    ], 'read')
+    const batch = batches[0]
+    if (!batch) return null
+
+    return {
+      batchId: String(batch.batch_id),
+      userId: String(batch.user_id),
+      orgId: batch.org_id ? String(batch.org_id) : undefined,
+      userEmail: String(batch.user_email),
+      concurrency: Number(batch.concurrency),
+      rows: rows.map(row => toBatchRow(row)),
+      createdAt: new Date(Number(batch.created_at)).toISOString()
+    }
+  }
+
+  /**
+   * The user's batches with their rows, newest first
+   */
+  async listBatches({ userId, limit = 20 }: { userId: string; limit?: number }): Promise<WorkflowBatch[]> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: 'SELECT batch_id FROM workflow_batches WHERE user_id = ? ORDER BY created_at DESC LIMIT ?',
+      args: [userId, limit]
+    })
+    const batches = await Promise.all(rows.map(row => this.getBatch(String(row.batch_id))))
+    return batches.filter((batch): batch is WorkflowBatch => batch !== null)
+  }
+
+  /**
+   * Batches of all users with rows still waiting for a run, oldest first.
+   * Rows a worker claimed but had not started a run for count as waiting.
+   */
+  async listQueuedBatchIds(): Promise<string[]> {
+    const client = await this.getClient()
+    const { rows } = await client.execute(
+      `SELECT batch.batch_id FROM workflow_batches batch
+        WHERE EXISTS (
+          SELECT 1 FROM workflow_batch_rows batch_row WHERE batch_row.batch_id = batch.batch_id
+            AND (batch_row.status = 'queued' OR (batch_row.status = 'running' AND batch_row.run_id IS NULL))
+        )
+        ORDER BY batch.created_at ASC`
+    )
+    return rows.map(row => String(row.batch_id))
+  }
+
+  /**
+   * Takes over a batch whose lease has expired, i.e. one the process running
+   * it stopped renewing, and queues again the rows that process claimed but
+   * never started a run for. Of several processes claiming it, just one succeeds.
+   */
+  async claimBatch(batchId: string, now = Date.now()): Promise<boolean> {
+    const client = await this.getClient()
+    const result = await client.execute({
+      sql: `UPDATE workflow_batches SET owner = ?, lease_expires_at = ?
+        WHERE batch_id = ? AND (lease_expires_at IS NULL OR lease_expires_at <= ?)`,
+      args: [this.instanceId, now + this.leaseMs, batchId, now]
+    })
+    if (result.rowsAffected !== 1) return false
+
+    await client.execute({
+      sql: `UPDATE workflow_batch_rows SET status = 'queued' WHERE batch_id = ? AND status = 'running' AND run_id IS NULL`,
+      args: [batchId]
+    })
+    return true
+  }
+
+  /**
+   * Keeps the batch's lease renewed while `execution` runs its rows, then
+   * releases it
+   */
+  async holdBatch<T>(batchId: string, execution: () => Promise<T>): Promise<T> {
+    const client = await this.getClient()
+    const renew = (expiresAt: number) => client
+      .execute({
+        sql: 'UPDATE workflow_batches SET owner = ?, lease_expires_at = ? WHERE batch_id = ?',
+        args: [this.instanceId, expiresAt, batchId]
+      })
+      .catch(error => console.error(`Failed to renew the lease of batch ${batchId}:`, error))
+
+    await renew(Date.now() + this.leaseMs)
+    const heartbeat = setInterval(() => renew(Date.now() + this.leaseMs), this.leaseMs / 3)
+    heartbeat.unref?.()
+    try {
+      return await execution()
+    } finally {
+      clearInterval(heartbeat)
+      await renew(Date.now())
+    }
+  }
+
+  /**
+   * Takes a queued row for a worker to start. Succeeds for one worker only.
+   */
+  async claimBatchRow(batchId: string, index: number): Promise<boolean> {
+    const client = await this.getClient()
+    const result = await client.execute({
+      sql: `UPDATE workflow_batch_rows SET status = 'running' WHERE batch_id = ? AND row_index = ? AND status = 'queued'`,
+      args: [batchId, index]
+    })
+    return result.rowsAffected === 1
+  }
+
+  async updateBatchRow(
+    batchId: string,
+    index: number,
+    update: { status?: 'failed'; runId?: string; articleId?: string; error?: string | null }
+  ): Promise<void> {
+    const client = await this.getClient()
+    const columns = { status: update.status, run_id: update.runId, article_id: update.articleId, error: update.error }
+    const entries = Object.entries(columns).filter(([, value]) => value !== undefined)
+    if (entries.length === 0) return
+
+    await client.execute({
+      sql: `UPDATE workflow_batch_rows SET ${entries.map(([column]) => `${column} = ?`).join(', ')} WHERE batch_id = ? AND row_index = ?`,
+      args: [...entries.map(([, value]) => value ?? null), batchId, index]
+    })
+  }
+
+  /**
+   * The batch row a run belongs to, if it was started from a batch
+   */
+  async findBatchRow(runId: string): Promise<{ batch: WorkflowBatch; row: WorkflowBatchRow } | null> {
+    const client = await this.getClient()
+    const { rows } = await client.execute({
+      sql: 'SELECT batch_id, row_index FROM workflow_batch_rows WHERE run_id = ?',
+      args: [runId]
+    })
+    if (!rows[0]) return null
+
+    const batch = await this.getBatch(String(rows[0].batch_id))
+    const row = batch?.rows.find(candidate => candidate.index === Number(rows[0].row_index))
+    return batch && row ? { batch, row } : null
+  }
+
+  /**
+   * Keeps the run's steps current and its lease renewed while `execution`
+   * runs, then records its outcome. A run canceled from any process is
+   * canceled here at the next heartbeat. Registry errors are logged and never
+   * fail the run.
+   */
+  async monitor<T extends WorkflowState>(run: WatchableRun, execution: () => Promise<T>): Promise<T> {
+    let updates = Promise.resolve()
+    const enqueue = (update: () => Promise<void>) => {
+      updates = updates.then(update).catch(error => console.error(`Failed to record workflow run ${run.runId}:`, error))
+    }
+
+    let canceled = false
+    const renew = () => enqueue(async () => {
+      if ((await this.renewLease(run.runId)) !== 'canceled' || canceled) return
+      canceled = true
+      run.cancel()
+    })
+    renew()
+    const heartbeat = setInterval(renew, this.leaseMs / 3)
+    heartbeat.unref?.()
+    const unwatch = run.watch(event => enqueue(() => this.record(run.runId, event.payload.workflowState)))
+    try {
+      const result = await execution()
+      enqueue(() => this.record(run.runId, result))
+      return result
+    } catch (error) {
+      enqueue(() => this.recordFailure(run.runId, error))
+      throw error
+    } finally {
+      clearInterval(heartbeat)
+      unwatch()
+      await updates
+    }
+  }
+}
+
+export const workflowRunRegistry = new WorkflowRunRegistry()
@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { APICallError, type LanguageModelV1 } from 'ai';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { DEFAULT_MODEL_ROUTES, getModelRoutes, resolveModelChain, type ModelRoutes } from '@/config/models';
+import { MODEL_PHASE_KEY, createFallbackModel, createModels, isFailoverError, routeModel } from '../model-router';
+
+const apiError = (statusCode: number) => new APICallError({
+  message: `HTTP ${statusCode}`,
+  url: 'https://api.example.com',
+  requestBodyValues: {},
+  statusCode
+});
+
+const mockModel = (modelId: string, doGenerate: () => Promise<unknown>) => ({
+  specificationVersion: 'v1',
+  provider: modelId.startsWith('claude') ? 'anthropic.messages' : 'openai.chat',
+  modelId,
+  defaultObjectGenerationMode: 'json',
+  doGenerate: vi.fn(doGenerate),
+  doStream: vi.fn()
+}) as unknown as LanguageModelV1;
+
+const callOptions = { inputFormat: 'messages', mode: { type: 'regular' }, prompt: [] } as any;
+
+describe('model routes', () => {
+  const routes: ModelRoutes = {
+    default: ['openai:gpt-4o'],
+    agents: {
+      seoStructureAgent: { models: ['openai:gpt-4.1'], phases: { outline: ['openai:gpt-4o-mini'] } }
+    }
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prefers the chain of the phase, then of the agent, then the default', () => {
+    expect(resolveModelChain(routes, 'seoStructureAgent', 'outline')).toEqual(['openai:gpt-4o-mini']);
+    expect(resolveModelChain(routes, 'seoStructureAgent', 'folder_setup')).toEqual(['openai:gpt-4.1']);
+    expect(resolveModelChain(routes, 'seoStructureAgent')).toEqual(['openai:gpt-4.1']);
+    expect(resolveModelChain(routes, 'seoContentAgent', 'draft')).toEqual(['openai:gpt-4o']);
+  });
+
+  it('routes outlines to a cheaper model than drafts by default', () => {
+    expect(resolveModelChain(DEFAULT_MODEL_ROUTES, 'seoStructureAgent', 'outline')[0]).toBe('openai:gpt-4o-mini');
+    expect(resolveModelChain(DEFAULT_MODEL_ROUTES, 'seoContentAgent', 'draft')[0]).toBe('openai:gpt-4o');
+  });
+
+  it('merges MODEL_ROUTES over the defaults and ignores invalid routes', () => {
+    vi.stubEnv('MODEL_ROUTES', JSON.stringify({ agents: { seoContentAgent: { phases: { draft: ['anthropic:claude-sonnet-4-0'] } } } }));
+    const merged = getModelRoutes();
+    expect(merged.default).toEqual(DEFAULT_MODEL_ROUTES.default);
+    expect(merged.agents.seoStructureAgent).toEqual(DEFAULT_MODEL_ROUTES.agents.seoStructureAgent);
+    expect(resolveModelChain(merged, 'seoContentAgent', 'draft')).toEqual(['anthropic:claude-sonnet-4-0']);
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('MODEL_ROUTES', JSON.stringify({ default: ['gpt-4o'] }));
+    expect(getModelRoutes()).toEqual(DEFAULT_MODEL_ROUTES);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('skips providers without an API key', () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    expect(createModels(['openai:gpt-4o', 'anthropic:claude-3-5-sonnet-latest']).map(model => model.modelId)).toEqual(['gpt-4o']);
+    vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant-test');
+    expect(createModels(['openai:gpt-4o', 'anthropic:claude-3-5-sonnet-latest']).map(model => model.modelId))
+      .toEqual(['gpt-4o', 'claude-3-5-sonnet-latest']);
+  });
+
+  it('routes an agent call by the phase in its runtime context', () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    const runtimeContext = new RuntimeContext();
+    runtimeContext.set(MODEL_PHASE_KEY, 'outline');
+    expect(routeModel('seoStructureAgent')({ runtimeContext }).modelId).toBe('gpt-4o-mini');
+    expect(routeModel('seoStructureAgent')({ runtimeContext: new RuntimeContext() }).modelId).toBe('gpt-4o');
+  });
+});
+
+describe('createFallbackModel', () => {
+  it('fails over to the next model on rate limits and server errors', async () => {
+    const response = { text: 'ok', response: { modelId: 'claude-3-5-sonnet-20241022' } };
+    const primary = mockModel('gpt-4o', () => Promise.reject(apiError(429)));
+    const secondary = mockModel('claude-3-5-sonnet-latest', () => Promise.reject(apiError(503)));
+    const tertiary = mockModel('claude-3-5-sonnet-latest', () => Promise.resolve(response));
+    const onFailover = vi.fn();
+
+    const model = createFallbackModel([primary, secondary, tertiary], onFailover);
+    expect(model.modelId).toBe('gpt-4o');
+    await expect(model.doGenerate(callOptions)).resolves.toBe(response);
+    expect(onFailover.mock.calls.map(([failed, next]) => [failed.modelId, next.modelId])).toEqual([
+      ['gpt-4o', 'claude-3-5-sonnet-latest'],
+      ['claude-3-5-sonnet-latest', 'claude-3-5-sonnet-latest']
+    ]);
+  });
+
+  it('throws other errors and the last model\'s error', async () => {
+    const badRequest = apiError(400);
+    const secondary = mockModel('claude-3-5-sonnet-latest', () => Promise.resolve({}));
+    await expect(createFallbackModel([mockModel('gpt-4o', () => Promise.reject(badRequest)), secondary]).doGenerate(callOptions))
+      .rejects.toBe(badRequest);
+    expect(secondary.doGenerate).not.toHaveBeenCalled();
+
+    const unavailable = apiError(500);
+    await expect(createFallbackModel([
+      mockModel('gpt-4o', () => Promise.reject(apiError(429))),
+      mockModel('claude-3-5-sonnet-latest', () => Promise.reject(unavailable))
+    ]).doGenerate(callOptions)).rejects.toBe(unavailable);
+  });
+
+  it('only fails over on API errors with a rate limit or server status', () => {
+    expect(isFailoverError(apiError(429))).toBe(true);
+    expect(isFailoverError(apiError(502))).toBe(true);
+    expect(isFailoverError(apiError(401))).toBe(false);
+    expect(isFailoverError(new Error('socket hang up'))).toBe(false);
+  });
+});
@@ -1,5 +1,5 @@
-import { openai } from "@ai-sdk/openai"
 import { Agent } from "@mastra/core/agent"
+import { routeModel } from "./model-router"
 import { unifiedResearchTool } from "../tools/unified-research"
 import { tascContextTool } from "../tools/tasc-context-tool"
 import { tascWebSearchTool } from "../tools/tasc-web-search"
@@ -37,6 +37,6 @@ You can help with:
 export const blogArticleAgent: Agent = new Agent({
 	name: "TASC Blog Article Agent",
 	instructions: BLOG_ARTICLE_AGENT_PROMPT,
-	model: openai("gpt-4o"),
+	model: routeModel("blogArticleAgent"),
 	tools: { unifiedResearchTool, tascContextTool, tascWebSearchTool, seoAnalyzerTool },
 }) 
\ No newline at end of file
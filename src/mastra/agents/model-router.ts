@@ -0,0 +1,92 @@
+import { openai } from "@ai-sdk/openai"
+import { anthropic } from "@ai-sdk/anthropic"
+import { APICallError, type LanguageModelV1 } from "ai"
+import type { RuntimeContext } from "@mastra/core/runtime-context"
+import { agentActivityLogger } from "@/lib/agent-activity-logger"
+import { MODEL_PROVIDERS, getModelRoutes, resolveModelChain, type ModelChain, type ModelPhase, type ModelProvider } from "@/config/models"
+
+// Runtime context key the workflow sets to the phase an agent is called for
+export const MODEL_PHASE_KEY = "modelPhase"
+
+const PROVIDERS: Record<ModelProvider, (modelId: string) => LanguageModelV1> = { openai, anthropic }
+
+/**
+ * Errors another provider may not have: rate limits and server errors
+ */
+export function isFailoverError(error: unknown): boolean {
+	if (!APICallError.isInstance(error) || error.statusCode === undefined) return false
+	return error.statusCode === 429 || error.statusCode >= 500
+}
+
+/**
+ * Models of a chain whose provider has an API key. When none has one the
+ * first is kept, so the call fails with the provider's missing key error.
+ */
+export function createModels(chain: ModelChain): LanguageModelV1[] {
+	const specs = chain.map(spec => {
+		const separator = spec.indexOf(":")
+		return { provider: spec.slice(0, separator) as ModelProvider, modelId: spec.slice(separator + 1) }
+	})
+	const available = specs.filter(({ provider }) => process.env[MODEL_PROVIDERS[provider]])
+	return (available.length > 0 ? available : specs.slice(0, 1))
+		.map(({ provider, modelId }) => PROVIDERS[provider](modelId))
+}
+
+/**
+ * A model that calls the first of `models` and moves on to the next when a
+ * call is rate limited or fails with a server error. Other errors, and the
+ * last model's, are thrown. Responses carry the id of the model that served them.
+ */
+export function createFallbackModel(
+	models: LanguageModelV1[],
+	onFailover?: (failed: LanguageModelV1, next: LanguageModelV1, error: unknown) => void | Promise<void>
+): LanguageModelV1 {
+	const [primary] = models
+	if (models.length === 1) return primary
+
+	async function failover<T>(call: (model: LanguageModelV1) => PromiseLike<T>): Promise<T> {
+		for (let i = 0; ; i++) {
+			try {
+				return await call(models[i])
+			} catch (error) {
+				if (i === models.length - 1 || !isFailoverError(error)) throw error
+				await onFailover?.(models[i], models[i + 1], error)
+			}
+		}
+	}
+
+	return {
+		specificationVersion: "v1",
+		provider: primary.provider,
+		modelId: primary.modelId,
+		defaultObjectGenerationMode: primary.defaultObjectGenerationMode,
+		supportsImageUrls: primary.supportsImageUrls,
+		supportsStructuredOutputs: primary.supportsStructuredOutputs,
+		supportsUrl: primary.supportsUrl?.bind(primary),
+		doGenerate: options => failover(model => model.doGenerate(options)),
+		doStream: options => failover(model => model.doStream(options))
+	}
+}
+
+async function logFailover(agentKey: string, phase: ModelPhase | undefined, failed: LanguageModelV1, next: LanguageModelV1, error: unknown) {
+	const message = error instanceof Error ? error.message : String(error)
+	console.warn(`⚠️ ${agentKey}: ${failed.provider} ${failed.modelId} failed (${message}), failing over to ${next.provider} ${next.modelId}`)
+	const activityId = await agentActivityLogger.startActivity(
+		agentKey,
+		`Failing over from ${failed.modelId} to ${next.modelId}`,
+		{ phase, statusCode: APICallError.isInstance(error) ? error.statusCode : undefined, error: message }
+	)
+	await agentActivityLogger.completeActivity(activityId, { provider: next.provider, model: next.modelId })
+}
+
+/**
+ * Model of an agent, chosen per call from the model routes by the phase in
+ * the call's runtime context
+ */
+export function routeModel(agentKey: string) {
+	return ({ runtimeContext }: { runtimeContext: RuntimeContext }): LanguageModelV1 => {
+		const phase = runtimeContext.get(MODEL_PHASE_KEY) as ModelPhase | undefined
+		const models = createModels(resolveModelChain(getModelRoutes(), agentKey, phase))
+		return createFallbackModel(models, (failed, next, error) => logFailover(agentKey, phase, failed, next, error))
+	}
+}
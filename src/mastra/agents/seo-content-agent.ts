@@ -1,5 +1,5 @@
-import { openai } from "@ai-sdk/openai"
 import { Agent } from "@mastra/core/agent"
+import { routeModel } from "./model-router"
 import { articleFileManagerTool } from "../tools/article-file-manager"
 import { tascContextTool } from "../tools/tasc-context-tool"
 import { tascWebSearchTool } from "../tools/tasc-web-search"
@@ -66,7 +66,7 @@ Focus on creating compelling, persona-aligned content that ranks well and conver
 export const seoContentAgent: Agent = new Agent({
 	name: "SEO Content Agent",
 	instructions: SEO_CONTENT_AGENT_PROMPT,
-	model: openai("gpt-4o"),
+	model: routeModel("seoContentAgent"),
 	tools: { 
 		articleFileManagerTool, 
 		tascContextTool,
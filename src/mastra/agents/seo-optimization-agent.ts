@@ -1,7 +1,8 @@
-import { openai } from "@ai-sdk/openai"
 import { Agent } from "@mastra/core/agent"
+import { routeModel } from "./model-router"
 import { articleFileManagerTool } from "../tools/article-file-manager"
 import { seoAnalyzerTool } from "../tools/seo-analyzer"
+import { schemaValidatorTool } from "../tools/schema-validator"
 import { tascContextTool } from "../tools/tasc-context-tool"
 import { tascWebSearchTool } from "../tools/tasc-web-search"
 
@@ -25,8 +26,9 @@ You are the SEO Optimization Agent specializing in technical SEO, AI optimizatio
 - Extract PAA questions from research and create comprehensive FAQ section
 - Write 40-60 word answers optimized for voice search and featured snippets
 - Generate JSON-LD schema markup for FAQPage structured data
+- Validate the schema with the schema validator tool (expectedTypes: ["FAQPage"]) and fix every error before saving
 - Ensure FAQ content complements main article without duplication
-- Output: faqs.json with structured FAQ data
+- Output: faqs.json with structured FAQ data, the JSON-LD under "schema"
 
 ### Phase 11: GenAI/SGE Optimization
 - Optimize content for Google SGE and AI search engines
@@ -50,6 +52,7 @@ You are the SEO Optimization Agent specializing in technical SEO, AI optimizatio
 - Ensure 100% human-like tone while maintaining SEO value
 - Balance optimization with natural language patterns
 - Remove any AI-detection markers or robotic phrasing
+- Rewrite every styleLint finding of the SEO analyzer tool (filler phrases, clichés, AI-isms, repeated openers, overused adverbs) following its suggestion, then re-run the tool until none remain
 - Update: enhanced-article.md with Yoast optimization
 
 ### Phase 14: Internal Linking Strategy
@@ -63,7 +66,7 @@ You are the SEO Optimization Agent specializing in technical SEO, AI optimizatio
 ### Phase 15: Final Review & Quality Assurance
 - Comprehensive review of all components and outputs
 - Verify file structure completeness and organization
-- Check metadata compliance and schema validation
+- Check metadata compliance and re-run the schema validator tool on faqs.json
 - Ensure persona alignment and tone consistency
 - Validate SEO optimization across all elements
 - Prepare final deliverable package
@@ -92,10 +95,11 @@ Focus on technical excellence while maintaining content quality and user experie
 export const seoOptimizationAgent: Agent = new Agent({
 	name: "SEO Optimization Agent",
 	instructions: SEO_OPTIMIZATION_AGENT_PROMPT,
-	model: openai("gpt-4o"),
+	model: routeModel("seoOptimizationAgent"),
 	tools: { 
 		articleFileManagerTool, 
 		seoAnalyzerTool,
+		schemaValidatorTool,
 		tascContextTool,
 		tascWebSearchTool
 	}
@@ -1,5 +1,5 @@
-import { openai } from "@ai-sdk/openai"
 import { Agent } from "@mastra/core/agent"
+import { routeModel } from "./model-router"
 import { articleFileManagerTool } from "../tools/article-file-manager"
 import { tascWebSearchTool } from "../tools/tasc-web-search"
 import { unifiedResearchTool } from "../tools/unified-research"
@@ -72,7 +72,7 @@ When a user provides input, analyze it and begin the workflow systematically.
 export const seoOrchestratorAgent: Agent = new Agent({
 	name: "SEO Orchestrator Agent",
 	instructions: SEO_ORCHESTRATOR_PROMPT,
-	model: openai("gpt-4o"),
+	model: routeModel("seoOrchestratorAgent"),
 	tools: { 
 		articleFileManagerTool,
 		tascWebSearchTool,
@@ -1,5 +1,5 @@
-import { openai } from "@ai-sdk/openai"
 import { Agent } from "@mastra/core/agent"
+import { routeModel } from "./model-router"
 import { tascWebSearchTool } from "../tools/tasc-web-search"
 import { unifiedResearchTool } from "../tools/unified-research"
 
@@ -61,6 +61,6 @@ Focus on thorough research that sets up the entire workflow for success.
 export const seoResearchAgent: Agent = new Agent({
 	name: "SEO Research Agent",
 	instructions: SEO_RESEARCH_AGENT_PROMPT,
-	model: openai("gpt-4o"),
+	model: routeModel("seoResearchAgent"),
 	tools: { tascWebSearchTool, unifiedResearchTool }
 })
\ No newline at end of file
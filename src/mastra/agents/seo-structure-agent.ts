@@ -1,5 +1,5 @@
-import { openai } from "@ai-sdk/openai"
 import { Agent } from "@mastra/core/agent"
+import { routeModel } from "./model-router"
 import { articleFileManagerTool } from "../tools/article-file-manager"
 import { tascContextTool } from "../tools/tasc-context-tool"
 import { tascWebSearchTool } from "../tools/tasc-web-search"
@@ -61,7 +61,7 @@ Focus on creating logical, user-friendly structure that serves both SEO and read
 export const seoStructureAgent: Agent = new Agent({
 	name: "SEO Structure Agent",
 	instructions: SEO_STRUCTURE_AGENT_PROMPT,
-	model: openai("gpt-4o"),
+	model: routeModel("seoStructureAgent"),
 	tools: { 
 		articleFileManagerTool, 
 		tascContextTool,
@@ -9,7 +9,7 @@ import { seoResearchAgent } from "./agents/seo-research-agent"
 import { seoStructureAgent } from "./agents/seo-structure-agent"
 import { seoContentAgent } from "./agents/seo-content-agent"
 import { seoOptimizationAgent } from "./agents/seo-optimization-agent"
-import { getEnv, isFeatureEnabled } from "@/lib/env"
+import { getLibSQLConfig } from "@/lib/env"
 import { wrapAgentWithLogging } from "@/lib/agent-wrapper"
 
 export const mastra = new Mastra({
@@ -22,10 +22,7 @@ export const mastra = new Mastra({
 		seoContentAgent: wrapAgentWithLogging(seoContentAgent, 'seoContentAgent'),
 		seoOptimizationAgent: wrapAgentWithLogging(seoOptimizationAgent, 'seoOptimizationAgent')
 	},
-	storage: new LibSQLStore({
-		url: isFeatureEnabled('turso') ? getEnv().TURSO_DATABASE_URL! : "file:./storage.db",
-		authToken: isFeatureEnabled('turso') ? getEnv().TURSO_AUTH_TOKEN : undefined,
-	}),
+	storage: new LibSQLStore(getLibSQLConfig()),
 	logger: new PinoLogger({
 		name: "Mastra",
 		level: "info",
@@ -49,18 +49,27 @@ const articleFileManagerTool = createTool({
             { name: 'faqs.json', content: '{\n  "faqs": [],\n  "schema": {}\n}' }
           ]
 
-          // Use Promise.all for parallel file creation
-          await Promise.all(
+          // Placeholders never replace existing files, so creating the folder
+          // again (e.g. when a resumed run repeats the step) keeps the work in it
+          const created = await Promise.all(
             placeholderFiles.map(file =>
-              fs.writeFile(path.join(articleDir, file.name), file.content, 'utf-8')
+              fs.writeFile(path.join(articleDir, file.name), file.content, { encoding: 'utf-8', flag: 'wx' })
+                .then(() => true)
+                .catch(error => {
+                  if (error.code === 'EEXIST') return false
+                  throw error
+                })
             )
           )
+          const filesCreated = created.filter(Boolean).length
 
           return {
             success: true,
-            message: `Created article folder structure for: ${articleSlug}`,
+            message: filesCreated === placeholderFiles.length
+              ? `Created article folder structure for: ${articleSlug}`
+              : `Article folder for ${articleSlug} already existed; created ${filesCreated} missing placeholder files`,
             path: articleDir,
-            files_created: placeholderFiles.length + 2 // +2 for directories
+            files_created: filesCreated + 2 // +2 for directories
           }
         }
 
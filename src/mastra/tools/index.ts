@@ -4,6 +4,7 @@ export { tascContextTool } from "./tasc-context-tool"
 export { tascWebSearchTool } from "./tasc-web-search"
 export { seoAnalyzerTool } from "./seo-analyzer"
 export { articleFileManagerTool } from "./article-file-manager"
+export { schemaValidatorTool } from "./schema-validator"
 
 // Legacy tools - kept for compatibility but deprecated
 export { unifiedResearchTool as legacyUnifiedResearchTool } from "./unified-research"
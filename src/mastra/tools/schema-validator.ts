@@ -0,0 +1,28 @@
+import { createTool } from '@mastra/core'
+import { z } from 'zod'
+import { STRUCTURED_DATA_TYPES, StructuredDataType, formatSchemaIssues, validateStructuredData } from '@/lib/seo-analyzer'
+
+const schemaValidatorTool = createTool({
+  id: 'schema_validator_tool',
+  description: 'Validate JSON-LD structured data (Article, BlogPosting, FAQPage, HowTo, BreadcrumbList) against the schema.org properties Google requires for rich results',
+  inputSchema: z.object({
+    jsonLd: z.string().describe('The JSON-LD markup to validate, as JSON text'),
+    expectedTypes: z.array(z.enum(STRUCTURED_DATA_TYPES as [StructuredDataType, ...StructuredDataType[]]))
+      .optional()
+      .describe('Types the markup must contain, e.g. ["FAQPage"] for faqs.json')
+  }),
+  execute: async ({ context }) => {
+    const { jsonLd, expectedTypes } = context
+    const validation = validateStructuredData(jsonLd, expectedTypes)
+
+    return {
+      success: true,
+      valid: validation.valid,
+      types: validation.entities.map(entity => entity.type),
+      errors: formatSchemaIssues(validation.errors),
+      warnings: formatSchemaIssues(validation.warnings)
+    }
+  }
+})
+
+export { schemaValidatorTool }
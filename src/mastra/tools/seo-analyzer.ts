@@ -1,6 +1,7 @@
 import { createTool } from '@mastra/core'
 import { z } from 'zod'
-import { SEOAnalyzer, SEOData } from '@/lib/seo-analyzer'
+import { ARTICLE_TYPES, SEOAnalyzer, SEOData, createSnippetPreview } from '@/lib/seo-analyzer'
+import { SITE_CONFIG } from '@/config/site'
 
 const seoAnalyzerTool = createTool({
   id: 'seo_analyzer_tool',
@@ -10,22 +11,47 @@ const seoAnalyzerTool = createTool({
     title: z.string().optional().describe('The SEO title for the content'),
     metaDescription: z.string().optional().describe('The meta description for the content'),
     keyword: z.string().optional().describe('The focus keyword to optimize for'),
+    synonyms: z.array(z.string()).optional().describe('Synonyms of the focus keyword that also count towards keyword usage'),
     url: z.string().optional().describe('The URL slug for the content'),
-    isCornerstone: z.boolean().default(false).describe('Whether this is cornerstone content requiring higher standards')
+    locale: z.string().optional().describe('Locale of the content, e.g. "en", "ar" or "fr-FR" (defaults to English)'),
+    structuredData: z.string().optional().describe('JSON-LD published with the page, e.g. the FAQPage schema'),
+    articleType: z.enum(ARTICLE_TYPES).optional().describe('Type of the article; selects the scoring profile, e.g. how-tos need numbered steps and HowTo schema (defaults to informational)'),
+    isCornerstone: z.boolean().default(false).describe('Whether this is cornerstone content requiring higher standards'),
+    siteConfig: z.object({
+      domains: z.array(z.string()).describe('Domains of our own site, e.g. "example.com"'),
+      includeSubdomains: z.boolean().optional().describe('Whether subdomains of these domains are part of the site'),
+      pathPrefixes: z.array(z.string()).optional().describe('Paths that make up the site, e.g. "/blog"'),
+      competitorDomains: z.array(z.string()).optional().describe('Domains of competitors, whose citation is flagged')
+    }).optional().describe('Site used to classify links as internal or external (defaults to the configured site)')
   }),
   execute: async ({ context }) => {
-    const { content, title, metaDescription, keyword, url, isCornerstone } = context
+    const { content, title, metaDescription, keyword, synonyms, url, locale, structuredData, articleType, isCornerstone, siteConfig } = context
     try {
       const seoData: SEOData = {
         content,
         title,
         metaDescription,
         keyword,
-        url
+        synonyms,
+        url,
+        locale,
+        structuredData,
+        articleType
       }
 
-      const analysis = SEOAnalyzer.analyze(seoData, isCornerstone)
-      const stats = SEOAnalyzer.analyzeContent(content, keyword)
+      // The house-style phrases apply whichever site is analyzed
+      const site = siteConfig ? { ...siteConfig, stylePhrases: SITE_CONFIG.stylePhrases } : SITE_CONFIG
+      const analysis = SEOAnalyzer.analyze(seoData, isCornerstone, { siteConfig: site })
+      const stats = SEOAnalyzer.analyzeContent(content, keyword, synonyms, locale)
+      const snippet = (device: 'desktop' | 'mobile') => {
+        const preview = createSnippetPreview(seoData, device, site)
+        return {
+          title: preview.title.text,
+          titleTruncated: preview.title.truncated,
+          description: preview.description.text,
+          descriptionTruncated: preview.description.truncated
+        }
+      }
 
       // Create a summary for the AI agent
       const summary = {
@@ -39,11 +65,47 @@ const seoAnalyzerTool = createTool({
           wordCount: stats.wordCount,
           readingTime: Math.ceil(stats.wordCount / 225),
           keywordDensity: stats.keywordDensity,
-          fleschScore: stats.fleschReadingEase
+          keywordOccurrences: stats.keywordOccurrences,
+          fleschScore: stats.fleschReadingEase,
+          readabilityFormula: stats.readabilityFormula
+        },
+        links: (analysis.links ?? []).map(link => ({
+          href: link.href,
+          text: link.text,
+          type: link.type,
+          url: link.url,
+          issue: link.issue
+        })),
+        snippet: {
+          desktop: snippet('desktop'),
+          mobile: snippet('mobile')
+        },
+        images: (analysis.images ?? []).map(image => ({
+          src: image.src.startsWith('data:') ? `${image.src.slice(0, 40)}…` : image.src,
+          alt: image.alt,
+          hasKeyword: image.hasKeyword,
+          issues: image.issues.map(issue => issue.message)
+        })),
+        eeat: analysis.eeat && {
+          score: analysis.eeat.score,
+          factors: analysis.eeat.factors,
+          author: analysis.eeat.author,
+          sourceCounts: analysis.eeat.sourceCounts,
+          uncitedStatistics: analysis.eeat.uncitedStatistics.map(statistic => statistic.mark.original.trim()),
+          experienceMarkers: analysis.eeat.experienceMarkers,
+          dates: analysis.eeat.dates,
+          remediation: analysis.eeat.remediation.map(item => item.action)
         },
+        // Rewrite these in the humanization pass
+        styleLint: (analysis.styleLint ?? []).map(finding => ({
+          rule: finding.rule,
+          text: finding.mark.original,
+          suggestion: finding.suggestion
+        })),
         issues: {
           seoIssues: analysis.seoAssessments.filter(a => a.rating === 'bad').length,
-          readabilityIssues: analysis.readabilityAssessments.filter(a => a.rating === 'bad').length
+          readabilityIssues: analysis.readabilityAssessments.filter(a => a.rating === 'bad').length,
+          brokenLinks: (analysis.links ?? []).filter(link => link.issue).length
         },
         recommendations: [
           ...analysis.seoAssessments.filter(a => a.rating === 'bad').map(a => ({
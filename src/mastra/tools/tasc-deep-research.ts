@@ -90,7 +90,7 @@ export const tascDeepResearchTool = createTool({
       metaDescription: z.string(),
     }),
   }),
-  execute: async ({ context, mastra }) => {
+  execute: async ({ context, mastra, runtimeContext }) => {
     const { topic, researchDepth = 'comprehensive', focusAreas = [], targetAudience = 'Technical professionals and business decision-makers' } = context;
     
     console.log(`Starting deep research for TASC blog article: "${topic}"`);
@@ -150,6 +150,8 @@ Return a structured research report with:
         ],
         {
           maxSteps: 25,
+          // Carries the user the calling agent is accounted to
+          runtimeContext,
           experimental_output: z.object({
             keyFindings: z.array(z.object({
               insight: z.string(),
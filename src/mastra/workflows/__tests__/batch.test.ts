@@ -0,0 +1,210 @@
+import { completeBatchRow, resumeQueuedBatches, runBatch } from '../batch';
+import { WorkflowRunRegistry } from '@/lib/workflow-runs';
+import { UsageLedger } from '@/lib/usage-ledger';
+import { createClient, type Client } from '@libsql/client';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+describe('workflow batches', () => {
+  const result = {
+    reviewComplete: true,
+    deliveryReady: true,
+    summary: 'Ready',
+    articleSlug: 'payroll-outsourcing',
+    articlePath: 'generated-articles/payroll-outsourcing',
+    focusKeyword: 'payroll outsourcing',
+    content: '# Payroll outsourcing',
+    metadata: { title: 'Payroll Outsourcing Guide', description: 'What it costs.', h1: 'Payroll outsourcing', semanticKeywords: ['payroll provider'] },
+    wordCount: 1800,
+    seoScore: 82,
+    readabilityScore: 74,
+    faqCount: 4,
+    missingFiles: [],
+    optimizationIterations: []
+  };
+
+  let client: Client;
+  let registry: WorkflowRunRegistry;
+  let ledger: UsageLedger;
+  let saveArticle: ReturnType<typeof vi.fn>;
+  let options: { saveArticle: typeof saveArticle; ledger: UsageLedger; rowTimeoutMs?: number };
+
+  const createBatch = (keywords: [string, number][], concurrency: number, creator = registry) => creator.createBatch({
+    userId: 'user-1',
+    orgId: 'org-1',
+    userEmail: 'writer@example.com',
+    concurrency,
+    rows: keywords.map(([keyword, priority]) => ({ keyword, articleType: 'commercial', priority }))
+  });
+
+  // Runs that resolve when the test says so, counting how many execute at once
+  const createWorkflow = () => {
+    const started: string[] = [];
+    const finish = new Map<string, (state: any) => void>();
+    let running = 0;
+    let maxRunning = 0;
+    let nextId = 1;
+
+    const workflow = {
+      id: 'seoArticleWorkflow',
+      createRunAsync: vi.fn(async () => {
+        const runId = `run-${nextId++}`;
+        let userInput: string;
+        return {
+          runId,
+          watch: () => () => undefined,
+          cancel: vi.fn(() => finish.get(userInput)?.({ status: 'canceled', steps: {} })),
+          start: ({ inputData }: any) => {
+            userInput = inputData.userInput;
+            started.push(inputData.userInput);
+            maxRunning = Math.max(maxRunning, ++running);
+            return new Promise(resolve => finish.set(inputData.userInput, state => {
+              running--;
+              resolve(state);
+            }));
+          }
+        };
+      })
+    };
+    return { workflow: workflow as any, started, finish, maxRunning: () => maxRunning };
+  };
+
+  beforeEach(() => {
+    client = createClient({ url: ':memory:' });
+    registry = new WorkflowRunRegistry(client);
+    ledger = new UsageLedger({ client: createClient({ url: ':memory:' }), getBudget: () => ({ dailyUsd: 5 }) });
+    saveArticle = vi.fn().mockResolvedValue('article-1');
+    options = { saveArticle, ledger };
+  });
+
+  it('should start the rows by priority with at most the batch concurrency running', async () => {
+    const batch = await createBatch([['leave policy', 1], ['payroll outsourcing', 3], ['visa sponsorship', 2]], 2);
+    const { workflow, started, finish, maxRunning } = createWorkflow();
+
+    const done = runBatch(workflow, registry, batch.batchId, options);
+    await vi.waitFor(() => expect(started).toEqual(['payroll outsourcing', 'visa sponsorship']));
+    expect((await registry.getBatch(batch.batchId))?.rows.map(row => row.status)).toEqual(['queued', 'running', 'running']);
+
+    finish.get('visa sponsorship')!({ status: 'suspended', steps: {} });
+    await vi.waitFor(() => expect(started).toContain('leave policy'));
+    finish.get('payroll outsourcing')!({ status: 'success', steps: {}, result });
+    finish.get('leave policy')!({ status: 'failed', steps: {}, error: 'Research failed' });
+    await done;
+
+    expect(maxRunning()).toBe(2);
+    const rows = (await registry.getBatch(batch.batchId))!.rows;
+    expect(rows.map(row => [row.keyword, row.status, row.articleId, row.error])).toEqual([
+      ['leave policy', 'failed', undefined, 'Research failed'],
+      ['payroll outsourcing', 'success', 'article-1', undefined],
+      ['visa sponsorship', 'suspended', undefined, undefined]
+    ]);
+    expect(await registry.get(rows[1].runId!)).toMatchObject({
+      userId: 'user-1',
+      input: { userInput: 'payroll outsourcing', articleType: 'commercial', targetAudience: 'technical professionals', autoApprove: true }
+    });
+  });
+
+  it('should cancel a run that is still executing after the row timeout', async () => {
+    const batch = await createBatch([['payroll outsourcing', 2]], 1);
+    const { workflow, started } = createWorkflow();
+
+    await runBatch(workflow, registry, batch.batchId, { ...options, rowTimeoutMs: 50 });
+
+    expect(started).toEqual(['payroll outsourcing']);
+    const run = await workflow.createRunAsync.mock.results[0].value;
+    expect(run.cancel).toHaveBeenCalled();
+    await vi.waitFor(async () => expect((await registry.getBatch(batch.batchId))!.rows[0]).toMatchObject({
+      status: 'canceled',
+      error: 'Timed out and canceled'
+    }));
+    expect(saveArticle).not.toHaveBeenCalled();
+  });
+
+  it('should save the article of a finished row once, as a draft of the batch owner', async () => {
+    const batch = await createBatch([['payroll outsourcing', 2]], 1);
+    const { workflow, finish } = createWorkflow();
+
+    const done = runBatch(workflow, registry, batch.batchId, options);
+    await vi.waitFor(() => expect(finish.has('payroll outsourcing')).toBe(true));
+    finish.get('payroll outsourcing')!({ status: 'success', steps: {}, result });
+    await done;
+
+    expect(saveArticle).toHaveBeenCalledTimes(1);
+    const [owner, article] = saveArticle.mock.calls[0];
+    expect(owner).toMatchObject({ userId: 'user-1', orgId: 'org-1', userEmail: 'writer@example.com' });
+    expect(article).toMatchObject({
+      title: 'Payroll Outsourcing Guide',
+      slug: 'payroll-outsourcing',
+      metaDescription: 'What it costs.',
+      articleType: 'commercial',
+      seoScore: 82,
+      workflowData: { runId: 'run-1', batchId: batch.batchId }
+    });
+
+    expect(await completeBatchRow(registry, 'run-1', result as any, options)).toBe('article-1');
+    expect(await completeBatchRow(registry, 'run-elsewhere', result as any, options)).toBeUndefined();
+    expect(saveArticle).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record rows whose run could not start or whose article could not be saved', async () => {
+    const batch = await createBatch([['payroll outsourcing', 2], ['leave policy', 1]], 1);
+    const { workflow, finish } = createWorkflow();
+    workflow.createRunAsync.mockRejectedValueOnce(new Error('Storage unavailable'));
+    saveArticle.mockRejectedValueOnce(new Error('MongoDB is not configured'));
+
+    const done = runBatch(workflow, registry, batch.batchId, options);
+    await vi.waitFor(() => expect(finish.has('leave policy')).toBe(true));
+    finish.get('leave policy')!({ status: 'success', steps: {}, result });
+    await done;
+
+    const rows = (await registry.getBatch(batch.batchId))!.rows;
+    expect(rows[0]).toMatchObject({ status: 'failed', error: 'Storage unavailable' });
+    expect(rows[1]).toMatchObject({ status: 'success', error: 'Could not save the article: MongoDB is not configured' });
+  });
+
+  it('should not start rows once the owner is over budget', async () => {
+    const batch = await createBatch([['payroll outsourcing', 2]], 1);
+    const { workflow } = createWorkflow();
+    await ledger.record({ agent: 'seoContentAgent', model: 'gpt-4o', promptTokens: 1_000_000, completionTokens: 500_000, userId: 'user-1' });
+
+    await runBatch(workflow, registry, batch.batchId, options);
+
+    expect(workflow.createRunAsync).not.toHaveBeenCalled();
+    expect((await registry.getBatch(batch.batchId))!.rows[0]).toMatchObject({ status: 'failed', error: 'Usage budget exceeded' });
+  });
+
+  it('should leave rows another worker claimed to it', async () => {
+    const batch = await createBatch([['payroll outsourcing', 2]], 1);
+    const { workflow } = createWorkflow();
+
+    expect(await registry.claimBatchRow(batch.batchId, 0)).toBe(true);
+    await runBatch(workflow, registry, batch.batchId, options);
+
+    expect(workflow.createRunAsync).not.toHaveBeenCalled();
+  });
+
+  it('should leave a batch to the live process renewing its lease', async () => {
+    const live = new WorkflowRunRegistry(client, { instanceId: 'live' });
+    const batch = await createBatch([['payroll outsourcing', 2]], 1, live);
+    const { workflow } = createWorkflow();
+
+    expect(await resumeQueuedBatches(workflow, registry, options)).toEqual([]);
+    expect(await registry.claimBatch(batch.batchId)).toBe(false);
+    expect(workflow.createRunAsync).not.toHaveBeenCalled();
+  });
+
+  it('should queue again the rows a stopped process claimed without starting their run', async () => {
+    // The process running the batch stopped, so its lease has run out
+    const stopped = new WorkflowRunRegistry(client, { instanceId: 'stopped', leaseMs: 0 });
+    const batch = await createBatch([['payroll outsourcing', 2], ['leave policy', 1]], 2, stopped);
+    expect(await stopped.claimBatchRow(batch.batchId, 0)).toBe(true);
+    const { workflow, started, finish } = createWorkflow();
+
+    expect(await resumeQueuedBatches(workflow, registry, options)).toEqual([batch.batchId]);
+    await vi.waitFor(() => expect(started.sort()).toEqual(['leave policy', 'payroll outsourcing']));
+    finish.get('payroll outsourcing')!({ status: 'success', steps: {}, result });
+    finish.get('leave policy')!({ status: 'suspended', steps: {} });
+
+    await vi.waitFor(async () => expect((await registry.getBatch(batch.batchId))!.rows.map(row => row.status)).toEqual(['success', 'suspended']));
+    expect(await registry.listQueuedBatchIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { getResumeStep, resumeInterruptedRuns } from '../recovery';
+import { RUN_LEASE_MS, WorkflowRunRegistry } from '@/lib/workflow-runs';
+import { createClient, type Client } from '@libsql/client';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+describe('workflow recovery', () => {
+  const research = {
+    articleSlug: 'payroll-outsourcing',
+    articlePath: 'generated-articles/payroll-outsourcing',
+    focusKeyword: 'payroll outsourcing',
+    semanticKeywords: [],
+    searchIntent: 'commercial',
+    keyFindings: [],
+    researchStrategy: 'full_research'
+  };
+  const outline = { ...research, outline: { h1: 'Payroll outsourcing', sections: [{ heading: 'Costs', level: 2, bullets: [] }] } };
+
+  let client: Client;
+  let registry: WorkflowRunRegistry;
+  let run: any;
+  let workflow: any;
+
+  beforeEach(async () => {
+    client = createClient({ url: ':memory:' });
+    registry = new WorkflowRunRegistry(client);
+    // The process that started the run stopped, so its lease has run out
+    const stopped = new WorkflowRunRegistry(client, { instanceId: 'stopped', leaseMs: 0 });
+    await stopped.register({ runId: 'run-1', workflowId: 'seoArticleWorkflow', userId: 'user-1', input: { userInput: 'payroll outsourcing' } });
+
+    run = {
+      runId: 'run-1',
+      watch: () => () => undefined,
+      start: vi.fn().mockResolvedValue({ status: 'suspended', steps: {} })
+    };
+    workflow = {
+      id: 'seoArticleWorkflow',
+      getWorkflowRunExecutionResult: vi.fn(),
+      createRunAsync: vi.fn().mockResolvedValue(run)
+    };
+  });
+
+  it('should pick up from the first step without a result', () => {
+    expect(getResumeStep({})).toBe('research_phase');
+    expect(getResumeStep({ research_phase: { status: 'success' }, structure_phase: { status: 'running' } })).toBe('structure_phase');
+  });
+
+  it('should restart a running run under its id, replaying the steps its snapshot finished', async () => {
+    const earlier = registry.createEventPublisher('run-1', () => undefined);
+    earlier.publish({ type: 'run_started' });
+    earlier.publish({ type: 'step_started', stepId: 'content_phase' });
+    await earlier.flush();
+    workflow.getWorkflowRunExecutionResult.mockResolvedValue({
+      status: 'running',
+      steps: {
+        input: { userInput: 'payroll outsourcing' },
+        research_phase: { status: 'success', output: research },
+        structure_phase: { status: 'success', output: outline },
+        content_phase: { status: 'running' }
+      }
+    });
+
+    const resumed = await resumeInterruptedRuns(workflow, registry);
+    await vi.waitFor(() => expect(run.start).toHaveBeenCalled());
+
+    expect(resumed).toEqual(['run-1']);
+    expect(workflow.createRunAsync).toHaveBeenCalledWith({ runId: 'run-1' });
+    expect(run.start).toHaveBeenCalledWith({
+      inputData: { userInput: 'payroll outsourcing', userId: 'user-1', replay: { research_phase: research, structure_phase: outline } },
+      writableStream: expect.any(WritableStream)
+    });
+    await vi.waitFor(async () => expect((await registry.get('run-1'))?.status).toBe('suspended'));
+    // A client following the run sees the restart after the events it already has
+    await vi.waitFor(async () => expect((await registry.listEvents('run-1', 2)).map(event => [event.id, event.type])).toEqual([
+      [3, 'run_started'],
+      [4, 'workflow_suspended']
+    ]));
+  });
+
+  it('should record a run that ended before the registry heard of it', async () => {
+    workflow.getWorkflowRunExecutionResult.mockResolvedValue({
+      status: 'suspended',
+      steps: { research_phase: { status: 'suspended', startedAt: 1000 } }
+    });
+
+    expect(await resumeInterruptedRuns(workflow, registry)).toEqual([]);
+    expect(run.start).not.toHaveBeenCalled();
+    expect((await registry.get('run-1'))?.status).toBe('suspended');
+  });
+
+  it('should let only one process claim an interrupted run', async () => {
+    const [record] = await registry.listByStatus('running');
+
+    expect(await registry.claim(record)).toBe(true);
+    expect(await registry.claim(record)).toBe(false);
+  });
+
+  it('should leave a run to the live process renewing its lease', async () => {
+    const live = new WorkflowRunRegistry(client, { instanceId: 'live' });
+    const record = await live.register({ runId: 'run-2', workflowId: 'seoArticleWorkflow', userId: 'user-1', input: {} });
+    workflow.getWorkflowRunExecutionResult.mockResolvedValue({ status: 'running', steps: {} });
+
+    expect(await resumeInterruptedRuns(workflow, registry)).toEqual(['run-1']);
+    expect(await registry.claim(record)).toBe(false);
+    expect(await registry.claim(record, Date.now() + RUN_LEASE_MS)).toBe(true);
+  });
+});
@@ -1,6 +1,9 @@
-import { seoArticleWorkflow } from '../seo-article-workflow';
+import { getReplaySteps, seoArticleWorkflow } from '../seo-article-workflow';
 import { mastra } from '../../index';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock Mastra instance
 vi.mock('../../index', () => ({
@@ -40,83 +43,233 @@ describe('seoArticleWorkflow', () => {
     it('should use seoResearchAgent for research', async () => {
       const mockResearchResult = {
         messages: [{ content: 'Research completed' }],
-        text: 'Research findings...'
+        text: 'Research findings...',
+        object: {
+          semanticKeywords: ['technical SEO', 'SEO audit'],
+          searchIntent: 'informational',
+          keyFindings: ['Competitors skip page speed']
+        }
       };
       mockAgent.generate.mockResolvedValue(mockResearchResult);
 
       const researchStep = seoArticleWorkflow.steps.research_phase;
       const inputData = { userInput: 'SEO optimization' };
-      const context = { inputData, mastra };
-      const result = await researchStep.execute(context);
+      const suspend = vi.fn();
+      const context = { inputData, mastra, suspend };
+      await researchStep.execute(context);
 
       expect(mastra.getAgent).toHaveBeenCalledWith('seoResearchAgent');
       expect(mockAgent.generate).toHaveBeenCalled();
+      expect(suspend).toHaveBeenCalledWith(expect.objectContaining({
+        checkpoint: 'research',
+        revision: 1,
+        artifact: { ...mockResearchResult.object, researchStrategy: 'full_research' }
+      }));
+
+      const { artifact, revision } = suspend.mock.calls[0][0];
+      const result = await researchStep.execute({ inputData, mastra, resumeData: { action: 'approve', artifact, revision } } as any);
+
+      expect(mockAgent.generate).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({
+        articleSlug: 'seo-optimization',
+        semanticKeywords: ['technical SEO', 'SEO audit'],
+        researchStrategy: 'full_research'
+      });
+    });
+
+    it('should continue with the research as edited by the reviewer', async () => {
+      const researchStep = seoArticleWorkflow.steps.research_phase;
+      const artifact = {
+        semanticKeywords: ['payroll outsourcing'],
+        searchIntent: 'commercial',
+        keyFindings: ['Buyers compare fees'],
+        researchStrategy: 'full_research'
+      };
+      const result = await researchStep.execute({
+        inputData: { userInput: 'Payroll outsourcing' },
+        mastra,
+        resumeData: { action: 'edit', artifact, revision: 1 }
+      } as any);
+
+      expect(mockAgent.generate).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ semanticKeywords: ['payroll outsourcing'], searchIntent: 'commercial' });
+    });
+
+    it('should approve the research itself when the run approves its checkpoints', async () => {
+      mockAgent.generate.mockResolvedValue({
+        object: { semanticKeywords: ['payroll provider'], searchIntent: 'commercial', keyFindings: [] }
+      });
+
+      const suspend = vi.fn();
+      const result = await seoArticleWorkflow.steps.research_phase.execute({
+        inputData: { userInput: 'Payroll outsourcing', autoApprove: true },
+        mastra,
+        suspend
+      } as any);
+
+      expect(suspend).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ articleSlug: 'payroll-outsourcing', semanticKeywords: ['payroll provider'] });
+    });
+
+    it('should rerun the research with the feedback of a rejection', async () => {
+      mockAgent.generate.mockResolvedValue({
+        object: { semanticKeywords: ['saudi payroll'], searchIntent: 'commercial', keyFindings: [] }
+      });
+
+      const researchStep = seoArticleWorkflow.steps.research_phase;
+      const suspend = vi.fn();
+      await researchStep.execute({
+        inputData: { userInput: 'Payroll outsourcing' },
+        mastra,
+        suspend,
+        resumeData: { action: 'reject', feedback: 'Focus on Saudi Arabia', revision: 1 }
+      } as any);
+
+      expect(mockAgent.generate.mock.calls[0][0][0].content).toContain('Focus on Saudi Arabia');
+      expect(suspend).toHaveBeenCalledWith(expect.objectContaining({ checkpoint: 'research', revision: 2 }));
+    });
+
+    it('should tag the agent call with the workflow run and report its tool calls and token usage to the step writer', async () => {
+      mockAgent.name = 'seoResearchAgent';
+      mockAgent.generate.mockImplementation(async (_messages: unknown, options: any) => {
+        await options.onStepFinish({
+          toolCalls: [{ toolName: 'unifiedResearch' }],
+          usage: { promptTokens: 1200, completionTokens: 300, totalTokens: 1500 }
+        });
+        return { object: { semanticKeywords: ['payroll provider'], searchIntent: 'commercial', keyFindings: [] } };
+      });
+
+      const writer = { write: vi.fn() };
+      await seoArticleWorkflow.steps.research_phase.execute({
+        inputData: { userInput: 'Payroll outsourcing', userId: 'user-1' },
+        mastra,
+        suspend: vi.fn(),
+        runId: 'run-1',
+        writer
+      } as any);
+
+      expect(mockAgent.generate.mock.calls[0][1].runId).toBe('run-1');
+      expect(mockAgent.generate.mock.calls[0][1].runtimeContext.get('modelPhase')).toBe('research');
+      expect(mockAgent.generate.mock.calls[0][1].runtimeContext.get('usageUserId')).toBe('user-1');
+      expect(writer.write.mock.calls.map(([data]) => data)).toEqual([
+        { type: 'tool-call', agent: 'seoResearchAgent', toolName: 'unifiedResearch' },
+        { type: 'usage', agent: 'seoResearchAgent', promptTokens: 1200, completionTokens: 300, totalTokens: 1500 }
+      ]);
+    });
+
+    it('should fall back instead of inventing keywords when the agent returns no research', async () => {
+      mockAgent.generate.mockResolvedValue({ text: 'Research findings...' });
+
+      const researchStep = seoArticleWorkflow.steps.research_phase;
+      const context = { inputData: { userInput: 'SEO optimization' }, mastra } as any;
+
+      await expect(researchStep.execute(context)).rejects.toThrow('returned no valid output');
+      expect(mockAgent.generate).toHaveBeenCalledTimes(2);
     });
   });
 
   describe('structure phase', () => {
-    it('should use seoStructureAgent with research context', async () => {
-      const mockStructureResult = {
-        messages: [{ content: 'Structure created' }],
-        text: 'Article outline...'
-      };
-      mockAgent.generate.mockResolvedValue(mockStructureResult);
-
-      if (seoArticleWorkflow.steps.structure_phase) {
-        const structureStep = seoArticleWorkflow.steps.structure_phase;
-        const inputData = { 
-          focusKeyword: 'SEO optimization',
-          researchComplete: true
-        };
-        const context = { inputData, mastra };
-        const result = await structureStep.execute(context);
-
-        expect(mastra.getAgent).toHaveBeenCalledWith('seoStructureAgent');
-      }
+    const research = {
+      articleSlug: 'payroll-outsourcing',
+      focusKeyword: 'payroll outsourcing',
+      semanticKeywords: ['payroll provider'],
+      searchIntent: 'commercial',
+      keyFindings: ['Buyers compare fees'],
+      researchStrategy: 'full_research'
+    };
+    const outline = { h1: 'Payroll outsourcing', sections: [{ heading: 'Costs', level: 2, bullets: ['Fees per employee'] }] };
+
+    it('should create the folder and suspend with the outline seoStructureAgent plans from the research', async () => {
+      mockAgent.generate.mockResolvedValue({ object: outline });
+
+      const suspend = vi.fn();
+      await seoArticleWorkflow.steps.structure_phase.execute({
+        inputData: { ...research, articlePath: 'unused' },
+        mastra,
+        getInitData: () => ({ userInput: 'payroll outsourcing', userId: 'user-1' }),
+        suspend,
+        runId: 'run-1'
+      } as any);
+
+      expect(mastra.getAgent).toHaveBeenCalledWith('seoStructureAgent');
+      expect(mockAgent.generate).toHaveBeenCalledTimes(2);
+      expect(mockAgent.generate.mock.calls[0][0][0].content).toContain('Create the folder structure for article: "payroll-outsourcing"');
+      expect(mockAgent.generate.mock.calls[1][0][0].content).toContain('- Buyers compare fees');
+      expect(mockAgent.generate.mock.calls[1][1].runtimeContext.get('usageUserId')).toBe('user-1');
+      expect(suspend).toHaveBeenCalledWith(expect.objectContaining({ checkpoint: 'outline', revision: 1, artifact: outline }));
+    });
+
+    it('should write the approved outline without calling the agent again', async () => {
+      const articlePath = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-article-'));
+
+      const result = await seoArticleWorkflow.steps.structure_phase.execute({
+        inputData: { ...research, articlePath },
+        mastra,
+        getInitData: () => ({ userInput: 'payroll outsourcing' }),
+        resumeData: { action: 'approve', artifact: outline, revision: 1 }
+      } as any);
+
+      expect(mockAgent.generate).not.toHaveBeenCalled();
+      expect(result).toEqual({ articleSlug: 'payroll-outsourcing', articlePath, focusKeyword: 'payroll outsourcing', semanticKeywords: ['payroll provider'], outline });
+      expect(await fs.readFile(path.join(articlePath, 'outline.md'), 'utf-8')).toBe('# Payroll outsourcing\n\n## Costs\n');
+      expect(await fs.readFile(path.join(articlePath, 'section-bullets.md'), 'utf-8')).toContain('- Fees per employee');
+
+      await fs.rm(articlePath, { recursive: true, force: true });
     });
   });
 
   describe('content phase', () => {
-    it('should use seoContentAgent with structure context', async () => {
-      const mockContentResult = {
-        messages: [{ content: 'Content written' }],
-        text: 'Full article content...'
-      };
-      mockAgent.generate.mockResolvedValue(mockContentResult);
-
-      if (seoArticleWorkflow.steps.content_phase) {
-        const contentStep = seoArticleWorkflow.steps.content_phase;
-        const inputData = {
-          articleStructure: 'Article outline',
-          structureComplete: true
-        };
-        const context = { inputData, mastra };
-        const result = await contentStep.execute(context);
-
-        expect(mastra.getAgent).toHaveBeenCalledWith('seoContentAgent');
-      }
+    it('should have seoContentAgent draft the article from the outline and write both versions', async () => {
+      const articlePath = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-article-'));
+      mockAgent.generate.mockResolvedValue({ object: { draft: '# Draft', enhanced: '# Enhanced' } });
+
+      const result = await seoArticleWorkflow.steps.content_phase.execute({
+        inputData: {
+          articleSlug: 'payroll-outsourcing',
+          articlePath,
+          focusKeyword: 'payroll outsourcing',
+          semanticKeywords: ['payroll provider'],
+          outline: { h1: 'Payroll outsourcing', sections: [{ heading: 'Costs', level: 2, bullets: ['Fees per employee'] }] }
+        },
+        mastra,
+        getInitData: () => ({ userInput: 'payroll outsourcing' })
+      } as any);
+
+      expect(mastra.getAgent).toHaveBeenCalledWith('seoContentAgent');
+      expect(mockAgent.generate.mock.calls[0][0][0].content).toContain('## Costs\n\n- Fees per employee');
+      expect(mockAgent.generate.mock.calls[0][1].runtimeContext.get('modelPhase')).toBe('draft');
+      expect(result).toMatchObject({ articleSlug: 'payroll-outsourcing', article: '# Enhanced' });
+      expect(await fs.readFile(path.join(articlePath, 'draft-article.md'), 'utf-8')).toBe('# Draft');
+      expect(await fs.readFile(path.join(articlePath, 'enhanced-article.md'), 'utf-8')).toBe('# Enhanced');
+
+      await fs.rm(articlePath, { recursive: true, force: true });
     });
   });
 
   describe('optimization phase', () => {
-    it('should use seoOptimizationAgent for all optimization sub-phases', async () => {
-      const mockOptimizationResult = {
-        messages: [{ content: 'Optimization complete' }],
-        text: 'Optimized content...'
+    it('should have seoOptimizationAgent optimize the article and score it with the profile of its article type', async () => {
+      const articlePath = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-article-'));
+      const output = {
+        article: '# Payroll outsourcing\n\nPayroll outsourcing moves salary runs to a provider.',
+        metadata: { title: 'Payroll outsourcing', description: 'What payroll outsourcing covers.', h1: 'Payroll outsourcing', semanticKeywords: [] },
+        faqs: [{ question: 'What is payroll outsourcing?', answer: 'A provider runs your payroll.' }]
       };
-      mockAgent.generate.mockResolvedValue(mockOptimizationResult);
-
-      if (seoArticleWorkflow.steps.optimization_phase) {
-        const optimizationStep = seoArticleWorkflow.steps.optimization_phase;
-        const inputData = {
-          articleContent: 'Article content',
-          contentComplete: true
-        };
-        const context = { inputData, mastra };
-        const result = await optimizationStep.execute(context);
-
-        expect(mastra.getAgent).toHaveBeenCalledWith('seoOptimizationAgent');
-      }
+      mockAgent.generate.mockResolvedValue({ object: output });
+
+      const result = await seoArticleWorkflow.steps.optimization_phase.execute({
+        inputData: { articleSlug: 'payroll-outsourcing', articlePath, focusKeyword: 'payroll outsourcing', semanticKeywords: [], article: '# Enhanced' },
+        mastra,
+        getInitData: () => ({ userInput: 'payroll outsourcing', articleType: 'commercial' })
+      } as any);
+
+      expect(mastra.getAgent).toHaveBeenCalledWith('seoOptimizationAgent');
+      expect(mockAgent.generate.mock.calls[0][0][0].content).toContain('articleType "commercial"');
+      expect(await fs.readFile(path.join(articlePath, 'enhanced-article.md'), 'utf-8')).toBe(output.article);
+      expect(JSON.parse(await fs.readFile(path.join(articlePath, 'faqs.json'), 'utf-8')).faqs).toEqual(output.faqs);
+      expect(result).toMatchObject({ ...output, quality: { passed: false, iterations: [] } });
+      expect(result.quality.seoScore).toBeGreaterThan(0);
+
+      await fs.rm(articlePath, { recursive: true, force: true });
     });
   });
 
@@ -148,6 +301,199 @@ describe('seoArticleWorkflow', () => {
     });
   });
 
+  describe('quality loop', () => {
+    const artifact = {
+      article: '# Payroll outsourcing\n\nPayroll outsourcing moves salary runs to a provider.',
+      metadata: { title: 'Payroll outsourcing', description: 'What payroll outsourcing covers.', h1: 'Payroll outsourcing', semanticKeywords: [] },
+      faqs: [{ question: 'What is payroll outsourcing?', answer: 'A provider runs your payroll.' }]
+    };
+    const quality = {
+      thresholds: { seoScore: 95, readabilityScore: 70 },
+      seoScore: 40,
+      readabilityScore: 60,
+      overallScore: 50,
+      passed: false,
+      failingAssessments: [{ id: 'text-length', rating: 'bad', text: 'The text contains 8 words.' }],
+      iterations: []
+    };
+    const execute = (articlePath: string, inputQuality: object) => seoArticleWorkflow.steps.quality_loop.execute({
+      inputData: { articleSlug: 'payroll-outsourcing', articlePath, focusKeyword: 'payroll outsourcing', semanticKeywords: [], ...artifact, quality: inputQuality },
+      mastra,
+      getInitData: () => ({ userInput: 'payroll outsourcing', articleType: 'commercial' })
+    } as any);
+
+    it('should feed the failing assessments back to the agent and record the score delta', async () => {
+      const articlePath = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-article-'));
+      const revised = { ...artifact, article: `${artifact.article}\n\n${'Payroll outsourcing saves time for finance teams. '.repeat(40)}` };
+      mockAgent.generate.mockResolvedValue({ object: revised });
+
+      const result = await execute(articlePath, quality);
+
+      expect(mockAgent.generate.mock.calls[0][0][0].content).toContain('- [bad] text-length: The text contains 8 words.');
+      expect(await fs.readFile(path.join(articlePath, 'enhanced-article.md'), 'utf-8')).toBe(revised.article);
+      expect(result.article).toBe(revised.article);
+      expect(result.quality.iterations).toEqual([expect.objectContaining({
+        iteration: 1,
+        seoScore: result.quality.seoScore,
+        seoDelta: result.quality.seoScore - 40,
+        readabilityDelta: result.quality.readabilityScore - 60,
+        failingAssessments: ['text-length']
+      })]);
+
+      await fs.rm(articlePath, { recursive: true, force: true });
+    });
+
+    it('should not revise an article that passed or used up the iteration budget', async () => {
+      const passed = { ...quality, passed: true };
+      const exhausted = { ...quality, iterations: [1, 2, 3].map(iteration => ({ iteration, seoScore: 40, readabilityScore: 60, seoDelta: 0, readabilityDelta: 0, failingAssessments: [] })) };
+
+      expect((await execute('unused', passed)).quality).toBe(passed);
+      expect((await execute('unused', exhausted)).quality).toBe(exhausted);
+      expect(mockAgent.generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('human review', () => {
+    const quality = {
+      thresholds: { seoScore: 95, readabilityScore: 70 },
+      seoScore: 60,
+      readabilityScore: 80,
+      overallScore: 70,
+      passed: false,
+      failingAssessments: [],
+      iterations: [{ iteration: 1, seoScore: 60, readabilityScore: 80, seoDelta: 12, readabilityDelta: 0, failingAssessments: ['text-length'] }]
+    };
+    const faqs = [
+      { question: 'What is technical SEO?', answer: 'Work on crawling, indexing and speed.' },
+      { question: 'How often should I audit?', answer: 'Every quarter.' }
+    ];
+    const faqSchema = {
+      '@context': 'https://schema.org',
+      '@type': 'FAQPage',
+      mainEntity: faqs.map(faq => ({
+        '@type': 'Question',
+        name: faq.question,
+        acceptedAnswer: { '@type': 'Answer', text: faq.answer }
+      }))
+    };
+
+    it('should verify the files, FAQ count and SEO score of the article', async () => {
+      const articlePath = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-article-'));
+      await Promise.all([
+        fs.writeFile(path.join(articlePath, 'enhanced-article.md'), '# Technical SEO\n\nTechnical SEO keeps pages crawlable.'),
+        fs.writeFile(path.join(articlePath, 'faqs.json'), JSON.stringify({ faqs, schema: faqSchema }))
+      ]);
+
+      const artifact = {
+        article: '# Technical SEO\n\nTechnical SEO keeps pages crawlable.',
+        metadata: { title: 'Technical SEO', description: 'A short guide.', h1: 'Technical SEO', semanticKeywords: [] },
+        faqs
+      };
+      const reviewStep = seoArticleWorkflow.steps.human_review;
+      const result = await reviewStep.execute({
+        inputData: { articleSlug: 'technical-seo', articlePath, focusKeyword: 'technical SEO', semanticKeywords: [], ...artifact, quality },
+        getInitData: () => ({ userInput: 'technical SEO' }),
+        resumeData: { action: 'approve', artifact, revision: 1 }
+      } as any);
+
+      expect(result.deliveryReady).toBe(false);
+      expect(result.faqCount).toBe(2);
+      expect(result.missingFiles).toEqual(['outline.md', 'section-bullets.md', 'draft-article.md', 'seo-metadata.md']);
+      expect(result.seoScore).toBeGreaterThan(0);
+      expect(result.summary).toContain('only 2 of 3 FAQs');
+      expect(result.summary).toContain(`SEO score ${result.seoScore} is below 95`);
+      expect(result.optimizationIterations).toEqual(quality.iterations);
+
+      await fs.rm(articlePath, { recursive: true, force: true });
+    });
+
+    it('should suspend for publication with the verification summary', async () => {
+      const articlePath = await fs.mkdtemp(path.join(os.tmpdir(), 'seo-article-'));
+      await fs.writeFile(path.join(articlePath, 'faqs.json'), JSON.stringify({ faqs, schema: faqSchema }));
+
+      const suspend = vi.fn();
+      const article = '# Technical SEO\n\nTechnical SEO keeps pages crawlable.';
+      await seoArticleWorkflow.steps.human_review.execute({
+        inputData: {
+          articleSlug: 'technical-seo',
+          articlePath,
+          focusKeyword: 'technical SEO',
+          semanticKeywords: [],
+          article,
+          metadata: { title: 'Technical SEO', description: 'A short guide.', h1: 'Technical SEO', semanticKeywords: [] },
+          faqs,
+          quality
+        },
+        getInitData: () => ({ userInput: 'technical SEO' }),
+        suspend
+      } as any);
+
+      const request = suspend.mock.calls[0][0];
+      expect(request).toMatchObject({ checkpoint: 'publication', revision: 1, artifact: { article, faqs } });
+      expect(request.message).toContain('only 2 of 3 FAQs');
+      expect(request.message).toContain('The quality loop made 1 revision(s): +12 SEO.');
+      expect(mockAgent.generate).not.toHaveBeenCalled();
+
+      await fs.rm(articlePath, { recursive: true, force: true });
+    });
+  });
+
+  describe('retry replay', () => {
+    const research = {
+      articleSlug: 'payroll-outsourcing',
+      articlePath: 'articles/payroll-outsourcing',
+      focusKeyword: 'payroll outsourcing',
+      semanticKeywords: ['payroll provider'],
+      searchIntent: 'commercial',
+      keyFindings: [],
+      researchStrategy: 'full_research'
+    };
+
+    it('should collect the outputs of the steps before the retried step', () => {
+      const steps = {
+        research_phase: { status: 'success', output: research },
+        structure_phase: { status: 'failed', error: 'Outline invalid' }
+      };
+
+      expect(getReplaySteps(steps, 'structure_phase')).toEqual({ research_phase: research });
+      expect(getReplaySteps(steps, 'research_phase')).toEqual({});
+      expect(getReplaySteps(steps, 'content_phase')).toBeUndefined();
+      expect(getReplaySteps(steps, 'unknown_phase')).toBeUndefined();
+    });
+
+    it('should reuse a replayed output instead of running the step', async () => {
+      const result = await seoArticleWorkflow.steps.research_phase.execute({
+        inputData: { userInput: 'Payroll outsourcing', replay: { research_phase: research } },
+        mastra
+      } as any);
+
+      expect(result).toEqual(research);
+      expect(mockAgent.generate).not.toHaveBeenCalled();
+    });
+
+    it('should carry on from a replayed quality loop result only once', async () => {
+      const article = {
+        ...research,
+        article: '# Payroll outsourcing',
+        metadata: { title: 'Payroll outsourcing', description: 'Costs', h1: 'Payroll outsourcing', semanticKeywords: [] },
+        faqs: []
+      };
+      const quality = { thresholds: { seoScore: 95, readabilityScore: 70 }, seoScore: 96, readabilityScore: 80, overallScore: 88, passed: true, failingAssessments: [], iterations: [] };
+      const iteration = { iteration: 1, seoScore: 96, readabilityScore: 80, seoDelta: 10, readabilityDelta: 5, failingAssessments: [] };
+      const replayed = { ...article, article: '# Revised', quality: { ...quality, iterations: [iteration] } };
+      const execute = (inputData: object) => seoArticleWorkflow.steps.quality_loop.execute({
+        inputData,
+        mastra,
+        getInitData: () => ({ userInput: 'payroll outsourcing', replay: { quality_loop: replayed } })
+      } as any);
+
+      expect(await execute({ ...article, quality })).toMatchObject({ article: '# Revised', quality: replayed.quality });
+      const later = { ...article, article: '# Later', quality: { ...quality, iterations: [iteration] } };
+      expect(await execute(later)).toBe(later);
+      expect(mockAgent.generate).not.toHaveBeenCalled();
+    });
+  });
+
   describe('workflow execution', () => {
     it('should pass data between steps correctly', async () => {
       // Mock different responses for different agents
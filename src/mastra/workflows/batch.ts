@@ -0,0 +1,184 @@
+import connectDB from '@/lib/mongodb'
+import { saveWorkflowArticle, type WorkflowArticle } from '@/lib/article-library'
+import type { WorkflowBatch, WorkflowBatchRow } from '@/lib/workflow-batches'
+import type { WorkflowRunRegistry } from '@/lib/workflow-runs'
+import { WorkflowOptimizer } from '@/lib/workflow-optimizer'
+import { usageLedger, type UsageLedger } from '@/lib/usage-ledger'
+import type { SeoArticleResult, seoArticleWorkflow } from './seo-article-workflow'
+
+// A row's run that is still executing after this long is canceled and gives up its concurrency slot
+const BATCH_ROW_TIMEOUT_MS = 2 * 60 * 60 * 1000
+
+type SaveArticle = (owner: { userId: string; orgId?: string; userEmail: string }, article: WorkflowArticle) => Promise<string>
+
+interface BatchOptions {
+  saveArticle?: SaveArticle
+  ledger?: UsageLedger
+  rowTimeoutMs?: number
+}
+
+async function saveBatchArticle(...args: Parameters<SaveArticle>): Promise<string> {
+  await connectDB()
+  return saveWorkflowArticle(...args)
+}
+
+function formatError(error: unknown): string {
+  return (error instanceof Error ? error.message : String(error)).split('\n')[0]
+}
+
+/**
+ * Saves the article of a finished run that a batch started, once. Runs
+ * started elsewhere are left alone. Returns the article id.
+ */
+export async function completeBatchRow(
+  registry: WorkflowRunRegistry,
+  runId: string,
+  result: SeoArticleResult,
+  { saveArticle = saveBatchArticle, ledger = usageLedger }: BatchOptions = {}
+): Promise<string | undefined> {
+  const found = await registry.findBatchRow(runId)
+  if (!found) return undefined
+  const { batch, row } = found
+  if (row.articleId) return row.articleId
+
+  try {
+    const articleId = await saveArticle(batch, {
+      title: result.metadata.title,
+      slug: result.articleSlug,
+      content: result.content,
+      metaDescription: result.metadata.description,
+      focusKeyword: result.focusKeyword,
+      semanticKeywords: result.metadata.semanticKeywords,
+      articleType: row.articleType,
+      seoScore: result.seoScore,
+      readabilityScore: result.readabilityScore,
+      workflowData: {
+        runId,
+        batchId: batch.batchId,
+        articlePath: result.articlePath,
+        wordCount: result.wordCount,
+        faqCount: result.faqCount,
+        deliveryReady: result.deliveryReady,
+        optimizationIterations: result.optimizationIterations
+      }
+    })
+    await registry.updateBatchRow(batch.batchId, row.index, { articleId, error: null })
+    await ledger.assignArticle(runId, articleId)
+      .catch(error => console.error(`Failed to tag the usage of workflow run ${runId} with its article:`, error))
+    return articleId
+  } catch (error) {
+    console.error(`❌ Could not save the article of workflow run ${runId}:`, error)
+    await registry.updateBatchRow(batch.batchId, row.index, { error: `Could not save the article: ${formatError(error)}` })
+    return undefined
+  }
+}
+
+async function runBatchRow(
+  workflow: typeof seoArticleWorkflow,
+  registry: WorkflowRunRegistry,
+  batch: WorkflowBatch,
+  row: WorkflowBatchRow,
+  { rowTimeoutMs = BATCH_ROW_TIMEOUT_MS, ...options }: BatchOptions
+): Promise<void> {
+  // Another worker took the row, e.g. a second process resuming the batch
+  if (!(await registry.claimBatchRow(batch.batchId, row.index))) return
+
+  const input = {
+    userInput: row.keyword,
+    articleType: row.articleType,
+    targetAudience: row.audience || 'technical professionals',
+    urgency: 'standard' as const,
+    userId: batch.userId,
+    // Nobody reviews the rows as they run; their articles are saved as drafts instead
+    autoApprove: true
+  }
+  try {
+    // Rows queued before the owner ran over budget do not start
+    const budget = await (options.ledger ?? usageLedger).getBudgetStatus(batch.userId)
+    if (budget.exceeded) throw new Error('Usage budget exceeded')
+
+    const run = await workflow.createRunAsync()
+    await registry.register({ runId: run.runId, workflowId: workflow.id, userId: batch.userId, input })
+    await registry.updateBatchRow(batch.batchId, row.index, { runId: run.runId })
+
+    // Canceled the way the cancel route does it: the run stops at its next step boundary
+    const timeout = setTimeout(() => {
+      run.cancel()
+      registry.cancel(run.runId)
+        .then(() => registry.updateBatchRow(batch.batchId, row.index, { error: 'Timed out and canceled' }))
+        .catch(error => console.error(`❌ Could not cancel timed out workflow run ${run.runId}:`, error))
+    }, rowTimeoutMs)
+    timeout.unref?.()
+
+    let result
+    try {
+      result = await registry.monitor(run, () => run.start({ inputData: input }))
+    } finally {
+      clearTimeout(timeout)
+    }
+    if (result.status === 'success') {
+      await completeBatchRow(registry, run.runId, result.result, options)
+    }
+  } catch (error) {
+    console.error(`❌ Batch ${batch.batchId} row ${row.index + 1} failed:`, error)
+    await registry.updateBatchRow(batch.batchId, row.index, { status: 'failed', error: formatError(error) })
+  }
+}
+
+/**
+ * Starts a workflow run for each queued row of a batch, higher priorities
+ * first, with at most the batch's concurrency executing at once. A run holds
+ * its slot until it finishes, or is canceled when it runs past the row
+ * timeout. Resolves when every row has run.
+ */
+export async function runBatch(
+  workflow: typeof seoArticleWorkflow,
+  registry: WorkflowRunRegistry,
+  batchId: string,
+  options: BatchOptions = {}
+): Promise<void> {
+  const batch = await registry.getBatch(batchId)
+  if (!batch) throw new Error(`Batch ${batchId} not found`)
+
+  const optimizer = new WorkflowOptimizer({
+    maxConcurrency: batch.concurrency,
+    adaptiveConcurrency: false,
+    enableProgress: false,
+    enableCaching: false,
+    defaultTimeout: options.rowTimeoutMs ?? BATCH_ROW_TIMEOUT_MS,
+    defaultRetries: 0
+  })
+  const tasks = batch.rows
+    .filter(row => row.status === 'queued')
+    .map(row => ({
+      id: `${batchId}:${row.index}`,
+      name: `Batch row ${row.index + 1}: ${row.keyword}`,
+      priority: row.priority,
+      execute: () => runBatchRow(workflow, registry, batch, row, options)
+    }))
+
+  const results = await registry.holdBatch(batchId, () => optimizer.executeWorkflow(tasks, { batchId }))
+  results.forEach(result => {
+    if (!result.success) console.error(`❌ Batch task ${result.taskId} failed: ${result.error}`)
+  })
+}
+
+/**
+ * Continues, in the background, the batches with queued rows whose lease a
+ * stopped process no longer renews. Rows it claimed without starting a run
+ * are queued again. Returns the ids of the batches it continued.
+ */
+export async function resumeQueuedBatches(
+  workflow: typeof seoArticleWorkflow,
+  registry: WorkflowRunRegistry,
+  options: BatchOptions = {}
+): Promise<string[]> {
+  const resumed: string[] = []
+  for (const batchId of await registry.listQueuedBatchIds()) {
+    if (!(await registry.claimBatch(batchId))) continue
+    resumed.push(batchId)
+    void runBatch(workflow, registry, batchId, options)
+      .catch(error => console.error(`❌ Resumed batch ${batchId} failed:`, error))
+  }
+  return resumed
+}
@@ -62,7 +62,7 @@ const deepResearchStep = createStep({
       relevance: z.string(),
     })),
   }),
-  execute: async ({ inputData, mastra }) => {
+  execute: async ({ inputData, mastra, runtimeContext }) => {
     const { topic, targetAudience, articleType } = inputData;
 
     try {
@@ -98,6 +98,8 @@ Return findings in a structured format with:
         ],
         {
           maxSteps: 20,
+          // Carries the user the caller accounts the call to
+          runtimeContext,
           experimental_output: z.object({
             keyInsights: z.array(z.string()),
             sources: z.array(
@@ -0,0 +1,69 @@
+import type { WorkflowRunRecord, WorkflowRunRegistry } from '@/lib/workflow-runs'
+import { getReplaySteps, seoArticleWorkflow } from './seo-article-workflow'
+import { completeBatchRow } from './batch'
+import { executeWithEvents } from './run-events'
+
+type StepResults = Parameters<typeof getReplaySteps>[0]
+
+/**
+ * Step an interrupted run picks up from: the first one without a result, or
+ * the last one when they all finished before the final snapshot was written
+ */
+export function getResumeStep(steps: StepResults): string {
+  const stepIds = Object.keys(seoArticleWorkflow.steps)
+  return stepIds.find(stepId => steps[stepId]?.status !== 'success') ?? stepIds[stepIds.length - 1]
+}
+
+async function resumeInterruptedRun(
+  workflow: typeof seoArticleWorkflow,
+  registry: WorkflowRunRegistry,
+  record: WorkflowRunRecord
+): Promise<boolean> {
+  if (!(await registry.claim(record))) return false
+
+  // The snapshot Mastra stored after the last step that finished
+  const execution = await workflow.getWorkflowRunExecutionResult(record.runId)
+  if (execution && execution.status !== 'running') {
+    // The run ended, but the process stopped before the registry heard of it
+    await registry.record(record.runId, execution)
+    return false
+  }
+
+  const steps: StepResults = execution?.steps ?? {}
+  const stepId = getResumeStep(steps)
+  const replay = getReplaySteps(steps, stepId) ?? {}
+  const inputData = { ...record.input, userId: record.userId, replay: { ...(record.input.replay as Record<string, unknown> | undefined), ...replay } }
+
+  console.log(`Resuming workflow run ${record.runId} from ${stepId}`)
+  const run = await workflow.createRunAsync({ runId: record.runId })
+  void executeWithEvents(registry, run, writableStream =>
+    run.start({ inputData: inputData as Parameters<typeof run.start>[0]['inputData'], writableStream }))
+    .then(result => result.status === 'success' ? completeBatchRow(registry, record.runId, result.result) : undefined)
+    .catch(error => console.error(`❌ Resumed workflow run ${record.runId} failed:`, error))
+  return true
+}
+
+/**
+ * Restarts the SEO article runs a stopped process left running, i.e. whose
+ * lease it no longer renews, from the step after the last one their snapshot
+ * records as finished. Earlier steps are replayed from the snapshot, so their
+ * agents do not run again. Returns the ids of the runs it restarted; they
+ * continue in the background.
+ */
+export async function resumeInterruptedRuns(
+  workflow: typeof seoArticleWorkflow,
+  registry: WorkflowRunRegistry
+): Promise<string[]> {
+  const interrupted = await registry.listByStatus('running')
+  const resumed: string[] = []
+
+  for (const record of interrupted.filter(record => record.workflowId === workflow.id)) {
+    try {
+      if (await resumeInterruptedRun(workflow, registry, record)) resumed.push(record.runId)
+    } catch (error) {
+      console.error(`❌ Could not resume workflow run ${record.runId}:`, error)
+      await registry.recordFailure(record.runId, error).catch(() => undefined)
+    }
+  }
+  return resumed
+}
@@ -0,0 +1,54 @@
+import type { WorkflowRunRegistry } from '@/lib/workflow-runs'
+import { toWorkflowEvents, type WorkflowEvent } from '@/lib/workflow-events'
+import { getPendingReview, type seoArticleWorkflow } from './seo-article-workflow'
+
+type SeoArticleRun = Awaited<ReturnType<typeof seoArticleWorkflow.createRunAsync>>
+type SeoArticleResult = Awaited<ReturnType<SeoArticleRun['start']>>
+
+/**
+ * Executes a run under the registry's monitor and publishes its events: the
+ * step lifecycle Mastra reports while it runs, the tool calls and token usage
+ * the steps write to `writableStream`, and the outcome. Every event is stored,
+ * so a client follows the run from the stream route whichever request or
+ * process executes it. `run.resume` takes no stream, so resumed runs publish
+ * the step lifecycle and outcome only.
+ */
+export async function executeWithEvents(
+  registry: WorkflowRunRegistry,
+  run: SeoArticleRun,
+  execute: (writableStream: WritableStream) => Promise<SeoArticleResult>,
+  send: (event: WorkflowEvent) => void = () => undefined
+): Promise<SeoArticleResult> {
+  const events = registry.createEventPublisher(run.runId, send)
+  try {
+    events.publish({ type: 'run_started' })
+
+    const startedAt = new Map<string, number>()
+    const forward = (chunk: { type: string; payload?: Record<string, any> }) => {
+      toWorkflowEvents(chunk, startedAt).forEach(events.publish)
+    }
+    const unwatch = run.watch(forward, 'watch-v2')
+
+    let result
+    try {
+      result = await registry.monitor(run, () => execute(new WritableStream({ write: forward })))
+    } finally {
+      unwatch()
+    }
+
+    if (result.status === 'success') {
+      events.publish({ type: 'workflow_complete', result: result.result })
+    } else if (result.status === 'suspended') {
+      events.publish({ type: 'workflow_suspended', review: getPendingReview(result.steps)?.review })
+    } else {
+      const error = result.error instanceof Error ? result.error.message : result.error
+      events.publish({ type: 'workflow_failed', error: String(error || 'Workflow execution failed').split('\n')[0] })
+    }
+    return result
+  } catch (error) {
+    events.publish({ type: 'workflow_failed', error: error instanceof Error ? error.message : 'Unknown error occurred' })
+    throw error
+  } finally {
+    await events.flush()
+  }
+}
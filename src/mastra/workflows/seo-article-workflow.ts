@@ -1,34 +1,385 @@
 import { createWorkflow, createStep } from "@mastra/core/workflows"
+import type { Agent } from "@mastra/core/agent"
 import { z } from "zod"
+import * as fs from "fs/promises"
+import * as path from "path"
+import { ARTICLE_TYPES, AssessmentResult, SEOAnalyzer, formatSchemaIssues, getQualityThresholds, getScoringProfile, validateStructuredData } from "@/lib/seo-analyzer"
+import { SITE_CONFIG } from "@/config/site"
+import type { StepTelemetry } from "@/lib/workflow-events"
+import type { ModelPhase } from "@/config/models"
+import { RuntimeContext } from "@mastra/core/runtime-context"
+import { MODEL_PHASE_KEY } from "@/mastra/agents/model-router"
+import { USAGE_USER_KEY } from "@/lib/agent-wrapper"
 
 // Input schema for the SEO article workflow
 const seoArticleWorkflowSchema = z.object({
   userInput: z.string().describe("The keyword, topic, or context provided by the user"),
-  articleType: z.enum(['informational', 'commercial', 'transactional', 'hybrid']).optional(),
+  articleType: z.enum(ARTICLE_TYPES).optional(),
   targetAudience: z.string().optional().describe("Specific audience if provided"),
-  urgency: z.enum(['standard', 'rush']).default('standard')
+  urgency: z.enum(['standard', 'rush']).default('standard'),
+  userId: z.string().optional().describe("Clerk user the run's agent usage is accounted to"),
+  autoApprove: z.boolean().optional().describe("Approve every review checkpoint instead of suspending, for runs nobody reviews such as batch rows"),
+  replay: z.record(z.string(), z.unknown()).optional().describe("Outputs of earlier steps, keyed by step id, that a retried run reuses instead of running the steps again")
 })
 
+const MIN_FAQ_COUNT = 3
+// Revisions the quality loop may make before the article goes to review as is
+const MAX_OPTIMIZATION_ITERATIONS = 3
+// Files every finished article folder must contain
+const REQUIRED_FILES = ['outline.md', 'section-bullets.md', 'draft-article.md', 'enhanced-article.md', 'seo-metadata.md', 'faqs.json']
+
+// Structured output the agents return for each phase
+const researchOutputSchema = z.object({
+  semanticKeywords: z.array(z.string()).min(1).describe("Semantic keywords and close variants of the focus keyword"),
+  searchIntent: z.string().describe("Search intent behind the focus keyword"),
+  keyFindings: z.array(z.string()).describe("Findings from keyword, persona and SERP research")
+})
+
+const outlineSchema = z.object({
+  h1: z.string().describe("H1 of the article"),
+  sections: z.array(z.object({
+    heading: z.string(),
+    level: z.number().int().min(2).max(3).describe("2 for an H2, 3 for an H3"),
+    bullets: z.array(z.string()).describe("3-5 points the section covers")
+  })).min(1)
+})
+
+const draftOutputSchema = z.object({
+  draft: z.string().describe("Phase 7 draft article in Markdown"),
+  enhanced: z.string().describe("Phase 8 enhanced article in Markdown")
+})
+
+const metadataSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  h1: z.string(),
+  semanticKeywords: z.array(z.string())
+})
+
+const faqSchema = z.object({
+  question: z.string(),
+  answer: z.string()
+})
+
+const optimizationOutputSchema = z.object({
+  article: z.string().describe("Final article in Markdown after phases 11-14"),
+  metadata: metadataSchema,
+  faqs: z.array(faqSchema)
+})
+
+const researchArtifactSchema = researchOutputSchema.extend({
+  researchStrategy: z.string()
+})
+
+// Quality gate scores after the optimization pass and each revision of the loop
+const qualityIterationSchema = z.object({
+  iteration: z.number().int(),
+  seoScore: z.number(),
+  readabilityScore: z.number(),
+  seoDelta: z.number(),
+  readabilityDelta: z.number(),
+  failingAssessments: z.array(z.string()).describe("Assessments the revision was asked to fix")
+})
+
+const qualitySchema = z.object({
+  thresholds: z.object({ seoScore: z.number(), readabilityScore: z.number() }),
+  seoScore: z.number(),
+  readabilityScore: z.number(),
+  overallScore: z.number(),
+  passed: z.boolean(),
+  failingAssessments: z.array(z.object({ id: z.string(), rating: z.string(), text: z.string() })),
+  iterations: z.array(qualityIterationSchema)
+})
+
+type Outline = z.infer<typeof outlineSchema>
+type Metadata = z.infer<typeof metadataSchema>
+type Faq = z.infer<typeof faqSchema>
+type OptimizationOutput = z.infer<typeof optimizationOutputSchema>
+type Quality = z.infer<typeof qualitySchema>
+
+// Checkpoints where the run suspends until a reviewer approves, edits or rejects the artifact
+export const REVIEW_CHECKPOINTS = ['research', 'outline', 'publication'] as const
+export type ReviewCheckpoint = typeof REVIEW_CHECKPOINTS[number]
+
+// Artifact a reviewer sees and may edit at each checkpoint
+export const REVIEW_ARTIFACT_SCHEMAS = {
+  research: researchArtifactSchema,
+  outline: outlineSchema,
+  publication: optimizationOutputSchema
+} satisfies Record<ReviewCheckpoint, z.ZodTypeAny>
+
+// Resume data of a checkpoint. A rejection reruns the step with the feedback.
+export const reviewDecisionSchema = z.object({
+  action: z.enum(['approve', 'edit', 'reject']),
+  artifact: z.unknown().optional().describe("Edited artifact, or the pending one when approving"),
+  feedback: z.string().optional().describe("What the rerun should change"),
+  revision: z.number().int().optional().describe("Revision of the artifact the decision is about")
+})
+  .refine(decision => decision.action !== 'edit' || decision.artifact !== undefined, {
+    message: 'An edit needs the edited artifact',
+    path: ['artifact']
+  })
+  .refine(decision => decision.action !== 'reject' || Boolean(decision.feedback?.trim()), {
+    message: 'A rejection needs feedback',
+    path: ['feedback']
+  })
+
+// Suspend payload of a checkpoint
+export const reviewRequestSchema = z.object({
+  checkpoint: z.enum(REVIEW_CHECKPOINTS),
+  revision: z.number().int(),
+  artifact: z.unknown(),
+  message: z.string()
+})
+
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>
+export type ReviewRequest = z.infer<typeof reviewRequestSchema>
+
+// Fields carried from step to step so later phases work on the real artifacts
+const articleContextSchema = z.object({
+  articleSlug: z.string(),
+  articlePath: z.string(),
+  focusKeyword: z.string(),
+  semanticKeywords: z.array(z.string())
+})
+
+const researchStepOutputSchema = articleContextSchema.extend({
+  searchIntent: z.string(),
+  keyFindings: z.array(z.string()),
+  researchStrategy: z.string()
+})
+
+const structureStepOutputSchema = articleContextSchema.extend({
+  outline: outlineSchema
+})
+
+const contentStepOutputSchema = articleContextSchema.extend({
+  article: z.string()
+})
+
+const optimizedArticleSchema = articleContextSchema.extend({
+  article: z.string(),
+  metadata: metadataSchema,
+  faqs: z.array(faqSchema),
+  quality: qualitySchema
+})
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'output'}: ${issue.message}`)
+}
+
+// Writer Mastra gives each step; what it receives reaches the run's event stream
+type StepWriter = { write(data: StepTelemetry): Promise<void> }
+
+// Step an agent is called from: the run it belongs to, the user the run is
+// accounted to, the step's writer and the phase the agent's model is routed by
+type AgentCall = { runId?: string; userId?: string; writer?: StepWriter; phase?: ModelPhase }
+
+/**
+ * Agent options that tag the call with its workflow run and user, for usage
+ * accounting, route it to the model of its phase, and report the tool calls
+ * and token usage of each agent step to the step writer
+ */
+function telemetryOptions(agent: Agent, { runId, userId, writer, phase }: AgentCall = {}) {
+  const runtimeContext = new RuntimeContext()
+  if (phase) runtimeContext.set(MODEL_PHASE_KEY, phase)
+  if (userId) runtimeContext.set(USAGE_USER_KEY, userId)
+  if (!writer) return { runId, runtimeContext }
+  return {
+    runId,
+    runtimeContext,
+    onStepFinish: async (step: unknown) => {
+      const { toolCalls = [], usage } = step as {
+        toolCalls?: { toolName: string }[]
+        usage?: { promptTokens?: number; completionTokens?: number; totalTokens?: number }
+      }
+      for (const call of toolCalls) {
+        await writer.write({ type: 'tool-call', agent: agent.name, toolName: call.toolName })
+      }
+      if (usage) {
+        await writer.write({
+          type: 'usage',
+          agent: agent.name,
+          promptTokens: usage.promptTokens ?? 0,
+          completionTokens: usage.completionTokens ?? 0,
+          totalTokens: usage.totalTokens ?? 0
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Runs an agent and returns its structured output. Agents that answer
+ * without output matching the schema fail the step.
+ */
+async function generateOutput<T extends z.ZodTypeAny>(
+  agent: Agent,
+  prompt: string,
+  schema: T,
+  maxSteps: number,
+  call?: AgentCall
+): Promise<z.infer<T>> {
+  const result = await agent.generate([{
+    role: 'user',
+    content: prompt
+  }], { maxSteps, experimental_output: schema, ...telemetryOptions(agent, call) })
+
+  const parsed = schema.safeParse((result as { object?: unknown }).object)
+  if (!parsed.success) {
+    throw new Error(`Agent ${agent.name} returned no valid output:\n- ${formatIssues(parsed.error).join('\n- ')}`)
+  }
+  return parsed.data
+}
+
+function resolveArticleDir(articlePath: string): string {
+  return path.resolve(process.cwd(), articlePath)
+}
+
+/**
+ * Writes the step's files so a step re-executed after a restart leaves the
+ * folder as one run would: unchanged files are left alone, and each file is
+ * replaced in one rename so an interrupted write never leaves half a file.
+ */
+async function writeArtifacts(articlePath: string, files: Record<string, string>): Promise<void> {
+  const articleDir = resolveArticleDir(articlePath)
+  await fs.mkdir(articleDir, { recursive: true })
+  await Promise.all(
+    Object.entries(files).map(async ([fileName, content]) => {
+      const filePath = path.join(articleDir, fileName)
+      const existing = await fs.readFile(filePath, 'utf-8').catch(() => undefined)
+      if (existing === content) return
+
+      const tempPath = `${filePath}.${process.pid}.tmp`
+      await fs.writeFile(tempPath, content, 'utf-8')
+      await fs.rename(tempPath, filePath)
+    })
+  )
+}
+
+function formatOutline(outline: Outline): string {
+  const headings = outline.sections.map(section => `${'#'.repeat(section.level)} ${section.heading}`)
+  return `# ${outline.h1}\n\n${headings.join('\n')}\n`
+}
+
+function formatSectionBullets(outline: Outline): string {
+  const sections = outline.sections.map(section =>
+    `${'#'.repeat(section.level)} ${section.heading}\n\n${section.bullets.map(bullet => `- ${bullet}`).join('\n')}`
+  )
+  return `# Section Bullet Points\n\n${sections.join('\n\n')}\n`
+}
+
+function formatMetadata(metadata: Metadata): string {
+  const json = {
+    title: metadata.title,
+    description: metadata.description,
+    h1: metadata.h1,
+    semantic_keywords: metadata.semanticKeywords
+  }
+  return `# SEO Metadata\n\n\`\`\`json\n${JSON.stringify(json, null, 2)}\n\`\`\`\n`
+}
+
+function createFaqSchema(faqs: Faq[]) {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    mainEntity: faqs.map(faq => ({
+      '@type': 'Question',
+      name: faq.question,
+      acceptedAnswer: { '@type': 'Answer', text: faq.answer }
+    }))
+  }
+}
+
+function formatFeedback(feedback?: string): string {
+  return feedback
+    ? `\n\nA reviewer rejected the previous version. Address this feedback:\n${feedback}`
+    : ''
+}
+
+type ReviewOutcome<T> = { approved: true; artifact: T } | { approved: false; request: ReviewRequest }
+
+/**
+ * Applies the reviewer's decision at a checkpoint. Without a decision, or
+ * after a rejection, the artifact is produced again and returned as the
+ * request the step suspends with, unless the run approves its checkpoints
+ * itself.
+ */
+async function reviewCheckpoint<T extends z.ZodTypeAny>({ checkpoint, schema, decision, autoApprove, produce, describe }: {
+  checkpoint: ReviewCheckpoint
+  schema: T
+  decision?: ReviewDecision
+  autoApprove?: boolean
+  produce: (feedback?: string) => Promise<z.infer<T>>
+  describe: (artifact: z.infer<T>) => string | Promise<string>
+}): Promise<ReviewOutcome<z.infer<T>>> {
+  if (decision && decision.action !== 'reject') {
+    const parsed = schema.safeParse(decision.artifact)
+    if (!parsed.success) {
+      throw new Error(`Invalid ${checkpoint} artifact:\n- ${formatIssues(parsed.error).join('\n- ')}`)
+    }
+    return { approved: true, artifact: parsed.data }
+  }
+
+  const artifact = await produce(decision?.feedback)
+  if (autoApprove) return { approved: true, artifact }
+  return {
+    approved: false,
+    request: {
+      checkpoint,
+      revision: (decision?.revision ?? 0) + 1,
+      artifact,
+      message: await describe(artifact)
+    }
+  }
+}
+
+/**
+ * The review a run is suspended on, read from its step results
+ */
+export function getPendingReview(
+  steps: Record<string, { status: string; suspendPayload?: unknown }>
+): { stepId: string; review: ReviewRequest } | undefined {
+  for (const [stepId, step] of Object.entries(steps)) {
+    if (step?.status !== 'suspended') continue
+    const parsed = reviewRequestSchema.safeParse(step.suspendPayload)
+    if (parsed.success) return { stepId, review: parsed.data }
+  }
+  return undefined
+}
+
+/**
+ * Output an earlier run left for the step, when this run retries from a later step
+ */
+function getReplayedOutput<T extends z.ZodTypeAny>(
+  { replay }: z.infer<typeof seoArticleWorkflowSchema>,
+  stepId: string,
+  schema: T
+): z.infer<T> | undefined {
+  const output = replay?.[stepId]
+  return output === undefined ? undefined : schema.parse(output)
+}
+
 // Phase 1-3: Research & Analysis
 const researchStep = createStep({
   id: "research_phase",
   description: "Execute SEO research phases 1-3",
   inputSchema: seoArticleWorkflowSchema,
-  outputSchema: z.object({
-    articleSlug: z.string(),
-    focusKeyword: z.string(),
-    semanticKeywords: z.array(z.string()),
-    researchComplete: z.boolean(),
-    researchStrategy: z.string().optional()
-  }),
-  execute: async ({ inputData, mastra }) => {
-    const { userInput, articleType, targetAudience } = inputData
-    
+  outputSchema: researchStepOutputSchema,
+  resumeSchema: reviewDecisionSchema,
+  suspendSchema: reviewRequestSchema,
+  execute: async ({ inputData, mastra, resumeData, suspend, runId, writer }) => {
+    const replayed = getReplayedOutput(inputData, 'research_phase', researchStepOutputSchema)
+    if (replayed) return replayed
+
+    const { userInput, articleType, targetAudience, autoApprove } = inputData
+
     // Get the SEO Research Agent (includes deep research capabilities)
     const seoResearchAgent = mastra!.getAgent('seoResearchAgent')
-    
-    // Create research prompt for the agent
-    const researchPrompt = `Execute SEO Research Phases 1-3 for: "${userInput}"
+
+    const runResearch = async (feedback?: string) => {
+      // Create research prompt for the agent
+      const researchPrompt = `Execute SEO Research Phases 1-3 for: "${userInput}"
 
 Article Type: ${articleType || 'informational'}
 Target Audience: ${targetAudience || 'technical professionals'}
@@ -38,7 +389,7 @@ Phase 1: Focus Keyword Research
 - Generate semantic keywords and competitor analysis
 - Identify content gaps and opportunities
 
-Phase 2: Persona Briefing  
+Phase 2: Persona Briefing
 - Analyze search intent and define target persona
 - Document decision-maker profile and pain points
 
@@ -46,63 +397,58 @@ Phase 3: SERP Analysis
 - Analyze competitor content structure and tone
 - Identify differentiation opportunities
 
-Create article slug and provide research summary.`
-
-    // Progressive fallback strategy for research
-    const maxRetries = 3
-    const fallbackStrategies = [
-      // Strategy 1: Full deep research with blog agent
-      async () => {
-        console.log('Attempting full research with blog agent...')
-        const result = await seoResearchAgent.generate([{
-          role: 'user',
-          content: researchPrompt
-        }], { maxSteps: 15 })
-        return { result, strategy: 'full_research' }
-      },
-      // Strategy 2: Basic research with web search only
-      async () => {
-        console.log('Falling back to basic web search research...')
-        // Use the research agent with limited scope
-        const fallbackResult = await seoResearchAgent.generate([{
-          role: 'user',
-          content: `Perform basic web search research for: "${userInput}". Focus on key findings and semantic keywords only.`
-        }], { maxSteps: 5 })
-        return { result: fallbackResult, strategy: 'web_search_only' }
-      },
-      // Strategy 3: Template-based research
-      async () => {
-        console.log('Using template-based research fallback...')
-        return { 
-          result: {
-            keyFindings: [`Basic research for ${userInput}`],
-            semanticKeywords: [userInput, `${userInput} guide`, `${userInput} tips`]
-          }, 
-          strategy: 'template_based' 
+Return the semantic keywords, the search intent and your key findings.${formatFeedback(feedback)}`
+
+      // Progressive fallback strategy for research
+      const fallbackStrategies = [
+        // Strategy 1: Full deep research
+        async () => {
+          console.log('Attempting full research with research agent...')
+          const result = await generateOutput(seoResearchAgent, researchPrompt, researchOutputSchema, 15, { runId, userId: inputData.userId, writer, phase: 'research' })
+          return { ...result, researchStrategy: 'full_research' }
+        },
+        // Strategy 2: Basic research with web search only
+        async () => {
+          console.log('Falling back to basic web search research...')
+          const result = await generateOutput(
+            seoResearchAgent,
+            `Perform basic web search research for: "${userInput}". Focus on key findings and semantic keywords only.${formatFeedback(feedback)}`,
+            researchOutputSchema,
+            5,
+            { runId, userId: inputData.userId, writer, phase: 'research' }
+          )
+          return { ...result, researchStrategy: 'web_search_only' }
         }
-      }
-    ]
-
-    let researchResult = null
-    let usedStrategy = 'unknown'
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const strategyResult = await fallbackStrategies[attempt]()
-        researchResult = strategyResult.result
-        usedStrategy = strategyResult.strategy
-        console.log(`Research successful using strategy: ${usedStrategy}`)
-        break
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-        console.warn(`Research attempt ${attempt + 1} failed:`, errorMessage)
-        if (attempt === maxRetries - 1) {
-          console.error('All research strategies failed, using minimal fallback')
-          researchResult = null
+      ]
+
+      let lastError: unknown
+      for (let attempt = 0; attempt < fallbackStrategies.length; attempt++) {
+        try {
+          const research = await fallbackStrategies[attempt]()
+          console.log(`Research successful using strategy: ${research.researchStrategy}`)
+          return research
+        } catch (error) {
+          lastError = error
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+          console.warn(`Research attempt ${attempt + 1} failed:`, errorMessage)
         }
       }
+
+      console.error('All research strategies failed')
+      throw lastError instanceof Error ? lastError : new Error('Research failed')
     }
 
+    const review = await reviewCheckpoint({
+      checkpoint: 'research',
+      schema: researchArtifactSchema,
+      decision: resumeData,
+      autoApprove,
+      produce: runResearch,
+      describe: research => `Review the research for "${userInput}": ${research.semanticKeywords.length} semantic keywords and ${research.keyFindings.length} key findings for ${research.searchIntent} intent.`
+    })
+    if (!review.approved) return suspend(review.request)
+    const research = review.artifact
+
     // Create article slug from user input
     const articleSlug = userInput
       .toLowerCase()
@@ -110,21 +456,14 @@ Create article slug and provide research summary.`
       .replace(/\s+/g, '-')
       .substring(0, 50)
 
-    // Extract semantic keywords based on strategy used
-    let semanticKeywords: string[] = []
-    if (researchResult && usedStrategy === 'template_based') {
-      semanticKeywords = (researchResult as any).semanticKeywords || []
-    } else {
-      // For agent-generated results, extract from response or use defaults
-      semanticKeywords = [userInput, `${userInput} guide`, `${userInput} tips`]
-    }
-
     return {
       articleSlug,
+      articlePath: `generated-articles/${articleSlug}`,
       focusKeyword: userInput,
-      semanticKeywords,
-      researchComplete: researchResult !== null,
-      researchStrategy: usedStrategy
+      semanticKeywords: research.semanticKeywords,
+      searchIntent: research.searchIntent,
+      keyFindings: research.keyFindings,
+      researchStrategy: research.researchStrategy
     }
   }
 })
@@ -133,71 +472,69 @@ Create article slug and provide research summary.`
 const structureStep = createStep({
   id: "structure_phase",
   description: "Execute structure and planning phases 4-6",
-  inputSchema: z.object({
-    articleSlug: z.string(),
-    focusKeyword: z.string(),
-    semanticKeywords: z.array(z.string()),
-    researchComplete: z.boolean(),
-    researchStrategy: z.string().optional()
-  }),
-  outputSchema: z.object({
-    folderCreated: z.boolean(),
-    outlineComplete: z.boolean(),
-    bulletsComplete: z.boolean()
-  }),
-  execute: async ({ inputData, mastra }) => {
-    const { articleSlug, focusKeyword, semanticKeywords, researchComplete } = inputData
-    
-    if (!researchComplete) {
-      throw new Error("Research phase must be complete before structure phase")
+  inputSchema: researchStep.outputSchema,
+  outputSchema: structureStepOutputSchema,
+  resumeSchema: reviewDecisionSchema,
+  suspendSchema: reviewRequestSchema,
+  execute: async ({ inputData, mastra, getInitData, resumeData, suspend, runId, writer }) => {
+    const initData = getInitData<typeof seoArticleWorkflowSchema>()
+    const replayed = getReplayedOutput(initData, 'structure_phase', structureStepOutputSchema)
+    if (replayed) return replayed
+
+    const { articleSlug, articlePath, focusKeyword, semanticKeywords, searchIntent, keyFindings } = inputData
+    const structureAgent = mastra!.getAgent('seoStructureAgent')
+
+    const createFolder = async () => {
+      console.log(`Creating folder structure for: ${articleSlug}`)
+      const folderPrompt = `Create the folder structure for article: "${articleSlug}". Use the article file manager tool to create the complete directory structure with all required placeholder files.`
+
+      await structureAgent.generate([{
+        role: 'user',
+        content: folderPrompt
+      }], { maxSteps: 3, ...telemetryOptions(structureAgent, { runId, userId: initData.userId, writer, phase: 'folder_setup' }) })
     }
 
-    // Run folder creation and initial planning in parallel
-    const [folderResult, planningResult] = await Promise.all([
-      // Folder creation task
-      (async () => {
-        console.log(`Creating folder structure for: ${articleSlug}`)
-        // Use the structure agent to create folders
-        const structureAgent = mastra!.getAgent('seoStructureAgent')
-        const folderPrompt = `Create the folder structure for article: "${articleSlug}". Use the article file manager tool to create the complete directory structure with all required placeholder files.`
-        
-        await structureAgent.generate([{
-          role: 'user',
-          content: folderPrompt
-        }], { maxSteps: 3 })
-        
-        return { folderCreated: true }
-      })(),
-      
-      // Initial planning task
-      (async () => {
-        console.log(`Starting outline planning for: ${focusKeyword}`)
-        const structureAgent = mastra!.getAgent('seoStructureAgent')
-        const planningPrompt = `Create comprehensive outline and section bullets for: "${focusKeyword}"
-        
-        Semantic Keywords: ${semanticKeywords.join(', ')}
-        
-        Phase 5: Create detailed H2/H3 outline structure
-        Phase 6: Generate 3-5 bullet points for each section
-        
-        Focus on user intent and SEO optimization.`
-        
-        const result = await structureAgent.generate([{
-          role: 'user',
-          content: planningPrompt
-        }], { maxSteps: 10 })
-        
-        return { 
-          outlineComplete: true,
-          bulletsComplete: true 
-        }
-      })()
-    ])
+    const planOutline = async (feedback?: string) => {
+      console.log(`Starting outline planning for: ${focusKeyword}`)
+      const planningPrompt = `Create comprehensive outline and section bullets for: "${focusKeyword}"
 
-    return {
-      ...folderResult,
-      ...planningResult
+      Semantic Keywords: ${semanticKeywords.join(', ')}
+      Search Intent: ${searchIntent}
+      Key Findings:
+      ${keyFindings.map(finding => `- ${finding}`).join('\n      ')}
+
+      Phase 5: Create detailed H2/H3 outline structure
+      Phase 6: Generate 3-5 bullet points for each section
+
+      Focus on user intent and SEO optimization.${formatFeedback(feedback)}`
+
+      return generateOutput(structureAgent, planningPrompt, outlineSchema, 10, { runId, userId: initData.userId, writer, phase: 'outline' })
     }
+
+    // The folder is created once, in parallel with the first outline
+    const [, review] = await Promise.all([
+      resumeData ? Promise.resolve() : createFolder(),
+      reviewCheckpoint({
+        checkpoint: 'outline',
+        schema: outlineSchema,
+        decision: resumeData,
+        autoApprove: initData.autoApprove,
+        produce: planOutline,
+        describe: outline => `Review the outline "${outline.h1}": ${outline.sections.length} sections before the article is drafted.`
+      })
+    ])
+    if (!review.approved) return suspend(review.request)
+    const outline = review.artifact
+
+    // Written after the folder exists so its placeholders do not overwrite the outline
+    await writeArtifacts(articlePath, {
+      'focus-keyword.txt': focusKeyword,
+      'semantic-keywords.json': JSON.stringify(semanticKeywords, null, 2),
+      'outline.md': formatOutline(outline),
+      'section-bullets.md': formatSectionBullets(outline)
+    })
+
+    return { articleSlug, articlePath, focusKeyword, semanticKeywords, outline }
   }
 })
 
@@ -205,104 +542,74 @@ const structureStep = createStep({
 const contentStep = createStep({
   id: "content_phase",
   description: "Execute content creation phases 7-8",
-  inputSchema: z.object({
-    articleSlug: z.string(),
-    folderCreated: z.boolean(),
-    outlineComplete: z.boolean(),
-    bulletsComplete: z.boolean()
-  }),
-  outputSchema: z.object({
-    draftComplete: z.boolean(),
-    enhancedComplete: z.boolean()
-  }),
-  execute: async ({ inputData, mastra }) => {
-    const { articleSlug, folderCreated, outlineComplete, bulletsComplete } = inputData
-    
-    if (!folderCreated || !outlineComplete || !bulletsComplete) {
-      throw new Error("Structure phase must be complete before content phase")
-    }
+  inputSchema: structureStep.outputSchema,
+  outputSchema: contentStepOutputSchema,
+  execute: async ({ inputData, mastra, getInitData, runId, writer }) => {
+    const initData = getInitData<typeof seoArticleWorkflowSchema>()
+    const replayed = getReplayedOutput(initData, 'content_phase', contentStepOutputSchema)
+    if (replayed) return replayed
+
+    const { articleSlug, articlePath, focusKeyword, semanticKeywords, outline } = inputData
 
     // Get the SEO Content Agent for content creation
     const contentAgent = mastra!.getAgent('seoContentAgent')
-    
+
     const contentPrompt = `Execute content creation phases 7-8 for article: "${articleSlug}"
 
+Outline and section bullets:
+${formatSectionBullets(outline)}
 Phase 7: Draft Article Creation
-- Read the section-bullets.md file from the article folder
+- Start with the H1 "${outline.h1}"
 - Transform each bullet point into full paragraphs (80-120 words each)
-- Maintain persona tone and integrate semantic keywords naturally
-- Save as draft-article.md
+- Maintain persona tone and integrate these semantic keywords naturally: ${semanticKeywords.join(', ')}
 
 Phase 8: Content Enhancement
 - Polish the draft with smooth transitions and flow
 - Ensure consistent tone and logical progression
 - Add transitional phrases between sections
-- Save as enhanced-article.md
 
-Use the article file manager tool to read existing files and save the outputs.`
+Return the Phase 7 draft and the Phase 8 enhanced article in Markdown.`
 
-    try {
-      // Execute content creation with the agent
-      await contentAgent.generate([{
-        role: 'user',
-        content: contentPrompt
-      }], { maxSteps: 20 })
+    const { draft, enhanced } = await generateOutput(contentAgent, contentPrompt, draftOutputSchema, 20, { runId, userId: initData.userId, writer, phase: 'draft' })
 
-      return {
-        draftComplete: true,
-        enhancedComplete: true
-      }
-    } catch (error) {
-      console.error('Content creation failed:', error)
-      // Fallback: At least create the files
-      return {
-        draftComplete: false,
-        enhancedComplete: false
-      }
-    }
+    await writeArtifacts(articlePath, {
+      'draft-article.md': draft,
+      'enhanced-article.md': enhanced
+    })
+
+    return { articleSlug, articlePath, focusKeyword, semanticKeywords, article: enhanced }
   }
 })
 
-// Phase 9-15: Optimization & Polish
-const optimizationStep = createStep({
-  id: "optimization_phase",
-  description: "Execute optimization and polish phases 9-15",
-  inputSchema: z.object({
-    articleSlug: z.string(),
-    draftComplete: z.boolean(),
-    enhancedComplete: z.boolean()
-  }),
-  outputSchema: z.object({
-    metadataComplete: z.boolean(),
-    faqsComplete: z.boolean(),
-    sgeOptimized: z.boolean(),
-    uxEnhanced: z.boolean(),
-    yoastOptimized: z.boolean(),
-    linksAdded: z.boolean(),
-    finalReview: z.boolean(),
-    articlePath: z.string()
-  }),
-  execute: async ({ inputData, mastra }) => {
-    const { articleSlug, draftComplete, enhancedComplete } = inputData
-    
-    if (!draftComplete || !enhancedComplete) {
-      throw new Error("Content phase must be complete before optimization phase")
-    }
-
-    // Get the SEO Optimization Agent
-    const optimizationAgent = mastra!.getAgent('seoOptimizationAgent')
-    
-    const optimizationPrompt = `Execute optimization phases 9-15 for article: "${articleSlug}"
+type OptimizationContext = {
+  articleSlug: string
+  articlePath: string
+  focusKeyword: string
+  articleType?: z.infer<typeof seoArticleWorkflowSchema>['articleType']
+}
+
+/**
+ * Runs phases 9-15 on enhanced-article.md and writes the results. Feedback
+ * from a rejected publication review is passed on to the agent.
+ */
+async function optimizeArticle(
+  optimizationAgent: Agent,
+  { articleSlug, articlePath, focusKeyword, articleType }: OptimizationContext,
+  feedback?: string,
+  call?: AgentCall
+): Promise<OptimizationOutput> {
+  const profile = getScoringProfile(articleType)
+
+  const optimizationPrompt = `Execute optimization phases 9-15 for article: "${articleSlug}"
+
+Start from enhanced-article.md in the article folder. Focus keyword: "${focusKeyword}".
 
 Phase 9: SEO Metadata
 - Create meta title (50-60 chars) and description (120-156 chars)
 - Optimize H1 and finalize semantic keywords
-- Save as seo-metadata.md
 
 Phase 10: FAQ Generation
-- Extract PAA questions and create FAQ section
-- Generate JSON-LD schema for FAQPage
-- Save as faqs.json
+- Extract PAA questions and write at least ${MIN_FAQ_COUNT} questions with concise answers
 
 Phase 11: SGE/AI Optimization
 - Optimize for AI search engines and voice assistants
@@ -313,8 +620,8 @@ Phase 12: Visual & UX Enhancement
 - Improve scanability with formatting
 
 Phase 13: Yoast SEO & Humanization
-- Achieve 95+ SEO score with the SEO analyzer tool
-- Ensure natural, human-like tone
+- Achieve ${getQualityThresholds(profile).seoScore}+ SEO score with the SEO analyzer tool, passing articleType "${profile.articleType}" so it scores with the ${profile.label} profile
+- Ensure natural, human-like tone: rewrite each styleLint finding of the SEO analyzer tool as its suggestion says and re-run the tool until none remain
 
 Phase 14: Internal Linking
 - Add 3-7 contextual internal links
@@ -322,73 +629,298 @@ Phase 14: Internal Linking
 Phase 15: Final Review
 - Comprehensive quality check
 
-Use the article file manager and SEO analyzer tools to complete all phases.`
+Use the article file manager and SEO analyzer tools to complete all phases. Return the final article in Markdown, the metadata and the FAQs.${formatFeedback(feedback)}`
 
-    try {
-      // Execute all optimization phases
-      await optimizationAgent.generate([{
-        role: 'user',
-        content: optimizationPrompt
-      }], { maxSteps: 25 })
-
-      return {
-        metadataComplete: true,
-        faqsComplete: true,
-        sgeOptimized: true,
-        uxEnhanced: true,
-        yoastOptimized: true,
-        linksAdded: true,
-        finalReview: true,
-        articlePath: `generated-articles/${articleSlug}`
-      }
-    } catch (error) {
-      console.error('Optimization phase failed:', error)
-      // Partial completion fallback
-      return {
-        metadataComplete: false,
-        faqsComplete: false,
-        sgeOptimized: false,
-        uxEnhanced: false,
-        yoastOptimized: false,
-        linksAdded: false,
-        finalReview: false,
-        articlePath: `generated-articles/${articleSlug}`
-      }
+  const output = await generateOutput(optimizationAgent, optimizationPrompt, optimizationOutputSchema, 25, { ...call, phase: 'optimization' })
+  await writeOptimizationArtifacts(articlePath, output)
+  return output
+}
+
+async function writeOptimizationArtifacts(articlePath: string, { article, metadata, faqs }: OptimizationOutput): Promise<void> {
+  await writeArtifacts(articlePath, {
+    'enhanced-article.md': article,
+    'seo-metadata.md': formatMetadata(metadata),
+    'faqs.json': JSON.stringify({ faqs, schema: createFaqSchema(faqs) }, null, 2)
+  })
+}
+
+type ArticleContext = OptimizationContext & { semanticKeywords: string[] }
+
+/**
+ * Scores enhanced-article.md with the active profile and compares the scores
+ * with its thresholds
+ */
+async function assessQuality(
+  { articleSlug, articlePath, focusKeyword, semanticKeywords, articleType }: ArticleContext,
+  { metadata, faqs }: OptimizationOutput
+): Promise<Omit<Quality, 'iterations'>> {
+  const thresholds = getQualityThresholds(getScoringProfile(articleType))
+  const article = await fs.readFile(path.join(resolveArticleDir(articlePath), 'enhanced-article.md'), 'utf-8')
+
+  const analysis = SEOAnalyzer.analyzeAdvanced({
+    content: article,
+    title: metadata.title,
+    metaDescription: metadata.description,
+    keyword: focusKeyword,
+    synonyms: semanticKeywords,
+    url: articleSlug,
+    structuredData: JSON.stringify(createFaqSchema(faqs)),
+    articleType
+  }, false, { siteConfig: SITE_CONFIG })
+
+  const failing = (assessments: AssessmentResult[]) => assessments
+    .filter(assessment => !assessment.notApplicable && (assessment.rating === 'bad' || assessment.rating === 'ok'))
+    .map(({ id, rating, text }) => ({ id, rating, text }))
+
+  return {
+    thresholds,
+    seoScore: analysis.seoScore,
+    readabilityScore: analysis.readabilityScore,
+    overallScore: analysis.advanced.overallScore,
+    passed: analysis.seoScore >= thresholds.seoScore && analysis.readabilityScore >= thresholds.readabilityScore,
+    // Bad ratings first, SEO before readability
+    failingAssessments: [...failing(analysis.seoAssessments), ...failing(analysis.readabilityAssessments)]
+      .sort((a, b) => Number(b.rating === 'bad') - Number(a.rating === 'bad'))
+  }
+}
+
+/**
+ * Asks the optimization agent to fix the assessments that keep the article
+ * below the quality thresholds, and writes the revision
+ */
+async function reviseArticle(
+  optimizationAgent: Agent,
+  { articleSlug, articlePath, focusKeyword, articleType }: OptimizationContext,
+  quality: Quality,
+  call?: AgentCall
+): Promise<OptimizationOutput> {
+  const profile = getScoringProfile(articleType)
+  const revisionPrompt = `Revise the article "${articleSlug}" so it passes the SEO analyzer's quality gate.
+
+Start from enhanced-article.md in the article folder. Focus keyword: "${focusKeyword}".
+Current scores with the ${profile.label} profile: SEO ${quality.seoScore}/${quality.thresholds.seoScore}, readability ${quality.readabilityScore}/${quality.thresholds.readabilityScore}.
+
+Fix these failing assessments:
+${quality.failingAssessments.map(assessment => `- [${assessment.rating}] ${assessment.id}: ${assessment.text}`).join('\n')}
+
+Keep everything that already passes. Re-run the SEO analyzer tool with articleType "${profile.articleType}" to check your changes. Return the revised article in Markdown, the metadata and the FAQs.`
+
+  const output = await generateOutput(optimizationAgent, revisionPrompt, optimizationOutputSchema, 15, { ...call, phase: 'revision' })
+  await writeOptimizationArtifacts(articlePath, output)
+  return output
+}
+
+// Phase 9-15: Optimization & Polish
+const optimizationStep = createStep({
+  id: "optimization_phase",
+  description: "Execute optimization and polish phases 9-15",
+  inputSchema: contentStep.outputSchema,
+  outputSchema: optimizedArticleSchema,
+  execute: async ({ inputData, mastra, getInitData, runId, writer }) => {
+    const initData = getInitData<typeof seoArticleWorkflowSchema>()
+    const replayed = getReplayedOutput(initData, 'optimization_phase', optimizedArticleSchema)
+    if (replayed) return replayed
+
+    const { articleSlug, articlePath, focusKeyword, semanticKeywords } = inputData
+    const context = { articleSlug, articlePath, focusKeyword, semanticKeywords, articleType: initData.articleType }
+
+    // Get the SEO Optimization Agent
+    const optimizationAgent = mastra!.getAgent('seoOptimizationAgent')
+
+    const output = await optimizeArticle(optimizationAgent, context, undefined, { runId, userId: initData.userId, writer })
+    const quality = await assessQuality(context, output)
+
+    return { articleSlug, articlePath, focusKeyword, semanticKeywords, ...output, quality: { ...quality, iterations: [] } }
+  }
+})
+
+function shouldRevise(quality: Quality): boolean {
+  return !quality.passed && quality.iterations.length < MAX_OPTIMIZATION_ITERATIONS
+}
+
+// Quality gate: revises the article until the profile's thresholds are met or the budget runs out
+const qualityLoopStep = createStep({
+  id: "quality_loop",
+  description: "Revise the article until it meets the scoring profile's quality thresholds",
+  inputSchema: optimizedArticleSchema,
+  outputSchema: optimizedArticleSchema,
+  execute: async ({ inputData, mastra, getInitData, runId, writer }) => {
+    const initData = getInitData<typeof seoArticleWorkflowSchema>()
+    // A replayed loop result carries on from the revisions it made; later
+    // iterations already start past it, so it is used only once
+    const replayed = getReplayedOutput(initData, 'quality_loop', optimizedArticleSchema)
+    const current = replayed && replayed.quality.iterations.length > inputData.quality.iterations.length ? replayed : inputData
+
+    const { articleSlug, articlePath, focusKeyword, semanticKeywords, quality } = current
+    // The loop runs its step at least once, even when the first pass already passed
+    if (!shouldRevise(quality)) return current
+
+    const { articleType } = initData
+    const context = { articleSlug, articlePath, focusKeyword, semanticKeywords, articleType }
+
+    const output = await reviseArticle(mastra!.getAgent('seoOptimizationAgent'), context, quality, { runId, userId: initData.userId, writer })
+    const next = await assessQuality(context, output)
+    const iteration = {
+      iteration: quality.iterations.length + 1,
+      seoScore: next.seoScore,
+      readabilityScore: next.readabilityScore,
+      seoDelta: next.seoScore - quality.seoScore,
+      readabilityDelta: next.readabilityScore - quality.readabilityScore,
+      failingAssessments: quality.failingAssessments.map(assessment => assessment.id)
     }
+    console.log(`Quality iteration ${iteration.iteration}: SEO ${next.seoScore} (${iteration.seoDelta >= 0 ? '+' : ''}${iteration.seoDelta}), readability ${next.readabilityScore} (${iteration.readabilityDelta >= 0 ? '+' : ''}${iteration.readabilityDelta})`)
+
+    return { ...current, ...output, quality: { ...next, iterations: [...quality.iterations, iteration] } }
   }
 })
 
-// Human review step
-const reviewStep = createStep({
-  id: "human_review",
-  description: "Present completed article for human review",
-  inputSchema: z.object({
-    metadataComplete: z.boolean(),
-    faqsComplete: z.boolean(),
-    sgeOptimized: z.boolean(),
-    uxEnhanced: z.boolean(),
-    yoastOptimized: z.boolean(),
-    linksAdded: z.boolean(),
-    finalReview: z.boolean(),
-    articlePath: z.string()
-  }),
-  outputSchema: z.object({
-    reviewComplete: z.boolean(),
-    deliveryReady: z.boolean(),
-    summary: z.string()
-  }),
-  execute: async ({ inputData }) => {
-    const { articlePath, finalReview } = inputData
-    
-    if (!finalReview) {
-      throw new Error("Final review must be complete")
+/**
+ * Validates the FAQPage JSON-LD written to faqs.json in phase 10. Invalid
+ * markup would be published as is, so it fails the workflow.
+ */
+async function validateFaqSchema(articlePath: string): Promise<{ schema: unknown; faqCount: number; warnings: string[] }> {
+  const faqsPath = path.join(resolveArticleDir(articlePath), 'faqs.json')
+
+  let faqs: { faqs?: unknown[]; schema?: unknown }
+  try {
+    faqs = JSON.parse(await fs.readFile(faqsPath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Could not read the FAQ schema at ${faqsPath}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+
+  const validation = validateStructuredData(faqs.schema, ['FAQPage'])
+  if (!validation.valid) {
+    throw new Error(`Invalid FAQPage schema in ${faqsPath}:\n- ${formatSchemaIssues(validation.errors).join('\n- ')}`)
+  }
+  return {
+    schema: faqs.schema,
+    faqCount: Array.isArray(faqs.faqs) ? faqs.faqs.length : 0,
+    warnings: formatSchemaIssues(validation.warnings)
+  }
+}
+
+/**
+ * Required files that are missing or empty in the article folder
+ */
+async function findMissingFiles(articlePath: string): Promise<string[]> {
+  const articleDir = resolveArticleDir(articlePath)
+  const present = await Promise.all(REQUIRED_FILES.map(async fileName => {
+    try {
+      return (await fs.stat(path.join(articleDir, fileName))).size > 0
+    } catch {
+      return false
     }
+  }))
+  return REQUIRED_FILES.filter((_, index) => !present[index])
+}
+
+const reviewOutputSchema = z.object({
+  reviewComplete: z.boolean(),
+  deliveryReady: z.boolean(),
+  summary: z.string(),
+  articleSlug: z.string(),
+  articlePath: z.string(),
+  focusKeyword: z.string(),
+  content: z.string(),
+  metadata: metadataSchema,
+  wordCount: z.number(),
+  seoScore: z.number(),
+  readabilityScore: z.number(),
+  faqCount: z.number(),
+  missingFiles: z.array(z.string()),
+  optimizationIterations: z.array(qualityIterationSchema)
+})
 
-    return {
-      reviewComplete: true,
-      deliveryReady: true,
-      summary: `SEO-optimized article has been created and is ready for delivery at: ${articlePath}`
+// Result of a finished run
+export type SeoArticleResult = z.infer<typeof reviewOutputSchema>
+
+/**
+ * Checks the artifacts on disk and scores the final article
+ */
+async function verifyArticle(
+  { articleSlug, articlePath, focusKeyword, semanticKeywords, articleType }: ArticleContext,
+  { article, metadata }: OptimizationOutput
+): Promise<Omit<z.infer<typeof reviewOutputSchema>, 'optimizationIterations'>> {
+  const missingFiles = await findMissingFiles(articlePath)
+  const { schema, faqCount, warnings } = await validateFaqSchema(articlePath)
+  const thresholds = getQualityThresholds(getScoringProfile(articleType))
+
+  const analysis = SEOAnalyzer.analyze({
+    content: article,
+    title: metadata.title,
+    metaDescription: metadata.description,
+    keyword: focusKeyword,
+    synonyms: semanticKeywords,
+    url: articleSlug,
+    structuredData: JSON.stringify(schema),
+    articleType
+  }, false, { siteConfig: SITE_CONFIG })
+  const { wordCount } = SEOAnalyzer.analyzeContent(article, focusKeyword, semanticKeywords)
+
+  const problems = [
+    ...(missingFiles.length > 0 ? [`missing files: ${missingFiles.join(', ')}`] : []),
+    ...(analysis.seoScore < thresholds.seoScore ? [`SEO score ${analysis.seoScore} is below ${thresholds.seoScore}`] : []),
+    ...(analysis.readabilityScore < thresholds.readabilityScore ? [`readability ${analysis.readabilityScore} is below ${thresholds.readabilityScore}`] : []),
+    ...(faqCount < MIN_FAQ_COUNT ? [`only ${faqCount} of ${MIN_FAQ_COUNT} FAQs`] : [])
+  ]
+  const warningNote = warnings.length > 0
+    ? ` Schema recommendations: ${warnings.join('; ')}`
+    : ''
+  const status = problems.length === 0
+    ? `SEO-optimized article is ready for delivery at: ${articlePath}.`
+    : `Article at ${articlePath} needs attention before delivery: ${problems.join('; ')}.`
+
+  return {
+    reviewComplete: true,
+    deliveryReady: problems.length === 0,
+    summary: `${status} SEO score ${analysis.seoScore}, readability ${analysis.readabilityScore}, ${faqCount} FAQs.${warningNote}`,
+    articleSlug,
+    articlePath,
+    focusKeyword,
+    content: article,
+    metadata,
+    wordCount,
+    seoScore: analysis.seoScore,
+    readabilityScore: analysis.readabilityScore,
+    faqCount,
+    missingFiles
+  }
+}
+
+// Human review step: verifies the article and waits for a reviewer to approve it for publication
+const reviewStep = createStep({
+  id: "human_review",
+  description: "Verify the article files, FAQs and SEO score, then suspend for human review",
+  inputSchema: qualityLoopStep.outputSchema,
+  outputSchema: reviewOutputSchema,
+  resumeSchema: reviewDecisionSchema,
+  suspendSchema: reviewRequestSchema,
+  execute: async ({ inputData, mastra, getInitData, resumeData, suspend, runId, writer }) => {
+    const { articleSlug, articlePath, focusKeyword, semanticKeywords, article, metadata, faqs, quality } = inputData
+    const { articleType, userId, autoApprove } = getInitData<typeof seoArticleWorkflowSchema>()
+    const context = { articleSlug, articlePath, focusKeyword, semanticKeywords, articleType }
+    const loopNote = quality.iterations.length > 0
+      ? ` The quality loop made ${quality.iterations.length} revision(s): ${quality.iterations.map(({ seoDelta }) => `${seoDelta >= 0 ? '+' : ''}${seoDelta}`).join(', ')} SEO.`
+      : ''
+
+    const review = await reviewCheckpoint({
+      checkpoint: 'publication',
+      schema: optimizationOutputSchema,
+      decision: resumeData,
+      autoApprove,
+      // A rejection reruns phases 9-15 on the article on disk
+      produce: async feedback => feedback
+        ? optimizeArticle(mastra!.getAgent('seoOptimizationAgent'), context, feedback, { runId, userId, writer })
+        : { article, metadata, faqs },
+      describe: async output => `${(await verifyArticle(context, output)).summary}${loopNote}`
+    })
+    if (!review.approved) return suspend(review.request)
+
+    // Edits replace the files the optimization phase wrote
+    if (resumeData?.action === 'edit') {
+      await writeOptimizationArtifacts(articlePath, review.artifact)
     }
+    return { ...(await verifyArticle(context, review.artifact)), optimizationIterations: quality.iterations }
   }
 })
 
@@ -396,15 +928,34 @@ export const seoArticleWorkflow = createWorkflow({
   id: "seoArticleWorkflow",
   description: "Complete SEO article creation workflow with 15 phases",
   inputSchema: seoArticleWorkflowSchema,
-  outputSchema: z.object({
-    reviewComplete: z.boolean(),
-    deliveryReady: z.boolean(),
-    summary: z.string()
-  })
+  outputSchema: reviewStep.outputSchema
 })
   .then(researchStep)
   .then(structureStep)
   .then(contentStep)
   .then(optimizationStep)
+  .dowhile(qualityLoopStep, async ({ inputData }) => shouldRevise(inputData.quality))
   .then(reviewStep)
-  .commit()
\ No newline at end of file
+  .commit()
+
+/**
+ * Outputs of the steps before `stepId` in an earlier run, for a retry that
+ * starts at that step. Undefined when the step is unknown or one of the
+ * steps before it did not succeed.
+ */
+export function getReplaySteps(
+  steps: Record<string, { status: string; output?: unknown } | undefined>,
+  stepId: string
+): Record<string, unknown> | undefined {
+  const stepIds = Object.keys(seoArticleWorkflow.steps)
+  const index = stepIds.indexOf(stepId)
+  if (index === -1) return undefined
+
+  const replay: Record<string, unknown> = {}
+  for (const previousId of stepIds.slice(0, index)) {
+    const step = steps[previousId]
+    if (step?.status !== 'success') return undefined
+    replay[previousId] = step.output
+  }
+  return replay
+}
@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose'
+import { ARTICLE_TYPES } from '@/lib/seo-analyzer/profiles'
+import type { ArticleType } from '@/lib/seo-analyzer/types'
 
 export interface IArticle extends Document {
   title: string
@@ -7,10 +9,14 @@ export interface IArticle extends Document {
   metaDescription?: string
   focusKeyword?: string
   semanticKeywords: string[]
+  // Selects the scoring profile the article is analyzed with
+  articleType: ArticleType
   seoScore: number
   readabilityScore: number
   status: 'draft' | 'in-progress' | 'review' | 'published'
   userId: string
+  // Clerk organization the article belongs to, shared with the team
+  orgId?: string
   userEmail: string
   createdAt: Date
   updatedAt: Date
@@ -52,6 +58,11 @@ const ArticleSchema = new Schema<IArticle>({
     type: String,
     trim: true
   }],
+  articleType: {
+    type: String,
+    enum: ARTICLE_TYPES,
+    default: 'informational'
+  },
   seoScore: {
     type: Number,
     default: 0,
@@ -73,6 +84,9 @@ const ArticleSchema = new Schema<IArticle>({
     type: String,
     required: true
   },
+  orgId: {
+    type: String
+  },
   userEmail: {
     type: String,
     required: true
@@ -96,6 +110,7 @@ const ArticleSchema = new Schema<IArticle>({
 
 // Index for efficient queries
 ArticleSchema.index({ userId: 1, createdAt: -1 })
+ArticleSchema.index({ orgId: 1, focusKeyword: 1 })
 ArticleSchema.index({ slug: 1 })
 ArticleSchema.index({ status: 1 })
 
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface IAssessmentSnapshot {
+  id: string
+  category: 'seo' | 'readability'
+  rating: 'error' | 'feedback' | 'bad' | 'ok' | 'good'
+  score: number
+}
+
+// One analysis of an article; the article itself only keeps the latest scores
+export interface IArticleAnalysis extends Document {
+  articleId: Types.ObjectId
+  // User who triggered the analysis
+  userId: string
+  contentHash: string
+  seoScore: number
+  readabilityScore: number
+  assessments: IAssessmentSnapshot[]
+  createdAt: Date
+}
+
+const AssessmentSnapshotSchema = new Schema<IAssessmentSnapshot>({
+  id: {
+    type: String,
+    required: true
+  },
+  category: {
+    type: String,
+    enum: ['seo', 'readability'],
+    required: true
+  },
+  rating: {
+    type: String,
+    enum: ['error', 'feedback', 'bad', 'ok', 'good'],
+    required: true
+  },
+  score: {
+    type: Number,
+    required: true
+  }
+}, {
+  _id: false
+})
+
+const ArticleAnalysisSchema = new Schema<IArticleAnalysis>({
+  articleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Article',
+    required: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  contentHash: {
+    type: String,
+    required: true
+  },
+  seoScore: {
+    type: Number,
+    min: 0,
+    max: 100,
+    required: true
+  },
+  readabilityScore: {
+    type: Number,
+    min: 0,
+    max: 100,
+    required: true
+  },
+  assessments: [AssessmentSnapshotSchema]
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+})
+
+ArticleAnalysisSchema.index({ articleId: 1, createdAt: -1 })
+
+// Use a function to get the model to avoid build-time issues
+function getArticleAnalysisModel() {
+  if (!mongoose.models.ArticleAnalysis) {
+    return mongoose.model<IArticleAnalysis>('ArticleAnalysis', ArticleAnalysisSchema)
+  }
+  return mongoose.models.ArticleAnalysis as mongoose.Model<IArticleAnalysis>
+}
+
+export const ArticleAnalysis = mongoose.models.ArticleAnalysis || getArticleAnalysisModel()